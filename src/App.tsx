@@ -8,6 +8,7 @@ import { DashboardPage } from './pages/DashboardPage';
 import { ContactsPage } from './pages/ContactsPage';
 import { SettingsPage } from './pages/SettingsPage';
 import { ProfileWorkspacePage } from './pages/ProfileWorkspacePage';
+import { ShareTargetPage } from './pages/ShareTargetPage';
 import { CaptureModal } from './components/jobs/CaptureModal';
 import { OnboardingWizard } from './components/onboarding/OnboardingWizard';
 import { ONBOARDING_STORAGE_KEY } from './lib/profileState';
@@ -30,6 +31,8 @@ export default function App() {
     [isLoading, dismissed, jobs.length],
   );
   const isProfileWorkspaceRoute = location.pathname.startsWith('/profile');
+  // Let a share queue itself even before onboarding is done.
+  const isShareTargetRoute = location.pathname === '/share-target';
 
   const handleOnboardingComplete = () => {
     localStorage.setItem(ONBOARDING_STORAGE_KEY, 'true');
@@ -48,7 +51,7 @@ export default function App() {
     );
   }
 
-  if (showOnboarding && !isProfileWorkspaceRoute) {
+  if (showOnboarding && !isProfileWorkspaceRoute && !isShareTargetRoute) {
     return <OnboardingWizard onComplete={handleOnboardingComplete} />;
   }
 
@@ -62,6 +65,7 @@ export default function App() {
         <Route path="/contacts" element={<ContactsPage />} />
         <Route path="/settings" element={<SettingsPage />} />
         <Route path="/profile" element={<ProfileWorkspacePage />} />
+        <Route path="/share-target" element={<ShareTargetPage />} />
       </Routes>
       <CaptureModal />
     </AppShell>
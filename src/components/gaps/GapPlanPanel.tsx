@@ -0,0 +1,175 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CheckCircle2, Plus, Target, Trash2 } from 'lucide-react';
+import { useStore } from '../../store/useStore';
+import { resolveScoreThresholds } from '../../lib/scoreBands';
+import {
+  aggregateGaps,
+  GAP_ITEM_KIND_LABELS,
+  GAP_ITEM_STATUS_LABELS,
+  suggestGapItemKind,
+  type GapGroup,
+} from '../../lib/gapPlan';
+import type { GapItem, GapItemKind, GapItemStatus } from '../../types';
+
+const KIND_OPTIONS = Object.keys(GAP_ITEM_KIND_LABELS) as GapItemKind[];
+const STATUS_OPTIONS: GapItemStatus[] = ['open', 'in_progress', 'done'];
+
+export function GapPlanPanel() {
+  const jobs = useStore((s) => s.jobs);
+  const profile = useStore((s) => s.profile);
+  const gapItems = useStore((s) => s.gapItems);
+  const addGapItem = useStore((s) => s.addGapItem);
+
+  const groups = useMemo(
+    () => aggregateGaps(jobs ?? [], gapItems ?? [], resolveScoreThresholds(profile)),
+    [jobs, gapItems, profile],
+  );
+  const closedItems = (gapItems ?? []).filter((item) => item.status === 'closed');
+  const untrackedClosed = closedItems.filter((item) => !groups.some((group) => group.item?.id === item.id));
+
+  if (groups.length === 0 && closedItems.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-neutral-200 p-6 shadow-sm text-center" data-testid="gap-plan">
+        <Target size={20} className="mx-auto text-neutral-400 mb-2" />
+        <p className="text-sm text-neutral-600">No open gaps across your Pursue jobs.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="gap-plan">
+      <p className="text-[11px] text-neutral-500">
+        Missing and partial requirements across your Pursue jobs, most-blocking first.
+      </p>
+      {groups.map((group) => (
+        <GapGroupCard
+          key={`${group.type}:${group.key}`}
+          group={group}
+          onTrack={() => addGapItem(group, suggestGapItemKind({ type: group.type, match: group.jobs[0]?.match ?? 'Missing' }))}
+        />
+      ))}
+      {untrackedClosed.length > 0 && (
+        <div className="bg-white rounded-lg border border-green-200 p-4 shadow-sm">
+          <h3 className="text-xs font-bold text-green-700 uppercase tracking-wider mb-2">Closed</h3>
+          <ul className="space-y-1.5">
+            {untrackedClosed.map((item) => (
+              <li key={item.id} className="flex items-start gap-2 text-xs text-neutral-700">
+                <CheckCircle2 size={14} className="text-green-600 shrink-0 mt-0.5" />
+                <span>
+                  <span className="font-medium">{item.description}</span>
+                  {item.closedReason && <span className="text-neutral-500"> — {item.closedReason}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function GapGroupCard({ group, onTrack }: { group: GapGroup; onTrack: () => void }) {
+  const navigate = useNavigate();
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-4 shadow-sm space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-neutral-900">{group.description}</p>
+          <p className="text-[11px] text-neutral-500">
+            {group.blockingCount > 0
+              ? `Blocks ${group.blockingCount} of ${group.jobs.length} job${group.jobs.length === 1 ? '' : 's'}`
+              : `Gap in ${group.jobs.length} job${group.jobs.length === 1 ? '' : 's'}`}
+          </p>
+        </div>
+        {!group.item && (
+          <button
+            type="button"
+            onClick={onTrack}
+            aria-label={`Track ${group.description}`}
+            className="inline-flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium text-white bg-brand-600 rounded-lg hover:bg-brand-700 shrink-0"
+          >
+            <Plus size={12} />
+            Track
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {group.jobs.map((ref) => (
+          <button
+            key={ref.jobId}
+            type="button"
+            onClick={() => navigate(`/job/${ref.jobId}`)}
+            className={`px-2 py-0.5 text-[11px] rounded-full border ${
+              ref.priority === 'Must' && ref.match === 'Missing'
+                ? 'border-red-200 bg-red-50 text-red-700'
+                : 'border-neutral-200 bg-neutral-50 text-neutral-600'
+            }`}
+          >
+            {ref.title} · {ref.company}
+          </button>
+        ))}
+      </div>
+
+      {group.item && <GapItemEditor item={group.item} />}
+    </div>
+  );
+}
+
+function GapItemEditor({ item }: { item: GapItem }) {
+  const updateGapItem = useStore((s) => s.updateGapItem);
+  const deleteGapItem = useStore((s) => s.deleteGapItem);
+
+  if (item.status === 'closed') {
+    return (
+      <p className="flex items-start gap-1.5 text-[11px] text-green-700">
+        <CheckCircle2 size={12} className="shrink-0 mt-0.5" />
+        {item.closedReason ?? GAP_ITEM_STATUS_LABELS.closed}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 pt-2 border-t border-neutral-100" data-testid="gap-item-editor">
+      <label className="text-[11px] text-neutral-600">
+        Plan
+        <select
+          value={item.kind}
+          onChange={(event) => updateGapItem(item.id, { kind: event.target.value as GapItemKind })}
+          className="mt-0.5 block rounded-lg border border-neutral-200 bg-white px-2 py-1 text-xs"
+        >
+          {KIND_OPTIONS.map((kind) => <option key={kind} value={kind}>{GAP_ITEM_KIND_LABELS[kind]}</option>)}
+        </select>
+      </label>
+      <label className="text-[11px] text-neutral-600">
+        Status
+        <select
+          value={item.status}
+          onChange={(event) => updateGapItem(item.id, { status: event.target.value as GapItemStatus })}
+          className="mt-0.5 block rounded-lg border border-neutral-200 bg-white px-2 py-1 text-xs"
+        >
+          {STATUS_OPTIONS.map((status) => <option key={status} value={status}>{GAP_ITEM_STATUS_LABELS[status]}</option>)}
+        </select>
+      </label>
+      <label className="text-[11px] text-neutral-600">
+        Due
+        <input
+          type="date"
+          value={item.dueDate ?? ''}
+          onChange={(event) => updateGapItem(item.id, { dueDate: event.target.value || undefined })}
+          className="mt-0.5 block rounded-lg border border-neutral-200 bg-white px-2 py-1 text-xs"
+        />
+      </label>
+      <button
+        type="button"
+        onClick={() => deleteGapItem(item.id)}
+        aria-label={`Stop tracking ${item.description}`}
+        className="p-1.5 text-neutral-400 hover:text-red-600"
+      >
+        <Trash2 size={14} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { CheckCircle2, ExternalLink, Mail, MapPin, X } from 'lucide-react';
+import { useStore } from '../../store/useStore';
+import { splitAlertDigest, type AlertCandidate } from '../../lib/alertDigest';
+import { findDuplicateCandidates } from '../../lib/jobDuplicates';
+import type { Job } from '../../types';
+
+interface AlertDigestModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function toJob(candidate: AlertCandidate): Partial<Job> {
+  return {
+    title: candidate.title,
+    company: candidate.company,
+    location: candidate.location,
+    locationType: candidate.locationType,
+    url: candidate.url,
+    source: candidate.source,
+    stage: 'Discovered',
+  };
+}
+
+/** Paste or drop a job-alert email, pick the postings worth keeping, and add them as Discovered. */
+export function AlertDigestModal({ open, onClose }: AlertDigestModalProps) {
+  const jobs = useStore((s) => s.jobs);
+  const importJobs = useStore((s) => s.importJobs);
+
+  const [input, setInput] = useState('');
+  const [kept, setKept] = useState<Record<string, boolean>>({});
+  const [adding, setAdding] = useState(false);
+  const [addedCount, setAddedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const digest = useMemo(() => (input.trim() ? splitAlertDigest(input) : null), [input]);
+  const tracked = useMemo(() => {
+    const matches = new Map<string, Job>();
+    for (const candidate of digest?.candidates ?? []) {
+      const [match] = findDuplicateCandidates(toJob(candidate), jobs ?? []);
+      if (match) matches.set(candidate.key, match.job);
+    }
+    return matches;
+  }, [digest, jobs]);
+
+  if (!open) return null;
+
+  const candidates = digest?.candidates ?? [];
+  // Postings already in the pipeline start unticked.
+  const isKept = (candidate: AlertCandidate) => kept[candidate.key] ?? !tracked.has(candidate.key);
+  const keepers = candidates.filter(isKept);
+
+  const loadInput = (value: string) => {
+    setInput(value);
+    setKept({});
+    setAddedCount(null);
+    setError(null);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      loadInput(await file.text());
+    } catch {
+      setError(`Couldn't read ${file.name}.`);
+    }
+  };
+
+  const setAll = (value: boolean) => {
+    setKept(Object.fromEntries(candidates.map((candidate) => [candidate.key, value])));
+  };
+
+  const handleAdd = async () => {
+    if (keepers.length === 0) return;
+    setAdding(true);
+    setError(null);
+    try {
+      const added = await importJobs(keepers.map(toJob));
+      setAddedCount(added.length);
+      setInput('');
+      setKept({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add jobs.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const close = () => {
+    loadInput('');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center">
+      <div className="absolute inset-0 bg-black/40" onClick={close} />
+
+      <div className="relative w-full md:max-w-2xl bg-white rounded-t-lg md:rounded-lg shadow-2xl max-h-[92vh] flex flex-col" data-testid="alert-digest">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-neutral-100">
+          <h2 className="text-lg font-semibold text-neutral-900">Triage a job alert email</h2>
+          <button
+            onClick={close}
+            className="p-1.5 rounded-lg text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {addedCount !== null && (
+            <p className="flex items-center gap-2 rounded-lg bg-green-50 px-3 py-2 text-sm text-green-800">
+              <CheckCircle2 size={16} />
+              Added {addedCount} job{addedCount !== 1 ? 's' : ''} to the pipeline as Discovered.
+            </p>
+          )}
+          {error && <p className="rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700">{error}</p>}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <label htmlFor="alert-digest-input" className="text-xs font-medium text-neutral-600">
+                Paste a LinkedIn, Indeed or Glassdoor alert (text or HTML), or choose an .eml file
+              </label>
+              <label className="inline-flex shrink-0 items-center gap-1.5 px-2.5 py-1 border border-neutral-200 rounded-lg text-xs font-medium text-neutral-700 hover:bg-neutral-50 cursor-pointer">
+                <Mail size={13} />
+                Choose file
+                <input type="file" accept=".eml,.html,.htm,.txt,message/rfc822,text/html,text/plain" onChange={handleFile} className="sr-only" />
+              </label>
+            </div>
+            <textarea
+              id="alert-digest-input"
+              value={input}
+              onChange={(event) => loadInput(event.target.value)}
+              rows={5}
+              className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-xs font-mono resize-y"
+            />
+          </div>
+
+          {digest && candidates.length === 0 && (
+            <p className="text-sm text-neutral-500">No job links found. Paste the full email, including its links.</p>
+          )}
+
+          {candidates.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-neutral-600" data-testid="alert-digest-summary">
+                  {candidates.length} job{candidates.length !== 1 ? 's' : ''} from {digest?.source === 'Other' ? 'this alert' : digest?.source}
+                  {digest?.subject && <span className="text-neutral-400"> · {digest.subject}</span>}
+                </p>
+                <div className="flex shrink-0 items-center gap-2 text-xs">
+                  <button type="button" onClick={() => setAll(true)} className="text-brand-700 hover:underline">Keep all</button>
+                  <button type="button" onClick={() => setAll(false)} className="text-neutral-500 hover:underline">Skip all</button>
+                </div>
+              </div>
+              <ul className="divide-y divide-neutral-100 rounded-lg border border-neutral-200">
+                {candidates.map((candidate) => {
+                  const existing = tracked.get(candidate.key);
+                  return (
+                    <li key={candidate.key} className="flex items-start gap-3 px-3 py-2.5">
+                      <input
+                        type="checkbox"
+                        checked={isKept(candidate)}
+                        onChange={(event) => setKept((current) => ({ ...current, [candidate.key]: event.target.checked }))}
+                        aria-label={`Keep ${candidate.title}`}
+                        className="mt-0.5"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-neutral-900 truncate">{candidate.title}</p>
+                        <p className="flex flex-wrap items-center gap-x-2 text-xs text-neutral-500">
+                          <span>{candidate.company || 'Unknown company'}</span>
+                          {candidate.location && (
+                            <span className="inline-flex items-center gap-0.5">
+                              <MapPin size={10} />
+                              {candidate.location}
+                            </span>
+                          )}
+                        </p>
+                        {existing && (
+                          <p className="mt-0.5 text-[11px] text-amber-700">
+                            Already in pipeline ({existing.stage})
+                          </p>
+                        )}
+                      </div>
+                      <a
+                        href={candidate.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        aria-label={`Open ${candidate.title}`}
+                        className="p-1 text-neutral-400 hover:text-brand-600"
+                      >
+                        <ExternalLink size={13} />
+                      </a>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-neutral-100 flex flex-col sm:flex-row gap-2">
+          <button
+            type="button"
+            onClick={close}
+            className="sm:flex-1 px-4 py-2 border border-neutral-200 rounded-lg text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+          >
+            {addedCount !== null ? 'Done' : 'Cancel'}
+          </button>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={adding || keepers.length === 0}
+            className="sm:flex-1 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 disabled:opacity-50"
+          >
+            {adding ? 'Adding...' : `Add ${keepers.length} to pipeline`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
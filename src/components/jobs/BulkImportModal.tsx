@@ -0,0 +1,260 @@
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { AlertTriangle, CheckCircle2, Copy, FileSpreadsheet, X } from 'lucide-react';
+import { useStore } from '../../store/useStore';
+import {
+  IMPORT_FIELD_LABELS,
+  buildImportPreview,
+  guessColumnMapping,
+  parseDelimitedText,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRowPreview,
+  type ParsedTable,
+} from '../../lib/csvImport';
+
+const FIELD_OPTIONS = Object.entries(IMPORT_FIELD_LABELS) as Array<[ImportField, string]>;
+const PREVIEW_ROW_LIMIT = 50;
+
+const STATUS_STYLES: Record<ImportRowPreview['status'], string> = {
+  ready: 'text-green-700 bg-green-50 ring-1 ring-green-200',
+  duplicate: 'text-amber-700 bg-amber-50 ring-1 ring-amber-200',
+  invalid: 'text-red-600 bg-red-50 ring-1 ring-red-200',
+};
+
+interface BulkImportModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function PreviewRow({ row }: { row: ImportRowPreview }) {
+  return (
+    <li className="px-3 py-2 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="w-10 shrink-0 text-neutral-400 tabular-nums">#{row.rowNumber}</span>
+        <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium capitalize ${STATUS_STYLES[row.status]}`}>
+          {row.status}
+        </span>
+        <span className="truncate text-neutral-800">
+          {row.job.title || <em className="text-neutral-400">No title</em>}
+          <span className="text-neutral-400"> · </span>
+          {row.job.company || <em className="text-neutral-400">No company</em>}
+        </span>
+        {row.job.stage && <span className="ml-auto shrink-0 text-neutral-500">{row.job.stage}</span>}
+      </div>
+      {row.duplicateOf && (
+        <p className="mt-1 pl-12 flex items-center gap-1 text-amber-700">
+          <Copy size={10} />
+          Same as {row.duplicateOf.inFile ? 'an earlier row' : 'a saved job'}: {row.duplicateOf.title} at {row.duplicateOf.company}
+          {row.duplicateOf.reasons.length > 0 && ` (${row.duplicateOf.reasons.join(', ')})`}
+        </p>
+      )}
+      {row.errors.map((error) => (
+        <p key={error} className="mt-1 pl-12 text-red-600">{error}</p>
+      ))}
+      {row.warnings.map((warning) => (
+        <p key={warning} className="mt-1 pl-12 text-neutral-500">{warning}</p>
+      ))}
+    </li>
+  );
+}
+
+/** Paste or upload a CSV/TSV of tracked jobs, map its columns, and import the new rows. */
+export function BulkImportModal({ open, onClose }: BulkImportModalProps) {
+  const jobs = useStore((s) => s.jobs);
+  const importJobs = useStore((s) => s.importJobs);
+
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [importing, setImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const table = useMemo<ParsedTable | null>(() => {
+    if (!text.trim()) return null;
+    const parsed = parseDelimitedText(text);
+    return parsed.headers.length > 0 ? parsed : null;
+  }, [text]);
+
+  const preview = useMemo(
+    () => (table ? buildImportPreview(table, mapping, jobs ?? []) : null),
+    [table, mapping, jobs],
+  );
+
+  if (!open) return null;
+
+  const loadText = (value: string) => {
+    setText(value);
+    setImportedCount(null);
+    setError(null);
+    const parsed = value.trim() ? parseDelimitedText(value) : null;
+    setMapping(parsed ? guessColumnMapping(parsed.headers) : []);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      loadText(await file.text());
+    } catch {
+      setError(`Couldn't read ${file.name}.`);
+    }
+  };
+
+  const setColumnField = (column: number, field: ImportField | null) => {
+    setMapping((current) => current.map((existing, index) => {
+      if (index === column) return field;
+      // A field feeds from one column; picking it elsewhere moves it.
+      return field && existing === field ? null : existing;
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const ready = preview.rows.filter((row) => row.status === 'ready').map((row) => row.job);
+    if (ready.length === 0) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const imported = await importJobs(ready);
+      setImportedCount(imported.length);
+      setText('');
+      setMapping([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const close = () => {
+    loadText('');
+    onClose();
+  };
+
+  const hasTitle = mapping.includes('title');
+  const hasCompany = mapping.includes('company');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center">
+      <div className="absolute inset-0 bg-black/40" onClick={close} />
+
+      <div className="relative w-full md:max-w-3xl bg-white rounded-t-lg md:rounded-lg shadow-2xl max-h-[92vh] flex flex-col" data-testid="bulk-import">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-neutral-100">
+          <h2 className="text-lg font-semibold text-neutral-900">Import jobs from a spreadsheet</h2>
+          <button
+            onClick={close}
+            className="p-1.5 rounded-lg text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {importedCount !== null && (
+            <p className="flex items-center gap-2 rounded-lg bg-green-50 px-3 py-2 text-sm text-green-800">
+              <CheckCircle2 size={16} />
+              Imported {importedCount} job{importedCount !== 1 ? 's' : ''}. Jobs with a description have been scored.
+            </p>
+          )}
+          {error && <p className="rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700">{error}</p>}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <label htmlFor="bulk-import-text" className="text-xs font-medium text-neutral-600">
+                Paste rows with a header line, or choose a CSV / TSV file
+              </label>
+              <label className="inline-flex items-center gap-1.5 px-2.5 py-1 border border-neutral-200 rounded-lg text-xs font-medium text-neutral-700 hover:bg-neutral-50 cursor-pointer">
+                <FileSpreadsheet size={13} />
+                Choose file
+                <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="sr-only" />
+              </label>
+            </div>
+            <textarea
+              id="bulk-import-text"
+              value={text}
+              onChange={(event) => loadText(event.target.value)}
+              rows={5}
+              placeholder={'Company,Role,Status,Link\nAcme,Director of Growth,Applied,https://...'}
+              className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-xs font-mono resize-y"
+            />
+          </div>
+
+          {table && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-neutral-800">Columns</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {table.headers.map((header, column) => (
+                  <div key={`${header}-${column}`} className="flex items-center gap-2 rounded-lg border border-neutral-200 px-3 py-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-xs font-medium text-neutral-800">{header || `Column ${column + 1}`}</p>
+                      <p className="truncate text-[11px] text-neutral-400">{table.rows[0]?.[column] || '—'}</p>
+                    </div>
+                    <select
+                      value={mapping[column] ?? ''}
+                      onChange={(event) => setColumnField(column, (event.target.value || null) as ImportField | null)}
+                      aria-label={`Field for ${header || `column ${column + 1}`}`}
+                      className="px-2 py-1 border border-neutral-300 rounded-lg text-xs"
+                    >
+                      <option value="">Skip</option>
+                      {FIELD_OPTIONS.map(([field, label]) => (
+                        <option key={field} value={field}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {(!hasTitle || !hasCompany) && (
+                <p className="flex items-center gap-1.5 text-xs text-amber-700">
+                  <AlertTriangle size={12} />
+                  Map a column to {!hasTitle ? 'Job title' : 'Company'}{!hasTitle && !hasCompany ? ' and Company' : ''} to import rows.
+                </p>
+              )}
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-3 text-xs" data-testid="bulk-import-summary">
+                <span className="font-medium text-green-700">{preview.readyCount} ready</span>
+                <span className="text-amber-700">{preview.duplicateCount} duplicate{preview.duplicateCount !== 1 ? 's' : ''}</span>
+                <span className="text-red-600">{preview.invalidCount} with errors</span>
+              </div>
+              <ul className="divide-y divide-neutral-100 rounded-lg border border-neutral-200 max-h-72 overflow-y-auto">
+                {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                  <PreviewRow key={row.rowNumber} row={row} />
+                ))}
+              </ul>
+              {preview.rows.length > PREVIEW_ROW_LIMIT && (
+                <p className="text-[11px] text-neutral-400">
+                  Showing the first {PREVIEW_ROW_LIMIT} of {preview.rows.length} rows.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 border-t border-neutral-100 flex flex-col sm:flex-row gap-2">
+          <button
+            type="button"
+            onClick={close}
+            className="sm:flex-1 px-4 py-2 border border-neutral-200 rounded-lg text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+          >
+            {importedCount !== null ? 'Done' : 'Cancel'}
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={importing || !preview || preview.readyCount === 0}
+            className="sm:flex-1 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 disabled:opacity-50"
+          >
+            {importing
+              ? 'Importing...'
+              : `Import ${preview?.readyCount ?? 0} job${preview?.readyCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,32 @@
-import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { useState, useEffect, useCallback, useMemo, type FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { X, Briefcase, Building2, Link, MapPin, FileText, Globe } from 'lucide-react';
+import { X, Briefcase, Building2, Link, MapPin, FileText, Globe, Copy, Code2 } from 'lucide-react';
 import { useStore } from '../../store/useStore';
-import type { LocationType } from '../../types';
+import { findDuplicateCandidates } from '../../lib/jobDuplicates';
+import { looksLikeStructuredPaste, parseJobPostingPaste, type JobPostingDraft } from '../../lib/jobPostingJsonLd';
+import { extractJdMetadata, type JdMetadata, type JdMetadataField } from '../../lib/jdMetadata';
+import type { CapturePrefill } from '../../lib/shareTarget';
+import { JdMetadataChips } from './JdMetadataChips';
+import type { EmploymentType, JobStageHint, LocationType } from '../../types';
 
 const LOCATION_TYPES: LocationType[] = ['Remote', 'Hybrid', 'In-person', 'Unknown'];
 
 const SOURCE_OPTIONS = ['LinkedIn', 'Indeed', 'Glassdoor', 'Referral', 'Company Site', 'AngelList', 'Other'];
 
+/** Fields the form has no input for, carried from a pasted JobPosting to the saved job. */
+type StructuredFields = Pick<JobPostingDraft, 'employmentType' | 'compRange' | 'compMin' | 'compMax' | 'postedAt' | 'captureSnapshot'>;
+
+/** Accepted JD metadata the form has no input for. */
+type AcceptedMetadata = Pick<JdMetadata, 'employmentType' | 'stageHint' | 'postedAt' | 'closesAt'>;
+
+const MIN_METADATA_JD_LENGTH = 40;
+
 export function CaptureModal() {
   const navigate = useNavigate();
   const addJob = useStore((s) => s.addJob);
+  const mergeJobs = useStore((s) => s.mergeJobs);
+  const removePendingShare = useStore((s) => s.removePendingShare);
+  const jobs = useStore((s) => s.jobs);
 
   const [open, setOpen] = useState(false);
   const [submitting, setSubmitting] = useState(false);
@@ -23,13 +39,35 @@ export function CaptureModal() {
   const [locationType, setLocationType] = useState<LocationType>('Unknown');
   const [jobDescription, setJobDescription] = useState('');
   const [source, setSource] = useState('');
+  const [structured, setStructured] = useState<StructuredFields | null>(null);
+  const [structuredError, setStructuredError] = useState<string | null>(null);
+  const [acceptedMetadata, setAcceptedMetadata] = useState<AcceptedMetadata>({});
+  const [dismissedMetadata, setDismissedMetadata] = useState<JdMetadataField[]>([]);
+  const [shareId, setShareId] = useState<string | null>(null);
 
-  // Listen for custom event to open
-  useEffect(() => {
-    const handler = () => setOpen(true);
-    window.addEventListener('open-capture-modal', handler);
-    return () => window.removeEventListener('open-capture-modal', handler);
-  }, []);
+  const duplicates = useMemo(() => {
+    if (!open || !title.trim() || !company.trim()) return [];
+    return findDuplicateCandidates({ title, company, url, location, jobDescription }, jobs ?? []).slice(0, 3);
+  }, [open, title, company, url, location, jobDescription, jobs]);
+
+  const metadataProposals = useMemo(() => {
+    if (!open || jobDescription.trim().length < MIN_METADATA_JD_LENGTH) return {};
+    const current: JdMetadata = {
+      title: title.trim(),
+      company: company.trim(),
+      location: location.trim(),
+      locationType,
+      employmentType: acceptedMetadata.employmentType ?? structured?.employmentType,
+      stageHint: acceptedMetadata.stageHint,
+      postedAt: acceptedMetadata.postedAt ?? structured?.postedAt,
+      closesAt: acceptedMetadata.closesAt,
+    };
+    const proposals = extractJdMetadata(jobDescription, new Date().toISOString());
+    return Object.fromEntries(
+      (Object.entries(proposals) as Array<[JdMetadataField, string]>)
+        .filter(([field, value]) => value !== current[field] && !dismissedMetadata.includes(field)),
+    ) as JdMetadata;
+  }, [open, jobDescription, title, company, location, locationType, acceptedMetadata, structured, dismissedMetadata]);
 
   const resetForm = useCallback(() => {
     setTitle('');
@@ -39,15 +77,48 @@ export function CaptureModal() {
     setLocationType('Unknown');
     setJobDescription('');
     setSource('');
+    setStructured(null);
+    setStructuredError(null);
+    setAcceptedMetadata({});
+    setDismissedMetadata([]);
+    setShareId(null);
   }, []);
 
+  // Listen for custom event to open; a detail prefills the form (shared jobs)
+  useEffect(() => {
+    const handler = (event: Event) => {
+      const prefill = (event as CustomEvent<CapturePrefill | undefined>).detail;
+      if (prefill) {
+        resetForm();
+        setTitle(prefill.title ?? '');
+        setCompany(prefill.company ?? '');
+        setUrl(prefill.url ?? '');
+        setSource(prefill.source ?? '');
+        setJobDescription(prefill.jobDescription ?? '');
+        setShareId(prefill.shareId ?? null);
+      }
+      setOpen(true);
+    };
+    window.addEventListener('open-capture-modal', handler);
+    return () => window.removeEventListener('open-capture-modal', handler);
+  }, [resetForm]);
+
   const handleClose = useCallback(() => {
     setOpen(false);
     resetForm();
   }, [resetForm]);
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
+  const acceptMetadata = (field: JdMetadataField, value: string) => {
+    if (field === 'title') setTitle(value);
+    else if (field === 'company') setCompany(value);
+    else if (field === 'location') setLocation(value);
+    else if (field === 'locationType') setLocationType(value as LocationType);
+    else if (field === 'employmentType') setAcceptedMetadata((prev) => ({ ...prev, employmentType: value as EmploymentType }));
+    else if (field === 'stageHint') setAcceptedMetadata((prev) => ({ ...prev, stageHint: value as JobStageHint }));
+    else setAcceptedMetadata((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const saveJob = async (mergeIntoId?: string) => {
     if (!title.trim() || !company.trim()) return;
 
     setSubmitting(true);
@@ -60,10 +131,23 @@ export function CaptureModal() {
         locationType,
         jobDescription: jobDescription.trim(),
         source: source.trim() || undefined,
+        ...structured,
+        ...(acceptedMetadata.employmentType ? { employmentType: acceptedMetadata.employmentType } : {}),
+        ...(acceptedMetadata.postedAt ? { postedAt: acceptedMetadata.postedAt } : {}),
+        closesAt: acceptedMetadata.closesAt,
+        scoringInputs: acceptedMetadata.stageHint
+          ? { mustHaveRequirements: [], experienceRequirements: [], skills: [], tools: [], benefits: [], stageHint: acceptedMetadata.stageHint }
+          : undefined,
       });
+      if (mergeIntoId) {
+        await mergeJobs(mergeIntoId, [job.id]);
+      }
+      if (shareId) {
+        await removePendingShare(shareId);
+      }
 
       handleClose();
-      navigate(`/job/${job.id}`);
+      navigate(`/job/${mergeIntoId ?? job.id}`);
     } catch (err) {
       console.error('Failed to add job:', err);
     } finally {
@@ -71,6 +155,43 @@ export function CaptureModal() {
     }
   };
 
+  // Page source or JSON-LD pasted into the description fills the form from
+  // its JobPosting block; fields the user already typed are kept.
+  const handleDescriptionChange = (value: string) => {
+    if (!looksLikeStructuredPaste(value)) {
+      setJobDescription(value);
+      return;
+    }
+
+    const draft = parseJobPostingPaste(value, new Date().toISOString());
+    if (!draft) {
+      setJobDescription(value);
+      setStructuredError('No job posting data found in the pasted page. Paste the description text instead.');
+      return;
+    }
+
+    setStructuredError(null);
+    setTitle((prev) => prev.trim() ? prev : draft.title ?? '');
+    setCompany((prev) => prev.trim() ? prev : draft.company ?? '');
+    setUrl((prev) => prev.trim() ? prev : draft.url ?? '');
+    setLocation((prev) => prev.trim() ? prev : draft.location ?? '');
+    setLocationType((prev) => prev !== 'Unknown' ? prev : draft.locationType ?? 'Unknown');
+    setJobDescription(draft.jobDescription ?? '');
+    setStructured({
+      employmentType: draft.employmentType,
+      compRange: draft.compRange,
+      compMin: draft.compMin,
+      compMax: draft.compMax,
+      postedAt: draft.postedAt,
+      captureSnapshot: draft.captureSnapshot,
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    await saveJob();
+  };
+
   if (!open) return null;
 
   return (
@@ -211,14 +332,66 @@ export function CaptureModal() {
             </label>
             <textarea
               value={jobDescription}
-              onChange={(e) => setJobDescription(e.target.value)}
-              placeholder="Paste the full job description here..."
+              onChange={(e) => handleDescriptionChange(e.target.value)}
+              placeholder="Paste the full job description here, or the page source to fill in the whole form..."
               rows={8}
               className="w-full px-3.5 py-2.5 bg-neutral-50 border border-neutral-200 rounded-lg text-sm text-neutral-900 placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-brand-500/30 focus:border-brand-500 resize-none"
             />
+            {structured && (
+              <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-[11px] text-neutral-600" data-testid="capture-structured">
+                <Code2 size={12} className="text-brand-600" />
+                <span>Filled from the page's job posting data</span>
+                {structured.employmentType && (
+                  <span className="rounded-full bg-neutral-100 px-2 py-0.5">{structured.employmentType}</span>
+                )}
+                {structured.compRange && <span className="rounded-full bg-neutral-100 px-2 py-0.5">{structured.compRange}</span>}
+                {structured.postedAt && (
+                  <span className="rounded-full bg-neutral-100 px-2 py-0.5">
+                    Posted {new Date(structured.postedAt).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+            )}
+            {structuredError && <p className="mt-1.5 text-[11px] text-amber-700">{structuredError}</p>}
           </div>
+
+          <JdMetadataChips
+            proposals={metadataProposals}
+            onAccept={acceptMetadata}
+            onDismiss={(field) => setDismissedMetadata((prev) => [...prev, field])}
+          />
         </form>
 
+        {/* Possible duplicates */}
+        {duplicates.length > 0 && (
+          <div className="mx-5 mb-1 rounded-lg border border-amber-200 bg-amber-50 px-3.5 py-3 space-y-2" data-testid="capture-duplicates">
+            <p className="flex items-center gap-1.5 text-xs font-semibold text-amber-800">
+              <Copy size={13} />
+              Looks like a job you already saved
+            </p>
+            {duplicates.map((match) => (
+              <div key={match.job.id} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-neutral-800 truncate">
+                    {match.job.title} · {match.job.company}
+                  </p>
+                  <p className="text-[11px] text-neutral-500 truncate">
+                    {match.job.stage} — {match.reasons.join('; ')}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  disabled={submitting}
+                  onClick={() => saveJob(match.job.id)}
+                  className="shrink-0 px-2.5 py-1 text-[11px] font-medium text-amber-800 bg-white border border-amber-300 rounded-lg hover:bg-amber-100 disabled:opacity-50"
+                >
+                  Merge into this job
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Footer */}
         <div className="px-5 py-4 border-t border-neutral-100 flex gap-3">
           <button
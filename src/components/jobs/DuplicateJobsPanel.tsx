@@ -0,0 +1,70 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { useStore } from '../../store/useStore';
+import { findDuplicateGroups } from '../../lib/jobDuplicates';
+import type { Job } from '../../types';
+
+export function DuplicateJobsPanel({ jobs }: { jobs: Job[] }) {
+  const mergeJobs = useStore((s) => s.mergeJobs);
+  const groups = useMemo(() => findDuplicateGroups(jobs), [jobs]);
+  const [expanded, setExpanded] = useState(false);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  if (groups.length === 0) return null;
+
+  const merge = async (survivorId: string, duplicateIds: string[]) => {
+    setMergingId(survivorId);
+    try {
+      await mergeJobs(survivorId, duplicateIds);
+    } finally {
+      setMergingId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50/60" data-testid="duplicate-jobs">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        aria-expanded={expanded}
+        className="w-full flex items-center gap-1.5 px-3 py-2 text-xs font-semibold text-amber-800"
+      >
+        {expanded ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <Copy size={13} />
+        {groups.length} possible duplicate{groups.length === 1 ? '' : 's'}
+      </button>
+
+      {expanded && (
+        <ul className="px-3 pb-3 space-y-2">
+          {groups.map((group) => (
+            <li key={group.survivor.id} className="bg-white rounded-lg border border-amber-100 p-3 space-y-1.5">
+              <p className="text-[11px] text-neutral-500">{group.reasons.join('; ')}</p>
+              <ul className="space-y-0.5">
+                {[group.survivor, ...group.duplicates].map((job) => (
+                  <li key={job.id} className="flex items-center gap-2 text-xs text-neutral-700">
+                    <span className="truncate">
+                      {job.title} · {job.company}
+                      {job.source ? ` (${job.source})` : ''}
+                    </span>
+                    <span className="text-[10px] text-neutral-400 shrink-0">{job.stage}</span>
+                    {job.id === group.survivor.id && (
+                      <span className="text-[10px] font-semibold text-green-700 bg-green-50 px-1.5 py-px rounded shrink-0">Keeps</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                disabled={mergingId !== null}
+                onClick={() => merge(group.survivor.id, group.duplicates.map((job) => job.id))}
+                className="px-2.5 py-1 text-[11px] font-medium text-white bg-brand-600 rounded-lg hover:bg-brand-700 disabled:opacity-50"
+              >
+                {mergingId === group.survivor.id ? 'Merging...' : 'Merge'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Check, Pencil, Sparkles, X } from 'lucide-react';
+import {
+  JD_METADATA_LABELS,
+  STAGE_HINT_LABELS,
+  describeMetadataValue,
+  type JdMetadata,
+  type JdMetadataField,
+} from '../../lib/jdMetadata';
+
+const FIELD_OPTIONS: Partial<Record<JdMetadataField, Array<{ value: string; label: string }>>> = {
+  locationType: ['Remote', 'Hybrid', 'In-person', 'Unknown'].map((value) => ({ value, label: value })),
+  employmentType: ['Full-time', 'Contract', 'Part-time', 'Freelance', 'Unknown'].map((value) => ({ value, label: value })),
+  stageHint: Object.entries(STAGE_HINT_LABELS).map(([value, label]) => ({ value, label })),
+};
+
+const DATE_FIELDS: JdMetadataField[] = ['postedAt', 'closesAt'];
+
+function MetadataChip({
+  field,
+  value,
+  onAccept,
+  onDismiss,
+}: {
+  field: JdMetadataField;
+  value: string;
+  onAccept: (value: string) => void;
+  onDismiss: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(DATE_FIELDS.includes(field) ? value.slice(0, 10) : value);
+  const label = JD_METADATA_LABELS[field];
+  const options = FIELD_OPTIONS[field];
+
+  if (editing) {
+    const save = () => {
+      const next = DATE_FIELDS.includes(field) && draft ? `${draft}T00:00:00.000Z` : draft.trim();
+      if (next) onAccept(next);
+      setEditing(false);
+    };
+    return (
+      <span className="inline-flex items-center gap-1 rounded-full border border-brand-300 bg-white pl-2.5 pr-1 py-0.5 text-[11px]">
+        <span className="text-neutral-500">{label}:</span>
+        {options ? (
+          <select
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            aria-label={label}
+            className="bg-transparent text-[11px] focus:outline-none"
+          >
+            {options.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        ) : (
+          <input
+            type={DATE_FIELDS.includes(field) ? 'date' : 'text'}
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                save();
+              }
+            }}
+            aria-label={label}
+            className="w-36 bg-transparent text-[11px] focus:outline-none"
+          />
+        )}
+        <button type="button" onClick={save} aria-label={`Save ${label}`} className="p-0.5 text-brand-700 hover:bg-brand-50 rounded-full">
+          <Check size={11} />
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 rounded-full border border-brand-200 bg-brand-50 pl-2.5 pr-1 py-0.5 text-[11px] text-brand-800">
+      <span className="text-brand-600">{label}:</span>
+      <span className="max-w-[12rem] truncate">{describeMetadataValue(field, value)}</span>
+      <button type="button" onClick={() => onAccept(value)} aria-label={`Use ${label}`} className="p-0.5 hover:bg-brand-100 rounded-full">
+        <Check size={11} />
+      </button>
+      <button type="button" onClick={() => setEditing(true)} aria-label={`Edit ${label}`} className="p-0.5 hover:bg-brand-100 rounded-full">
+        <Pencil size={10} />
+      </button>
+      <button type="button" onClick={onDismiss} aria-label={`Dismiss ${label}`} className="p-0.5 text-brand-500 hover:bg-brand-100 rounded-full">
+        <X size={10} />
+      </button>
+    </span>
+  );
+}
+
+/** Metadata proposals read from a pasted JD, each accepted, edited, or dismissed. */
+export function JdMetadataChips({
+  proposals,
+  onAccept,
+  onDismiss,
+}: {
+  proposals: JdMetadata;
+  onAccept: (field: JdMetadataField, value: string) => void;
+  onDismiss: (field: JdMetadataField) => void;
+}) {
+  const entries = Object.entries(proposals) as Array<[JdMetadataField, string]>;
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-brand-100 bg-brand-50/40 px-3 py-2.5 space-y-2" data-testid="jd-metadata">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 text-xs font-medium text-neutral-700">
+          <Sparkles size={12} className="text-brand-600" />
+          Found in the description
+        </p>
+        <button
+          type="button"
+          onClick={() => entries.forEach(([field, value]) => onAccept(field, value))}
+          className="px-2 py-0.5 text-[11px] font-medium text-white bg-brand-600 rounded-lg hover:bg-brand-700"
+        >
+          Use all
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {entries.map(([field, value]) => (
+          <MetadataChip
+            key={`${field}:${value}`}
+            field={field}
+            value={value}
+            onAccept={(next) => onAccept(field, next)}
+            onDismiss={() => onDismiss(field)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
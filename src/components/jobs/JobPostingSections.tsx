@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import { JD_SECTION_LABELS, segmentJobDescription } from '../../lib/jdSegmenter';
+import type { JdSection, JdSectionKind } from '../../types';
+
+const SECTION_STYLES: Record<JdSectionKind, string> = {
+  about: 'bg-sky-50 text-sky-700',
+  responsibilities: 'bg-violet-50 text-violet-700',
+  requirements: 'bg-amber-50 text-amber-700',
+  preferred: 'bg-yellow-50 text-yellow-700',
+  benefits: 'bg-emerald-50 text-emerald-700',
+  compensation: 'bg-green-50 text-green-700',
+  legal: 'bg-neutral-100 text-neutral-600',
+  other: 'bg-neutral-100 text-neutral-600',
+};
+
+export function JobPostingSections({
+  jobDescription,
+  sections,
+}: {
+  jobDescription: string;
+  sections?: JdSection[];
+}) {
+  // Jobs scored before segmentation existed have no stored sections.
+  const resolved = useMemo(
+    () => sections ?? segmentJobDescription(jobDescription),
+    [sections, jobDescription],
+  );
+
+  if (!jobDescription.trim() || resolved.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-4 shadow-sm space-y-2" data-testid="jd-sections">
+      <h4 className="text-xs font-bold text-neutral-700 uppercase tracking-wider">Posting sections</h4>
+      {resolved.length === 1 && resolved[0].kind === 'other' && (
+        <p className="text-[11px] text-neutral-500">
+          No section headings found, so every signal is read from the full posting.
+        </p>
+      )}
+      <div className="space-y-1.5">
+        {resolved.map((section, index) => {
+          const label = JD_SECTION_LABELS[section.kind];
+          const text = jobDescription.slice(section.start, section.end).trim();
+          return (
+            <details
+              key={`${section.start}-${index}`}
+              className="rounded-md border border-neutral-100"
+              open={section.kind !== 'legal'}
+            >
+              <summary className="cursor-pointer px-2.5 py-1.5 flex items-center gap-2 text-xs">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold ${SECTION_STYLES[section.kind]}`}>
+                  {label}
+                </span>
+                {section.heading && section.heading.toLowerCase() !== label.toLowerCase() && (
+                  <span className="text-neutral-500 truncate">{section.heading}</span>
+                )}
+              </summary>
+              <p className="px-2.5 pb-2 text-xs text-neutral-700 whitespace-pre-wrap break-words">{text}</p>
+            </details>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
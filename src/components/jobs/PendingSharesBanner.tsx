@@ -0,0 +1,43 @@
+import { Share2, X } from 'lucide-react';
+import { useStore } from '../../store/useStore';
+import { openShareInCapture, shareToCapturePrefill } from '../../lib/shareTarget';
+
+/** Jobs shared to the app that haven't been captured yet, oldest first. */
+export function PendingSharesBanner() {
+  const pendingShares = useStore((s) => s.pendingShares);
+  const removePendingShare = useStore((s) => s.removePendingShare);
+
+  const [next] = pendingShares ?? [];
+  if (!next) return null;
+
+  const count = pendingShares.length;
+  const preview = shareToCapturePrefill(next);
+  const label = preview.title
+    ? `${preview.title}${preview.company ? ` at ${preview.company}` : ''}`
+    : preview.url ?? 'Shared job';
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-brand-200 bg-brand-50 px-3.5 py-2.5" data-testid="pending-shares">
+      <Share2 size={15} className="shrink-0 text-brand-600" />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-medium text-brand-900">
+          {count} shared job{count !== 1 ? 's' : ''} waiting to be captured
+        </p>
+        <p className="truncate text-xs text-brand-700">{label}</p>
+      </div>
+      <button
+        onClick={() => openShareInCapture(next)}
+        className="shrink-0 px-3 py-1 bg-brand-600 text-white rounded-lg text-xs font-medium hover:bg-brand-700 cursor-pointer"
+      >
+        Capture
+      </button>
+      <button
+        onClick={() => removePendingShare(next.id)}
+        aria-label="Discard shared job"
+        className="shrink-0 p-1 rounded-lg text-brand-500 hover:bg-brand-100 cursor-pointer"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
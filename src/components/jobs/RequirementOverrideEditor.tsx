@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { RequirementOverrideChanges } from '../../lib/requirementOverrides';
+import type { Claim, Requirement, RequirementMatch, RequirementPriority } from '../../types';
+
+const MATCH_OPTIONS: RequirementMatch[] = ['Met', 'Partial', 'Missing'];
+const PRIORITY_OPTIONS: Array<{ value: RequirementPriority; label: string }> = [
+  { value: 'Must', label: 'Must-have' },
+  { value: 'Preferred', label: 'Preferred' },
+];
+
+export function RequirementOverrideEditor({
+  requirement,
+  proofs,
+  currentProofId,
+  onSave,
+  onClose,
+}: {
+  requirement: Requirement;
+  proofs: Claim[];
+  currentProofId?: string;
+  onSave: (changes: RequirementOverrideChanges | null) => Promise<void> | void;
+  onClose: () => void;
+}) {
+  const [match, setMatch] = useState<RequirementMatch>(requirement.match);
+  const [priority, setPriority] = useState<RequirementPriority>(requirement.priority);
+  const [proofId, setProofId] = useState(currentProofId ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const save = async (changes: RequirementOverrideChanges | null) => {
+    setSaving(true);
+    try {
+      await onSave(changes);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-2" data-testid="requirement-override-editor">
+      <label className="text-[11px] text-neutral-600">
+        Match
+        <select
+          value={match}
+          onChange={(event) => setMatch(event.target.value as RequirementMatch)}
+          className="mt-0.5 block rounded-lg border border-neutral-200 bg-white px-2 py-1 text-xs"
+        >
+          {MATCH_OPTIONS.map((option) => <option key={option} value={option}>{option}</option>)}
+        </select>
+      </label>
+      <label className="text-[11px] text-neutral-600">
+        Priority
+        <select
+          value={priority}
+          onChange={(event) => setPriority(event.target.value as RequirementPriority)}
+          className="mt-0.5 block rounded-lg border border-neutral-200 bg-white px-2 py-1 text-xs"
+        >
+          {PRIORITY_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </label>
+      <label className="text-[11px] text-neutral-600 min-w-[180px] flex-1">
+        Supporting proof
+        <select
+          value={proofId}
+          onChange={(event) => setProofId(event.target.value)}
+          className="mt-0.5 block w-full rounded-lg border border-neutral-200 bg-white px-2 py-1 text-xs"
+        >
+          <option value="">None</option>
+          {proofs.map((proof) => (
+            <option key={proof.id} value={proof.id}>{proof.role} at {proof.company}</option>
+          ))}
+        </select>
+      </label>
+      <div className="flex gap-1.5">
+        <button
+          type="button"
+          disabled={saving}
+          onClick={() => save({ match, priority, claim: proofs.find((proof) => proof.id === proofId) ?? null })}
+          className="px-2.5 py-1 text-[11px] font-medium text-white bg-brand-600 rounded-lg hover:bg-brand-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+        {requirement.scored && (
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => save(null)}
+            className="px-2.5 py-1 text-[11px] font-medium text-neutral-600 bg-white border border-neutral-200 rounded-lg hover:bg-neutral-50 disabled:opacity-50"
+          >
+            Use scored result
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-2.5 py-1 text-[11px] font-medium text-neutral-500 hover:text-neutral-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
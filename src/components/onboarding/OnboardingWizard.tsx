@@ -50,6 +50,8 @@ import {
   searchBenefitCatalog,
 } from '../../lib/benefitsCatalog';
 import { getCityTypeaheadOptions, loadRecentCities, saveRecentCity } from '../../lib/cityOptions';
+import { mergeImportedCredentials } from '../../lib/credentials';
+import { resolveOntology } from '../../lib/skillOntology';
 import type {
   Claim,
   HardFilters,
@@ -459,13 +461,16 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
       return;
     }
 
+    const ontology = resolveOntology(profile?.ontologyTerms);
     const result = forcedMode
       ? buildImportDraftFromText(resumeText, {
           mode: forcedMode,
           extractionDiagnostics: extractionDiagnostics || undefined,
+          ontology,
         })
       : buildBestImportDraftFromText(resumeText, {
           extractionDiagnostics: extractionDiagnostics || undefined,
+          ontology,
         });
     const suggestion = inferProfilePrefillSuggestion(result.diagnostics, result.draft);
     const sourceMeta = selectedFileMeta
@@ -492,7 +497,7 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
     setFileImportError(null);
     setTroubleshootOpen(false);
     setShowAdvancedPreferences(false);
-  }, [applyParsedSuggestions, extractionDiagnostics, resumeText, selectedFileMeta, setImportSession]);
+  }, [applyParsedSuggestions, extractionDiagnostics, profile?.ontologyTerms, resumeText, selectedFileMeta, setImportSession]);
 
   const handleTryAnotherMethod = useCallback(() => {
     if (!importSession || !resumeText.trim()) return;
@@ -634,12 +639,13 @@ export function OnboardingWizard({ onComplete }: OnboardingWizardProps) {
       setImportSession(nextSession);
       await updateProfile({
         digitalResume: importSession.draft,
+        credentials: mergeImportedCredentials(profile?.credentials, importSession.draft.credentials),
       });
       setImportedClaimsCount(imported);
     } finally {
       setSaving(false);
     }
-  }, [addClaim, importSession, setImportSession, updateProfile]);
+  }, [addClaim, importSession, profile?.credentials, setImportSession, updateProfile]);
 
   const handleDiscardDraft = useCallback(() => {
     setImportSession(null);
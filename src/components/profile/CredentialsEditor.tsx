@@ -0,0 +1,115 @@
+import { GraduationCap, Plus, Trash2 } from 'lucide-react';
+import { createCredential } from '../../lib/credentials';
+import type { CredentialRecord } from '../../types';
+
+function CredentialRow({
+  entry,
+  onChange,
+  onRemove,
+}: {
+  entry: CredentialRecord;
+  onChange: (next: CredentialRecord) => void;
+  onRemove: () => void;
+}) {
+  const isDegree = entry.kind === 'degree';
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_80px_auto] gap-1.5 items-center">
+      <input
+        value={entry.name}
+        onChange={(event) => onChange({ ...entry, name: event.target.value })}
+        placeholder={isDegree ? 'Degree, e.g. MBA' : 'Certification, e.g. PMP'}
+        aria-label={isDegree ? 'Degree' : 'Certification'}
+        className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+      />
+      <input
+        value={entry.field ?? ''}
+        onChange={(event) => onChange({ ...entry, field: event.target.value })}
+        disabled={!isDegree}
+        placeholder={isDegree ? 'Field of study' : '—'}
+        aria-label="Field of study"
+        className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs disabled:bg-neutral-50"
+      />
+      <input
+        value={entry.institution ?? ''}
+        onChange={(event) => onChange({ ...entry, institution: event.target.value })}
+        placeholder={isDegree ? 'School' : 'Issuer'}
+        aria-label={isDegree ? 'School' : 'Issuer'}
+        className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+      />
+      <input
+        type="number"
+        min={1950}
+        max={2100}
+        value={entry.year ?? ''}
+        onChange={(event) => onChange({ ...entry, year: event.target.value ? Number(event.target.value) : undefined })}
+        placeholder="Year"
+        aria-label="Year"
+        className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-1.5 rounded-lg text-neutral-400 hover:text-red-600 hover:bg-red-50"
+        aria-label={`Remove ${entry.name || (isDegree ? 'degree' : 'certification')}`}
+      >
+        <Trash2 size={12} />
+      </button>
+    </div>
+  );
+}
+
+export function CredentialsEditor({
+  credentials,
+  onChange,
+}: {
+  credentials: CredentialRecord[];
+  onChange: (next: CredentialRecord[]) => void;
+}) {
+  const updateEntry = (id: string, next: CredentialRecord) => {
+    // Editing an imported entry makes it a manual one so a re-import keeps it.
+    onChange(credentials.map((entry) => (entry.id === id ? { ...next, source: 'manual' } : entry)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-medium text-neutral-600 block flex items-center gap-1">
+        <GraduationCap size={12} /> Education & Certifications
+      </label>
+      {credentials.length === 0 && (
+        <p className="rounded-lg border border-dashed border-neutral-200 bg-neutral-50 px-3 py-2 text-xs text-neutral-500">
+          No degrees or certifications added. Importing a resume with an Education section fills these in.
+        </p>
+      )}
+      <div className="space-y-1.5">
+        {credentials.map((entry) => (
+          <CredentialRow
+            key={entry.id}
+            entry={entry}
+            onChange={(next) => updateEntry(entry.id, next)}
+            onRemove={() => onChange(credentials.filter((candidate) => candidate.id !== entry.id))}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onChange([...credentials, createCredential('degree')])}
+          className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+        >
+          <Plus size={12} /> Degree
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange([...credentials, createCredential('certification')])}
+          className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+        >
+          <Plus size={12} /> Certification
+        </button>
+      </div>
+      <p className="text-[11px] text-neutral-500">
+        Used to check degree and certification requirements in job descriptions.
+      </p>
+    </div>
+  );
+}
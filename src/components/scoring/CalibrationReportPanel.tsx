@@ -0,0 +1,117 @@
+import type { CalibrationReport } from '../../lib/scoreCalibration';
+import { MIN_CALIBRATION_SAMPLES, MIN_SAMPLES_PER_CLASS } from '../../lib/scoreCalibration';
+import type { ScoringWeights } from '../../types';
+
+const WEIGHT_LABELS: Record<keyof ScoringWeights, string> = {
+  roleScopeAuthority: 'Role scope',
+  compensationBenefits: 'Compensation',
+  companyStageAbility: 'Company stage',
+  domainFit: 'Domain fit',
+  riskPenaltyMax: 'Risk penalty cap',
+};
+
+function describeAuc(auc: number): string {
+  if (auc >= 0.8) return 'strong';
+  if (auc >= 0.7) return 'useful';
+  if (auc >= 0.6) return 'weak';
+  return 'no better than chance';
+}
+
+export function CalibrationReportPanel({
+  report,
+  currentWeights,
+  onAccept,
+  onReject,
+}: {
+  report: CalibrationReport;
+  currentWeights: ScoringWeights;
+  onAccept: (weights: ScoringWeights) => void;
+  onReject: () => void;
+}) {
+  const counts = (
+    <p className="text-xs text-neutral-600">
+      {report.sampleCount} closed or progressed job{report.sampleCount === 1 ? '' : 's'} · {report.positiveCount} got a response or
+      further · {report.negativeCount} closed without one · {report.pendingCount} still open
+    </p>
+  );
+
+  if (report.status === 'insufficient_data') {
+    return (
+      <div className="space-y-2 rounded-lg border border-neutral-200 bg-neutral-50 p-3">
+        {counts}
+        <p className="text-xs text-neutral-500">
+          Calibration needs at least {MIN_CALIBRATION_SAMPLES} finished jobs, with {MIN_SAMPLES_PER_CLASS} or more on each side.
+          Keep moving jobs to Response/Screen or Closed Lost and check back.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 bg-neutral-50 p-3">
+      {counts}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="rounded-lg bg-white border border-neutral-200 px-3 py-2">
+          <p className="text-[11px] text-neutral-500">Current scores</p>
+          <p className="text-sm font-semibold text-neutral-900">AUC {report.currentAuc.toFixed(2)}</p>
+          <p className="text-[11px] text-neutral-500">Predictive power is {describeAuc(report.currentAuc)}</p>
+        </div>
+        <div className="rounded-lg bg-white border border-neutral-200 px-3 py-2">
+          <p className="text-[11px] text-neutral-500">Fitted model</p>
+          <p className="text-sm font-semibold text-neutral-900">AUC {report.modelAuc.toFixed(2)}</p>
+          <p className="text-[11px] text-neutral-500">Brier {report.modelBrier.toFixed(3)} (lower is better)</p>
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[11px] text-neutral-500">
+            <th className="text-left font-medium py-1">Category</th>
+            <th className="text-right font-medium py-1">Current</th>
+            <th className="text-right font-medium py-1">Suggested</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(WEIGHT_LABELS) as Array<keyof ScoringWeights>).map((field) => {
+            const delta = report.suggestedWeights[field] - currentWeights[field];
+            return (
+              <tr key={field} className="border-t border-neutral-200">
+                <td className="py-1 text-neutral-700">{WEIGHT_LABELS[field]}</td>
+                <td className="py-1 text-right tabular-nums text-neutral-600">{currentWeights[field]}</td>
+                <td className="py-1 text-right tabular-nums font-semibold text-neutral-900">
+                  {report.suggestedWeights[field]}
+                  {delta !== 0 && (
+                    <span className={`ml-1 text-[10px] ${delta > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                      {delta > 0 ? `+${delta}` : delta}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-[11px] text-neutral-500">
+        Suggestions lean toward your current weights until you have more finished jobs. The fitted model is measured on the same jobs
+        it learned from, so treat its AUC as optimistic.
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onAccept(report.suggestedWeights)}
+          className="flex-1 bg-brand-600 text-white py-2 rounded-lg text-sm font-medium hover:bg-brand-700"
+        >
+          Use suggested weights
+        </button>
+        <button
+          type="button"
+          onClick={onReject}
+          className="flex-1 rounded-lg border border-neutral-200 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+        >
+          Keep current weights
+        </button>
+      </div>
+    </div>
+  );
+}
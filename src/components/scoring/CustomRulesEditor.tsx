@@ -0,0 +1,203 @@
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  CUSTOM_RULE_ACTIONS,
+  CUSTOM_RULE_FIELDS,
+  CUSTOM_RULE_OPERATOR_LABELS,
+  MAX_CUSTOM_RULE_POINTS,
+  createCustomRule,
+  createCustomRuleCondition,
+  getOperatorsForField,
+} from '../../lib/customRules';
+import type { CustomRuleAction, CustomRuleCondition, CustomRuleField, CustomRuleOperator, CustomScoringRule } from '../../types';
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+  canRemove,
+}: {
+  condition: CustomRuleCondition;
+  onChange: (next: CustomRuleCondition) => void;
+  onRemove: () => void;
+  canRemove: boolean;
+}) {
+  const operators = getOperatorsForField(condition.field);
+
+  return (
+    <div className="grid grid-cols-[1fr_1fr_1.4fr_auto] gap-1.5 items-center">
+      <select
+        value={condition.field}
+        onChange={(event) => {
+          const field = event.target.value as CustomRuleField;
+          const nextOperators = getOperatorsForField(field);
+          onChange({
+            ...condition,
+            field,
+            operator: nextOperators.includes(condition.operator) ? condition.operator : nextOperators[0],
+          });
+        }}
+        aria-label="Field"
+        className="rounded-lg border border-neutral-200 bg-white px-2 py-1.5 text-xs"
+      >
+        {CUSTOM_RULE_FIELDS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(event) => onChange({ ...condition, operator: event.target.value as CustomRuleOperator })}
+        aria-label="Operator"
+        className="rounded-lg border border-neutral-200 bg-white px-2 py-1.5 text-xs"
+      >
+        {operators.map((operator) => <option key={operator} value={operator}>{CUSTOM_RULE_OPERATOR_LABELS[operator]}</option>)}
+      </select>
+      <input
+        value={condition.value}
+        onChange={(event) => onChange({ ...condition, value: event.target.value })}
+        placeholder={condition.field === 'compensation' ? '150000' : 'crypto, web3'}
+        inputMode={condition.field === 'compensation' ? 'numeric' : undefined}
+        aria-label="Value"
+        className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={!canRemove}
+        className="p-1.5 rounded-lg text-neutral-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:hover:bg-transparent"
+        aria-label="Remove condition"
+      >
+        <Trash2 size={12} />
+      </button>
+    </div>
+  );
+}
+
+function RuleCard({
+  rule,
+  onChange,
+  onRemove,
+}: {
+  rule: CustomScoringRule;
+  onChange: (next: CustomScoringRule) => void;
+  onRemove: () => void;
+}) {
+  const updateCondition = (index: number, next: CustomRuleCondition) => {
+    onChange({ ...rule, conditions: rule.conditions.map((entry, entryIndex) => (entryIndex === index ? next : entry)) });
+  };
+
+  return (
+    <div className={`rounded-lg border p-3 space-y-3 ${rule.enabled ? 'border-neutral-200' : 'border-neutral-100 opacity-60'}`}>
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={rule.enabled}
+          onChange={(event) => onChange({ ...rule, enabled: event.target.checked })}
+          aria-label={`Enable ${rule.label || 'rule'}`}
+          className="h-4 w-4 rounded border-neutral-300"
+        />
+        <input
+          value={rule.label}
+          onChange={(event) => onChange({ ...rule, label: event.target.value })}
+          placeholder="Rule label, e.g. No crypto companies"
+          aria-label="Rule label"
+          className="flex-1 rounded-lg border border-neutral-200 px-3 py-2 text-sm font-medium"
+        />
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-2 rounded-lg text-neutral-400 hover:text-red-600 hover:bg-red-50"
+          aria-label={`Remove ${rule.label || 'rule'}`}
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center gap-1.5 text-xs text-neutral-600">
+          <span>When</span>
+          <select
+            value={rule.match}
+            onChange={(event) => onChange({ ...rule, match: event.target.value as CustomScoringRule['match'] })}
+            aria-label="Match mode"
+            className="rounded-lg border border-neutral-200 bg-white px-2 py-1 text-xs"
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          <span>of these are true</span>
+        </div>
+        {rule.conditions.map((condition, index) => (
+          <ConditionRow
+            key={index}
+            condition={condition}
+            canRemove={rule.conditions.length > 1}
+            onChange={(next) => updateCondition(index, next)}
+            onRemove={() => onChange({ ...rule, conditions: rule.conditions.filter((_, entryIndex) => entryIndex !== index) })}
+          />
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...rule, conditions: [...rule.conditions, createCustomRuleCondition()] })}
+          className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+        >
+          <Plus size={12} /> Add condition
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label className="text-xs font-medium text-neutral-600">Then</label>
+        <select
+          value={rule.action}
+          onChange={(event) => {
+            const action = event.target.value as CustomRuleAction;
+            onChange({ ...rule, action, points: action === 'points' ? rule.points ?? -5 : undefined });
+          }}
+          aria-label="Action"
+          className="rounded-lg border border-neutral-200 bg-white px-2 py-1.5 text-xs"
+        >
+          {CUSTOM_RULE_ACTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        {rule.action === 'points' && (
+          <input
+            type="number"
+            min={-MAX_CUSTOM_RULE_POINTS}
+            max={MAX_CUSTOM_RULE_POINTS}
+            value={rule.points ?? 0}
+            onChange={(event) => onChange({ ...rule, points: Number(event.target.value) })}
+            aria-label="Points"
+            className="w-20 rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function CustomRulesEditor({
+  rules,
+  onChange,
+}: {
+  rules: CustomScoringRule[];
+  onChange: (next: CustomScoringRule[]) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-xs text-neutral-500">No custom rules yet.</p>
+      )}
+      {rules.map((rule, index) => (
+        <RuleCard
+          key={rule.id}
+          rule={rule}
+          onChange={(next) => onChange(rules.map((entry, entryIndex) => (entryIndex === index ? next : entry)))}
+          onRemove={() => onChange(rules.filter((_, entryIndex) => entryIndex !== index))}
+        />
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rules, createCustomRule(`Rule ${rules.length + 1}`)])}
+        className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1.5 text-xs text-neutral-700 hover:bg-neutral-50"
+      >
+        <Plus size={12} /> Add rule
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { SUPPORTED_CURRENCIES } from '../../lib/compNormalization';
+import type { FxRate } from '../../types';
+
+export function FxRatesEditor({
+  baseCurrency,
+  rates,
+  onChange,
+}: {
+  baseCurrency: string;
+  rates: FxRate[];
+  onChange: (next: FxRate[]) => void;
+}) {
+  const used = new Set([baseCurrency, ...rates.map((entry) => entry.currency)]);
+  const nextCurrency = SUPPORTED_CURRENCIES.find((code) => !used.has(code)) ?? '';
+
+  const updateRow = (index: number, updates: Partial<FxRate>) => {
+    onChange(rates.map((entry, entryIndex) => (
+      entryIndex === index ? { ...entry, ...updates, updatedAt: new Date().toISOString() } : entry
+    )));
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {rates.map((entry, index) => (
+        <div key={index} className="grid grid-cols-[80px_auto_1fr_auto] gap-1.5 items-center text-xs">
+          <input
+            value={entry.currency}
+            onChange={(event) => updateRow(index, { currency: event.target.value.toUpperCase().slice(0, 3) })}
+            aria-label="Currency code"
+            placeholder="EUR"
+            className="rounded-lg border border-neutral-300 px-2 py-1.5 uppercase"
+          />
+          <span className="text-neutral-500">1 {entry.currency || '—'} =</span>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              step="0.0001"
+              value={Number.isFinite(entry.rate) && entry.rate > 0 ? entry.rate : ''}
+              onChange={(event) => updateRow(index, { rate: Number(event.target.value) })}
+              aria-label={`Rate for ${entry.currency || 'currency'}`}
+              className="w-full rounded-lg border border-neutral-300 px-2 py-1.5"
+            />
+            <span className="text-neutral-500">{baseCurrency}</span>
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(rates.filter((_, entryIndex) => entryIndex !== index))}
+            className="p-1.5 rounded-lg text-neutral-400 hover:text-red-600 hover:bg-red-50"
+            aria-label={`Remove ${entry.currency || 'rate'}`}
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rates, { currency: nextCurrency, rate: 0, updatedAt: new Date().toISOString() }])}
+        className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+      >
+        <Plus size={12} /> Add rate
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { createOntologyTerm } from '../../lib/skillOntology';
+import type { OntologyTerm, OntologyTermKind } from '../../types';
+
+function splitList(value: string): string[] {
+  return value.split(',').map((entry) => entry.trimStart());
+}
+
+export function OntologyTermsEditor({
+  terms,
+  onChange,
+}: {
+  terms: OntologyTerm[];
+  onChange: (next: OntologyTerm[]) => void;
+}) {
+  const updateTerm = (index: number, updates: Partial<OntologyTerm>) => {
+    onChange(terms.map((term, termIndex) => (termIndex === index ? { ...term, ...updates } : term)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {terms.length === 0 && (
+        <p className="rounded-lg border border-dashed border-neutral-200 bg-neutral-50 px-3 py-2 text-xs text-neutral-500">
+          Using the built-in list only.
+        </p>
+      )}
+      {terms.map((term, index) => (
+        <div key={index} className="rounded-lg border border-neutral-200 p-3 space-y-2">
+          <div className="grid grid-cols-[1fr_96px_auto] gap-1.5 items-center">
+            <input
+              value={term.canonical}
+              onChange={(event) => updateTerm(index, { canonical: event.target.value })}
+              placeholder="Name, e.g. Customer.io"
+              aria-label="Skill or tool name"
+              className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs font-medium"
+            />
+            <select
+              value={term.kind}
+              onChange={(event) => updateTerm(index, { kind: event.target.value as OntologyTermKind })}
+              aria-label="Type"
+              className="rounded-lg border border-neutral-200 bg-white px-2 py-1.5 text-xs"
+            >
+              <option value="tool">Tool</option>
+              <option value="skill">Skill</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(terms.filter((_, termIndex) => termIndex !== index))}
+              className="p-1.5 rounded-lg text-neutral-400 hover:text-red-600 hover:bg-red-50"
+              aria-label={`Remove ${term.canonical || 'entry'}`}
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-1.5">
+            <input
+              value={(term.aliases ?? []).join(', ')}
+              onChange={(event) => updateTerm(index, { aliases: splitList(event.target.value) })}
+              placeholder="Other names, e.g. Customer IO"
+              aria-label="Other names"
+              className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+            />
+            <input
+              value={term.parent ?? ''}
+              onChange={(event) => updateTerm(index, { parent: event.target.value })}
+              placeholder="Kind of, e.g. Marketing automation"
+              aria-label="Broader term"
+              className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+            />
+            <input
+              value={(term.related ?? []).join(', ')}
+              onChange={(event) => updateTerm(index, { related: splitList(event.target.value) })}
+              placeholder="Related, e.g. Braze, Iterable"
+              aria-label="Related terms"
+              className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...terms, createOntologyTerm()])}
+        className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+      >
+        <Plus size={12} /> Add skill or tool
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { createLocationPreference } from '../../lib/profilePreferences';
+import { createPersona } from '../../lib/personas';
+import type { LocationPreference, LocationPreferenceType, Profile, TargetPersona } from '../../types';
+
+const LOCATION_TYPES: LocationPreferenceType[] = ['Remote', 'Hybrid', 'Onsite'];
+
+function parseAmount(value: string): number | undefined {
+  const digits = value.replace(/[^\d]/g, '');
+  return digits ? Number.parseInt(digits, 10) : undefined;
+}
+
+function LocationRow({
+  preference,
+  onChange,
+  onRemove,
+}: {
+  preference: LocationPreference;
+  onChange: (next: LocationPreference) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="grid grid-cols-[96px_1fr_auto] gap-1.5 items-center">
+      <select
+        value={preference.type}
+        onChange={(event) => onChange({ ...preference, type: event.target.value as LocationPreferenceType })}
+        aria-label="Work arrangement"
+        className="rounded-lg border border-neutral-200 bg-white px-2 py-1.5 text-xs"
+      >
+        {LOCATION_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+      </select>
+      <input
+        value={preference.city ?? ''}
+        onChange={(event) => onChange({ ...preference, city: event.target.value })}
+        disabled={preference.type === 'Remote'}
+        placeholder={preference.type === 'Remote' ? 'Anywhere' : 'City, e.g. New York, NY'}
+        aria-label="City"
+        className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs disabled:bg-neutral-50"
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-1.5 rounded-lg text-neutral-400 hover:text-red-600 hover:bg-red-50"
+        aria-label="Remove location"
+      >
+        <Trash2 size={12} />
+      </button>
+    </div>
+  );
+}
+
+function PersonaCard({
+  persona,
+  onChange,
+  onRemove,
+}: {
+  persona: TargetPersona;
+  onChange: (next: TargetPersona) => void;
+  onRemove: () => void;
+}) {
+  const locations = persona.locationPreferences ?? [];
+
+  return (
+    <div className="rounded-lg border border-neutral-200 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <input
+          value={persona.name}
+          onChange={(event) => onChange({ ...persona, name: event.target.value })}
+          placeholder="Persona name, e.g. VP Growth, remote"
+          aria-label="Persona name"
+          className="flex-1 rounded-lg border border-neutral-200 px-3 py-2 text-sm font-medium"
+        />
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-2 rounded-lg text-neutral-400 hover:text-red-600 hover:bg-red-50"
+          aria-label={`Remove ${persona.name || 'persona'}`}
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <div>
+        <label className="text-xs font-medium text-neutral-600 mb-1 block">Target roles</label>
+        <input
+          value={persona.targetRoles.join(', ')}
+          onChange={(event) => onChange({ ...persona, targetRoles: event.target.value.split(',').map((role) => role.trimStart()) })}
+          placeholder="VP Growth, Head of Growth"
+          className="w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+        />
+        <p className="text-[11px] text-neutral-500 mt-1">Comma-separated. Breaks ties when two personas score a job the same.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs font-medium text-neutral-600 mb-1 block">Comp floor</label>
+          <input
+            inputMode="numeric"
+            value={persona.compFloor ? persona.compFloor.toLocaleString() : ''}
+            onChange={(event) => onChange({ ...persona, compFloor: parseAmount(event.target.value) })}
+            placeholder="Profile default"
+            className="w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-neutral-600 mb-1 block">Comp target</label>
+          <input
+            inputMode="numeric"
+            value={persona.compTarget ? persona.compTarget.toLocaleString() : ''}
+            onChange={(event) => onChange({ ...persona, compTarget: parseAmount(event.target.value) })}
+            placeholder="Profile default"
+            className="w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="text-xs font-medium text-neutral-600 block">Locations</label>
+        {locations.map((preference, index) => (
+          <LocationRow
+            key={preference.id}
+            preference={preference}
+            onChange={(next) => onChange({ ...persona, locationPreferences: locations.map((entry, entryIndex) => (entryIndex === index ? next : entry)) })}
+            onRemove={() => onChange({ ...persona, locationPreferences: locations.filter((_, entryIndex) => entryIndex !== index) })}
+          />
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...persona, locationPreferences: [...locations, createLocationPreference('Remote')] })}
+          className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+        >
+          <Plus size={12} /> Add location
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs font-medium text-neutral-600 mb-1 block">Max onsite days/week</label>
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={persona.hardFilters?.maxOnsiteDaysPerWeek ?? ''}
+            onChange={(event) => onChange({
+              ...persona,
+              hardFilters: {
+                ...persona.hardFilters,
+                maxOnsiteDaysPerWeek: event.target.value === '' ? undefined : Number(event.target.value),
+              },
+            })}
+            placeholder="Profile default"
+            className="w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-neutral-600 mb-1 block">Max travel %</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={persona.hardFilters?.maxTravelPercent ?? ''}
+            onChange={(event) => onChange({
+              ...persona,
+              hardFilters: {
+                ...persona.hardFilters,
+                maxTravelPercent: event.target.value === '' ? undefined : Number(event.target.value),
+              },
+            })}
+            placeholder="Profile default"
+            className="w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function PersonaEditor({
+  profile,
+  personas,
+  onChange,
+}: {
+  profile: Profile;
+  personas: TargetPersona[];
+  onChange: (next: TargetPersona[]) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      {personas.length === 0 && (
+        <p className="text-xs text-neutral-500">
+          No personas yet. Every job is scored against your profile as-is.
+        </p>
+      )}
+      {personas.map((persona, index) => (
+        <PersonaCard
+          key={persona.id}
+          persona={persona}
+          onChange={(next) => onChange(personas.map((entry, entryIndex) => (entryIndex === index ? next : entry)))}
+          onRemove={() => onChange(personas.filter((_, entryIndex) => entryIndex !== index))}
+        />
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...personas, createPersona(profile, `Persona ${personas.length + 1}`)])}
+        className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1.5 text-xs text-neutral-700 hover:bg-neutral-50"
+      >
+        <Plus size={12} /> Add persona
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { diffScoreRuns, type ScoreChangeCause } from '../../lib/scoreHistory';
+import { getFitLabelText } from '../../lib/scoreBands';
+import type { ScoreHistoryEntry } from '../../types';
+
+const CAUSE_LABELS: Record<ScoreChangeCause, string> = {
+  engine: 'Scoring logic updated',
+  profile: 'Your profile changed',
+  evidence: 'Your evidence changed',
+  job: 'Job details changed',
+};
+
+const SPARK_WIDTH = 240;
+const SPARK_HEIGHT = 48;
+
+function Sparkline({
+  history,
+  selectedIndex,
+  onSelect,
+}: {
+  history: ScoreHistoryEntry[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}) {
+  const step = history.length > 1 ? SPARK_WIDTH / (history.length - 1) : 0;
+  const points = history.map((entry, index) => ({
+    x: history.length > 1 ? index * step : SPARK_WIDTH / 2,
+    y: SPARK_HEIGHT - (Math.max(0, Math.min(100, entry.fitScore)) / 100) * (SPARK_HEIGHT - 8) - 4,
+  }));
+
+  return (
+    <svg
+      viewBox={`-6 0 ${SPARK_WIDTH + 12} ${SPARK_HEIGHT}`}
+      className="w-full h-12"
+      role="img"
+      aria-label={`Score history: ${history.map((entry) => Math.round(entry.fitScore)).join(', ')}`}
+    >
+      <polyline
+        points={points.map((point) => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        className="stroke-brand-500"
+        strokeWidth={2}
+        strokeLinejoin="round"
+      />
+      {points.map((point, index) => (
+        <circle
+          key={index}
+          cx={point.x}
+          cy={point.y}
+          r={index === selectedIndex ? 4 : 3}
+          className={`cursor-pointer ${index === selectedIndex ? 'fill-brand-600' : 'fill-white stroke-brand-500'}`}
+          strokeWidth={1.5}
+          onClick={() => onSelect(index)}
+        />
+      ))}
+    </svg>
+  );
+}
+
+function ReasonChanges({ title, added, removed }: { title: string; added: string[]; removed: string[] }) {
+  if (added.length === 0 && removed.length === 0) return null;
+  return (
+    <div>
+      <p className="text-[11px] font-semibold text-neutral-500 mb-0.5">{title}</p>
+      <ul className="space-y-0.5">
+        {added.map((reason) => (
+          <li key={`+${reason}`} className="text-xs text-green-700">+ {reason}</li>
+        ))}
+        {removed.map((reason) => (
+          <li key={`-${reason}`} className="text-xs text-neutral-500 line-through">{reason}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function formatRunDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : format(date, 'MMM d, yyyy h:mm a');
+}
+
+export function ScoreHistoryPanel({ history }: { history: ScoreHistoryEntry[] }) {
+  // null follows the latest run as new runs are appended.
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const index = selectedIndex === null ? history.length - 1 : Math.min(selectedIndex, history.length - 1);
+  const selected = history[index];
+  const previous = index > 0 ? history[index - 1] : null;
+  const diff = previous ? diffScoreRuns(previous, selected) : null;
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-4 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-neutral-700 uppercase tracking-wider">Score history</h4>
+        <span className="text-[11px] text-neutral-500">{history.length} run{history.length === 1 ? '' : 's'}</span>
+      </div>
+
+      <Sparkline history={history} selectedIndex={index} onSelect={setSelectedIndex} />
+
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-neutral-600">{formatRunDate(selected.scoredAt)}</span>
+        <span className="font-semibold text-neutral-900">
+          {Math.round(selected.fitScore)} · {getFitLabelText(selected.fitLabel)}
+        </span>
+      </div>
+      <p className="text-[11px] text-neutral-500">
+        {selected.engineVersion > 0 ? `Scoring engine v${selected.engineVersion}` : 'Scored before history tracking'}
+      </p>
+
+      {diff && previous && (
+        <div className="space-y-2 rounded-lg bg-neutral-50 border border-neutral-200 p-3">
+          <p className="text-xs text-neutral-700">
+            {diff.scoreDelta === 0 ? 'No score change' : `${diff.scoreDelta > 0 ? '+' : ''}${diff.scoreDelta} pts`} since previous run
+            {diff.labelChanged && ` · ${getFitLabelText(previous.fitLabel)} → ${getFitLabelText(selected.fitLabel)}`}
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {diff.causes.length > 0 ? (
+              diff.causes.map((cause) => (
+                <span key={cause} className="rounded-full bg-white border border-neutral-200 px-2 py-0.5 text-[11px] text-neutral-700">
+                  {CAUSE_LABELS[cause]}
+                  {cause === 'engine' && previous.engineVersion > 0 && ` (v${previous.engineVersion} → v${selected.engineVersion})`}
+                </span>
+              ))
+            ) : (
+              <span className="text-[11px] text-neutral-500">Inputs unchanged</span>
+            )}
+          </div>
+          <ReasonChanges title="Hard filters" added={diff.addedDisqualifiers} removed={diff.removedDisqualifiers} />
+          <ReasonChanges title="Reasons to pursue" added={diff.addedReasonsToPursue} removed={diff.removedReasonsToPursue} />
+          <ReasonChanges title="Reasons to pass" added={diff.addedReasonsToPass} removed={diff.removedReasonsToPass} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import { segmentHighlights, sumTracePoints } from '../../lib/scoreTrace';
+import type { ScoreTraceCategory, ScoreTraceEntry } from '../../types';
+
+const CATEGORY_ORDER: Array<{ category: ScoreTraceCategory; label: string }> = [
+  { category: 'disqualifier', label: 'Hard filters' },
+  { category: 'roleScopeAuthority', label: 'Role Scope & Authority' },
+  { category: 'compensationBenefits', label: 'Compensation & Benefits' },
+  { category: 'companyStageAbility', label: 'Company Stage' },
+  { category: 'domainFit', label: 'Domain Fit' },
+  { category: 'riskPenalty', label: 'Risk Penalty' },
+  { category: 'adjustment', label: 'Final adjustments' },
+];
+
+function formatPoints(points: number): string {
+  if (points === 0) return '0';
+  return points > 0 ? `+${points}` : `${points}`;
+}
+
+function traceKey(entry: ScoreTraceEntry, index: number): string {
+  return `${entry.ruleId}-${index}`;
+}
+
+export function ScoreTracePanel({
+  trace,
+  jobDescription,
+  fitScore,
+}: {
+  trace: ScoreTraceEntry[];
+  jobDescription: string;
+  fitScore: number;
+}) {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const selectedEntry = useMemo(
+    () => trace.find((entry, index) => traceKey(entry, index) === selectedKey) ?? null,
+    [trace, selectedKey],
+  );
+  const spans = useMemo(
+    () => (selectedEntry ? selectedEntry.spans : trace.flatMap((entry) => entry.spans)),
+    [trace, selectedEntry],
+  );
+  const segments = useMemo(() => segmentHighlights(jobDescription, spans), [jobDescription, spans]);
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-4 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-neutral-700 uppercase tracking-wider">Why this score</h4>
+        <span className="text-xs font-semibold text-neutral-700">
+          {sumTracePoints(trace)} pts → {Math.round(fitScore)}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {CATEGORY_ORDER.map(({ category, label }) => {
+          const entries = trace
+            .map((entry, index) => ({ entry, key: traceKey(entry, index) }))
+            .filter(({ entry }) => entry.category === category);
+          if (entries.length === 0) return null;
+
+          return (
+            <div key={category}>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-[11px] font-semibold text-neutral-500">{label}</p>
+                {category !== 'disqualifier' && (
+                  <p className="text-[11px] font-semibold text-neutral-500">{formatPoints(sumTracePoints(trace, category))}</p>
+                )}
+              </div>
+              <ul className="space-y-1">
+                {entries.map(({ entry, key }) => {
+                  const isSelected = key === selectedKey;
+                  return (
+                    <li key={key}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedKey(isSelected ? null : key)}
+                        aria-pressed={isSelected}
+                        className={`w-full flex items-start justify-between gap-2 rounded-lg px-2 py-1.5 text-left text-xs ${
+                          isSelected ? 'bg-brand-50 ring-1 ring-brand-200' : 'hover:bg-neutral-50'
+                        }`}
+                      >
+                        <span className={entry.category === 'disqualifier' ? 'text-red-700' : 'text-neutral-700'}>
+                          {entry.label}
+                          {entry.spans.length > 0 && (
+                            <span className="ml-1 text-[10px] text-neutral-400">
+                              {entry.spans.length} match{entry.spans.length === 1 ? '' : 'es'}
+                            </span>
+                          )}
+                        </span>
+                        {entry.category !== 'disqualifier' && (
+                          <span className={`shrink-0 font-semibold tabular-nums ${entry.points < 0 ? 'text-red-600' : 'text-neutral-900'}`}>
+                            {formatPoints(entry.points)}
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      {jobDescription.trim() && (
+        <div>
+          <p className="text-[11px] text-neutral-500 mb-1">
+            {selectedEntry ? `Highlighting: ${selectedEntry.label}` : 'Highlighting every matched phrase. Select a line above to focus it.'}
+          </p>
+          <div
+            data-testid="score-trace-jd"
+            className="max-h-72 overflow-y-auto whitespace-pre-wrap rounded-lg border border-neutral-200 bg-neutral-50 p-3 text-xs leading-relaxed text-neutral-700"
+          >
+            {segments.map((segment, index) =>
+              segment.highlighted ? (
+                <mark key={index} className="rounded bg-amber-100 px-0.5 text-neutral-900">{segment.text}</mark>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              ),
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { ROLE_FAMILY_PRESETS, createLexiconFromPreset } from '../../lib/scoringLexicons';
+import type { RiskSignalRule, RoleFamilyId, ScoringLexicon } from '../../types';
+
+type SignalListField = 'seniorTitles' | 'strategySignals' | 'teamSignals' | 'domainSignals' | 'excludedRoleKeywords' | 'excludedDutyPhrases';
+
+const SIGNAL_LISTS: Array<{ field: SignalListField; label: string; hint: string }> = [
+  { field: 'seniorTitles', label: 'Senior title signals', hint: 'Title words that indicate the level you are targeting.' },
+  { field: 'strategySignals', label: 'Strategic scope signals', hint: 'Phrases that show ownership and scope in the description.' },
+  { field: 'teamSignals', label: 'Team leadership signals', hint: 'Phrases that show people management.' },
+  { field: 'domainSignals', label: 'Domain signals', hint: 'Keywords for your target field. Each match adds to Domain Fit.' },
+  { field: 'excludedRoleKeywords', label: 'Excluded role titles', hint: 'Titles that disqualify a job outright.' },
+  { field: 'excludedDutyPhrases', label: 'Excluded hands-on duties', hint: 'Disqualify when these appear with hands-on or day-to-day language.' },
+];
+
+function SignalListEditor({
+  label,
+  hint,
+  values,
+  onChange,
+}: {
+  label: string;
+  hint: string;
+  values: string[];
+  onChange: (next: string[]) => void;
+}) {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const value = draft.trim().toLowerCase();
+    if (!value) return;
+    if (!values.includes(value)) onChange([...values, value]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs font-medium text-neutral-600 block">{label}</label>
+      <div className="rounded-lg border border-neutral-200 bg-white px-3 py-2">
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {values.map((value) => (
+            <span key={value} className="inline-flex items-center gap-1 rounded-full bg-neutral-100 text-neutral-700 text-xs px-2.5 py-1">
+              {value}
+              <button
+                type="button"
+                onClick={() => onChange(values.filter((entry) => entry !== value))}
+                className="text-neutral-500 hover:text-neutral-900"
+                aria-label={`Remove ${value}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {values.length === 0 && <span className="text-[11px] text-neutral-400 italic">No signals yet.</span>}
+        </div>
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' || event.key === ',') {
+              event.preventDefault();
+              commit();
+            }
+          }}
+          placeholder="Add a phrase and press Enter"
+          className="w-full border-0 p-0 text-xs focus:outline-none"
+        />
+      </div>
+      <p className="text-[11px] text-neutral-500">{hint}</p>
+    </div>
+  );
+}
+
+function RiskSignalEditor({
+  values,
+  onChange,
+}: {
+  values: RiskSignalRule[];
+  onChange: (next: RiskSignalRule[]) => void;
+}) {
+  const updateAt = (index: number, updates: Partial<RiskSignalRule>) => {
+    onChange(values.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...updates } : entry)));
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs font-medium text-neutral-600 block">Risk language</label>
+      <div className="space-y-1.5">
+        {values.map((signal, index) => (
+          <div key={index} className="grid grid-cols-[1fr_64px_2fr_auto] gap-1.5 items-center">
+            <input
+              value={signal.pattern}
+              onChange={(event) => updateAt(index, { pattern: event.target.value })}
+              placeholder="Phrase"
+              aria-label="Risk phrase"
+              className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+            />
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={signal.penalty}
+              onChange={(event) => updateAt(index, { penalty: Number(event.target.value) })}
+              aria-label="Penalty points"
+              className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+            />
+            <input
+              value={signal.flag}
+              onChange={(event) => updateAt(index, { flag: event.target.value })}
+              placeholder="Message shown on the job"
+              aria-label="Risk message"
+              className="rounded-lg border border-neutral-200 px-2 py-1.5 text-xs"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(values.filter((_, entryIndex) => entryIndex !== index))}
+              className="p-1.5 rounded-lg text-neutral-400 hover:text-red-600 hover:bg-red-50"
+              aria-label="Remove risk phrase"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...values, { pattern: '', penalty: 1, flag: '' }])}
+        className="inline-flex items-center gap-1 rounded-full border border-neutral-200 px-3 py-1 text-xs text-neutral-700 hover:bg-neutral-50"
+      >
+        <Plus size={12} /> Add risk phrase
+      </button>
+      <p className="text-[11px] text-neutral-500">Each phrase found in a job subtracts its penalty, up to the risk cap.</p>
+    </div>
+  );
+}
+
+export function ScoringLexiconEditor({
+  lexicon,
+  onChange,
+}: {
+  lexicon: ScoringLexicon;
+  onChange: (next: ScoringLexicon) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-2 items-end">
+        <div>
+          <label className="text-xs font-medium text-neutral-600 mb-1 block">Role family</label>
+          <select
+            value={lexicon.roleFamily}
+            onChange={(event) => onChange(createLexiconFromPreset(event.target.value as RoleFamilyId))}
+            className="h-10 w-full rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm"
+          >
+            {ROLE_FAMILY_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(createLexiconFromPreset(lexicon.roleFamily))}
+          className="h-10 inline-flex items-center gap-1.5 rounded-lg border border-neutral-200 px-3 text-xs text-neutral-600 hover:bg-neutral-50"
+        >
+          <RotateCcw size={12} /> Reset to preset
+        </button>
+      </div>
+      <p className="text-[11px] text-neutral-500">
+        Switching role family replaces the signals below with that preset. Edit any list to fit your search.
+      </p>
+
+      {SIGNAL_LISTS.map(({ field, label, hint }) => (
+        <SignalListEditor
+          key={field}
+          label={label}
+          hint={hint}
+          values={lexicon[field]}
+          onChange={(next) => onChange({ ...lexicon, [field]: next })}
+        />
+      ))}
+
+      <div>
+        <label className="text-xs font-medium text-neutral-600 mb-1 block">Excluded role description</label>
+        <input
+          value={lexicon.excludedRoleLabel}
+          onChange={(event) => onChange({ ...lexicon, excludedRoleLabel: event.target.value })}
+          className="w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+        />
+        <p className="text-[11px] text-neutral-500 mt-1">Shown as &ldquo;Role appears to require &hellip; as core function&rdquo;.</p>
+      </div>
+
+      <RiskSignalEditor
+        values={lexicon.riskSignals}
+        onChange={(next) => onChange({ ...lexicon, riskSignals: next })}
+      />
+    </div>
+  );
+}
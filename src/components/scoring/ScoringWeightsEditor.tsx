@@ -0,0 +1,146 @@
+import { ArrowRight } from 'lucide-react';
+import { DEFAULT_WEIGHTS } from '../../lib/scoring';
+import { SCORE_LABEL_THRESHOLDS, getFitLabelText } from '../../lib/scoreBands';
+import type { RescorePreview } from '../../lib/rescore';
+import type { FitLabel, ScoreThresholds, ScoringWeights } from '../../types';
+
+const WEIGHT_FIELDS: Array<{ field: keyof ScoringWeights; label: string; hint: string }> = [
+  { field: 'roleScopeAuthority', label: 'Role scope', hint: 'Seniority, strategic ownership, team leadership' },
+  { field: 'compensationBenefits', label: 'Compensation', hint: 'Pay vs. floor and target, benefits' },
+  { field: 'companyStageAbility', label: 'Company stage', hint: 'Funding stage and ability to pay' },
+  { field: 'domainFit', label: 'Domain fit', hint: 'Matches on your domain signals' },
+  { field: 'riskPenaltyMax', label: 'Risk penalty cap', hint: 'Most points risk language can subtract' },
+];
+
+const LABEL_CLASS: Record<FitLabel, string> = {
+  Pursue: 'bg-green-50 text-green-700',
+  Maybe: 'bg-amber-50 text-amber-700',
+  Pass: 'bg-neutral-100 text-neutral-600',
+};
+
+function NumberField({
+  label,
+  hint,
+  value,
+  defaultValue,
+  onChange,
+}: {
+  label: string;
+  hint: string;
+  value: number;
+  defaultValue: number;
+  onChange: (next: number) => void;
+}) {
+  return (
+    <div>
+      <label className="text-xs font-medium text-neutral-600 mb-1 block">{label}</label>
+      <input
+        type="number"
+        min={0}
+        max={100}
+        value={Number.isFinite(value) ? value : ''}
+        onChange={(event) => onChange(Number(event.target.value))}
+        aria-label={label}
+        className="w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+      />
+      <p className="text-[11px] text-neutral-500 mt-1">{hint} · default {defaultValue}</p>
+    </div>
+  );
+}
+
+export function ScoringWeightsEditor({
+  weights,
+  thresholds,
+  onWeightsChange,
+  onThresholdsChange,
+}: {
+  weights: ScoringWeights;
+  thresholds: ScoreThresholds;
+  onWeightsChange: (next: ScoringWeights) => void;
+  onThresholdsChange: (next: ScoreThresholds) => void;
+}) {
+  const maxScore = weights.roleScopeAuthority + weights.compensationBenefits + weights.companyStageAbility + weights.domainFit;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {WEIGHT_FIELDS.map(({ field, label, hint }) => (
+          <NumberField
+            key={field}
+            label={label}
+            hint={hint}
+            value={weights[field]}
+            defaultValue={DEFAULT_WEIGHTS[field]}
+            onChange={(next) => onWeightsChange({ ...weights, [field]: next })}
+          />
+        ))}
+      </div>
+      <p className={`text-[11px] ${maxScore === 100 ? 'text-neutral-500' : 'text-amber-700'}`}>
+        Category weights add up to {maxScore}. Scores are capped at 100.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3">
+        <NumberField
+          label="Pursue at or above"
+          hint="Minimum score for Pursue"
+          value={thresholds.pursueMin}
+          defaultValue={SCORE_LABEL_THRESHOLDS.pursueMin}
+          onChange={(next) => onThresholdsChange({ ...thresholds, pursueMin: next })}
+        />
+        <NumberField
+          label="Maybe at or above"
+          hint="Below this is Pass"
+          value={thresholds.maybeMin}
+          defaultValue={SCORE_LABEL_THRESHOLDS.maybeMin}
+          onChange={(next) => onThresholdsChange({ ...thresholds, maybeMin: next })}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function RescorePreviewPanel({ preview }: { preview: RescorePreview }) {
+  const { labelCounts, labelChanges } = preview;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 bg-neutral-50 p-3">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {(['Pursue', 'Maybe', 'Pass'] as const).map((label) => (
+          <div key={label} className="rounded-lg bg-white border border-neutral-200 px-2 py-1.5">
+            <p className="text-[11px] text-neutral-500">{label}</p>
+            <p className="text-sm font-semibold text-neutral-900">
+              {labelCounts[label].before} <span className="text-neutral-400">→</span> {labelCounts[label].after}
+            </p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-neutral-600">
+        {preview.scoredCount} job{preview.scoredCount === 1 ? '' : 's'} re-scored · {preview.scoreChanges} score
+        {preview.scoreChanges === 1 ? '' : 's'} change · {labelChanges.length} label
+        {labelChanges.length === 1 ? '' : 's'} change
+      </p>
+      {labelChanges.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-neutral-200 rounded-lg border border-neutral-200 bg-white">
+          {labelChanges.map((change) => (
+            <li key={change.jobId} className="flex items-center justify-between gap-2 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-neutral-900 truncate">{change.title || 'Untitled role'}</p>
+                <p className="text-[11px] text-neutral-500 truncate">{change.company}</p>
+              </div>
+              <div className="flex items-center gap-1.5 shrink-0 text-[11px]">
+                <span className={`rounded-full px-2 py-0.5 ${change.previousLabel ? LABEL_CLASS[change.previousLabel] : 'bg-neutral-100 text-neutral-500'}`}>
+                  {change.previousLabel ? getFitLabelText(change.previousLabel) : 'Unscored'}
+                  {change.previousScore !== undefined && ` · ${Math.round(change.previousScore)}`}
+                </span>
+                <ArrowRight size={10} className="text-neutral-400" />
+                <span className={`rounded-full px-2 py-0.5 ${LABEL_CLASS[change.nextLabel]}`}>
+                  {getFitLabelText(change.nextLabel)} · {Math.round(change.nextScore)}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
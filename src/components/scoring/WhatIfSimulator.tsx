@@ -0,0 +1,293 @@
+import { useState } from 'react';
+import { ArrowRight, FlaskConical, X } from 'lucide-react';
+import { useStore } from '../../store/useStore';
+import { BENEFITS_CATALOG } from '../../lib/benefitsCatalog';
+import { getAutoUsableProofs } from '../../lib/proofLibrary';
+import { getFitLabelText } from '../../lib/scoreBands';
+import { simulateProfilePatch, type ProfilePatch, type SimulationResult } from '../../lib/whatIfSimulator';
+import type { FitLabel, Profile, SeedStagePolicy } from '../../types';
+
+const LABEL_CLASS: Record<FitLabel, string> = {
+  Pursue: 'bg-green-50 text-green-700',
+  Maybe: 'bg-amber-50 text-amber-700',
+  Pass: 'bg-neutral-100 text-neutral-600',
+};
+
+const SEED_POLICY_OPTIONS: Array<{ id: SeedStagePolicy; label: string }> = [
+  { id: 'warn', label: 'Warn' },
+  { id: 'disqualify', label: 'Hard disqualify' },
+  { id: 'ignore', label: 'Ignore stage' },
+];
+
+interface WhatIfDraft {
+  compFloor: number;
+  maxOnsiteDaysPerWeek: number;
+  maxTravelPercent: number;
+  requiresVisaSponsorship: boolean;
+  seedStagePolicy: SeedStagePolicy;
+  requiredBenefitIds: string[];
+  targetRoles: string;
+}
+
+function draftFromProfile(profile: Profile): WhatIfDraft {
+  return {
+    compFloor: Math.max(profile.compFloor || 0, profile.hardFilters.minBaseSalary || 0),
+    maxOnsiteDaysPerWeek: profile.hardFilters.maxOnsiteDaysPerWeek,
+    maxTravelPercent: profile.hardFilters.maxTravelPercent,
+    requiresVisaSponsorship: profile.hardFilters.requiresVisaSponsorship,
+    seedStagePolicy: profile.scoringPolicy?.seedStagePolicy ?? 'warn',
+    requiredBenefitIds: profile.requiredBenefitIds,
+    targetRoles: profile.targetRoles.join(', '),
+  };
+}
+
+/** Only the fields that differ from the saved profile go into the patch. */
+function buildPatch(profile: Profile, draft: WhatIfDraft): ProfilePatch {
+  const saved = draftFromProfile(profile);
+  const patch: ProfilePatch = {};
+  const hardFilters: ProfilePatch['hardFilters'] = {};
+
+  if (draft.compFloor !== saved.compFloor) patch.compFloor = draft.compFloor;
+  if (draft.maxOnsiteDaysPerWeek !== saved.maxOnsiteDaysPerWeek) hardFilters.maxOnsiteDaysPerWeek = draft.maxOnsiteDaysPerWeek;
+  if (draft.maxTravelPercent !== saved.maxTravelPercent) hardFilters.maxTravelPercent = draft.maxTravelPercent;
+  if (draft.requiresVisaSponsorship !== saved.requiresVisaSponsorship) {
+    hardFilters.requiresVisaSponsorship = draft.requiresVisaSponsorship;
+  }
+  if (Object.keys(hardFilters).length > 0) patch.hardFilters = hardFilters;
+  if (draft.seedStagePolicy !== saved.seedStagePolicy) patch.seedStagePolicy = draft.seedStagePolicy;
+  if (draft.requiredBenefitIds.join('|') !== saved.requiredBenefitIds.join('|')) {
+    patch.requiredBenefitIds = draft.requiredBenefitIds;
+  }
+  const targetRoles = draft.targetRoles.split(',').map((role) => role.trim()).filter(Boolean);
+  if (targetRoles.join('|') !== profile.targetRoles.join('|')) patch.targetRoles = targetRoles;
+
+  return patch;
+}
+
+export function WhatIfSimulator({ profile }: { profile: Profile }) {
+  const jobs = useStore((s) => s.jobs);
+  const claims = useStore((s) => s.claims);
+  const [draft, setDraft] = useState<WhatIfDraft>(() => draftFromProfile(profile));
+  const [result, setResult] = useState<SimulationResult | null>(null);
+
+  const update = (changes: Partial<WhatIfDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setResult(null);
+  };
+
+  const patch = buildPatch(profile, draft);
+  const hasChanges = Object.keys(patch).length > 0;
+
+  const handleRun = () => {
+    setResult(simulateProfilePatch(jobs ?? [], profile, patch, getAutoUsableProofs(claims ?? [])));
+  };
+
+  const handleReset = () => {
+    setDraft(draftFromProfile(profile));
+    setResult(null);
+  };
+
+  const benefitLabel = (id: string) => BENEFITS_CATALOG.find((item) => item.id === id)?.label ?? id;
+  const addableBenefits = BENEFITS_CATALOG.filter((item) => !draft.requiredBenefitIds.includes(item.id));
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-5 shadow-sm space-y-4" data-testid="what-if-simulator">
+      <div>
+        <h3 className="text-h3 text-neutral-900 flex items-center gap-1.5">
+          <FlaskConical size={16} /> What-if simulator
+        </h3>
+        <p className="text-xs text-neutral-500">
+          Try a change to your filters before saving it. Every job is scored both ways in memory; nothing is saved.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="what-if-comp-floor" className="text-xs font-medium text-neutral-600 mb-1 block">
+            Minimum base salary
+          </label>
+          <input
+            id="what-if-comp-floor"
+            type="number"
+            min={0}
+            step={5000}
+            value={draft.compFloor}
+            onChange={(event) => update({ compFloor: Number(event.target.value) || 0 })}
+            className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="what-if-onsite" className="text-xs font-medium text-neutral-600 mb-1 block">
+            Max onsite days / week
+          </label>
+          <input
+            id="what-if-onsite"
+            type="number"
+            min={0}
+            max={5}
+            value={draft.maxOnsiteDaysPerWeek}
+            onChange={(event) => update({ maxOnsiteDaysPerWeek: Math.min(5, Math.max(0, Number(event.target.value) || 0)) })}
+            className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="what-if-travel" className="text-xs font-medium text-neutral-600 mb-1 block">
+            Max travel percent
+          </label>
+          <input
+            id="what-if-travel"
+            type="number"
+            min={0}
+            max={100}
+            value={draft.maxTravelPercent}
+            onChange={(event) => update({ maxTravelPercent: Math.min(100, Math.max(0, Number(event.target.value) || 0)) })}
+            className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="what-if-seed-policy" className="text-xs font-medium text-neutral-600 mb-1 block">
+            Early-stage company policy
+          </label>
+          <select
+            id="what-if-seed-policy"
+            value={draft.seedStagePolicy}
+            onChange={(event) => update({ seedStagePolicy: event.target.value as SeedStagePolicy })}
+            className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm bg-white"
+          >
+            {SEED_POLICY_OPTIONS.map((option) => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="what-if-target-roles" className="text-xs font-medium text-neutral-600 mb-1 block">
+          Target roles (comma separated)
+        </label>
+        <input
+          id="what-if-target-roles"
+          type="text"
+          value={draft.targetRoles}
+          onChange={(event) => update({ targetRoles: event.target.value })}
+          className="w-full px-3 py-2 border border-neutral-300 rounded-lg text-sm"
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-xs font-medium text-neutral-600 block">Required benefits</span>
+        <div className="flex flex-wrap gap-1.5">
+          {draft.requiredBenefitIds.map((id) => (
+            <span key={id} className="inline-flex items-center gap-1 rounded-full bg-brand-50 text-brand-700 px-2.5 py-1 text-[11px]">
+              {benefitLabel(id)}
+              <button
+                type="button"
+                aria-label={`Remove ${benefitLabel(id)}`}
+                onClick={() => update({ requiredBenefitIds: draft.requiredBenefitIds.filter((other) => other !== id) })}
+              >
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+          {draft.requiredBenefitIds.length === 0 && <span className="text-[11px] text-neutral-400">None required</span>}
+        </div>
+        <select
+          aria-label="Add a required benefit"
+          value=""
+          onChange={(event) => {
+            if (event.target.value) update({ requiredBenefitIds: [...draft.requiredBenefitIds, event.target.value] });
+          }}
+          className="rounded-lg border border-neutral-300 bg-white px-2 py-1 text-xs"
+        >
+          <option value="">Add a required benefit...</option>
+          {addableBenefits.map((item) => <option key={item.id} value={item.id}>{item.label}</option>)}
+        </select>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => update({ requiresVisaSponsorship: !draft.requiresVisaSponsorship })}
+        className={`inline-flex items-center rounded-full border px-3 py-1 text-xs ${
+          draft.requiresVisaSponsorship
+            ? 'border-brand-300 bg-brand-50 text-brand-700'
+            : 'border-neutral-200 text-neutral-600 hover:bg-neutral-100'
+        }`}
+      >
+        I will need visa sponsorship
+      </button>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={!hasChanges}
+          className="flex-1 bg-brand-600 text-white py-2 rounded-lg text-sm font-medium hover:bg-brand-700 disabled:opacity-50"
+        >
+          Run simulation
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          className="px-4 rounded-lg border border-neutral-200 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+        >
+          Reset
+        </button>
+      </div>
+
+      {result && <SimulationResultPanel result={result} />}
+    </div>
+  );
+}
+
+function SimulationResultPanel({ result }: { result: SimulationResult }) {
+  const { labelCounts, changes } = result;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-neutral-200 bg-neutral-50 p-3" data-testid="what-if-result">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {(['Pursue', 'Maybe', 'Pass'] as const).map((label) => (
+          <div key={label} className="rounded-lg bg-white border border-neutral-200 px-2 py-1.5">
+            <p className="text-[11px] text-neutral-500">{label}</p>
+            <p className="text-sm font-semibold text-neutral-900">
+              {labelCounts[label].before} <span className="text-neutral-400">→</span> {labelCounts[label].after}
+            </p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-neutral-600">
+        {result.simulatedCount} job{result.simulatedCount === 1 ? '' : 's'} simulated · {result.labelChangeCount} label
+        {result.labelChangeCount === 1 ? '' : 's'} change · {result.gainedCount} newly disqualified ·{' '}
+        {result.lostCount} no longer disqualified
+      </p>
+      {changes.length === 0 ? (
+        <p className="text-xs text-neutral-500">No job would change label or disqualifiers.</p>
+      ) : (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-neutral-200 rounded-lg border border-neutral-200 bg-white">
+          {changes.map((change) => (
+            <li key={change.jobId} className="px-3 py-2 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-neutral-900 truncate">{change.title || 'Untitled role'}</p>
+                  <p className="text-[11px] text-neutral-500 truncate">{change.company}</p>
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0 text-[11px]">
+                  <span className={`rounded-full px-2 py-0.5 ${LABEL_CLASS[change.before.label]}`}>
+                    {getFitLabelText(change.before.label)} · {Math.round(change.before.score)}
+                  </span>
+                  <ArrowRight size={10} className="text-neutral-400" />
+                  <span className={`rounded-full px-2 py-0.5 ${LABEL_CLASS[change.after.label]}`}>
+                    {getFitLabelText(change.after.label)} · {Math.round(change.after.score)}
+                  </span>
+                </div>
+              </div>
+              {change.disqualifiersGained.map((rule) => (
+                <p key={`gained-${rule.ruleId}`} className="text-[11px] text-red-700">+ {rule.label}</p>
+              ))}
+              {change.disqualifiersLost.map((rule) => (
+                <p key={`lost-${rule.ruleId}`} className="text-[11px] text-green-700">− {rule.label}</p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
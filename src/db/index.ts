@@ -16,10 +16,12 @@ import type {
   Claim,
   GenerationLog,
   ApplicationAnswer,
+  GapItem,
+  PendingShare,
 } from '../types';
 import { createEmptyProfile } from '../lib/profileState';
 
-export const DB_SCHEMA_VERSION = 3;
+export const DB_SCHEMA_VERSION = 5;
 
 export class JobFilterDB extends Dexie {
   jobs!: Table<Job, string>;
@@ -35,6 +37,8 @@ export class JobFilterDB extends Dexie {
   claims!: Table<Claim, string>;
   generationLogs!: Table<GenerationLog, string>;
   applicationAnswers!: Table<ApplicationAnswer, string>;
+  gapItems!: Table<GapItem, string>;
+  pendingShares!: Table<PendingShare, string>;
 
   constructor() {
     super('JobFilterV2');
@@ -65,9 +69,17 @@ export class JobFilterDB extends Dexie {
       });
     });
 
-    this.version(DB_SCHEMA_VERSION).stores({
+    this.version(3).stores({
       applicationAnswers: 'id, jobId, createdAt',
     });
+
+    this.version(4).stores({
+      gapItems: 'id, key, status, createdAt',
+    });
+
+    this.version(DB_SCHEMA_VERSION).stores({
+      pendingShares: 'id, createdAt',
+    });
   }
 }
 
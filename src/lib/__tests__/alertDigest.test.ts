@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { looksLikeEmailMessage, parseEmailMessage, splitAlertDigest } from '../alertDigest';
+
+const LINKEDIN_HTML = `
+<html><body>
+  <table><tr><td><h2>Your job alert for growth director</h2><p>30+ new jobs in New York match your preferences.</p></td></tr></table>
+  <table>
+    <tr><td>
+      <a href="https://www.linkedin.com/comm/jobs/view/3912345678/?trackingId=abc%3D%3D&amp;refId=xyz"><img src="logo.png" alt="Acme"></a>
+    </td><td>
+      <a href="https://www.linkedin.com/comm/jobs/view/3912345678/?trackingId=abc%3D%3D&amp;refId=xyz">Director of Growth</a>
+      <p>Acme · New York, NY (Hybrid)</p>
+      <p>Actively recruiting</p>
+      <p>3 company alumni</p>
+    </td></tr>
+    <tr><td>
+      <a href="https://www.linkedin.com/comm/jobs/view/3998765432/?trackingId=def">Head of Lifecycle Marketing</a>
+      <p>Beta Labs</p>
+      <p>United States (Remote)</p>
+      <p>Easy Apply</p>
+    </td></tr>
+  </table>
+  <a href="https://www.linkedin.com/comm/jobs/search?keywords=growth">See all jobs</a>
+  <a href="https://www.linkedin.com/comm/psettings/email-unsubscribe">Unsubscribe</a>
+</body></html>`;
+
+const INDEED_TEXT = [
+  'Indeed',
+  '12 new jobs for "growth marketing" in Remote',
+  '',
+  'Senior Growth Marketing Manager',
+  'Gamma Health - Remote',
+  '$140,000 - $165,000 a year',
+  'Easily apply',
+  'https://www.indeed.com/rc/clk?jk=abc123def456&from=ja&qd=xyz',
+  '',
+  'VP, Demand Generation',
+  'Delta Software',
+  'Austin, TX',
+  'https://www.indeed.com/rc/clk?jk=fedcba987654&from=ja',
+  '',
+  'Unsubscribe: https://www.indeed.com/unsubscribe?id=1',
+].join('\n');
+
+describe('splitAlertDigest', () => {
+  it('splits a LinkedIn HTML alert into one candidate per posting', () => {
+    const digest = splitAlertDigest(LINKEDIN_HTML);
+
+    expect(digest.source).toBe('LinkedIn');
+    expect(digest.candidates).toEqual([
+      {
+        key: 'linkedin:3912345678',
+        title: 'Director of Growth',
+        company: 'Acme',
+        location: 'New York, NY (Hybrid)',
+        locationType: 'Hybrid',
+        url: 'https://www.linkedin.com/jobs/view/3912345678/',
+        source: 'LinkedIn',
+      },
+      {
+        key: 'linkedin:3998765432',
+        title: 'Head of Lifecycle Marketing',
+        company: 'Beta Labs',
+        location: 'United States (Remote)',
+        locationType: 'Remote',
+        url: 'https://www.linkedin.com/jobs/view/3998765432/',
+        source: 'LinkedIn',
+      },
+    ]);
+  });
+
+  it('reads plain-text digests where details sit above the link', () => {
+    const digest = splitAlertDigest(INDEED_TEXT);
+
+    expect(digest.source).toBe('Indeed');
+    expect(digest.candidates).toMatchObject([
+      {
+        title: 'Senior Growth Marketing Manager',
+        company: 'Gamma Health',
+        location: 'Remote',
+        locationType: 'Remote',
+        url: 'https://www.indeed.com/viewjob?jk=abc123def456',
+      },
+      {
+        title: 'VP, Demand Generation',
+        company: 'Delta Software',
+        location: 'Austin, TX',
+        url: 'https://www.indeed.com/viewjob?jk=fedcba987654',
+      },
+    ]);
+  });
+
+  it('decodes a quoted-printable .eml and prefers its HTML part', () => {
+    const eml = [
+      'From: Glassdoor Jobs <noreply@glassdoor.com>',
+      'Subject: =?UTF-8?Q?2_new_jobs_for_=E2=80=9Cgrowth=E2=80=9D?=',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'Plain text fallback',
+      '--b1',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      '<div><a href=3D"https://www.glassdoor.com/partner/jobListing.htm?pos=3D101&amp;jobListingId=3D=',
+      '1009876543">Growth Product Manager</a><p>Epsilon Caf=C3=A9</p><p>Denver, CO</p><p>4.2 =E2=98=85</p></div>',
+      '--b1--',
+    ].join('\r\n');
+
+    expect(looksLikeEmailMessage(eml)).toBe(true);
+    expect(parseEmailMessage(eml)).toMatchObject({ subject: '2 new jobs for “growth”', text: 'Plain text fallback' });
+    expect(splitAlertDigest(eml)).toMatchObject({
+      source: 'Glassdoor',
+      subject: '2 new jobs for “growth”',
+      candidates: [{
+        key: 'glassdoor:1009876543',
+        title: 'Growth Product Manager',
+        company: 'Epsilon Café',
+        location: 'Denver, CO',
+      }],
+    });
+  });
+
+  it('finds nothing in an email without job links', () => {
+    expect(splitAlertDigest('Thanks for signing up!\nhttps://example.com/welcome').candidates).toEqual([]);
+  });
+});
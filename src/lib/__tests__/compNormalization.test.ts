@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeNormalizedComp,
+  normalizeCompensation,
+  parseCompMention,
+  sanitizeFxRates,
+} from '../compNormalization';
+import { scoreJob } from '../scoring';
+import type { Job, Profile } from '../../types';
+
+const usd = { currency: 'USD', fxRates: [{ currency: 'EUR', rate: 1.1 }] };
+
+describe('parseCompMention', () => {
+  it('detects hourly contract rates', () => {
+    expect(parseCompMention('Rate: $85/hr contract, 6 months')).toMatchObject({ currency: 'USD', period: 'hour', min: 85, max: 85 });
+    expect(parseCompMention('Pay is $80 - $95 per hour')).toMatchObject({ period: 'hour', min: 80, max: 95 });
+  });
+
+  it('detects currency symbols and k suffixes', () => {
+    expect(parseCompMention('Salary €120k - €140k plus bonus')).toMatchObject({ currency: 'EUR', min: 120000, max: 140000 });
+    expect(parseCompMention('£90,000 to £110,000 per annum')).toMatchObject({ currency: 'GBP', period: 'year', min: 90000 });
+    expect(parseCompMention('Range 120-150k USD')).toMatchObject({ currency: 'USD', min: 120000, max: 150000 });
+  });
+
+  it('detects OTE with a base split', () => {
+    expect(parseCompMention('$250k OTE (50/50), uncapped')).toMatchObject({ isOte: true, baseSharePercent: 50, min: 250000 });
+  });
+
+  it('ignores amounts without a currency or describing the company', () => {
+    expect(parseCompMention('5-7 years of experience; 401(k) match')).toBeNull();
+    expect(parseCompMention('We raised $40M in our Series B. Salary: $150,000')).toMatchObject({ min: 150000 });
+  });
+
+  it('ignores budgets, spend and funding named after the amount', () => {
+    expect(parseCompMention('Own a $120,000 paid media budget.')).toBeNull();
+    expect(parseCompMention('Manage $80k of annual spend across channels.')).toBeNull();
+    expect(parseCompMention('Backed by $50M in funding from top investors.')).toBeNull();
+    expect(parseCompMention('Run a $100K monthly experimentation fund.')).toBeNull();
+    expect(parseCompMention('Own a $2M budget. Salary: $150k base plus $20k bonus')).toMatchObject({ min: 150000, max: 150000 });
+  });
+
+  it('needs pay wording for amounts outside a plausible annual base', () => {
+    expect(parseCompMention('A $500 home office setup')).toBeNull();
+    expect(parseCompMention('Pay: $9,000 per year, part-time')).toMatchObject({ min: 9000 });
+    expect(parseCompMention('Salary ¥8,000,000 - ¥10,000,000')).toMatchObject({ currency: 'JPY', min: 8000000 });
+  });
+});
+
+describe('normalizeCompensation', () => {
+  it('annualizes hourly rates', () => {
+    const comp = normalizeCompensation({ jobDescription: 'Contract at $85/hr' }, usd);
+    expect(comp).toMatchObject({ source: 'text', period: 'hour', annualMin: 176800, annualMax: 176800 });
+    expect(describeNormalizedComp(comp!)).toBe('$176,800/yr (from $85/hr)');
+  });
+
+  it('annualizes monthly rates', () => {
+    expect(normalizeCompensation({ jobDescription: '$12,000 per month' }, usd)).toMatchObject({ annualMin: 144000 });
+  });
+
+  it('converts through the FX table and flags missing rates', () => {
+    expect(normalizeCompensation({ jobDescription: '€120k' }, usd)).toMatchObject({ currency: 'EUR', annualMin: 132000, fxRate: 1.1 });
+    const unknown = normalizeCompensation({ jobDescription: '£120k' }, usd);
+    expect(unknown?.annualMin).toBeUndefined();
+    expect(unknown?.notes).toContain('No exchange rate for GBP in your FX table');
+  });
+
+  it('takes the base share of an OTE figure', () => {
+    expect(normalizeCompensation({ jobDescription: '$250k OTE (60/40)' }, usd)).toMatchObject({ isOte: true, annualMin: 150000 });
+  });
+
+  it('prefers structured fields for plain annual ranges', () => {
+    const comp = normalizeCompensation({ compMin: 160000, compMax: 200000, jobDescription: 'Comp: $160,000 - $200,000. Equity.' }, usd);
+    expect(comp).toMatchObject({ source: 'fields', annualMin: 160000, annualMax: 200000, hasEquity: true });
+  });
+
+  it('overrides fields parsed as USD when the text is in another currency', () => {
+    const comp = normalizeCompensation({ compMin: 120000, compMax: 150000, jobDescription: '€120,000 - €150,000' }, usd);
+    expect(comp).toMatchObject({ source: 'text', currency: 'EUR', annualMin: 132000, annualMax: 165000 });
+  });
+});
+
+describe('sanitizeFxRates', () => {
+  it('uppercases codes and drops invalid or base-currency rows', () => {
+    expect(sanitizeFxRates([
+      { currency: 'eur', rate: 1.08 },
+      { currency: 'USD', rate: 1 },
+      { currency: 'GBP', rate: 0 },
+      { currency: 'EUR', rate: 2 },
+    ])).toEqual([{ currency: 'EUR', rate: 1.08, updatedAt: undefined }]);
+  });
+});
+
+describe('scoreJob with normalized comp', () => {
+  const profile: Profile = {
+    id: 'default',
+    name: 'Test',
+    targetRoles: ['Director of Growth'],
+    compFloor: 150000,
+    compTarget: 180000,
+    requiredBenefits: [],
+    preferredBenefits: [],
+    requiredBenefitIds: [],
+    preferredBenefitIds: [],
+    locationPreference: 'Remote',
+    disqualifiers: [],
+    locationPreferences: [{ id: 'lp-1', type: 'Remote', city: '', willingToRelocate: false }],
+    willingToRelocate: false,
+    hardFilters: {
+      requiresVisaSponsorship: false,
+      minBaseSalary: 150000,
+      maxOnsiteDaysPerWeek: 5,
+      maxTravelPercent: 100,
+      employmentTypes: ['full_time_w2', 'contract_to_hire', 'part_time', 'internship', 'temporary'],
+    },
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const job: Partial<Job> = {
+    title: 'Growth Consultant',
+    company: 'Acme',
+    locationType: 'Remote',
+    employmentType: 'Full-time',
+  };
+
+  it('disqualifies on annualized base below the floor', () => {
+    const result = scoreJob({ ...job, jobDescription: 'Contract role at $60/hr.' }, profile, []);
+    expect(result.disqualifiers).toContain('Max compensation ($124,800, from $60/hr) is below floor ($150,000)');
+    expect(result.compNormalized?.annualMax).toBe(124800);
+  });
+
+  it('credits hourly rates that annualize above target', () => {
+    const result = scoreJob({ ...job, jobDescription: 'Contract role at $95/hr.' }, profile, []);
+    expect(result.disqualifiers).toHaveLength(0);
+    expect(result.reasonsToPursue).toContain('Comp min ($197,600, from $95/hr) meets or exceeds target');
+  });
+
+  it('does not read budgets or funding as comp', () => {
+    for (const jobDescription of [
+      'Own a $120,000 paid media budget.',
+      'Manage $80k of annual spend.',
+      'Backed by $50M in funding.',
+      'Run a $100K monthly experimentation fund.',
+    ]) {
+      const result = scoreJob({ ...job, jobDescription }, profile, []);
+      expect(result.compNormalized).toBeUndefined();
+      expect(result.disqualifiers).toHaveLength(0);
+      expect(result.reasonsToPursue.some((reason) => reason.startsWith('Comp min'))).toBe(false);
+    }
+  });
+
+  it('warns instead of disqualifying on OTE without a split', () => {
+    const result = scoreJob({ ...job, jobDescription: 'Total comp: $140k OTE.' }, profile, []);
+    expect(result.disqualifiers).toHaveLength(0);
+    expect(result.riskWarnings).toContain('Comp is quoted as OTE without a base/variable split');
+  });
+});
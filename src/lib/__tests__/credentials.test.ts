@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectDegreeLevel,
+  findCertifications,
+  matchCredentialRequirement,
+  mergeImportedCredentials,
+  parseCredentialsFromResume,
+} from '../credentials';
+import { buildImportDraftFromText } from '../importDraftBuilder';
+import { scoreJob } from '../scoring';
+import type { CredentialRecord, Profile } from '../../types';
+
+const mba: CredentialRecord = { id: 'c1', kind: 'degree', name: 'MBA', field: 'Marketing', institution: 'Wharton', year: 2014, source: 'manual' };
+const bs: CredentialRecord = { id: 'c2', kind: 'degree', name: 'B.S.', field: 'Computer Science', institution: 'UT Austin', source: 'resume' };
+const pmp: CredentialRecord = { id: 'c3', kind: 'certification', name: 'PMP', year: 2019, source: 'manual' };
+const capm: CredentialRecord = { id: 'c4', kind: 'certification', name: 'CAPM', source: 'manual' };
+
+describe('parseCredentialsFromResume', () => {
+  it('reads degrees and certifications under education headings', () => {
+    const records = parseCredentialsFromResume([
+      'EXPERIENCE',
+      'Led PMP-style delivery for 40 projects',
+      'EDUCATION',
+      'University of Texas at Austin',
+      'B.S. in Computer Science, 2010',
+      'MBA, Marketing | Wharton School | 2014',
+      'CERTIFICATIONS',
+      'PMP — Project Management Institute (2019)',
+    ]);
+
+    expect(records.map(({ kind, name, field, institution, year }) => ({ kind, name, field, institution, year }))).toEqual([
+      { kind: 'degree', name: 'B.S.', field: 'Computer Science', institution: 'University of Texas at Austin', year: 2010 },
+      { kind: 'degree', name: 'MBA', field: 'Marketing', institution: 'Wharton School', year: 2014 },
+      { kind: 'certification', name: 'PMP — Project Management Institute', field: undefined, institution: undefined, year: 2019 },
+    ]);
+    expect(records.every((record) => record.source === 'resume')).toBe(true);
+  });
+
+  it('does not read the word "as" as an associate degree', () => {
+    const records = parseCredentialsFromResume([
+      'EDUCATION',
+      'University of Texas',
+      'Served as president of the marketing club',
+      'A.S. in Business, 2008',
+    ]);
+    expect(records.map(({ name, field }) => ({ name, field }))).toEqual([{ name: 'A.S.', field: 'Business' }]);
+    expect(detectDegreeLevel('Degree in Marketing, as well as strong analytics')).toBeNull();
+    expect(detectDegreeLevel("Associate's in Graphic Design")).toBe(1);
+    expect(detectDegreeLevel('Associate of Applied Science')).toBe(1);
+  });
+
+  it('does not read state codes or "MS Excel" as a master\'s', () => {
+    const records = parseCredentialsFromResume(['EDUCATION', 'Boston University, Boston, MA', 'B.S. in Marketing, 2010']);
+    expect(records.map(({ name, institution }) => ({ name, institution })))
+      .toEqual([{ name: 'B.S.', institution: 'Boston University' }]);
+    expect(detectDegreeLevel("Bachelor's degree in Marketing, MS Excel proficiency")).toBe(2);
+    expect(detectDegreeLevel('M.S. in Analytics')).toBe(3);
+    expect(detectDegreeLevel('MS in Business Analytics')).toBe(3);
+  });
+
+  it('attaches credentials to the import draft', () => {
+    const text = [
+      'Jane Doe',
+      'EXPERIENCE',
+      'Director of Growth',
+      'Acme Corp',
+      'Jan 2018 - Present',
+      '• Grew pipeline 40% in 12 months',
+      'EDUCATION',
+      'MBA, Wharton School, 2014',
+    ].join('\n');
+    const { draft } = buildImportDraftFromText(text);
+    expect(draft.credentials?.map((entry) => entry.name)).toEqual(['MBA']);
+  });
+});
+
+describe('matchCredentialRequirement', () => {
+  it('resolves degree requirements to Met, Partial, or Missing', () => {
+    expect(matchCredentialRequirement('education', "Bachelor's degree required", [bs])).toEqual({
+      status: 'Met',
+      evidence: 'B.S., Computer Science — UT Austin',
+    });
+    expect(matchCredentialRequirement('education', 'MBA preferred', [mba, bs]).status).toBe('Met');
+    expect(matchCredentialRequirement('education', 'MBA preferred', [
+      { ...mba, name: 'M.S.', field: 'Statistics' },
+    ]).status).toBe('Partial');
+    expect(matchCredentialRequirement('education', "Master's degree in Computer Science", [bs])).toMatchObject({
+      status: 'Missing',
+      evidence: "Highest degree on file: B.S., Computer Science — UT Austin (needs Master's degree)",
+    });
+    expect(matchCredentialRequirement('education', "Bachelor's degree", [])).toEqual({ status: 'Missing' });
+  });
+
+  it('treats field mismatches and equivalent-experience clauses as Partial', () => {
+    expect(matchCredentialRequirement('education', "Bachelor's degree in Finance or Economics", [bs]).status).toBe('Partial');
+    expect(matchCredentialRequirement('education', "Bachelor's degree or equivalent experience", []).status).toBe('Partial');
+  });
+
+  it('resolves certifications, counting same-family ones as Partial', () => {
+    expect(matchCredentialRequirement('certification', 'PMP certified', [pmp])).toEqual({ status: 'Met', evidence: 'PMP (2019)' });
+    expect(matchCredentialRequirement('certification', 'PMP certified', [capm]).status).toBe('Partial');
+    expect(matchCredentialRequirement('certification', 'CPA certification required', [pmp]).status).toBe('Missing');
+    expect(findCertifications('Six Sigma Black Belt certification').map((cert) => cert.id)).toEqual(['six_sigma_black']);
+  });
+});
+
+describe('matchCredentialRequirement preferred clauses', () => {
+  it('reads the bar from the required clause only', () => {
+    expect(matchCredentialRequirement('education', "Bachelor's degree required; MBA preferred", [bs]))
+      .toMatchObject({ status: 'Met' });
+    expect(matchCredentialRequirement('education', 'MBA preferred', [bs])).toMatchObject({ status: 'Missing' });
+  });
+});
+
+describe('mergeImportedCredentials', () => {
+  it('replaces earlier resume imports and keeps manual entries', () => {
+    const merged = mergeImportedCredentials([mba, bs], [
+      { ...mba, id: 'r1', source: 'resume' },
+      { id: 'r2', kind: 'certification', name: 'CSM', source: 'resume' },
+    ]);
+    expect(merged.map((entry) => `${entry.name}:${entry.source}`)).toEqual(['MBA:manual', 'CSM:resume']);
+    expect(mergeImportedCredentials([bs], undefined)).toEqual([bs]);
+  });
+});
+
+describe('scoreJob education requirements', () => {
+  it('uses profile credentials when extracting requirements', () => {
+    const profile = {
+      id: 'default',
+      name: 'Test',
+      targetRoles: [],
+      compFloor: 0,
+      compTarget: 0,
+      requiredBenefits: [],
+      preferredBenefits: [],
+      requiredBenefitIds: [],
+      preferredBenefitIds: [],
+      locationPreference: '',
+      disqualifiers: [],
+      locationPreferences: [],
+      willingToRelocate: false,
+      credentials: [mba, pmp],
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    } as unknown as Profile;
+
+    const result = scoreJob({
+      title: 'Director of Marketing',
+      jobDescription: 'Requirements:\n- MBA required\n- PMP certified',
+    }, profile, []);
+    const education = result.requirementsExtracted.find((req) => req.type === 'education');
+    const certification = result.requirementsExtracted.find((req) => req.type === 'certification');
+    expect(education).toMatchObject({ match: 'Met', evidence: 'MBA, Marketing — Wharton (2014)' });
+    expect(certification).toMatchObject({ match: 'Met', evidence: 'PMP (2019)' });
+  });
+
+  it('splits a required degree from a preferred MBA on the same line', () => {
+    const profile = {
+      id: 'default',
+      name: 'Test',
+      targetRoles: [],
+      compFloor: 0,
+      compTarget: 0,
+      requiredBenefits: [],
+      preferredBenefits: [],
+      requiredBenefitIds: [],
+      preferredBenefitIds: [],
+      locationPreference: '',
+      disqualifiers: [],
+      locationPreferences: [],
+      willingToRelocate: false,
+      credentials: [bs],
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    } as unknown as Profile;
+
+    const result = scoreJob({
+      title: 'Director of Marketing',
+      jobDescription: "Requirements:\n- Bachelor's degree required; MBA preferred",
+    }, profile, []);
+    const education = result.requirementsExtracted.filter((req) => req.type === 'education');
+    expect(education.map(({ description, priority, match }) => ({ description, priority, match }))).toEqual([
+      { description: "Bachelor's degree required", priority: 'Must', match: 'Met' },
+      { description: 'MBA preferred', priority: 'Preferred', match: 'Missing' },
+    ]);
+  });
+});
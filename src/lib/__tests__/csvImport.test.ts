@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildImportPreview,
+  guessColumnMapping,
+  parseDelimitedText,
+  parseStage,
+} from '../csvImport';
+import type { Job } from '../../types';
+
+const makeJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  title: 'Director of Growth',
+  company: 'Acme',
+  locationType: 'Remote',
+  employmentType: 'Full-time',
+  jobDescription: '',
+  stage: 'Discovered',
+  stageTimestamps: {},
+  disqualifiers: [],
+  reasonsToPursue: [],
+  reasonsToPass: [],
+  redFlags: [],
+  requirementsExtracted: [],
+  createdAt: '2026-02-01T00:00:00.000Z',
+  updatedAt: '2026-02-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('parseDelimitedText', () => {
+  it('handles quoted delimiters, newlines and doubled quotes', () => {
+    const csv = '\uFEFFCompany,Role,Notes\r\nAcme,"Director, Growth","Met the ""VP"" at a meetup\nFollow up Friday"\r\n\r\nBeta,Head of Marketing,\n';
+    expect(parseDelimitedText(csv)).toEqual({
+      delimiter: ',',
+      headers: ['Company', 'Role', 'Notes'],
+      rows: [
+        ['Acme', 'Director, Growth', 'Met the "VP" at a meetup\nFollow up Friday'],
+        ['Beta', 'Head of Marketing', ''],
+      ],
+      lineNumbers: [2, 5],
+    });
+  });
+
+  it('detects tab-separated pastes from a spreadsheet', () => {
+    const table = parseDelimitedText('Company\tRole\tSalary\nAcme\tVP Growth\t$180,000 - $210,000');
+    expect(table.delimiter).toBe('\t');
+    expect(table.rows[0]).toEqual(['Acme', 'VP Growth', '$180,000 - $210,000']);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps common tracker headers to job fields once each', () => {
+    expect(guessColumnMapping([
+      'Company Name', 'Job Title', 'Status', 'Link', 'Found via', 'Salary Min', 'Salary Max',
+      'Location', 'Remote?', 'Date Applied', 'Notes', 'Favorite color', 'Role',
+    ])).toEqual([
+      'company', 'title', 'stage', 'url', 'source', 'compMin', 'compMax',
+      'location', 'locationType', 'createdAt', 'notes', null, null,
+    ]);
+  });
+});
+
+describe('parseStage', () => {
+  it('reads pipeline stage names and common tracker statuses', () => {
+    expect(parseStage('interviewing')).toBe('Interviewing');
+    expect(parseStage('Applied')).toBe('Outreach Sent');
+    expect(parseStage('Rejected')).toBe('Closed Lost');
+    expect(parseStage('Phone screen scheduled')).toBe('Response/Screen');
+    expect(parseStage('Saved')).toBe('Discovered');
+    expect(parseStage('???')).toBeNull();
+  });
+});
+
+describe('buildImportPreview', () => {
+  it('flags invalid rows and duplicates of saved jobs and earlier rows', () => {
+    const table = parseDelimitedText([
+      'Company,Title,Status,Salary,URL,Date added',
+      'Acme,Director of Growth,Applied,,https://jobs.acme.com/1,2026-01-15',
+      'Gamma,VP Marketing,Offer,"$200k - $240k",not a link,01/20/2026',
+      ',Head of Growth,Saved,,,',
+      'gamma,VP Marketing,Interviewing,,,',
+      'Delta,Growth Lead,Someday,,,',
+    ].join('\n'));
+    const preview = buildImportPreview(table, guessColumnMapping(table.headers), [
+      makeJob({ url: 'https://jobs.acme.com/1' }),
+    ]);
+
+    expect(preview).toMatchObject({ readyCount: 2, duplicateCount: 2, invalidCount: 1 });
+    expect(preview.rows.map((row) => row.status)).toEqual(['duplicate', 'ready', 'invalid', 'duplicate', 'ready']);
+
+    const [acme, gamma, missing, repeat, delta] = preview.rows;
+    expect(acme.duplicateOf).toMatchObject({ title: 'Director of Growth', company: 'Acme', inFile: false });
+    expect(gamma.job).toMatchObject({
+      stage: 'Offer',
+      compRange: '$200k - $240k',
+      compMin: 200000,
+      compMax: 240000,
+      createdAt: '2026-01-20T00:00:00.000Z',
+    });
+    expect(gamma.job.url).toBeUndefined();
+    expect(gamma.warnings).toEqual(['Skipped invalid URL "not a link"']);
+    expect(missing).toMatchObject({ rowNumber: 4, errors: ['Missing company'] });
+    expect(repeat.duplicateOf).toMatchObject({ company: 'Gamma', inFile: true });
+    expect(delta.job.stage).toBeUndefined();
+    expect(delta.warnings[0]).toContain('Unrecognized stage "Someday"');
+  });
+
+  it('numbers rows by the file line they start on', () => {
+    const table = parseDelimitedText('Title,Company,Notes\n"A","B","l1\nl2"\n\nPM,Beta,x');
+    const preview = buildImportPreview(table, guessColumnMapping(table.headers), []);
+    expect(preview.rows.map((row) => row.rowNumber)).toEqual([2, 5]);
+  });
+});
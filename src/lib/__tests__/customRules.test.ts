@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCustomRules, sanitizeCustomRules } from '../customRules';
+import { scoreJob } from '../scoring';
+import { sumTracePoints } from '../scoreTrace';
+import type { CustomScoringRule, Job, Profile } from '../../types';
+
+const baseProfile: Profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: ['Director of Growth'],
+  compFloor: 150000,
+  compTarget: 180000,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: 'Remote',
+  disqualifiers: [],
+  locationPreferences: [{ id: 'lp-1', type: 'Remote', city: '', willingToRelocate: false }],
+  willingToRelocate: false,
+  hardFilters: {
+    requiresVisaSponsorship: false,
+    minBaseSalary: 150000,
+    maxOnsiteDaysPerWeek: 5,
+    maxTravelPercent: 100,
+    employmentTypes: ['full_time_w2', 'contract_to_hire', 'part_time', 'internship', 'temporary'],
+  },
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const job: Partial<Job> = {
+  title: 'Director of Growth',
+  company: 'ChainCo',
+  location: 'Remote, US',
+  locationType: 'Remote',
+  employmentType: 'Full-time',
+  compMin: 170000,
+  compMax: 200000,
+  jobDescription: 'Lead growth strategy for our Web3 wallet. Build and manage a team of marketers.',
+};
+
+const rule = (overrides: Partial<CustomScoringRule>): CustomScoringRule => ({
+  id: 'rule-1',
+  label: 'No crypto',
+  enabled: true,
+  match: 'all',
+  conditions: [{ field: 'jobDescription', operator: 'contains', value: 'crypto, web3' }],
+  action: 'disqualify',
+  ...overrides,
+});
+
+describe('evaluateCustomRules', () => {
+  it('matches comma-separated alternatives and reports JD phrases', () => {
+    const [match] = evaluateCustomRules(job, [rule({})]);
+    expect(match.rule.id).toBe('rule-1');
+    expect(match.jdPhrases).toEqual(['web3']);
+  });
+
+  it('honors all/any matching and skips disabled rules', () => {
+    const conditions: CustomScoringRule['conditions'] = [
+      { field: 'title', operator: 'contains', value: 'director' },
+      { field: 'company', operator: 'contains', value: 'acme' },
+    ];
+    expect(evaluateCustomRules(job, [rule({ conditions })])).toHaveLength(0);
+    expect(evaluateCustomRules(job, [rule({ conditions, match: 'any' })])).toHaveLength(1);
+    expect(evaluateCustomRules(job, [rule({ enabled: false })])).toHaveLength(0);
+  });
+
+  it('compares compensation and ignores jobs without listed comp', () => {
+    const below = rule({ conditions: [{ field: 'compensation', operator: 'below', value: '250k' }] });
+    const atLeast = rule({ conditions: [{ field: 'compensation', operator: 'at_least', value: '$180,000' }] });
+    expect(evaluateCustomRules(job, [below])).toHaveLength(1);
+    expect(evaluateCustomRules(job, [atLeast])).toHaveLength(0);
+    expect(evaluateCustomRules({ ...job, compMin: undefined, compMax: undefined }, [below])).toHaveLength(0);
+  });
+
+  it('supports does-not-contain on location', () => {
+    const notRemote = rule({ conditions: [{ field: 'location', operator: 'not_contains', value: 'remote' }] });
+    expect(evaluateCustomRules(job, [notRemote])).toHaveLength(0);
+    expect(evaluateCustomRules({ ...job, location: 'Austin, TX', locationType: 'In-person' }, [notRemote])).toHaveLength(1);
+  });
+});
+
+describe('sanitizeCustomRules', () => {
+  it('drops empty conditions, unlabeled rules and clamps points', () => {
+    const sanitized = sanitizeCustomRules([
+      rule({ conditions: [{ field: 'title', operator: 'contains', value: '  ' }] }),
+      rule({ id: 'rule-2', label: ' ' }),
+      rule({
+        id: 'rule-3',
+        action: 'points',
+        points: 80,
+        conditions: [{ field: 'compensation', operator: 'contains', value: '200000' }],
+      }),
+    ]);
+    expect(sanitized).toHaveLength(1);
+    expect(sanitized[0].points).toBe(25);
+    expect(sanitized[0].conditions[0].operator).toBe('below');
+  });
+});
+
+describe('scoreJob with custom rules', () => {
+  it('adds labelled disqualifiers with JD spans', () => {
+    const result = scoreJob(job, { ...baseProfile, customRules: [rule({})] }, []);
+    expect(result.disqualifiers).toContain('No crypto');
+    expect(result.fitScore).toBe(0);
+    const entry = result.trace.find((item) => item.ruleId === 'rule.rule-1');
+    expect(entry?.category).toBe('disqualifier');
+    expect(entry?.spans).toEqual([{ start: 29, end: 33 }]);
+  });
+
+  it('adds labelled warnings without changing the score', () => {
+    const plain = scoreJob(job, baseProfile, []);
+    const result = scoreJob(job, { ...baseProfile, customRules: [rule({ action: 'warn' })] }, []);
+    expect(result.riskWarnings).toContain('No crypto');
+    expect(result.fitScore).toBe(plain.fitScore);
+  });
+
+  it('applies point adjustments and keeps the trace summing to the score', () => {
+    const plain = scoreJob(job, baseProfile, []);
+    const result = scoreJob(job, { ...baseProfile, customRules: [rule({ action: 'points', points: -10 })] }, []);
+    expect(result.fitScore).toBe(plain.fitScore - 10);
+    expect(result.reasonsToPass).toContain('No crypto (-10 pts)');
+    expect(sumTracePoints(result.trace)).toBeCloseTo(result.fitScore, 5);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeExperienceYears,
+  matchExperienceRequirement,
+  mergedMonths,
+  parseTimelineMonth,
+} from '../experienceTimeline';
+import type { Claim } from '../../types';
+
+const now = new Date(2026, 0, 15);
+
+function claim(overrides: Partial<Claim>): Claim {
+  return {
+    id: 'claim-1',
+    company: 'Acme',
+    role: 'Growth Marketer',
+    startDate: 'Jan 2020',
+    responsibilities: [],
+    tools: [],
+    outcomes: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('timeline dates', () => {
+  it('parses month names, numeric months, bare years and Present', () => {
+    expect(parseTimelineMonth('Mar 2021', 'start', now)).toBe(2021 * 12 + 2);
+    expect(parseTimelineMonth('03/2021', 'start', now)).toBe(2021 * 12 + 2);
+    expect(parseTimelineMonth('2021-03', 'start', now)).toBe(2021 * 12 + 2);
+    expect(parseTimelineMonth('2021', 'end', now)).toBe(2021 * 12 + 11);
+    expect(parseTimelineMonth('Present', 'end', now)).toBe(2026 * 12);
+    expect(parseTimelineMonth(undefined, 'end', now)).toBe(2026 * 12);
+    expect(parseTimelineMonth('sometime', 'start', now)).toBeNull();
+  });
+
+  it('counts overlapping ranges once', () => {
+    expect(mergedMonths([{ start: 0, end: 11 }, { start: 6, end: 17 }, { start: 30, end: 35 }])).toBe(24);
+  });
+});
+
+describe('computeExperienceYears', () => {
+  it('does not double-count concurrent roles', () => {
+    const result = computeExperienceYears([
+      claim({ id: 'a', startDate: 'Jan 2020', endDate: 'Dec 2022' }),
+      claim({ id: 'b', company: 'Side Co', role: 'Advisor', startDate: 'Jan 2021', endDate: 'Dec 2021' }),
+    ], undefined, { now });
+    expect(result.totalMonths).toBe(36);
+  });
+
+  it('sums on-topic months across separate roles', () => {
+    const result = computeExperienceYears([
+      claim({ id: 'a', company: 'Cloudly', startDate: 'Jan 2016', endDate: 'Dec 2018', responsibilities: ['Ran demand gen for a B2B SaaS platform'] }),
+      claim({ id: 'b', company: 'ShopCo', startDate: 'Jan 2019', endDate: 'Dec 2020', responsibilities: ['Grew DTC ecommerce revenue'] }),
+      claim({ id: 'c', company: 'Ledgerly', startDate: 'Jan 2021', endDate: 'Dec 2022', responsibilities: ['Owned pipeline for enterprise software sold to CFOs'] }),
+    ], 'B2B SaaS', { now });
+    expect(result.months).toBe(60);
+    expect(result.totalMonths).toBe(84);
+    expect(result.contributions.map((entry) => entry.company)).toEqual(['Ledgerly', 'Cloudly']);
+  });
+});
+
+describe('matchExperienceRequirement', () => {
+  const claims = [
+    claim({ id: 'a', role: 'Director of Growth', company: 'Acme', startDate: 'Jan 2022', endDate: 'Present' }),
+    claim({ id: 'b', role: 'Growth Lead', company: 'Beta', startDate: 'Jan 2019', endDate: 'Dec 2021', responsibilities: ['Hired and managed a team of 4 marketers'] }),
+    claim({ id: 'c', role: 'Marketing Associate', company: 'Gamma', startDate: 'Jan 2015', endDate: 'Dec 2018' }),
+  ];
+
+  it('answers people-management requirements with the contributing roles', () => {
+    expect(matchExperienceRequirement(5, 'managing people', claims, { now })).toEqual({
+      status: 'Met',
+      evidence: '7 yrs: Director of Growth at Acme (4 yrs), Growth Lead at Beta (3 yrs)',
+    });
+  });
+
+  it('falls back to Partial on near misses or total career length, and Missing below both', () => {
+    expect(matchExperienceRequirement(10, 'managing people', claims, { now })).toMatchObject({
+      status: 'Partial',
+      evidence: '7 yrs of 10 needed: Director of Growth at Acme (4 yrs), Growth Lead at Beta (3 yrs)',
+    });
+    expect(matchExperienceRequirement(8, 'B2B SaaS', claims, { now })).toEqual({
+      status: 'Partial',
+      evidence: '11 yrs total; no roles show this topic',
+    });
+    expect(matchExperienceRequirement(15, 'managing people', claims, { now }).status).toBe('Missing');
+    expect(matchExperienceRequirement(3, 'managing people', [], { now })).toEqual({ status: 'Missing' });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateGaps, createGapItem, findMetGapItems, jobsWithActiveGaps, suggestGapItemKind } from '../gapPlan';
+import { SCORE_LABEL_THRESHOLDS } from '../scoreBands';
+import type { Job, Requirement } from '../../types';
+
+const NOW = '2026-03-01T00:00:00.000Z';
+
+function requirement(overrides: Partial<Requirement>): Requirement {
+  return {
+    type: 'tool',
+    description: 'Braze',
+    priority: 'Must',
+    match: 'Missing',
+    ...overrides,
+  };
+}
+
+function makeJob(overrides: Partial<Job>): Job {
+  return {
+    id: 'job-1',
+    title: 'Director of Growth',
+    company: 'TestCo',
+    locationType: 'Remote',
+    employmentType: 'Full-time',
+    jobDescription: '',
+    stage: 'Scored',
+    stageTimestamps: { Captured: NOW },
+    fitScore: 85,
+    fitLabel: 'Pursue',
+    disqualifiers: [],
+    reasonsToPursue: [],
+    reasonsToPass: [],
+    redFlags: [],
+    requirementsExtracted: [],
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+const jobs = [
+  makeJob({
+    id: 'job-1',
+    company: 'Acme',
+    requirementsExtracted: [
+      requirement({ type: 'experience', description: '5+ years of lifecycle marketing', yearsNeeded: 5 }),
+      requirement({ description: 'Braze', priority: 'Preferred' }),
+    ],
+  }),
+  makeJob({
+    id: 'job-2',
+    company: 'Beta',
+    requirementsExtracted: [
+      requirement({ type: 'experience', description: 'Lifecycle marketing experience' }),
+      requirement({ description: 'SQL', match: 'Met' }),
+    ],
+  }),
+  makeJob({
+    id: 'job-3',
+    company: 'Gamma',
+    fitScore: 40,
+    fitLabel: 'Pass',
+    requirementsExtracted: [requirement({ description: 'Braze' })],
+  }),
+];
+
+describe('aggregateGaps', () => {
+  it('groups reworded gaps across Pursue jobs, most-blocking first', () => {
+    const groups = aggregateGaps(jobs, [], SCORE_LABEL_THRESHOLDS);
+
+    expect(groups.map((group) => [group.key, group.blockingCount, group.jobs.map((ref) => ref.jobId)])).toEqual([
+      ['lifecycle marketing', 2, ['job-1', 'job-2']],
+      ['braze', 0, ['job-1']],
+    ]);
+  });
+
+  it('attaches the tracked item to its group', () => {
+    const item = createGapItem({ key: 'lifecycle marketing', type: 'experience', description: 'Lifecycle marketing' }, 'talking_point', 'gap-1', NOW);
+    const [top] = aggregateGaps(jobs, [item], SCORE_LABEL_THRESHOLDS);
+    expect(top.item?.id).toBe('gap-1');
+  });
+});
+
+describe('gap items', () => {
+  it('suggests a plan type from the requirement', () => {
+    expect(suggestGapItemKind({ type: 'tool', match: 'Missing' })).toBe('learning');
+    expect(suggestGapItemKind({ type: 'experience', match: 'Missing' })).toBe('talking_point');
+    expect(suggestGapItemKind({ type: 'skill', match: 'Partial' })).toBe('proof');
+  });
+
+  it('closes an item once the requirement is Met in every job that lists it', () => {
+    const item = createGapItem({ key: 'braze', type: 'tool', description: 'Braze' }, 'learning', 'gap-1', NOW);
+    expect(jobsWithActiveGaps([item], jobs).map((job) => job.id)).toEqual(['job-1', 'job-3']);
+    expect(findMetGapItems([item], jobs, NOW)).toEqual([]);
+
+    const met = jobs.map((job) => ({
+      ...job,
+      requirementsExtracted: job.requirementsExtracted.map((entry) => (
+        entry.description === 'Braze' ? { ...entry, match: 'Met' as const, evidence: 'CRM Lead at Acme' } : entry
+      )),
+    }));
+    expect(findMetGapItems([item], met, NOW)).toEqual([{
+      id: 'gap-1',
+      updates: {
+        status: 'closed',
+        closedAt: NOW,
+        closedReason: 'Now met for Director of Growth at Acme: CRM Lead at Acme',
+        updatedAt: NOW,
+      },
+    }]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { describeMetadataValue, extractJdMetadata } from '../jdMetadata';
+
+const CAPTURED_AT = '2026-03-01T00:00:00.000Z';
+
+describe('extractJdMetadata', () => {
+  it('reads a LinkedIn-style header and a closing date in the footer', () => {
+    const jd = [
+      'Director of Growth',
+      'Acme · New York, NY (Hybrid) · Reposted 2 weeks ago · 120 applicants',
+      'Full-time · Director',
+      '',
+      'About the job',
+      'Acme is a Series B fintech helping small businesses get paid faster.',
+      'You will own acquisition, activation and retention.',
+      '',
+      'Applications close March 20th, 2026.',
+    ].join('\n');
+
+    expect(extractJdMetadata(jd, CAPTURED_AT)).toEqual({
+      title: 'Director of Growth',
+      company: 'Acme',
+      location: 'New York, NY',
+      locationType: 'Hybrid',
+      employmentType: 'Full-time',
+      stageHint: 'series_b',
+      postedAt: '2026-02-15T00:00:00.000Z',
+      closesAt: '2026-03-20T00:00:00.000Z',
+    });
+  });
+
+  it('reads labelled fields and "title at company" headers', () => {
+    const labelledJd = [
+      'Job Title: Senior Product Manager, Payments',
+      'Location: Austin, TX',
+      'Employment type: Contract position, 6 months',
+      'We are a bootstrapped, profitable team working fully remote across the US.',
+    ].join('\n');
+    expect(extractJdMetadata(labelledJd, CAPTURED_AT)).toMatchObject({
+      title: 'Senior Product Manager, Payments',
+      location: 'Austin, TX',
+      locationType: 'Remote',
+      employmentType: 'Contract',
+      stageHint: 'profitable_private',
+    });
+
+    const companySite = 'VP of Marketing at Beta Labs\nOur seed-stage team works on-site in Denver, CO.\n\nAbout Beta Labs\nWe build tools.';
+    expect(extractJdMetadata(companySite, CAPTURED_AT)).toMatchObject({
+      title: 'VP of Marketing',
+      company: 'Beta Labs',
+      location: 'Denver, CO',
+      locationType: 'In-person',
+      stageHint: 'seed',
+    });
+  });
+
+  it('does not read a negated "remote" as remote', () => {
+    expect(extractJdMetadata('This is not a remote role. You will work onsite 4 days a week.', CAPTURED_AT))
+      .toMatchObject({ locationType: 'In-person' });
+    expect(extractJdMetadata('A non-remote, in-office position.', CAPTURED_AT)).toMatchObject({ locationType: 'In-person' });
+    expect(extractJdMetadata('This is a remote role.', CAPTURED_AT)).toMatchObject({ locationType: 'Remote' });
+  });
+
+  it('proposes nothing it cannot find', () => {
+    expect(extractJdMetadata('We move fast and care about craft.', CAPTURED_AT)).toEqual({});
+    expect(extractJdMetadata('', CAPTURED_AT)).toEqual({});
+  });
+});
+
+describe('describeMetadataValue', () => {
+  it('labels stage hints and dates for the chips', () => {
+    expect(describeMetadataValue('stageHint', 'series_c_plus')).toBe('Series C+');
+    expect(describeMetadataValue('closesAt', '2026-03-20T00:00:00.000Z')).toContain('2026');
+    expect(describeMetadataValue('title', 'Director of Growth')).toBe('Director of Growth');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { classifyHeading, sectionText, segmentJobDescription } from '../jdSegmenter';
+import { scoreJob } from '../scoring';
+import type { Profile } from '../../types';
+
+const POSTING = [
+  'Director of Growth',
+  '',
+  'About Acme',
+  'We champion equity and inclusion in everything we build. Series B, 80 people.',
+  '',
+  "What You'll Do:",
+  '- Own growth strategy and the roadmap',
+  '',
+  '**Qualifications**',
+  '- 8+ years in B2B SaaS growth',
+  '',
+  'Nice to have',
+  '- Experience with HubSpot',
+  '',
+  'Benefits: medical, dental, 401(k)',
+  '',
+  'The salary range for this role is $180,000 - $210,000.',
+  '',
+  'Acme is an equal opportunity employer and values diversity.',
+].join('\n');
+
+const profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: [],
+  compFloor: 0,
+  compTarget: 0,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: '',
+  disqualifiers: [],
+  locationPreferences: [],
+  willingToRelocate: false,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+} as unknown as Profile;
+
+describe('segmentJobDescription', () => {
+  it('splits a posting into headed sections', () => {
+    const sections = segmentJobDescription(POSTING);
+    expect(sections.map((section) => [section.kind, section.heading])).toEqual([
+      ['other', undefined],
+      ['about', 'About Acme'],
+      ['responsibilities', "What You'll Do"],
+      ['requirements', 'Qualifications'],
+      ['preferred', 'Nice to have'],
+      ['benefits', 'Benefits'],
+      ['compensation', undefined],
+      ['legal', undefined],
+    ]);
+    expect(sectionText(POSTING, sections, ['requirements', 'preferred'])).toBe(
+      '**Qualifications**\n- 8+ years in B2B SaaS growth\nNice to have\n- Experience with HubSpot',
+    );
+  });
+
+  it('keeps body lines that mention a heading phrase as body text', () => {
+    expect(classifyHeading("Own the company's growth roadmap")).toBeNull();
+    expect(classifyHeading('- Benefits enrollment support')).toBeNull();
+    expect(classifyHeading('Key Responsibilities')).toBe('responsibilities');
+    expect(classifyHeading('ABOUT YOU')).toBe('requirements');
+  });
+
+  it('returns one section for postings without headings', () => {
+    const text = 'Lead a team of 5 and own the roadmap. Equity offered.';
+    expect(segmentJobDescription(text)).toEqual([{ kind: 'other', start: 0, end: text.length }]);
+    expect(segmentJobDescription('')).toEqual([]);
+  });
+});
+
+describe('section-scoped scoring', () => {
+  it('reads benefit signals from the benefits section only', () => {
+    const result = scoreJob({ title: 'Director of Growth', jobDescription: POSTING }, profile, []);
+    const benefits = result.trace.find((entry) => entry.ruleId === 'comp.benefits');
+    expect(benefits?.label).toBe('3 benefit signals in JD');
+    expect(benefits?.spans.every((span) => span.start > POSTING.indexOf('Benefits:'))).toBe(true);
+    expect(result.jdSections.map((section) => section.kind)).toContain('legal');
+  });
+
+  it('keeps company blurbs out of requirement extraction', () => {
+    const result = scoreJob({
+      title: 'Director of Growth',
+      jobDescription: 'About Acme\nFounded by a team with 10+ years of fintech experience.\n\nRequirements\n- 5+ years of lifecycle marketing',
+    }, profile, []);
+    expect(result.requirementsExtracted.filter((req) => req.type === 'experience').map((req) => req.yearsNeeded)).toEqual([5]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalizeJobUrl,
+  findDuplicateCandidates,
+  findDuplicateGroups,
+  mergeJobFields,
+  normalizeCompanyName,
+} from '../jobDuplicates';
+import type { Job } from '../../types';
+
+const JD = [
+  'Acme is hiring a Director of Growth to own acquisition, activation and retention across web and mobile.',
+  'You will build and lead a team of six, set the quarterly roadmap, partner with product and finance on',
+  'pricing experiments, and report weekly to the CEO on funnel health and revenue impact. Requirements include',
+  'eight years of growth marketing experience and hands-on work with Amplitude, Braze and SQL.',
+].join(' ');
+
+function makeJob(overrides: Partial<Job>): Job {
+  return {
+    id: 'job-1',
+    title: 'Director of Growth',
+    company: 'Acme',
+    locationType: 'Remote',
+    employmentType: 'Full-time',
+    jobDescription: '',
+    stage: 'Captured',
+    stageTimestamps: { Captured: '2026-02-01T00:00:00.000Z' },
+    disqualifiers: [],
+    reasonsToPursue: [],
+    reasonsToPass: [],
+    redFlags: [],
+    requirementsExtracted: [],
+    createdAt: '2026-02-01T00:00:00.000Z',
+    updatedAt: '2026-02-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('normalization', () => {
+  it('canonicalizes posting URLs and company names', () => {
+    expect(canonicalizeJobUrl('https://www.linkedin.com/jobs/view/director-of-growth-at-acme-3812345678/?refId=abc&trackingId=xyz'))
+      .toBe('linkedin.com/jobs/view/3812345678');
+    expect(canonicalizeJobUrl('https://www.linkedin.com/jobs/search/?currentJobId=3812345678&keywords=growth'))
+      .toBe('linkedin.com/jobs/view/3812345678');
+    expect(canonicalizeJobUrl('https://www.indeed.com/viewjob?jk=9f8e7d&from=serp&utm_source=email'))
+      .toBe('indeed.com/viewjob?jk=9f8e7d');
+    expect(canonicalizeJobUrl('not a url')).toBeNull();
+    expect(normalizeCompanyName('Acme, Inc.')).toBe(normalizeCompanyName('ACME'));
+  });
+});
+
+describe('findDuplicateCandidates', () => {
+  const saved = [
+    makeJob({ id: 'linkedin', url: 'https://www.linkedin.com/jobs/view/3812345678/', jobDescription: JD, location: 'New York, NY' }),
+    makeJob({ id: 'other-city', title: 'Director of Growth', location: 'Austin, TX' }),
+    makeJob({ id: 'other-level', title: 'Senior Manager, Growth' }),
+  ];
+
+  it('matches the same posting by URL, title, or shared JD text', () => {
+    expect(findDuplicateCandidates({ title: 'Growth Lead', company: 'Other', url: 'https://linkedin.com/jobs/view/3812345678?trk=x' }, saved)
+      .map((match) => [match.job.id, match.reasons])).toEqual([['linkedin', ['Same posting URL']]]);
+
+    const fromCompanySite = findDuplicateCandidates(
+      { title: 'Dir. of Growth', company: 'Acme Inc', location: 'Remote', jobDescription: `About the role. ${JD}` },
+      saved,
+    );
+    expect(fromCompanySite[0].job.id).toBe('linkedin');
+    expect(fromCompanySite[0].reasons.some((reason) => reason.startsWith('Job descriptions'))).toBe(true);
+  });
+
+  it('keeps other levels and same-title openings in other cities apart', () => {
+    const matches = findDuplicateCandidates({ title: 'Director of Growth', company: 'Acme', location: 'Chicago, IL' }, saved);
+    expect(matches.map((match) => match.job.id)).toEqual([]);
+  });
+});
+
+describe('merging', () => {
+  it('groups duplicates and keeps the job furthest along', () => {
+    const jobs = [
+      makeJob({ id: 'a', source: 'LinkedIn', url: 'https://linkedin.com/jobs/view/1' }),
+      makeJob({ id: 'b', source: 'Company Site', stage: 'Interviewing', createdAt: '2026-02-03T00:00:00.000Z' }),
+      makeJob({ id: 'c', company: 'Beta' }),
+    ];
+    const [group] = findDuplicateGroups(jobs);
+    expect(group.survivor.id).toBe('b');
+    expect(group.duplicates.map((job) => job.id)).toEqual(['a']);
+  });
+
+  it('combines sources, earliest stage times and the fullest JD', () => {
+    const survivor = makeJob({
+      id: 'b',
+      source: 'Company Site',
+      stage: 'Interviewing',
+      stageTimestamps: { Captured: '2026-02-05T00:00:00.000Z', Interviewing: '2026-02-10T00:00:00.000Z' },
+      createdAt: '2026-02-05T00:00:00.000Z',
+    });
+    const duplicate = makeJob({ id: 'a', source: 'LinkedIn', url: 'https://linkedin.com/jobs/view/1', jobDescription: JD, compMin: 200000 });
+
+    const updates = mergeJobFields(survivor, [duplicate], '2026-03-01T00:00:00.000Z');
+    expect(updates.sources?.map((entry) => entry.source)).toEqual(['Company Site', 'LinkedIn']);
+    expect(updates.stageTimestamps).toEqual({ Captured: '2026-02-01T00:00:00.000Z', Interviewing: '2026-02-10T00:00:00.000Z' });
+    expect(updates).toMatchObject({
+      jobDescription: JD,
+      url: 'https://linkedin.com/jobs/view/1',
+      source: 'Company Site',
+      compMin: 200000,
+      createdAt: '2026-02-01T00:00:00.000Z',
+    });
+  });
+});
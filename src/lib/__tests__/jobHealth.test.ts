@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeJobHealth, analyzePipelineHealth, parsePostedDate } from '../jobHealth';
+import type { Activity, Job } from '../../types';
+
+const NOW = '2026-03-01T00:00:00.000Z';
+
+function makeJob(overrides: Partial<Job>): Job {
+  return {
+    id: 'job-1',
+    title: 'Director of Growth',
+    company: 'Acme',
+    locationType: 'Remote',
+    employmentType: 'Full-time',
+    jobDescription: 'Own the growth roadmap and lead a team of four.',
+    stage: 'Scored',
+    stageTimestamps: { Captured: '2026-02-25T00:00:00.000Z' },
+    disqualifiers: [],
+    reasonsToPursue: [],
+    reasonsToPass: [],
+    redFlags: [],
+    requirementsExtracted: [],
+    createdAt: '2026-02-25T00:00:00.000Z',
+    updatedAt: '2026-02-25T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('parsePostedDate', () => {
+  it('reads relative dates back from capture and absolute dates as written', () => {
+    expect(parsePostedDate('Posted 3 weeks ago · 200 applicants', NOW)).toBe('2026-02-08T00:00:00.000Z');
+    expect(parsePostedDate('Reposted 30+ days ago', NOW)).toBe('2026-01-30T00:00:00.000Z');
+    expect(parsePostedDate('Date posted: 2025-12-01', NOW)).toBe('2025-12-01T00:00:00.000Z');
+    expect(parsePostedDate('No date here', NOW)).toBeUndefined();
+  });
+});
+
+describe('analyzeJobHealth', () => {
+  it('treats a recent, specific posting as fresh', () => {
+    expect(analyzeJobHealth(makeJob({}), { now: NOW })).toEqual({ status: 'fresh', signals: [] });
+  });
+
+  it('flags evergreen wording as a likely ghost', () => {
+    const job = makeJob({ jobDescription: 'We are always accepting applications for this team.' });
+    expect(analyzeJobHealth(job, { now: NOW })).toMatchObject({
+      status: 'likely_ghost',
+      signals: [{ id: 'evergreen' }],
+    });
+  });
+
+  it('does not treat talent-community footers as evergreen', () => {
+    const job = makeJob({
+      jobDescription: 'Own the growth roadmap and lead a team of four.\nJoin our talent community to hear about future opportunities.',
+    });
+    expect(analyzeJobHealth(job, { now: NOW })).toEqual({ status: 'fresh', signals: [] });
+  });
+
+  it('weighs pipeline wording lightly and ignores it in company boilerplate', () => {
+    const job = makeJob({ jobDescription: 'Responsibilities:\n- Own growth. We are always hiring for this team.' });
+    expect(analyzeJobHealth(job, { now: NOW })).toMatchObject({
+      status: 'stale',
+      signals: [{ id: 'evergreen', weight: 1 }],
+    });
+
+    const about = makeJob({
+      jobDescription: 'About Acme\nWe are always hiring great people.\n\nResponsibilities:\n- Own the growth roadmap.',
+    });
+    expect(analyzeJobHealth(about, { now: NOW }).signals).toEqual([]);
+  });
+
+  it('combines posting age, silence since capture and boilerplate', () => {
+    const boilerplate = `About Acme\n${'Acme builds software for teams everywhere. '.repeat(20)}\n`
+      + `Responsibilities:\n- Own growth\n\nBenefits:\n${'Medical, dental and vision for you and family. '.repeat(10)}`;
+    const job = makeJob({
+      jobDescription: `Posted 5 days ago\n${boilerplate}`,
+      createdAt: '2026-01-20T00:00:00.000Z',
+    });
+
+    const health = analyzeJobHealth(job, { now: NOW });
+    expect(health.signals.map((signal) => signal.id)).toEqual(['posting_age', 'no_response', 'boilerplate']);
+    expect(health.status).toBe('likely_ghost');
+
+    const inbound = { id: 'a-1', jobId: 'job-1', channel: 'Email', direction: 'Inbound', content: 'Thanks!', createdAt: NOW } as Activity;
+    expect(analyzeJobHealth(job, { now: NOW, activities: [inbound] }).signals.map((signal) => signal.id))
+      .toEqual(['posting_age', 'boilerplate']);
+  });
+
+  it('spots the same posting captured again weeks later', () => {
+    const jobs = [
+      makeJob({ id: 'first', createdAt: '2026-01-05T00:00:00.000Z', stage: 'Closed Lost' }),
+      makeJob({ id: 'again', stage: 'Interviewing' }),
+    ];
+    const health = analyzePipelineHealth(jobs, [], NOW);
+    expect(health.get('again')).toMatchObject({
+      status: 'stale',
+      signals: [{ id: 'reposted', label: 'Captured 2 times over 51 days (re-posted)' }],
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToText, looksLikeStructuredPaste, parseJobPostingPaste } from '../jobPostingJsonLd';
+
+const CAPTURED_AT = '2026-03-01T00:00:00.000Z';
+
+const GREENHOUSE_POSTING = {
+  '@context': 'https://schema.org',
+  '@type': 'JobPosting',
+  title: 'Director of Growth &amp; Lifecycle',
+  description: '&lt;p&gt;Own &lt;strong&gt;acquisition&lt;/strong&gt; and retention.&lt;/p&gt;&lt;ul&gt;&lt;li&gt;Lead a team of 6&lt;/li&gt;&lt;li&gt;Hybrid, 2 days in our NYC office&lt;/li&gt;&lt;/ul&gt;',
+  datePosted: '2026-02-10',
+  employmentType: ['FULL_TIME'],
+  hiringOrganization: { '@type': 'Organization', name: 'Acme Corp', sameAs: 'https://acme.com' },
+  jobLocation: {
+    '@type': 'Place',
+    address: { '@type': 'PostalAddress', addressLocality: 'New York', addressRegion: 'NY', addressCountry: 'US' },
+  },
+  baseSalary: {
+    '@type': 'MonetaryAmount',
+    currency: 'USD',
+    value: { '@type': 'QuantitativeValue', minValue: 180000, maxValue: 210000, unitText: 'YEAR' },
+  },
+  url: 'https://boards.greenhouse.io/acme/jobs/123',
+};
+
+describe('htmlToText', () => {
+  it('keeps paragraphs and list items as lines and decodes entities', () => {
+    expect(htmlToText('<p>Hello&nbsp;there</p><ul><li>One &amp; two</li><li>Three</li></ul>'))
+      .toBe('Hello there\n\n- One & two\n- Three');
+  });
+});
+
+describe('parseJobPostingPaste', () => {
+  it('fills a job from a JobPosting script in pasted page HTML', () => {
+    const html = `<!DOCTYPE html><html><head>
+      <script type="application/ld+json">{"@context":"https://schema.org","@type":"BreadcrumbList","itemListElement":[]}</script>
+      <script type="application/ld+json">${JSON.stringify(GREENHOUSE_POSTING)}</script>
+    </head><body>...</body></html>`;
+
+    expect(looksLikeStructuredPaste(html)).toBe(true);
+    const draft = parseJobPostingPaste(html, CAPTURED_AT);
+
+    expect(draft).toMatchObject({
+      title: 'Director of Growth & Lifecycle',
+      company: 'Acme Corp',
+      url: 'https://boards.greenhouse.io/acme/jobs/123',
+      location: 'New York, NY, US',
+      locationType: 'Hybrid',
+      employmentType: 'Full-time',
+      compRange: '$180,000 - $210,000 per year',
+      compMin: 180000,
+      compMax: 210000,
+      postedAt: '2026-02-10T00:00:00.000Z',
+      jobDescription: 'Own acquisition and retention.\n\n- Lead a team of 6\n- Hybrid, 2 days in our NYC office',
+    });
+    expect(draft?.captureSnapshot).toEqual({ format: 'html', content: html, capturedAt: CAPTURED_AT });
+  });
+
+  it('reads raw JSON-LD with a graph, remote postings and hourly pay', () => {
+    const jsonLd = JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'Organization', name: 'Ignored' },
+        {
+          '@type': 'JobPosting',
+          title: 'Growth Contractor',
+          description: 'Run paid experiments.',
+          employmentType: 'CONTRACTOR',
+          hiringOrganization: 'Beta',
+          jobLocationType: 'TELECOMMUTE',
+          applicantLocationRequirements: { '@type': 'Country', name: 'Canada' },
+          baseSalary: { '@type': 'MonetaryAmount', currency: 'CAD', value: { '@type': 'QuantitativeValue', value: 95, unitText: 'HOUR' } },
+        },
+      ],
+    });
+
+    expect(parseJobPostingPaste(jsonLd, CAPTURED_AT)).toMatchObject({
+      title: 'Growth Contractor',
+      company: 'Beta',
+      location: 'Remote (Canada)',
+      locationType: 'Remote',
+      employmentType: 'Contract',
+      compRange: 'CA$95 per hour',
+      compMin: 197600,
+      compMax: 197600,
+      captureSnapshot: { format: 'json-ld' },
+    });
+  });
+
+  it('returns null when the paste has no JobPosting', () => {
+    expect(parseJobPostingPaste('<html><body>Careers</body></html>', CAPTURED_AT)).toBeNull();
+    expect(parseJobPostingPaste('{"@type": "Organization"}', CAPTURED_AT)).toBeNull();
+    expect(looksLikeStructuredPaste('[Acme] is hiring a Director of Growth')).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { findCity, haversineMiles } from '../cityGazetteer';
+import { matchJobLocation, resolveJobCities } from '../locationMatching';
+import { scoreJob } from '../scoring';
+import type { LocationPreference, Profile } from '../../types';
+
+const hybridRoundRock: LocationPreference = {
+  id: 'lp-1',
+  type: 'Hybrid',
+  city: 'Round Rock, TX',
+  radiusMiles: 25,
+  willingToRelocate: false,
+};
+
+describe('cityGazetteer', () => {
+  it('resolves common spellings of a city', () => {
+    expect(findCity('Austin, TX')?.name).toBe('Austin');
+    expect(findCity('Austin, Texas, United States')?.name).toBe('Austin');
+    expect(findCity('Greater Boston Area')?.name).toBe('Boston');
+    expect(findCity('NYC')?.name).toBe('New York');
+    expect(findCity('Austin, TX 78701')?.name).toBe('Austin');
+  });
+
+  it('does not confuse same-named cities in other states', () => {
+    expect(findCity('Portland, ME')).toBeNull();
+    expect(findCity('Springfield, IL')).toBeNull();
+  });
+
+  it('computes great-circle distances in miles', () => {
+    const austin = findCity('Austin, TX')!;
+    const roundRock = findCity('Round Rock, TX')!;
+    const dallas = findCity('Dallas, TX')!;
+    expect(Math.round(haversineMiles(austin, roundRock))).toBe(17);
+    expect(Math.round(haversineMiles(austin, dallas))).toBeGreaterThan(180);
+  });
+});
+
+describe('matchJobLocation', () => {
+  it('matches jobs inside the preferred radius and explains the distance', () => {
+    const result = matchJobLocation({ location: 'Austin, TX', locationType: 'Hybrid' }, [hybridRoundRock]);
+    expect(result).toEqual({
+      matched: true,
+      reason: 'Austin, TX is 17 mi from preferred Round Rock (25 mi radius)',
+      distanceMiles: 17,
+    });
+  });
+
+  it('rejects jobs outside every radius with the nearest distance', () => {
+    const result = matchJobLocation({ location: 'Dallas, TX', locationType: 'Hybrid' }, [hybridRoundRock]);
+    expect(result.matched).toBe(false);
+    expect(result.reason).toMatch(/^Dallas, TX is \d+ mi from preferred Round Rock \(25 mi radius\)$/);
+  });
+
+  it('checks each city in multi-location postings', () => {
+    expect(resolveJobCities('Hybrid - New York, NY or Austin, TX').map((city) => city.name)).toEqual(['New York', 'Austin']);
+    expect(matchJobLocation({ location: 'New York, NY; Austin, TX', locationType: 'Hybrid' }, [hybridRoundRock]).matched).toBe(true);
+  });
+
+  it('falls back to text matching for places outside the gazetteer', () => {
+    const preference = { ...hybridRoundRock, city: 'Springfield' };
+    expect(matchJobLocation({ location: 'Springfield, MO', locationType: 'Hybrid' }, [preference]).matched).toBe(true);
+    expect(matchJobLocation({ location: 'Joplin, MO', locationType: 'Hybrid' }, [preference]).matched).toBe(false);
+  });
+
+  it('respects relocation and unknown work arrangements', () => {
+    expect(matchJobLocation({ location: 'Dallas, TX', locationType: 'Hybrid' }, [hybridRoundRock], true).matched).toBe(true);
+    expect(matchJobLocation({ location: 'Dallas, TX', locationType: 'Unknown' }, [hybridRoundRock]).matched).toBeNull();
+    expect(matchJobLocation({ location: 'Austin, TX', locationType: 'In-person' }, [hybridRoundRock]).matched).toBe(false);
+  });
+});
+
+describe('scoreJob location reasons', () => {
+  const profile: Profile = {
+    id: 'default',
+    name: 'Test',
+    targetRoles: ['Director of Growth'],
+    compFloor: 0,
+    compTarget: 0,
+    requiredBenefits: [],
+    preferredBenefits: [],
+    requiredBenefitIds: [],
+    preferredBenefitIds: [],
+    locationPreference: 'Hybrid',
+    disqualifiers: [],
+    locationPreferences: [hybridRoundRock],
+    willingToRelocate: false,
+    hardFilters: {
+      requiresVisaSponsorship: false,
+      minBaseSalary: 0,
+      maxOnsiteDaysPerWeek: 5,
+      maxTravelPercent: 100,
+      employmentTypes: ['full_time_w2', 'contract_to_hire', 'part_time', 'internship', 'temporary'],
+    },
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('states the computed distance in the scoring reasons', () => {
+    const inRange = scoreJob({ title: 'Director of Growth', location: 'Austin, TX', locationType: 'Hybrid', jobDescription: 'Lead growth.' }, profile, []);
+    expect(inRange.reasonsToPursue).toContain('Austin, TX is 17 mi from preferred Round Rock (25 mi radius)');
+
+    const outOfRange = scoreJob({ title: 'Director of Growth', location: 'Houston, TX', locationType: 'Hybrid', jobDescription: 'Lead growth.' }, profile, []);
+    expect(outOfRange.disqualifiers[0]).toMatch(/^Job location does not match your location preferences \(Houston, TX is \d+ mi from preferred Round Rock/);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { applyPersona, filterJobsByPersona, sanitizePersonas, titleAffinity } from '../personas';
+import { scoreJob } from '../scoring';
+import type { Job, Profile, TargetPersona } from '../../types';
+
+const baseProfile: Profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: ['Director of Growth'],
+  compFloor: 150000,
+  compTarget: 180000,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: 'Remote',
+  disqualifiers: [],
+  locationPreferences: [{ id: 'lp-1', type: 'Remote', city: '', willingToRelocate: false }],
+  willingToRelocate: false,
+  hardFilters: {
+    requiresVisaSponsorship: false,
+    minBaseSalary: 150000,
+    maxOnsiteDaysPerWeek: 5,
+    maxTravelPercent: 100,
+    employmentTypes: ['full_time_w2', 'contract_to_hire', 'part_time', 'internship', 'temporary'],
+  },
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const remoteVp: TargetPersona = {
+  id: 'p-remote',
+  name: 'VP Growth, remote',
+  targetRoles: ['VP Growth', 'Head of Growth'],
+  compFloor: 220000,
+  locationPreferences: [{ id: 'lp-r', type: 'Remote', city: '', willingToRelocate: false }],
+};
+
+const hybridDirector: TargetPersona = {
+  id: 'p-hybrid',
+  name: 'Director Lifecycle, hybrid NYC',
+  targetRoles: ['Director of Lifecycle Marketing'],
+  compFloor: 160000,
+  locationPreferences: [{ id: 'lp-h', type: 'Hybrid', city: 'New York, NY', willingToRelocate: false }],
+};
+
+const hybridJob: Partial<Job> = {
+  title: 'Director of Lifecycle Marketing',
+  company: 'Acme',
+  location: 'New York, NY',
+  locationType: 'Hybrid',
+  employmentType: 'Full-time',
+  compMin: 170000,
+  compMax: 190000,
+  jobDescription: 'Lead lifecycle marketing strategy and own retention programs. Hybrid, 2 days a week in our New York office.',
+};
+
+describe('applyPersona', () => {
+  it('overlays persona targeting onto the profile', () => {
+    const applied = applyPersona(baseProfile, remoteVp);
+    expect(applied.targetRoles).toEqual(['VP Growth', 'Head of Growth']);
+    expect(applied.compFloor).toBe(220000);
+    expect(applied.compTarget).toBe(180000);
+    expect(applied.hardFilters.minBaseSalary).toBe(220000);
+    expect(applied.personas).toBeUndefined();
+  });
+
+  it('keeps profile fields the persona leaves unset', () => {
+    const applied = applyPersona(baseProfile, { id: 'p', name: 'Bare', targetRoles: [] });
+    expect(applied.targetRoles).toEqual(baseProfile.targetRoles);
+    expect(applied.hardFilters).toEqual(baseProfile.hardFilters);
+    expect(applied.locationPreferences).toEqual(baseProfile.locationPreferences);
+  });
+});
+
+describe('sanitizePersonas', () => {
+  it('drops unnamed personas and trims target roles', () => {
+    const sanitized = sanitizePersonas([
+      { ...remoteVp, targetRoles: [' VP Growth ', '', 'VP Growth'] },
+      { id: 'p-empty', name: '  ', targetRoles: [] },
+    ]);
+    expect(sanitized).toHaveLength(1);
+    expect(sanitized[0].targetRoles).toEqual(['VP Growth']);
+  });
+});
+
+describe('titleAffinity', () => {
+  it('measures overlap with the best-matching target role', () => {
+    expect(titleAffinity('VP Growth', remoteVp)).toBe(1);
+    expect(titleAffinity('Director of Lifecycle Marketing', hybridDirector)).toBe(1);
+    expect(titleAffinity('Director of Lifecycle Marketing', remoteVp)).toBe(0);
+  });
+});
+
+describe('scoreJob with personas', () => {
+  it('reports every persona and picks the best-scoring one', () => {
+    const profile: Profile = { ...baseProfile, personas: [remoteVp, hybridDirector] };
+    const result = scoreJob(hybridJob, profile, []);
+
+    expect(result.personaScores?.map((entry) => entry.personaId)).toEqual(['p-remote', 'p-hybrid']);
+    expect(result.bestPersonaId).toBe('p-hybrid');
+    const best = result.personaScores?.find((entry) => entry.personaId === 'p-hybrid');
+    expect(result.fitScore).toBe(best?.fitScore);
+  });
+
+  it('breaks score ties by title affinity', () => {
+    // Same scoring inputs as hybridDirector; the twin's target role has the
+    // same level and function but shares fewer words with the title.
+    const twin = { ...hybridDirector, id: 'p-twin', name: 'Twin', targetRoles: ['Growth Director'] };
+    const profile: Profile = { ...baseProfile, personas: [twin, hybridDirector] };
+    const result = scoreJob(hybridJob, profile, []);
+    const [first, second] = result.personaScores ?? [];
+
+    expect(first.fitScore).toBe(second.fitScore);
+    expect(result.bestPersonaId).toBe('p-hybrid');
+  });
+
+  it('scores without persona fields when none are configured', () => {
+    const result = scoreJob(hybridJob, baseProfile, []);
+    expect(result.personaScores).toBeUndefined();
+    expect(result.bestPersonaId).toBeUndefined();
+  });
+});
+
+describe('filterJobsByPersona', () => {
+  it('keeps jobs whose best persona matches', () => {
+    const jobs = [{ id: 'a', bestPersonaId: 'p-remote' }, { id: 'b', bestPersonaId: 'p-hybrid' }, { id: 'c' }] as Job[];
+    expect(filterJobsByPersona(jobs, 'p-hybrid').map((job) => job.id)).toEqual(['b']);
+    expect(filterJobsByPersona(jobs, null)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkRemoteEligibility,
+  getTimeZoneOffsetHours,
+  overlapHours,
+  parseRemoteRestrictions,
+  sanitizeRemotePreferences,
+} from '../remoteEligibility';
+import { scoreJob } from '../scoring';
+import type { Profile } from '../../types';
+
+describe('parseRemoteRestrictions', () => {
+  it('reads common geographic restriction phrasings', () => {
+    expect(parseRemoteRestrictions('This role is US only.').regions).toEqual(['US']);
+    expect(parseRemoteRestrictions('Location: Remote - EMEA').regions).toEqual(['emea']);
+    expect(parseRemoteRestrictions('Remote (Canada)').regions).toEqual(['CA']);
+    expect(parseRemoteRestrictions('Candidates must be located in Latin America.').regions).toEqual(['latam']);
+    expect(parseRemoteRestrictions('Remote within the United States or Canada; must reside in Canada').regions)
+      .toEqual(['CA', 'US']);
+  });
+
+  it('reads every region in a list', () => {
+    expect(parseRemoteRestrictions('Candidates must be located in the US or Canada.').regions).toEqual(['US', 'CA']);
+    expect(parseRemoteRestrictions('Remote (US or Canada)').regions).toEqual(['US', 'CA']);
+    expect(parseRemoteRestrictions('Open to applicants in the US, Canada, and Mexico only.').regions)
+      .toEqual(['US', 'CA', 'MX']);
+  });
+
+  it('only treats "X-based" as a restriction when it applies to the candidate', () => {
+    expect(parseRemoteRestrictions('You will join our US-based growth team.').regions).toEqual([]);
+    expect(parseRemoteRestrictions('Candidates must be US-based.').regions).toEqual(['US']);
+    expect(parseRemoteRestrictions('This role is US-based only.').regions).toEqual(['US']);
+  });
+
+  it('does not read the pronoun "us" as a country', () => {
+    const parsed = parseRemoteRestrictions('Join us remote in a team that lives in us-east regions. Come work with us only if you love data.');
+    expect(parsed.regions).toEqual([]);
+  });
+
+  it('flags worldwide postings as global', () => {
+    expect(parseRemoteRestrictions('We are globally remote and hire anywhere in the world.').global).toBe(true);
+  });
+
+  it('reads overlap and working-hours requirements', () => {
+    expect(parseRemoteRestrictions('You need at least 4 hours of overlap with PT.').timeZone).toMatchObject({
+      zoneLabel: 'PT',
+      requiredOverlapHours: 4,
+    });
+    expect(parseRemoteRestrictions('Must be available 9am-1pm ET.').timeZone).toMatchObject({
+      zoneLabel: 'ET',
+      window: [9, 13],
+      requiredOverlapHours: 4,
+    });
+    expect(parseRemoteRestrictions('You will work Eastern business hours.').timeZone).toMatchObject({
+      zoneLabel: 'ET',
+      requiredOverlapHours: 8,
+    });
+  });
+
+  it('reads European zone names as European, not US', () => {
+    expect(parseRemoteRestrictions('Requires 4 hours of overlap with Central European Time.').timeZone)
+      .toMatchObject({ zoneLabel: 'CET', zoneOffset: 1 });
+    expect(parseRemoteRestrictions('Requires 4 hours of overlap with Eastern European Time.').timeZone)
+      .toMatchObject({ zoneLabel: 'EET', zoneOffset: 2 });
+    expect(checkRemoteEligibility(
+      'Requires 4 hours of overlap with Central European Time.',
+      { timeZone: 'Europe/Berlin', minOverlapHours: 4 },
+    ).reasons).toEqual(['Working hours overlap CET by 8h']);
+  });
+});
+
+describe('time-zone math', () => {
+  it('uses standard-time offsets for IANA zones', () => {
+    expect(getTimeZoneOffsetHours('America/Chicago')).toBe(-6);
+    expect(getTimeZoneOffsetHours('Asia/Kolkata')).toBe(5.5);
+    expect(getTimeZoneOffsetHours('Not/AZone')).toBeNull();
+  });
+
+  it('computes overlap across midnight', () => {
+    expect(overlapHours([14, 22], [17, 25])).toBe(5);
+    expect(overlapHours([22, 30], [1, 9])).toBe(5);
+    expect(overlapHours([0, 8], [12, 20])).toBe(0);
+  });
+});
+
+describe('checkRemoteEligibility', () => {
+  it('disqualifies when the home country is outside the allowed region', () => {
+    const result = checkRemoteEligibility('Remote - EMEA', { homeCountry: 'US' });
+    expect(result.disqualifiers).toEqual(['Remote role limited to EMEA; you are based in United States']);
+  });
+
+  it('passes countries inside a broader region and warns when no country is set', () => {
+    expect(checkRemoteEligibility('Remote - EMEA', { homeCountry: 'DE' }).reasons)
+      .toEqual(['Remote eligibility includes Germany']);
+    expect(checkRemoteEligibility('US only', {}).warnings).toEqual(['Remote role limited to the US']);
+  });
+
+  it('passes a home country named anywhere in a region list', () => {
+    const jd = 'Remote (US or Canada)';
+    expect(checkRemoteEligibility(jd, { homeCountry: 'CA' }).reasons).toEqual(['Remote eligibility includes Canada']);
+    expect(checkRemoteEligibility(jd, { homeCountry: 'GB' }).disqualifiers)
+      .toEqual(['Remote role limited to the US or Canada; you are based in United Kingdom']);
+  });
+
+  it('applies the minimum overlap as a filter and smaller gaps as warnings', () => {
+    const jd = 'Requires 6 hours of overlap with PT.';
+    // Berlin 9-5 is 08:00-16:00 UTC; Pacific 9-5 is 17:00-01:00 UTC → no overlap.
+    const berlin = checkRemoteEligibility(jd, { timeZone: 'Europe/Berlin', minOverlapHours: 2 });
+    expect(berlin.disqualifiers[0]).toMatch(/overlaps 0h \(minimum 2h\)/);
+
+    // New York overlaps Pacific by 5h: below what the posting asks, above the profile minimum.
+    const newYork = checkRemoteEligibility(jd, { timeZone: 'America/New_York', minOverlapHours: 4 });
+    expect(newYork.disqualifiers).toEqual([]);
+    expect(newYork.warnings).toEqual(['Needs 6h overlap with PT; your 9-5 overlaps 5h']);
+
+    expect(checkRemoteEligibility(jd, { timeZone: 'America/Denver' }).reasons)
+      .toEqual(['Working hours overlap PT by 7h']);
+  });
+
+  it('sanitizes stored preferences', () => {
+    expect(sanitizeRemotePreferences({ homeCountry: 'us', timeZone: 'Nowhere/Zone', minOverlapHours: 12 })).toEqual({
+      homeCountry: 'US',
+      timeZone: undefined,
+      minOverlapHours: 8,
+    });
+  });
+});
+
+describe('scoreJob remote eligibility', () => {
+  const profile: Profile = {
+    id: 'default',
+    name: 'Test',
+    targetRoles: ['Director of Growth'],
+    compFloor: 0,
+    compTarget: 0,
+    requiredBenefits: [],
+    preferredBenefits: [],
+    requiredBenefitIds: [],
+    preferredBenefitIds: [],
+    locationPreference: 'Remote',
+    disqualifiers: [],
+    locationPreferences: [{ id: 'lp-1', type: 'Remote', willingToRelocate: false }],
+    willingToRelocate: false,
+    remotePreferences: { homeCountry: 'US', timeZone: 'America/Chicago' },
+    hardFilters: {
+      requiresVisaSponsorship: false,
+      minBaseSalary: 0,
+      maxOnsiteDaysPerWeek: 5,
+      maxTravelPercent: 100,
+      employmentTypes: ['full_time_w2', 'contract_to_hire', 'part_time', 'internship', 'temporary'],
+    },
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  it('disqualifies remote jobs restricted to another region, including via the location field', () => {
+    const result = scoreJob({
+      title: 'Director of Growth',
+      location: 'Remote (UK)',
+      locationType: 'Remote',
+      jobDescription: 'Lead growth.',
+    }, profile, []);
+    expect(result.disqualifiers).toContain('Remote role limited to the UK; you are based in United States');
+    expect(result.fitScore).toBe(0);
+  });
+
+  it('ignores restrictions on non-remote jobs', () => {
+    const result = scoreJob({
+      title: 'Director of Growth',
+      location: 'London',
+      locationType: 'Hybrid',
+      jobDescription: 'Lead growth. UK only.',
+    }, { ...profile, locationPreferences: [] }, []);
+    expect(result.disqualifiers.some((entry) => entry.startsWith('Remote role'))).toBe(false);
+  });
+});
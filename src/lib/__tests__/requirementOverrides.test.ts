@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyRequirementOverrides,
+  removeRequirementOverride,
+  requirementKey,
+  upsertRequirementOverride,
+} from '../requirementOverrides';
+import { scoreJob } from '../scoring';
+import type { Claim, Profile, Requirement, RequirementOverride } from '../../types';
+
+const NOW = '2026-03-01T00:00:00.000Z';
+
+const lifecycle: Requirement = {
+  type: 'experience',
+  description: 'Lifecycle marketing',
+  yearsNeeded: 5,
+  priority: 'Must',
+  match: 'Missing',
+};
+
+const proof: Claim = {
+  id: 'proof-1',
+  company: 'Acme',
+  role: 'Director of CRM',
+  startDate: 'Jan 2019',
+  responsibilities: [],
+  tools: [],
+  outcomes: [],
+  createdAt: NOW,
+};
+
+const profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: [],
+  compFloor: 0,
+  compTarget: 0,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: '',
+  disqualifiers: [],
+  locationPreferences: [],
+  willingToRelocate: false,
+  updatedAt: NOW,
+} as unknown as Profile;
+
+describe('requirementKey', () => {
+  it('ignores years, filler words, case and plurals', () => {
+    expect(requirementKey('5+ years of Lifecycle Marketing experience')).toBe('lifecycle marketing');
+    expect(requirementKey('Experience with lifecycle marketing programs')).toBe('lifecycle marketing program');
+  });
+});
+
+describe('requirement overrides', () => {
+  it('saves an override with proof evidence and re-applies it to a reworded requirement', () => {
+    const overrides = upsertRequirementOverride([], lifecycle, { match: 'Met', priority: 'Must', claim: proof }, NOW);
+    expect(overrides).toEqual([{
+      key: 'lifecycle marketing',
+      type: 'experience',
+      description: 'Lifecycle marketing',
+      match: 'Met',
+      claimId: 'proof-1',
+      evidence: 'Director of CRM at Acme (added by you)',
+      updatedAt: NOW,
+    }]);
+
+    const [applied, other] = applyRequirementOverrides([
+      { ...lifecycle, description: 'Lifecycle marketing experience' },
+      { ...lifecycle, description: 'Paid social' },
+    ], overrides);
+    expect(applied).toMatchObject({
+      match: 'Met',
+      evidence: 'Director of CRM at Acme (added by you)',
+      scored: { match: 'Missing', priority: 'Must' },
+    });
+    expect(other.scored).toBeUndefined();
+  });
+
+  it('drops overrides that match the scored result and removes them on reset', () => {
+    expect(upsertRequirementOverride([], lifecycle, { match: 'Missing', priority: 'Must' }, NOW)).toEqual([]);
+
+    const overrides = upsertRequirementOverride([], lifecycle, { priority: 'Preferred' }, NOW);
+    const [applied] = applyRequirementOverrides([lifecycle], overrides);
+    expect(upsertRequirementOverride(overrides, applied, { match: 'Missing', priority: 'Must' }, NOW)).toEqual([]);
+    expect(removeRequirementOverride(overrides, { type: 'experience', description: 'lifecycle marketing' })).toEqual([]);
+  });
+
+  it('survives re-scoring and feeds the must-have summary', () => {
+    const jobDescription = 'Requirements:\n- 5+ years of lifecycle marketing experience';
+    const before = scoreJob({ title: 'Director of Growth', jobDescription }, profile, []);
+    expect(before.mustHaveSummary).toMatchObject({ met: 0, hasBlockers: true });
+
+    const requirementOverrides = before.requirementsExtracted.reduce(
+      (overrides, requirement) => upsertRequirementOverride(overrides, requirement, { match: 'Met', claim: proof }, NOW),
+      [] as RequirementOverride[],
+    );
+    const after = scoreJob({ title: 'Director of Growth', jobDescription, requirementOverrides }, profile, []);
+    expect(after.requirementsExtracted.every((requirement) => requirement.match === 'Met')).toBe(true);
+    expect(after.mustHaveSummary).toMatchObject({ missing: 0, hasBlockers: false });
+    expect(after.reasonsToPass.some((reason) => reason.startsWith('Missing'))).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { buildScoreUpdates, previewRescore } from '../rescore';
+import { scoreJob } from '../scoring';
+import type { Job, Profile } from '../../types';
+
+const profile: Profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: ['Director of Growth'],
+  compFloor: 150000,
+  compTarget: 180000,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: 'Remote',
+  disqualifiers: [],
+  locationPreferences: [{ id: 'lp-1', type: 'Remote', city: '', willingToRelocate: false }],
+  willingToRelocate: false,
+  hardFilters: {
+    requiresVisaSponsorship: false,
+    minBaseSalary: 0,
+    maxOnsiteDaysPerWeek: 5,
+    maxTravelPercent: 100,
+    employmentTypes: ['full_time_w2', 'contract_to_hire', 'part_time', 'internship', 'temporary'],
+  },
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function makeJob(overrides: Partial<Job>): Job {
+  const base: Job = {
+    id: 'job-1',
+    title: 'Director of Growth',
+    company: 'TestCo',
+    locationType: 'Remote',
+    employmentType: 'Full-time',
+    jobDescription: 'Lead growth strategy for our Series C company. Build and lead a team. Own the roadmap for lifecycle and retention. Medical, dental, 401(k), equity.',
+    stage: 'Scored',
+    stageTimestamps: { Captured: '2026-01-01T00:00:00.000Z' },
+    disqualifiers: [],
+    reasonsToPursue: [],
+    reasonsToPass: [],
+    redFlags: [],
+    requirementsExtracted: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  return { ...base, ...overrides };
+}
+
+describe('previewRescore', () => {
+  it('reports jobs whose label moves under new thresholds', () => {
+    const job = makeJob({});
+    const { fitScore, fitLabel } = scoreJob(job, profile);
+    const stored = makeJob({ fitScore, fitLabel });
+    const stricter: Profile = { ...profile, scoreThresholds: { pursueMin: 100, maybeMin: 99 } };
+
+    const preview = previewRescore([stored], stricter, [], profile);
+
+    expect(preview.scoredCount).toBe(1);
+    expect(preview.scoreChanges).toBe(0);
+    expect(preview.labelChanges).toHaveLength(1);
+    expect(preview.labelChanges[0]).toMatchObject({ jobId: 'job-1', previousLabel: fitLabel, nextLabel: 'Pass' });
+    expect(preview.labelCounts.Pass.after).toBe(1);
+  });
+
+  it('skips jobs with nothing to score and reports unchanged labels as stable', () => {
+    const job = makeJob({});
+    const { fitScore, fitLabel } = scoreJob(job, profile);
+    const empty = makeJob({ id: 'job-2', jobDescription: '   ' });
+
+    const preview = previewRescore([makeJob({ fitScore, fitLabel }), empty], profile, [], profile);
+
+    expect(preview.scoredCount).toBe(1);
+    expect(preview.labelChanges).toEqual([]);
+  });
+});
+
+describe('buildScoreUpdates', () => {
+  it('advances captured jobs to Scored', () => {
+    const job = makeJob({ stage: 'Captured' });
+    const updates = buildScoreUpdates(job, scoreJob(job, profile), { profile, claims: [], now: '2026-02-01T00:00:00.000Z' });
+    expect(updates.stage).toBe('Scored');
+    expect(updates.stageTimestamps?.Scored).toBe('2026-02-01T00:00:00.000Z');
+    expect(updates.scoreHistory).toHaveLength(1);
+  });
+});
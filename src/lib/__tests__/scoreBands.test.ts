@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { getEffectiveFitLabel, getFitLabel, getFitLabelText } from '../scoreBands';
+import { getEffectiveFitLabel, getFitLabel, getFitLabelText, resolveScoreThresholds, sanitizeScoreThresholds } from '../scoreBands';
 
 describe('score band contract', () => {
   it('maps 0-39 to Pass', () => {
@@ -26,4 +26,16 @@ describe('score band contract', () => {
     expect(getFitLabelText('Pass')).toBe('Pass on this job');
     expect(getFitLabelText('Maybe')).toBe('Maybe');
   });
+
+  it('applies custom thresholds when provided', () => {
+    const thresholds = { pursueMin: 80, maybeMin: 50 };
+    expect(getFitLabel(75, thresholds)).toBe('Maybe');
+    expect(getFitLabel(45, thresholds)).toBe('Pass');
+    expect(getEffectiveFitLabel(82, 'Pass', thresholds)).toBe('Pursue');
+  });
+
+  it('keeps Maybe below Pursue and falls back to defaults', () => {
+    expect(sanitizeScoreThresholds({ pursueMin: 60, maybeMin: 75 })).toEqual({ pursueMin: 60, maybeMin: 59 });
+    expect(resolveScoreThresholds(null)).toEqual({ pursueMin: 70, maybeMin: 40 });
+  });
 });
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { calibrateWeights, computeAuc, deriveCalibrationSamples, fitLogisticRegression } from '../scoreCalibration';
+import { DEFAULT_WEIGHTS } from '../scoring';
+import type { Job, Outcome, PipelineStage, ScoreBreakdownStored } from '../../types';
+
+function makeJob(id: string, stage: PipelineStage, breakdown: ScoreBreakdownStored): Job {
+  const fitScore = breakdown.roleScopeAuthority + breakdown.compensationBenefits + breakdown.companyStageAbility + breakdown.domainFit - breakdown.riskPenalty;
+  return {
+    id,
+    title: 'Director of Growth',
+    company: `Co ${id}`,
+    locationType: 'Remote',
+    employmentType: 'Full-time',
+    jobDescription: 'JD',
+    stage,
+    stageTimestamps: { Scored: '2026-01-01T00:00:00.000Z', [stage]: '2026-02-01T00:00:00.000Z' },
+    fitScore,
+    fitLabel: fitScore >= 70 ? 'Pursue' : fitScore >= 40 ? 'Maybe' : 'Pass',
+    scoreBreakdown: breakdown,
+    disqualifiers: [],
+    reasonsToPursue: [],
+    reasonsToPass: [],
+    redFlags: [],
+    requirementsExtracted: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-02-01T00:00:00.000Z',
+  };
+}
+
+/** Domain fit decides progression; compensation varies but is balanced across outcomes. */
+function buildHistory(): Job[] {
+  const jobs: Job[] = [];
+  for (let i = 0; i < 12; i += 1) {
+    const progressed = i % 2 === 0;
+    jobs.push(makeJob(`job-${i}`, progressed ? 'Interviewing' : 'Closed Lost', {
+      roleScopeAuthority: 20,
+      compensationBenefits: 10 + (Math.floor(i / 2) % 3) * 5,
+      companyStageAbility: 12,
+      domainFit: progressed ? 12 + (i % 3) : 2 + (i % 3),
+      riskPenalty: 0,
+    }));
+  }
+  return jobs;
+}
+
+describe('score calibration', () => {
+  it('labels progressed, closed-lost, and pending jobs from stages and outcomes', () => {
+    const breakdown = { roleScopeAuthority: 20, compensationBenefits: 15, companyStageAbility: 10, domainFit: 5, riskPenalty: 0 };
+    const jobs = [
+      makeJob('a', 'Closed Lost', breakdown),
+      makeJob('b', 'Outreach Sent', breakdown),
+      makeJob('c', 'Closed Lost', breakdown),
+    ];
+    const outcomes: Outcome[] = [{ id: 'o1', jobId: 'c', stage: 'Response/Screen', occurredAt: '2026-01-15T00:00:00.000Z' }];
+
+    const { samples, pendingCount } = deriveCalibrationSamples(jobs, outcomes);
+    expect(pendingCount).toBe(1);
+    expect(samples.map((sample) => [sample.jobId, sample.progressed])).toEqual([['a', false], ['c', true]]);
+    expect(samples[0].features.roleScopeAuthority).toBeCloseTo(20 / 30);
+  });
+
+  it('computes AUC with ties counted half', () => {
+    expect(computeAuc([3, 2, 1], [true, false, false])).toBe(1);
+    expect(computeAuc([1, 1], [true, false])).toBe(0.5);
+  });
+
+  it('learns a positive coefficient for a separating feature', () => {
+    const rows = [[0], [0.1], [0.2], [0.8], [0.9], [1]];
+    const model = fitLogisticRegression(rows, [false, false, false, true, true, true]);
+    expect(model.coefficients[0]).toBeGreaterThan(0);
+  });
+
+  it('refuses to calibrate on too few finished jobs', () => {
+    const report = calibrateWeights(buildHistory().slice(0, 4), []);
+    expect(report.status).toBe('insufficient_data');
+  });
+
+  it('shifts suggested weight toward the category that predicts progression', () => {
+    const report = calibrateWeights(buildHistory(), []);
+    expect(report.status).toBe('ok');
+    if (report.status !== 'ok') return;
+
+    expect(report.currentAuc).toBeGreaterThan(0.5);
+    expect(report.suggestedWeights.domainFit).toBeGreaterThan(DEFAULT_WEIGHTS.domainFit);
+    expect(report.suggestedWeights.compensationBenefits).toBeLessThan(DEFAULT_WEIGHTS.compensationBenefits);
+    // Categories that never varied keep their weight.
+    expect(report.suggestedWeights.roleScopeAuthority).toBe(DEFAULT_WEIGHTS.roleScopeAuthority);
+    expect(report.suggestedWeights.riskPenaltyMax).toBe(DEFAULT_WEIGHTS.riskPenaltyMax);
+    const total = report.suggestedWeights.roleScopeAuthority
+      + report.suggestedWeights.compensationBenefits
+      + report.suggestedWeights.companyStageAbility
+      + report.suggestedWeights.domainFit;
+    expect(Math.abs(total - 90)).toBeLessThanOrEqual(2);
+  });
+});
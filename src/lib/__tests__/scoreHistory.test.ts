@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendScoreHistory,
+  buildScoreHistoryEntry,
+  diffScoreRuns,
+  hashProfileForScoring,
+  SCORE_HISTORY_LIMIT,
+} from '../scoreHistory';
+import { SCORING_ENGINE_VERSION, scoreJob } from '../scoring';
+import type { Job, Profile, ScoreHistoryEntry } from '../../types';
+
+const profile: Profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: ['Director of Growth'],
+  compFloor: 150000,
+  compTarget: 180000,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: 'Remote',
+  disqualifiers: [],
+  locationPreferences: [],
+  willingToRelocate: false,
+  hardFilters: {
+    requiresVisaSponsorship: false,
+    minBaseSalary: 0,
+    maxOnsiteDaysPerWeek: 5,
+    maxTravelPercent: 100,
+    employmentTypes: [],
+  },
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const job: Job = {
+  id: 'job-1',
+  title: 'Director of Growth',
+  company: 'TestCo',
+  locationType: 'Remote',
+  employmentType: 'Full-time',
+  jobDescription: 'Own growth strategy and lead a team. Lifecycle, retention, and experimentation. Series B. Medical, dental, 401(k).',
+  stage: 'Scored',
+  stageTimestamps: { Scored: '2026-01-01T00:00:00.000Z' },
+  disqualifiers: [],
+  reasonsToPursue: [],
+  reasonsToPass: [],
+  redFlags: [],
+  requirementsExtracted: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function entryFor(scoredProfile: Profile, scoredJob: Job = job, scoredAt = '2026-02-01T00:00:00.000Z'): ScoreHistoryEntry {
+  return buildScoreHistoryEntry(scoredJob, scoreJob(scoredJob, scoredProfile), scoredProfile, [], scoredAt);
+}
+
+describe('score history', () => {
+  it('ignores profile fields that do not affect scoring', () => {
+    expect(hashProfileForScoring({ ...profile, name: 'Renamed', updatedAt: '2026-03-01T00:00:00.000Z' }))
+      .toBe(hashProfileForScoring(profile));
+    expect(hashProfileForScoring({ ...profile, compFloor: 200000 })).not.toBe(hashProfileForScoring(profile));
+  });
+
+  it('seeds a legacy baseline and skips duplicate runs', () => {
+    const legacyJob: Job = { ...job, fitScore: 55, fitLabel: 'Maybe', reasonsToPursue: ['Old reason'] };
+    const entry = entryFor(profile);
+
+    const history = appendScoreHistory(legacyJob, entry);
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({ engineVersion: 0, fitScore: 55 });
+    expect(history[1].engineVersion).toBe(SCORING_ENGINE_VERSION);
+
+    const again = appendScoreHistory({ ...legacyJob, scoreHistory: history }, { ...entry, scoredAt: '2026-02-02T00:00:00.000Z' });
+    expect(again).toHaveLength(2);
+  });
+
+  it('caps history length', () => {
+    let current: Job = job;
+    for (let run = 0; run < SCORE_HISTORY_LIMIT + 5; run += 1) {
+      const runProfile = { ...profile, compTarget: 180000 + run };
+      current = { ...current, scoreHistory: appendScoreHistory(current, entryFor(runProfile)) };
+    }
+    expect(current.scoreHistory).toHaveLength(SCORE_HISTORY_LIMIT);
+  });
+
+  it('attributes a label flip to the profile change', () => {
+    const before = entryFor(profile);
+    const after = entryFor({ ...profile, scoreThresholds: { pursueMin: 100, maybeMin: 99 } });
+
+    const diff = diffScoreRuns(before, after);
+    expect(diff.causes).toEqual(['profile']);
+    expect(diff.labelChanged).toBe(true);
+    expect(diff.scoreDelta).toBe(0);
+  });
+
+  it('attributes changes to the engine and lists reason changes', () => {
+    const before: ScoreHistoryEntry = { ...entryFor(profile), engineVersion: SCORING_ENGINE_VERSION - 1, reasonsToPursue: ['Removed reason'] };
+    const after = entryFor(profile);
+
+    const diff = diffScoreRuns(before, after);
+    expect(diff.causes).toEqual(['engine']);
+    expect(diff.removedReasonsToPursue).toEqual(['Removed reason']);
+    expect(diff.addedReasonsToPursue).toEqual(after.reasonsToPursue);
+  });
+
+  it('attributes changes to job edits', () => {
+    const before = entryFor(profile);
+    const after = entryFor(profile, { ...job, jobDescription: `${job.jobDescription} Unlimited PTO.` });
+    expect(diffScoreRuns(before, after).causes).toEqual(['job']);
+  });
+
+  it('attributes changes to requirement overrides', () => {
+    const before = entryFor(profile);
+    const after = entryFor(profile, {
+      ...job,
+      requirementOverrides: [{
+        key: 'skill:lifecycle',
+        type: 'skill',
+        description: 'Lifecycle',
+        match: 'Met',
+        updatedAt: '2026-02-01T00:00:00.000Z',
+      }],
+    });
+    expect(diffScoreRuns(before, after).causes).toEqual(['job']);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { findTextSpans, normalizeSpans, segmentHighlights } from '../scoreTrace';
+
+describe('score trace helpers', () => {
+  it('finds word-start matches only when asked', () => {
+    const text = 'rapid growth and api design';
+    expect(findTextSpans(text, 'api')).toEqual([{ start: 1, end: 4 }, { start: 17, end: 20 }]);
+    expect(findTextSpans(text, 'api', { wordStart: true })).toEqual([{ start: 17, end: 20 }]);
+  });
+
+  it('merges overlapping spans and drops spans past the limit', () => {
+    expect(normalizeSpans([{ start: 5, end: 9 }, { start: 0, end: 3 }, { start: 2, end: 4 }, { start: 20, end: 25 }], 10)).toEqual([
+      { start: 0, end: 4 },
+      { start: 5, end: 9 },
+    ]);
+  });
+
+  it('splits text into highlighted segments', () => {
+    expect(segmentHighlights('Own the roadmap', [{ start: 8, end: 15 }])).toEqual([
+      { text: 'Own the ', highlighted: false },
+      { text: 'roadmap', highlighted: true },
+    ]);
+  });
+});
@@ -1,6 +1,7 @@
 // Unit tests for deterministic scoring engine and requirements extraction
 import { describe, it, expect } from 'vitest';
-import { scoreJob, parseCompFromText } from '../scoring';
+import { scoreJob, parseCompFromText, DEFAULT_WEIGHTS } from '../scoring';
+import { createLexiconFromPreset } from '../scoringLexicons';
 import type { Job, Profile, Claim } from '../../types';
 
 const baseProfile: Profile = {
@@ -264,6 +265,131 @@ describe('scoreJob', () => {
   });
 });
 
+describe('scoreJob trace', () => {
+  it('sums trace points to the final score and category totals', () => {
+    const result = scoreJob(baseJob, baseProfile);
+    const sum = (category?: string) =>
+      result.trace.filter((entry) => !category || entry.category === category).reduce((total, entry) => total + entry.points, 0);
+
+    expect(sum()).toBeCloseTo(result.fitScore, 5);
+    expect(sum('roleScopeAuthority')).toBeCloseTo(result.breakdown.roleScopeAuthority, 5);
+    expect(sum('compensationBenefits')).toBeCloseTo(result.breakdown.compensationBenefits, 5);
+    expect(sum('riskPenalty')).toBeCloseTo(-result.breakdown.riskPenalty, 5);
+  });
+
+  it('points spans at the JD text that triggered each rule', () => {
+    const result = scoreJob(baseJob, baseProfile);
+    const jd = baseJob.jobDescription ?? '';
+    const benefits = result.trace.find((entry) => entry.ruleId === 'comp.benefits');
+
+    expect(benefits?.spans.length).toBeGreaterThan(0);
+    for (const span of benefits?.spans ?? []) {
+      expect(['medical', 'dental', '401(k)', 'equity', 'bonus', '401k']).toContain(jd.slice(span.start, span.end).toLowerCase());
+    }
+  });
+
+  it('records disqualifiers and zeroes the total through an adjustment', () => {
+    const result = scoreJob({ ...baseJob, title: 'Paid Media Manager' }, baseProfile);
+    expect(result.trace.some((entry) => entry.category === 'disqualifier')).toBe(true);
+    expect(result.trace.find((entry) => entry.ruleId === 'adjustment.disqualified')).toBeDefined();
+    expect(result.trace.reduce((total, entry) => total + entry.points, 0)).toBeCloseTo(0, 5);
+  });
+});
+
+describe('scoreJob with profile lexicons', () => {
+  const engineeringJob: Partial<Job> = {
+    title: 'Director of Engineering',
+    company: 'BuildCo',
+    jobDescription: `
+Lead the platform team and set technical strategy for our distributed systems.
+You will manage a team of backend and frontend engineers building APIs on AWS with TypeScript and Kubernetes.
+Own architecture reviews, observability, reliability, and scalability.
+Benefits: Medical, dental, 401(k)
+    `,
+    locationType: 'Remote',
+    employmentType: 'Full-time',
+  };
+
+  it('scores domain fit against the engineering preset instead of growth signals', () => {
+    const growthResult = scoreJob(engineeringJob, baseProfile);
+    const engineeringResult = scoreJob(engineeringJob, {
+      ...baseProfile,
+      scoringLexicon: createLexiconFromPreset('engineering'),
+    });
+
+    expect(engineeringResult.breakdown.domainFit).toBeGreaterThan(growthResult.breakdown.domainFit);
+    expect(engineeringResult.reasonsToPursue).toContain('Strong domain alignment (software engineering)');
+  });
+
+  it('uses the profile excluded roles instead of paid media keywords', () => {
+    const engineeringProfile: Profile = {
+      ...baseProfile,
+      scoringLexicon: createLexiconFromPreset('engineering'),
+    };
+    const paidJob: Partial<Job> = {
+      ...baseJob,
+      title: 'Paid Media Manager',
+      jobDescription: 'Hands-on paid media account management.',
+    };
+    expect(scoreJob(paidJob, engineeringProfile).disqualifiers).toHaveLength(0);
+
+    const qaJob: Partial<Job> = { ...baseJob, title: 'Manual Tester' };
+    const result = scoreJob(qaJob, engineeringProfile);
+    expect(result.disqualifiers).toContain('Role appears to require primarily manual testing or support work as core function');
+  });
+
+  it('applies user-edited risk signals', () => {
+    const lexicon = createLexiconFromPreset('growth_marketing');
+    lexicon.riskSignals = [{ pattern: 'rockstar', penalty: 4, flag: 'Rockstar language' }];
+    const result = scoreJob(
+      { ...baseJob, jobDescription: `${baseJob.jobDescription}\nWe want a rockstar.` },
+      { ...baseProfile, scoringLexicon: lexicon },
+    );
+    expect(result.redFlags).toContain('Rockstar language');
+    expect(result.breakdown.riskPenalty).toBe(4);
+  });
+});
+
+describe('scoreJob with profile weights', () => {
+  it('rescales category scores onto user weights', () => {
+    const defaultResult = scoreJob(baseJob, baseProfile);
+    const weighted = scoreJob(baseJob, {
+      ...baseProfile,
+      scoringWeights: {
+        roleScopeAuthority: 60,
+        compensationBenefits: 25,
+        companyStageAbility: 0,
+        domainFit: 15,
+        riskPenaltyMax: 10,
+      },
+    });
+
+    expect(weighted.breakdown.roleScopeAuthority).toBeCloseTo(defaultResult.breakdown.roleScopeAuthority * 2, 1);
+    expect(weighted.breakdown.compensationBenefits).toBe(defaultResult.breakdown.compensationBenefits);
+    expect(weighted.breakdown.companyStageAbility).toBe(0);
+  });
+
+  it('caps risk penalty at the configured maximum', () => {
+    const lexicon = createLexiconFromPreset('growth_marketing');
+    lexicon.riskSignals = [{ pattern: 'rockstar', penalty: 8, flag: 'Rockstar language' }];
+    const result = scoreJob(
+      { ...baseJob, jobDescription: `${baseJob.jobDescription}\nWe want a rockstar.` },
+      { ...baseProfile, scoringLexicon: lexicon, scoringWeights: { ...DEFAULT_WEIGHTS, riskPenaltyMax: 3 } },
+    );
+    expect(result.breakdown.riskPenalty).toBe(3);
+  });
+
+  it('labels with the profile thresholds', () => {
+    const defaultResult = scoreJob(baseJob, baseProfile);
+    const strict = scoreJob(baseJob, {
+      ...baseProfile,
+      scoreThresholds: { pursueMin: 100, maybeMin: 99 },
+    });
+    expect(strict.fitScore).toBe(defaultResult.fitScore);
+    expect(strict.fitLabel).toBe('Pass');
+  });
+});
+
 describe('parseCompFromText', () => {
   it('parses "$150,000 - $200,000" range', () => {
     const result = parseCompFromText('Compensation: $150,000 - $200,000');
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createLexiconFromPreset,
+  resolveScoringLexicon,
+  ROLE_FAMILY_PRESETS,
+  sanitizeScoringLexicon,
+} from '../scoringLexicons';
+
+describe('scoring lexicons', () => {
+  it('falls back to the growth-marketing preset for legacy profiles', () => {
+    const lexicon = resolveScoringLexicon({});
+    expect(lexicon.roleFamily).toBe('growth_marketing');
+    expect(lexicon.excludedRoleKeywords).toContain('paid media manager');
+    expect(lexicon.domainSignals).toContain('lifecycle');
+  });
+
+  it('creates independent copies from presets', () => {
+    const first = createLexiconFromPreset('engineering');
+    first.domainSignals.push('rust');
+    const second = createLexiconFromPreset('engineering');
+    expect(second.domainSignals).not.toContain('rust');
+  });
+
+  it('normalizes user-edited lists and keeps untouched lists from the preset', () => {
+    const lexicon = sanitizeScoringLexicon({
+      roleFamily: 'product',
+      domainSignals: ['  Product Discovery ', 'product discovery', '', 'PLG'],
+      riskSignals: [{ pattern: ' Rockstar ', penalty: 40, flag: '' }],
+    });
+
+    expect(lexicon.domainSignals).toEqual(['product discovery', 'plg']);
+    expect(lexicon.riskSignals).toEqual([{ pattern: 'rockstar', penalty: 10, flag: 'JD mentions "rockstar"' }]);
+    expect(lexicon.strategySignals).toEqual(createLexiconFromPreset('product').strategySignals);
+  });
+
+  it('ships a preset for each supported role family', () => {
+    const ids = ROLE_FAMILY_PRESETS.map((preset) => preset.id);
+    expect(ids).toEqual(expect.arrayContaining(['growth_marketing', 'engineering', 'product']));
+    for (const preset of ROLE_FAMILY_PRESETS) {
+      expect(preset.lexicon.domainSignals.length).toBeGreaterThan(0);
+      expect(preset.lexicon.seniorTitles.length).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { readShareParams, shareToCapturePrefill } from '../shareTarget';
+
+describe('readShareParams', () => {
+  it('keeps only the fields that were shared', () => {
+    expect(readShareParams(new URLSearchParams('title=&text=Hello&url=+'))).toEqual({ text: 'Hello' });
+    expect(readShareParams(new URLSearchParams(''))).toBeNull();
+  });
+});
+
+describe('shareToCapturePrefill', () => {
+  it('reads a LinkedIn app share with the link inside the text', () => {
+    expect(shareToCapturePrefill({
+      text: 'Check out this job at Acme: Director of Growth https://www.linkedin.com/jobs/view/3912345678/?trk=share',
+    })).toEqual({
+      title: 'Director of Growth',
+      company: 'Acme',
+      url: 'https://www.linkedin.com/jobs/view/3912345678/',
+      source: 'LinkedIn',
+    });
+  });
+
+  it('reads browser page titles', () => {
+    expect(shareToCapturePrefill({
+      title: 'Acme hiring Director of Growth in New York, NY | LinkedIn',
+      url: 'https://www.linkedin.com/jobs/view/3912345678',
+    })).toMatchObject({ title: 'Director of Growth', company: 'Acme', source: 'LinkedIn' });
+
+    expect(shareToCapturePrefill({
+      title: 'Senior Growth Manager - Beta Labs - Indeed.com',
+      url: 'https://www.indeed.com/viewjob?jk=abc123&from=share',
+    })).toEqual({
+      title: 'Senior Growth Manager',
+      company: 'Beta Labs',
+      url: 'https://www.indeed.com/viewjob?jk=abc123',
+      source: 'Indeed',
+    });
+
+    expect(shareToCapturePrefill({ title: 'Growth Lead - Remote', url: 'https://jobs.example.com/42' }))
+      .toEqual({ title: 'Growth Lead - Remote', url: 'https://jobs.example.com/42' });
+  });
+
+  it('treats a long shared selection as the job description', () => {
+    const jd = `About the role\n${'You will own acquisition, activation and retention across every channel. '.repeat(4)}`;
+    expect(shareToCapturePrefill({ title: 'Director of Growth at Acme', text: jd })).toEqual({
+      title: 'Director of Growth',
+      company: 'Acme',
+      jobDescription: jd.trim(),
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { detectTools } from '../claimParser';
+import {
+  buildOntology,
+  findTerms,
+  relateTerms,
+  resolveTerm,
+  sanitizeOntologyTerms,
+} from '../skillOntology';
+import { scoreJob } from '../scoring';
+import type { Claim, Profile } from '../../types';
+
+const profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: [],
+  compFloor: 0,
+  compTarget: 0,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: '',
+  disqualifiers: [],
+  locationPreferences: [],
+  willingToRelocate: false,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+} as unknown as Profile;
+
+function claim(overrides: Partial<Claim>): Claim {
+  return {
+    id: 'claim-1',
+    company: 'Acme',
+    role: 'Director of Growth',
+    startDate: 'Jan 2020',
+    responsibilities: [],
+    tools: [],
+    outcomes: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function requirementFor(jd: string, claims: Claim[], description: string, scoredProfile: Profile = profile) {
+  return scoreJob({ title: 'Director of Growth', jobDescription: jd }, scoredProfile, claims)
+    .requirementsExtracted.find((req) => req.description === description);
+}
+
+describe('skill ontology lookup', () => {
+  it('resolves aliases to canonical names', () => {
+    expect(resolveTerm('SFDC')?.canonical).toBe('Salesforce');
+    expect(resolveTerm('google analytics 4')?.canonical).toBe('GA4');
+    expect(resolveTerm('CRM marketing')?.canonical).toBe('Lifecycle marketing');
+  });
+
+  it('prefers the longest phrase and respects word boundaries', () => {
+    expect(findTerms('Owned CRM marketing across email and push').map((term) => term.canonical)).toEqual(['Lifecycle marketing']);
+    expect(findTerms('Reported in Google Analytics 4').map((term) => term.canonical)).toEqual(['GA4']);
+    expect(findTerms('Bigqueryish pipelines')).toEqual([]);
+  });
+
+  it('only reads everyday-word tool names when capitalized', () => {
+    expect(detectTools('Automated handoffs in Make and Zapier')).toEqual(['Make', 'Zapier']);
+    expect(detectTools('We make sure we excel at outreach')).toEqual([]);
+  });
+
+  it('classifies parent, child and related terms', () => {
+    const ga4 = resolveTerm('GA4')!;
+    const ga = resolveTerm('Google Analytics')!;
+    expect(relateTerms(ga, ga4)).toBe('narrower');
+    expect(relateTerms(ga4, ga)).toBe('broader');
+    expect(relateTerms(resolveTerm('Salesforce')!, resolveTerm('HubSpot')!)).toBe('related');
+    expect(relateTerms(resolveTerm('Salesforce')!, resolveTerm('Figma')!)).toBeNull();
+  });
+
+  it('lets user terms add new entries and extend built-in ones', () => {
+    const ontology = buildOntology(sanitizeOntologyTerms([
+      { canonical: 'Customer.io', kind: 'tool', aliases: ['customerio', ''], parent: 'Marketing automation' },
+      { canonical: 'Salesforce', kind: 'tool', aliases: ['SF'] },
+    ]));
+    expect(resolveTerm('customerio', ontology)?.canonical).toBe('Customer.io');
+    expect(resolveTerm('SF', ontology)?.canonical).toBe('Salesforce');
+    expect(resolveTerm('SFDC', ontology)?.canonical).toBe('Salesforce');
+    expect(relateTerms(resolveTerm('Braze', ontology)!, resolveTerm('Customer.io', ontology)!, ontology)).toBe('related');
+  });
+});
+
+describe('requirement matching with the ontology', () => {
+  it('matches aliases as Met', () => {
+    const req = requirementFor('Requirements:\n- Expert in SFDC reporting', [claim({ tools: ['Salesforce'] })], 'Salesforce');
+    expect(req).toMatchObject({ match: 'Met', evidence: 'Used at Acme (Director of Growth)' });
+
+    const skillReq = requirementFor(
+      'Requirements:\n- Deep lifecycle marketing experience',
+      [claim({ responsibilities: ['Ran CRM marketing programs for 2M users'] })],
+      'Deep lifecycle marketing experience',
+    );
+    expect(skillReq?.match).toBe('Met');
+  });
+
+  it('counts a child term as Met and a parent or related term as Partial with an explanation', () => {
+    const child = requirementFor('Requirements:\n- Google Analytics', [claim({ tools: ['GA4'] })], 'Google Analytics');
+    expect(child).toMatchObject({ match: 'Met', evidence: 'Used at Acme (Director of Growth); GA4 is a kind of Google Analytics' });
+
+    const parent = requirementFor('Requirements:\n- GA4', [claim({ tools: ['Google Analytics'] })], 'GA4');
+    expect(parent).toMatchObject({ match: 'Partial', evidence: 'Google Analytics is broader than GA4 (Director of Growth at Acme)' });
+
+    const sibling = requirementFor('Requirements:\n- Salesforce admin skills', [claim({ tools: ['HubSpot'] })], 'Salesforce');
+    expect(sibling).toMatchObject({ match: 'Partial', evidence: 'HubSpot and Salesforce are both CRM (Director of Growth at Acme)' });
+  });
+
+  it('uses profile vocabulary additions', () => {
+    const customProfile = {
+      ...profile,
+      ontologyTerms: [{ canonical: 'Customer.io', kind: 'tool', parent: 'Marketing automation' }],
+    } as Profile;
+    const req = requirementFor('Requirements:\n- Customer.io', [claim({ tools: ['Braze'] })], 'Customer.io', customProfile);
+    expect(req?.match).toBe('Partial');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { compareTitleToTargets, normalizeTitle } from '../titleNormalization';
+import { scoreJob } from '../scoring';
+import type { Profile } from '../../types';
+
+const profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: ['Director of Growth'],
+  compFloor: 0,
+  compTarget: 0,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: '',
+  disqualifiers: [],
+  locationPreferences: [],
+  willingToRelocate: false,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+} as unknown as Profile;
+
+function titlePoints(title: string, targetRoles: string[]): number {
+  const result = scoreJob({ title, jobDescription: 'Own the growth roadmap.' }, { ...profile, targetRoles }, []);
+  return result.trace
+    .filter((entry) => entry.ruleId.startsWith('role.title_') || entry.ruleId === 'role.senior_title')
+    .reduce((sum, entry) => sum + entry.points, 0);
+}
+
+describe('normalizeTitle', () => {
+  it('parses seniority, function and specialization', () => {
+    expect(normalizeTitle('Senior Manager, Growth')).toMatchObject({ seniority: 'senior_manager', function: 'growth', specialization: [] });
+    expect(normalizeTitle('Director of Lifecycle Marketing (Remote)')).toMatchObject({
+      seniority: 'director',
+      function: 'growth',
+      specialization: ['marketing'],
+    });
+    expect(normalizeTitle('VP, Product Marketing — New York')).toMatchObject({ seniority: 'vp', function: 'marketing' });
+    expect(normalizeTitle('Chief Revenue Officer')).toMatchObject({ seniority: 'c_level', function: 'sales' });
+  });
+
+  it('does not recognize a function in novelty titles', () => {
+    expect(normalizeTitle('Director of First Impressions')).toMatchObject({
+      seniority: 'director',
+      function: null,
+      specialization: ['first', 'impressions'],
+    });
+  });
+});
+
+describe('compareTitleToTargets', () => {
+  it('reports under-level, match and over-level against the closest target', () => {
+    expect(compareTitleToTargets('Senior Manager, Growth', ['Director of Growth'])).toMatchObject({
+      seniorityFit: 'under',
+      levelGap: -1,
+      functionMatch: 'match',
+    });
+    expect(compareTitleToTargets('Head of Growth', ['Sales Director', 'Director of Growth'])).toMatchObject({
+      seniorityFit: 'match',
+      functionMatch: 'match',
+      target: { raw: 'Director of Growth' },
+    });
+    expect(compareTitleToTargets('VP Marketing', ['Director of Growth'])).toMatchObject({
+      seniorityFit: 'over',
+      functionMatch: 'related',
+    });
+    expect(compareTitleToTargets('Director of First Impressions', ['Director of Growth'])).toMatchObject({
+      seniorityFit: 'unknown',
+      functionMatch: 'unknown',
+    });
+  });
+
+  it('reads "senior" anywhere before the manager or director word', () => {
+    expect(normalizeTitle('Senior Product Manager').seniority).toBe('senior_manager');
+    expect(normalizeTitle('Sr. Growth Marketing Director').seniority).toBe('senior_director');
+    expect(compareTitleToTargets('Senior Growth Manager', ['Senior Manager, Growth'])).toMatchObject({
+      seniorityFit: 'match',
+      levelGap: 0,
+      functionMatch: 'match',
+    });
+  });
+
+  it('feeds role-scope scoring', () => {
+    expect(titlePoints('Director of Growth', ['Director of Growth'])).toBe(12);
+    expect(titlePoints('Senior Manager, Growth', ['Director of Growth'])).toBe(8);
+    expect(titlePoints('Director of Sales', ['Director of Growth'])).toBe(8);
+    expect(titlePoints('Director of First Impressions', ['Director of Growth'])).toBe(4);
+    expect(titlePoints('Director of First Impressions', [])).toBe(6);
+    expect(titlePoints('Director of Growth', [])).toBe(12);
+  });
+});
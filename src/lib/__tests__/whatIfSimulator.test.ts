@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { applyProfilePatch, simulateProfilePatch } from '../whatIfSimulator';
+import type { Job, Profile } from '../../types';
+
+const profile: Profile = {
+  id: 'default',
+  name: 'Test',
+  targetRoles: ['Director of Growth'],
+  compFloor: 200000,
+  compTarget: 230000,
+  requiredBenefits: [],
+  preferredBenefits: [],
+  requiredBenefitIds: [],
+  preferredBenefitIds: [],
+  locationPreference: 'Remote',
+  disqualifiers: [],
+  locationPreferences: [],
+  willingToRelocate: false,
+  hardFilters: {
+    requiresVisaSponsorship: false,
+    minBaseSalary: 200000,
+    maxOnsiteDaysPerWeek: 2,
+    maxTravelPercent: 100,
+    employmentTypes: ['full_time_w2', 'contract_to_hire', 'part_time', 'internship', 'temporary'],
+  },
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const JD = 'Lead growth strategy for our Series C company. Build and lead a team. Own the roadmap for lifecycle and retention. Medical, dental, 401(k), equity.';
+
+function makeJob(overrides: Partial<Job>): Job {
+  return {
+    id: 'job-1',
+    title: 'Director of Growth',
+    company: 'TestCo',
+    locationType: 'Remote',
+    employmentType: 'Full-time',
+    jobDescription: JD,
+    stage: 'Scored',
+    stageTimestamps: { Captured: '2026-01-01T00:00:00.000Z' },
+    disqualifiers: [],
+    reasonsToPursue: [],
+    reasonsToPass: [],
+    redFlags: [],
+    requirementsExtracted: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('applyProfilePatch', () => {
+  it('moves the comp floor and minimum base salary together and leaves the profile untouched', () => {
+    const patched = applyProfilePatch(profile, {
+      compFloor: 180000,
+      hardFilters: { maxOnsiteDaysPerWeek: 3 },
+      seedStagePolicy: 'disqualify',
+    });
+
+    expect(patched.compFloor).toBe(180000);
+    expect(patched.hardFilters).toMatchObject({ minBaseSalary: 180000, maxOnsiteDaysPerWeek: 3, maxTravelPercent: 100 });
+    expect(patched.scoringPolicy?.seedStagePolicy).toBe('disqualify');
+    expect(profile.hardFilters.minBaseSalary).toBe(200000);
+  });
+});
+
+describe('simulateProfilePatch', () => {
+  const jobs = [
+    makeJob({ id: 'under-floor', compRange: '$170,000 - $190,000', compMin: 170000, compMax: 190000 }),
+    makeJob({ id: 'hybrid', locationType: 'Hybrid', jobDescription: `${JD} In office 3 days per week.` }),
+    makeJob({ id: 'unchanged', compRange: '$210,000 - $240,000', compMin: 210000, compMax: 240000 }),
+    makeJob({ id: 'empty', jobDescription: '' }),
+  ];
+
+  it('lists the disqualifiers each job would lose and counts label moves', () => {
+    const result = simulateProfilePatch(jobs, profile, { compFloor: 180000, hardFilters: { maxOnsiteDaysPerWeek: 3 } });
+
+    expect(result.simulatedCount).toBe(3);
+    expect(result.lostCount).toBe(2);
+    expect(result.gainedCount).toBe(0);
+
+    const byId = new Map(result.changes.map((change) => [change.jobId, change]));
+    expect(byId.has('unchanged')).toBe(false);
+    expect(byId.get('under-floor')?.disqualifiersLost.map((rule) => rule.ruleId)).toEqual(['disqualifier.comp_floor']);
+    expect(byId.get('under-floor')?.before.label).toBe('Pass');
+    expect(byId.get('hybrid')?.disqualifiersLost.map((rule) => rule.ruleId)).toContain('disqualifier.onsite');
+
+    const beforeTotal = Object.values(result.labelCounts).reduce((sum, count) => sum + count.before, 0);
+    const afterTotal = Object.values(result.labelCounts).reduce((sum, count) => sum + count.after, 0);
+    expect(beforeTotal).toBe(3);
+    expect(afterTotal).toBe(3);
+    expect(result.labelChangeCount).toBe(result.changes.filter((change) => change.before.label !== change.after.label).length);
+  });
+
+  it('reports newly gained disqualifiers when a filter gets stricter', () => {
+    const result = simulateProfilePatch(jobs, profile, { compFloor: 250000 });
+
+    expect(result.gainedCount).toBe(1);
+    expect(result.changes.find((change) => change.jobId === 'unchanged')?.disqualifiersGained[0].ruleId)
+      .toBe('disqualifier.comp_floor');
+  });
+});
@@ -0,0 +1,365 @@
+// Job Filter v2 — Job Alert Digests
+// Splits a LinkedIn, Indeed or Glassdoor job-alert email — pasted as text
+// or HTML, or dropped as an .eml file — into candidate jobs with title,
+// company, location and a canonical link, ready for triage.
+
+import type { LocationType } from '../types';
+import { htmlToText } from './jobPostingJsonLd';
+import { normalizeTitle } from './titleNormalization';
+
+export type AlertSource = 'LinkedIn' | 'Indeed' | 'Glassdoor' | 'Other';
+
+export interface AlertCandidate {
+  /** Stable per posting (e.g. `linkedin:3912345678`), so repeats in one email collapse. */
+  key: string;
+  title: string;
+  company: string;
+  location?: string;
+  locationType?: LocationType;
+  url: string;
+  source: AlertSource;
+}
+
+export interface AlertDigest {
+  source: AlertSource;
+  subject?: string;
+  candidates: AlertCandidate[];
+}
+
+export interface EmailMessage {
+  subject?: string;
+  from?: string;
+  html?: string;
+  text?: string;
+}
+
+// ============================================================
+// .eml parsing
+// ============================================================
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+function splitPart(raw: string): MimePart {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerText = match?.index === undefined ? raw : raw.slice(0, match.index);
+  const body = match?.index === undefined ? '' : raw.slice(match.index + match[0].length);
+  const headers: Record<string, string> = {};
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return { headers, body };
+}
+
+function headerParam(header: string | undefined, name: string): string | undefined {
+  return header?.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'))?.slice(1).find(Boolean);
+}
+
+function decodeBytes(bytes: number[], charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder().decode(new Uint8Array(bytes));
+  }
+}
+
+function decodeQuotedPrintable(text: string, charset?: string): string {
+  const bytes: number[] = [];
+  const source = text.replace(/=\r?\n/g, '');
+  for (let i = 0; i < source.length; i++) {
+    const hex = source[i] === '=' ? source.slice(i + 1, i + 3) : '';
+    if (/^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      const code = source.charCodeAt(i);
+      if (code < 0x80) bytes.push(code);
+      else bytes.push(...new TextEncoder().encode(source[i]));
+    }
+  }
+  return decodeBytes(bytes, charset);
+}
+
+function decodeBase64(text: string, charset?: string): string {
+  try {
+    return decodeBytes([...atob(text.replace(/\s+/g, ''))].map((char) => char.charCodeAt(0)), charset);
+  } catch {
+    return text;
+  }
+}
+
+function decodeBody(part: MimePart): string {
+  const charset = headerParam(part.headers['content-type'], 'charset');
+  const encoding = part.headers['content-transfer-encoding']?.toLowerCase();
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body, charset);
+  if (encoding === 'base64') return decodeBase64(part.body, charset);
+  return part.body;
+}
+
+// RFC 2047 encoded words in headers: =?UTF-8?Q?Director_of_Growth?=
+function decodeHeader(value: string | undefined): string | undefined {
+  return value
+    ?.replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) =>
+      encoding.toLowerCase() === 'b'
+        ? decodeBase64(text, charset)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '), charset));
+}
+
+function leafParts(part: MimePart): MimePart[] {
+  const contentType = part.headers['content-type'] ?? 'text/plain';
+  const boundary = headerParam(contentType, 'boundary');
+  if (!/^multipart\//i.test(contentType) || !boundary) return [part];
+
+  const sections = part.body.split(`--${boundary}`).slice(1);
+  return sections
+    .filter((section) => !section.startsWith('--'))
+    .flatMap((section) => leafParts(splitPart(section.replace(/^\r?\n/, '').replace(/\r?\n$/, ''))));
+}
+
+export function looksLikeEmailMessage(text: string): boolean {
+  const head = text.slice(0, 4000);
+  return /^(?:[\w-]+:[^\n]*\r?\n(?:[ \t][^\n]*\r?\n)*)+/.test(text)
+    && /^content-type:/im.test(head)
+    && /^(?:from|subject|mime-version):/im.test(head);
+}
+
+/** Subject, sender and the HTML / plain-text bodies of a raw RFC 822 message. */
+export function parseEmailMessage(raw: string): EmailMessage {
+  const message = splitPart(raw);
+  const parts = leafParts(message);
+  const body = (type: string) => {
+    const part = parts.find((entry) => (entry.headers['content-type'] ?? 'text/plain').toLowerCase().startsWith(type));
+    return part ? decodeBody(part) : undefined;
+  };
+  return {
+    subject: decodeHeader(message.headers.subject),
+    from: decodeHeader(message.headers.from),
+    html: body('text/html'),
+    text: body('text/plain'),
+  };
+}
+
+// ============================================================
+// Job links
+// ============================================================
+
+export interface JobLink {
+  key: string;
+  url: string;
+  source: AlertSource;
+}
+
+const ATS_HOSTS = /(?:greenhouse\.io|lever\.co|ashbyhq\.com|workable\.com|myworkdayjobs\.com|smartrecruiters\.com|jobvite\.com|wellfound\.com)$/i;
+const JOB_PATH = /\/(?:jobs?|careers?|positions?|openings?|postings?)(?:\/|$|-)/i;
+
+/** The posting a link points to, with tracking stripped; null for links that aren't job postings. */
+export function parseJobLink(href: string): JobLink | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(url.protocol)) return null;
+  const host = url.hostname.toLowerCase();
+
+  if (/(?:^|\.)linkedin\.com$/.test(host)) {
+    const id = url.pathname.match(/\/jobs\/view\/(?:[^/]*-)?(\d+)/)?.[1] ?? url.searchParams.get('currentJobId');
+    return id ? { key: `linkedin:${id}`, url: `https://www.linkedin.com/jobs/view/${id}/`, source: 'LinkedIn' } : null;
+  }
+  if (/(?:^|\.)indeed\.[a-z.]+$/.test(host)) {
+    const id = url.searchParams.get('jk') ?? url.searchParams.get('vjk');
+    return id ? { key: `indeed:${id}`, url: `https://${host.replace(/^[^.]+\.indeed/, 'www.indeed')}/viewjob?jk=${id}`, source: 'Indeed' } : null;
+  }
+  if (/(?:^|\.)glassdoor\.[a-z.]+$/.test(host)) {
+    const id = url.searchParams.get('jobListingId') ?? url.searchParams.get('jl');
+    return id ? { key: `glassdoor:${id}`, url: href, source: 'Glassdoor' } : null;
+  }
+  if (ATS_HOSTS.test(host) || JOB_PATH.test(url.pathname)) {
+    for (const param of [...url.searchParams.keys()]) {
+      if (/^utm_|^(?:ref|src|source|trk|tracking_?id)$/i.test(param)) url.searchParams.delete(param);
+    }
+    return { key: `${host}${url.pathname.replace(/\/$/, '')}`, url: url.toString(), source: 'Other' };
+  }
+  return null;
+}
+
+// ============================================================
+// Lines
+// ============================================================
+
+interface DigestLine {
+  text: string;
+  link?: JobLink;
+}
+
+const URL_PATTERN = /<?https?:\/\/[^\s<>"')\]]+>?/g;
+const ANCHOR_START = '\u0001';
+const ANCHOR_END = '\u0002';
+
+function textToLines(text: string): DigestLine[] {
+  return text.split(/\r?\n/).map((line) => {
+    const urls = line.match(URL_PATTERN) ?? [];
+    const link = urls.map((url) => parseJobLink(url.replace(/^<|>$/g, ''))).find(Boolean) ?? undefined;
+    return { text: line.replace(URL_PATTERN, ' ').replace(/\s+/g, ' ').replace(/[\s:[(]+$/, '').trim(), link };
+  });
+}
+
+function htmlToLines(html: string): DigestLine[] {
+  // Mark each link so its href survives the text conversion on its own line.
+  const marked = html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi, (_, _quote: string, href: string, inner: string) =>
+      `<br>${ANCHOR_START}${href}${ANCHOR_END}${inner.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ')}<br>`)
+    .replace(/<\/(td|th|table)>/gi, '$&<br>');
+
+  return htmlToText(marked).split('\n').map((line) => {
+    const anchor = line.match(new RegExp(`^${ANCHOR_START}([^${ANCHOR_END}]*)${ANCHOR_END}(.*)$`));
+    if (!anchor) return { text: line.trim() };
+    return { text: anchor[2].trim(), link: parseJobLink(anchor[1].trim()) ?? undefined };
+  });
+}
+
+// ============================================================
+// Candidates
+// ============================================================
+
+const GENERIC_LINK_TEXT = /^(?:view(?: the)? job|view details|apply(?: now)?|easy apply|see (?:job|more|details)|learn more|more details|read more|open|click here|view)$/i;
+const NOISE = /\bago\b|applicants?\b|\bconnections?\b|alumni|actively recruiting|early applicant|^promoted$|easy apply|responsive employer|urgently hiring|hiring multiple|^new$|job alert|match(?:es)? your|unsubscribe|©|\bsalary\b|[$€£]|\d+k\b|per (?:hour|year)|an? (?:hour|year)|employer est|★|^\d(?:\.\d)?$|^(?:see|view) all|similar jobs|jobs? (?:for|like) you|notification|preferences/i;
+const SEPARATOR = /^[-=_*~·•\s]{3,}$/;
+const ROLE_WORD = /\b(?:manager|director|head of|vp|lead|engineer|designer|analyst|specialist|coordinator|officer|associate|consultant|strategist|architect|scientist|owner|partner|executive|representative|writer|editor|intern|administrator|recruiter)\b/i;
+// Case-sensitive so a state code ("Denver, CO") isn't read as "Co."
+const COMPANY_SUFFIX = /\b(?:Inc|INC|LLC|Ltd|LTD|Corp|Co|GmbH|PLC|Plc)\.?$/;
+const PLACE = /^(?:[A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*)*)(?:,\s*[A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*)*){1,2}$/;
+const COUNTRIES = /^(?:united states|usa|us|united kingdom|uk|canada|australia|germany|france|ireland|india|netherlands|spain|singapore|europe|emea|latam|apac)$/i;
+const ARRANGEMENT = /\b(?:remote|hybrid|on-?site|in[- ]office|anywhere|worldwide)\b/i;
+const BLOCK_LIMIT = 6;
+
+/** A role word ("Manager", "Director") is stronger evidence than a function word, which company names share. */
+function findTitle(texts: string[]): string | undefined {
+  const candidates = texts.filter((text) => text.length <= 100);
+  return candidates.find((text) => ROLE_WORD.test(text))
+    ?? candidates.find((text) => normalizeTitle(text).function !== null);
+}
+
+function isLocation(text: string): boolean {
+  const place = text.replace(/\s*\((?:remote|hybrid|on-?site)\)\s*$/i, '').trim();
+  if (/\b(?:greater .+ area|metropolitan area|metro area|bay area)\b/i.test(place)) return true;
+  if (ARRANGEMENT.test(place) && place.split(/\s+/).length <= 6) return true;
+  if (COUNTRIES.test(place)) return true;
+  return PLACE.test(place) && !COMPANY_SUFFIX.test(place) && place.split(/\s+/).length <= 6;
+}
+
+function locationTypeOf(location: string | undefined): LocationType | undefined {
+  if (!location) return undefined;
+  if (/\bhybrid\b/i.test(location)) return 'Hybrid';
+  if (/\b(?:remote|anywhere|worldwide)\b/i.test(location)) return 'Remote';
+  if (/\b(?:on-?site|in[- ]office)\b/i.test(location)) return 'In-person';
+  return undefined;
+}
+
+function isDetail(text: string): boolean {
+  return Boolean(text) && !GENERIC_LINK_TEXT.test(text) && !NOISE.test(text) && !SEPARATOR.test(text);
+}
+
+/** Title, company and location from the lines of one job card, in whatever order the sender uses. */
+function describeCard(anchorTexts: string[], texts: string[]): Pick<AlertCandidate, 'title' | 'company' | 'location'> | null {
+  const title = findTitle(anchorTexts) ?? findTitle(texts) ?? anchorTexts[0] ?? texts[0];
+  if (!title) return null;
+
+  let company = '';
+  let location: string | undefined;
+  const rest = [...anchorTexts, ...texts].filter((text, index, all) => text !== title && all.indexOf(text) === index);
+  for (const line of rest) {
+    for (const part of line.split(/\s+[·•|]\s+|\s+[-–—]\s+/).map((entry) => entry.trim()).filter(Boolean)) {
+      if (isLocation(part)) location ??= part;
+      else if (!company && part !== title) company = part;
+    }
+  }
+
+  return { title: title.replace(/\s*\((?:remote|hybrid|on-?site)\)\s*$/i, '').trim(), company, location };
+}
+
+function candidatesFromLines(lines: DigestLine[]): AlertCandidate[] {
+  // Every line index a posting's link appears on, in order of first appearance.
+  const occurrences = new Map<string, { link: JobLink; indexes: number[] }>();
+  lines.forEach((line, index) => {
+    if (!line.link) return;
+    const entry = occurrences.get(line.link.key) ?? { link: line.link, indexes: [] };
+    entry.indexes.push(index);
+    occurrences.set(line.link.key, entry);
+  });
+
+  const postings = [...occurrences.values()];
+  return postings.flatMap(({ link, indexes }, position): AlertCandidate[] => {
+    const first = indexes[0];
+    const last = indexes[indexes.length - 1];
+    const anchorTexts = indexes.map((index) => lines[index].text).filter(isDetail);
+
+    let texts: string[];
+    if (anchorTexts.length > 0) {
+      // HTML cards: the title is the link, details follow it.
+      const next = postings[position + 1]?.indexes[0] ?? lines.length;
+      const after: string[] = [];
+      for (let i = first + 1; i < next && after.length < BLOCK_LIMIT; i++) {
+        if (SEPARATOR.test(lines[i].text) || (lines[i].link && lines[i].link?.key !== link.key)) break;
+        if (!lines[i].link && isDetail(lines[i].text)) after.push(lines[i].text);
+      }
+      texts = after;
+    } else {
+      // Plain-text digests: details sit above a bare "View job: <url>" line.
+      const previous = position > 0 ? postings[position - 1].indexes.at(-1) ?? -1 : -1;
+      const before: string[] = [];
+      for (let i = last - 1; i > previous && before.length < BLOCK_LIMIT; i--) {
+        if (SEPARATOR.test(lines[i].text) || (!lines[i].text && before.length > 0)) break;
+        if (isDetail(lines[i].text)) before.unshift(lines[i].text);
+      }
+      texts = before;
+    }
+
+    const card = describeCard(anchorTexts, texts);
+    if (!card) return [];
+    return [{
+      key: link.key,
+      ...card,
+      locationType: locationTypeOf(card.location),
+      url: link.url,
+      source: link.source,
+    }];
+  });
+}
+
+function digestSource(candidates: AlertCandidate[], from: string | undefined): AlertSource {
+  const counts = new Map<AlertSource, number>();
+  for (const { source } of candidates) counts.set(source, (counts.get(source) ?? 0) + 1);
+  const [top] = [...counts.entries()].filter(([source]) => source !== 'Other').sort((a, b) => b[1] - a[1]);
+  if (top) return top[0];
+  if (from && /linkedin/i.test(from)) return 'LinkedIn';
+  if (from && /indeed/i.test(from)) return 'Indeed';
+  if (from && /glassdoor/i.test(from)) return 'Glassdoor';
+  return 'Other';
+}
+
+/**
+ * Split an alert email into candidate jobs. Accepts a raw .eml message, an
+ * HTML body or a plain-text body; postings linked more than once (logo,
+ * title and "Apply" links) become one candidate.
+ */
+export function splitAlertDigest(input: string): AlertDigest {
+  const message: EmailMessage = looksLikeEmailMessage(input)
+    ? parseEmailMessage(input)
+    : /<(?:a|table|div|p|br)\b/i.test(input) ? { html: input } : { text: input };
+
+  let candidates = message.html ? candidatesFromLines(htmlToLines(message.html)) : [];
+  if (candidates.length === 0 && message.text) candidates = candidatesFromLines(textToLines(message.text));
+
+  return {
+    source: digestSource(candidates, message.from),
+    subject: message.subject,
+    candidates,
+  };
+}
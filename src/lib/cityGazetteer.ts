@@ -0,0 +1,255 @@
+// Job Filter v2 — Offline City Gazetteer
+// Bundled city coordinates for radius matching. Covers large US metros,
+// their main suburbs and job hubs, and a handful of international tech
+// cities. No network lookups; unknown places fall back to text matching.
+
+export interface GazetteerCity {
+  name: string;
+  /** US state / Canadian province code, or '' outside North America. */
+  region: string;
+  country: string;
+  lat: number;
+  lon: number;
+  aliases?: string[];
+}
+
+export const CITY_GAZETTEER: GazetteerCity[] = [
+  // Northeast
+  { name: 'New York', region: 'NY', country: 'US', lat: 40.7128, lon: -74.006, aliases: ['nyc', 'new york city', 'manhattan'] },
+  { name: 'Brooklyn', region: 'NY', country: 'US', lat: 40.6782, lon: -73.9442 },
+  { name: 'Queens', region: 'NY', country: 'US', lat: 40.7282, lon: -73.7949 },
+  { name: 'White Plains', region: 'NY', country: 'US', lat: 41.034, lon: -73.7629 },
+  { name: 'Jersey City', region: 'NJ', country: 'US', lat: 40.7178, lon: -74.0431 },
+  { name: 'Hoboken', region: 'NJ', country: 'US', lat: 40.744, lon: -74.0324 },
+  { name: 'Newark', region: 'NJ', country: 'US', lat: 40.7357, lon: -74.1724 },
+  { name: 'Princeton', region: 'NJ', country: 'US', lat: 40.3573, lon: -74.6672 },
+  { name: 'Stamford', region: 'CT', country: 'US', lat: 41.0534, lon: -73.5387 },
+  { name: 'Hartford', region: 'CT', country: 'US', lat: 41.7658, lon: -72.6734 },
+  { name: 'New Haven', region: 'CT', country: 'US', lat: 41.3083, lon: -72.9279 },
+  { name: 'Boston', region: 'MA', country: 'US', lat: 42.3601, lon: -71.0589 },
+  { name: 'Cambridge', region: 'MA', country: 'US', lat: 42.3736, lon: -71.1097 },
+  { name: 'Somerville', region: 'MA', country: 'US', lat: 42.3876, lon: -71.0995 },
+  { name: 'Waltham', region: 'MA', country: 'US', lat: 42.3765, lon: -71.2356 },
+  { name: 'Providence', region: 'RI', country: 'US', lat: 41.824, lon: -71.4128 },
+  { name: 'Philadelphia', region: 'PA', country: 'US', lat: 39.9526, lon: -75.1652, aliases: ['philly'] },
+  { name: 'Pittsburgh', region: 'PA', country: 'US', lat: 40.4406, lon: -79.9959 },
+  { name: 'Baltimore', region: 'MD', country: 'US', lat: 39.2904, lon: -76.6122 },
+  { name: 'Bethesda', region: 'MD', country: 'US', lat: 38.9847, lon: -77.0947 },
+  { name: 'Washington', region: 'DC', country: 'US', lat: 38.9072, lon: -77.0369, aliases: ['washington dc', 'washington d.c.', 'dc'] },
+  { name: 'Arlington', region: 'VA', country: 'US', lat: 38.8816, lon: -77.091 },
+  { name: 'Alexandria', region: 'VA', country: 'US', lat: 38.8048, lon: -77.0469 },
+  { name: 'Reston', region: 'VA', country: 'US', lat: 38.9586, lon: -77.357 },
+  { name: 'McLean', region: 'VA', country: 'US', lat: 38.9339, lon: -77.1773 },
+  { name: 'Richmond', region: 'VA', country: 'US', lat: 37.5407, lon: -77.436 },
+
+  // Southeast
+  { name: 'Charlotte', region: 'NC', country: 'US', lat: 35.2271, lon: -80.8431 },
+  { name: 'Raleigh', region: 'NC', country: 'US', lat: 35.7796, lon: -78.6382 },
+  { name: 'Durham', region: 'NC', country: 'US', lat: 35.994, lon: -78.8986 },
+  { name: 'Cary', region: 'NC', country: 'US', lat: 35.7915, lon: -78.7811 },
+  { name: 'Chapel Hill', region: 'NC', country: 'US', lat: 35.9132, lon: -79.0558 },
+  { name: 'Atlanta', region: 'GA', country: 'US', lat: 33.749, lon: -84.388 },
+  { name: 'Alpharetta', region: 'GA', country: 'US', lat: 34.0754, lon: -84.2941 },
+  { name: 'Nashville', region: 'TN', country: 'US', lat: 36.1627, lon: -86.7816 },
+  { name: 'Franklin', region: 'TN', country: 'US', lat: 35.9251, lon: -86.8689 },
+  { name: 'Chattanooga', region: 'TN', country: 'US', lat: 35.0456, lon: -85.3097 },
+  { name: 'Knoxville', region: 'TN', country: 'US', lat: 35.9606, lon: -83.9207 },
+  { name: 'Miami', region: 'FL', country: 'US', lat: 25.7617, lon: -80.1918 },
+  { name: 'Fort Lauderdale', region: 'FL', country: 'US', lat: 26.1224, lon: -80.1373 },
+  { name: 'Boca Raton', region: 'FL', country: 'US', lat: 26.3683, lon: -80.1289 },
+  { name: 'Orlando', region: 'FL', country: 'US', lat: 28.5383, lon: -81.3792 },
+  { name: 'Tampa', region: 'FL', country: 'US', lat: 27.9506, lon: -82.4572 },
+  { name: 'St. Petersburg', region: 'FL', country: 'US', lat: 27.7676, lon: -82.6403, aliases: ['st petersburg', 'saint petersburg'] },
+  { name: 'Jacksonville', region: 'FL', country: 'US', lat: 30.3322, lon: -81.6557 },
+  { name: 'New Orleans', region: 'LA', country: 'US', lat: 29.9511, lon: -90.0715 },
+  { name: 'Birmingham', region: 'AL', country: 'US', lat: 33.5186, lon: -86.8104 },
+
+  // Midwest
+  { name: 'Chicago', region: 'IL', country: 'US', lat: 41.8781, lon: -87.6298 },
+  { name: 'Evanston', region: 'IL', country: 'US', lat: 42.0451, lon: -87.6877 },
+  { name: 'Naperville', region: 'IL', country: 'US', lat: 41.7508, lon: -88.1535 },
+  { name: 'Columbus', region: 'OH', country: 'US', lat: 39.9612, lon: -82.9988 },
+  { name: 'Cincinnati', region: 'OH', country: 'US', lat: 39.1031, lon: -84.512 },
+  { name: 'Cleveland', region: 'OH', country: 'US', lat: 41.4993, lon: -81.6944 },
+  { name: 'Indianapolis', region: 'IN', country: 'US', lat: 39.7684, lon: -86.1581 },
+  { name: 'Detroit', region: 'MI', country: 'US', lat: 42.3314, lon: -83.0458 },
+  { name: 'Ann Arbor', region: 'MI', country: 'US', lat: 42.2808, lon: -83.743 },
+  { name: 'Grand Rapids', region: 'MI', country: 'US', lat: 42.9634, lon: -85.6681 },
+  { name: 'Minneapolis', region: 'MN', country: 'US', lat: 44.9778, lon: -93.265 },
+  { name: 'St. Paul', region: 'MN', country: 'US', lat: 44.9537, lon: -93.09, aliases: ['st paul', 'saint paul'] },
+  { name: 'Milwaukee', region: 'WI', country: 'US', lat: 43.0389, lon: -87.9065 },
+  { name: 'Madison', region: 'WI', country: 'US', lat: 43.0731, lon: -89.4012 },
+  { name: 'St. Louis', region: 'MO', country: 'US', lat: 38.627, lon: -90.1994, aliases: ['st louis', 'saint louis'] },
+  { name: 'Kansas City', region: 'MO', country: 'US', lat: 39.0997, lon: -94.5786 },
+  { name: 'Omaha', region: 'NE', country: 'US', lat: 41.2565, lon: -95.9345 },
+  { name: 'Des Moines', region: 'IA', country: 'US', lat: 41.5868, lon: -93.625 },
+
+  // Texas and Southwest
+  { name: 'Austin', region: 'TX', country: 'US', lat: 30.2672, lon: -97.7431 },
+  { name: 'Round Rock', region: 'TX', country: 'US', lat: 30.5083, lon: -97.6789 },
+  { name: 'Cedar Park', region: 'TX', country: 'US', lat: 30.5052, lon: -97.8203 },
+  { name: 'Georgetown', region: 'TX', country: 'US', lat: 30.6333, lon: -97.6779 },
+  { name: 'San Marcos', region: 'TX', country: 'US', lat: 29.8833, lon: -97.9414 },
+  { name: 'San Antonio', region: 'TX', country: 'US', lat: 29.4241, lon: -98.4936 },
+  { name: 'Houston', region: 'TX', country: 'US', lat: 29.7604, lon: -95.3698 },
+  { name: 'The Woodlands', region: 'TX', country: 'US', lat: 30.1658, lon: -95.4613 },
+  { name: 'Dallas', region: 'TX', country: 'US', lat: 32.7767, lon: -96.797 },
+  { name: 'Plano', region: 'TX', country: 'US', lat: 33.0198, lon: -96.6989 },
+  { name: 'Irving', region: 'TX', country: 'US', lat: 32.814, lon: -96.9489 },
+  { name: 'Frisco', region: 'TX', country: 'US', lat: 33.1507, lon: -96.8236 },
+  { name: 'Fort Worth', region: 'TX', country: 'US', lat: 32.7555, lon: -97.3308 },
+  { name: 'Phoenix', region: 'AZ', country: 'US', lat: 33.4484, lon: -112.074 },
+  { name: 'Scottsdale', region: 'AZ', country: 'US', lat: 33.4942, lon: -111.9261 },
+  { name: 'Tempe', region: 'AZ', country: 'US', lat: 33.4255, lon: -111.94 },
+  { name: 'Tucson', region: 'AZ', country: 'US', lat: 32.2226, lon: -110.9747 },
+  { name: 'Las Vegas', region: 'NV', country: 'US', lat: 36.1699, lon: -115.1398 },
+  { name: 'Albuquerque', region: 'NM', country: 'US', lat: 35.0844, lon: -106.6504 },
+  { name: 'Oklahoma City', region: 'OK', country: 'US', lat: 35.4676, lon: -97.5164 },
+
+  // Mountain
+  { name: 'Denver', region: 'CO', country: 'US', lat: 39.7392, lon: -104.9903 },
+  { name: 'Boulder', region: 'CO', country: 'US', lat: 40.015, lon: -105.2705 },
+  { name: 'Colorado Springs', region: 'CO', country: 'US', lat: 38.8339, lon: -104.8214 },
+  { name: 'Salt Lake City', region: 'UT', country: 'US', lat: 40.7608, lon: -111.891, aliases: ['slc'] },
+  { name: 'Lehi', region: 'UT', country: 'US', lat: 40.3916, lon: -111.8508 },
+  { name: 'Provo', region: 'UT', country: 'US', lat: 40.2338, lon: -111.6585 },
+  { name: 'Boise', region: 'ID', country: 'US', lat: 43.615, lon: -116.2023 },
+
+  // West Coast
+  { name: 'Seattle', region: 'WA', country: 'US', lat: 47.6062, lon: -122.3321 },
+  { name: 'Bellevue', region: 'WA', country: 'US', lat: 47.6101, lon: -122.2015 },
+  { name: 'Redmond', region: 'WA', country: 'US', lat: 47.674, lon: -122.1215 },
+  { name: 'Kirkland', region: 'WA', country: 'US', lat: 47.6769, lon: -122.206 },
+  { name: 'Tacoma', region: 'WA', country: 'US', lat: 47.2529, lon: -122.4443 },
+  { name: 'Portland', region: 'OR', country: 'US', lat: 45.5152, lon: -122.6784 },
+  { name: 'Beaverton', region: 'OR', country: 'US', lat: 45.4871, lon: -122.8037 },
+  { name: 'San Francisco', region: 'CA', country: 'US', lat: 37.7749, lon: -122.4194, aliases: ['sf', 'san francisco bay area', 'bay area'] },
+  { name: 'Oakland', region: 'CA', country: 'US', lat: 37.8044, lon: -122.2712 },
+  { name: 'Berkeley', region: 'CA', country: 'US', lat: 37.8715, lon: -122.273 },
+  { name: 'San Mateo', region: 'CA', country: 'US', lat: 37.563, lon: -122.3255 },
+  { name: 'Redwood City', region: 'CA', country: 'US', lat: 37.4852, lon: -122.2364 },
+  { name: 'Menlo Park', region: 'CA', country: 'US', lat: 37.453, lon: -122.1817 },
+  { name: 'Palo Alto', region: 'CA', country: 'US', lat: 37.4419, lon: -122.143 },
+  { name: 'Mountain View', region: 'CA', country: 'US', lat: 37.3861, lon: -122.0839 },
+  { name: 'Sunnyvale', region: 'CA', country: 'US', lat: 37.3688, lon: -122.0363 },
+  { name: 'Santa Clara', region: 'CA', country: 'US', lat: 37.3541, lon: -121.9552 },
+  { name: 'San Jose', region: 'CA', country: 'US', lat: 37.3382, lon: -121.8863 },
+  { name: 'Fremont', region: 'CA', country: 'US', lat: 37.5485, lon: -121.9886 },
+  { name: 'Sacramento', region: 'CA', country: 'US', lat: 38.5816, lon: -121.4944 },
+  { name: 'Los Angeles', region: 'CA', country: 'US', lat: 34.0522, lon: -118.2437, aliases: ['la', 'greater los angeles'] },
+  { name: 'Santa Monica', region: 'CA', country: 'US', lat: 34.0195, lon: -118.4912 },
+  { name: 'Culver City', region: 'CA', country: 'US', lat: 34.0211, lon: -118.3965 },
+  { name: 'Pasadena', region: 'CA', country: 'US', lat: 34.1478, lon: -118.1445 },
+  { name: 'Burbank', region: 'CA', country: 'US', lat: 34.1808, lon: -118.309 },
+  { name: 'Long Beach', region: 'CA', country: 'US', lat: 33.7701, lon: -118.1937 },
+  { name: 'Irvine', region: 'CA', country: 'US', lat: 33.6846, lon: -117.8265 },
+  { name: 'San Diego', region: 'CA', country: 'US', lat: 32.7157, lon: -117.1611 },
+  { name: 'Honolulu', region: 'HI', country: 'US', lat: 21.3069, lon: -157.8583 },
+  { name: 'Anchorage', region: 'AK', country: 'US', lat: 61.2181, lon: -149.9003 },
+
+  // Canada
+  { name: 'Toronto', region: 'ON', country: 'CA', lat: 43.6532, lon: -79.3832 },
+  { name: 'Waterloo', region: 'ON', country: 'CA', lat: 43.4643, lon: -80.5204 },
+  { name: 'Ottawa', region: 'ON', country: 'CA', lat: 45.4215, lon: -75.6972 },
+  { name: 'Montreal', region: 'QC', country: 'CA', lat: 45.5017, lon: -73.5673, aliases: ['montréal'] },
+  { name: 'Vancouver', region: 'BC', country: 'CA', lat: 49.2827, lon: -123.1207 },
+  { name: 'Calgary', region: 'AB', country: 'CA', lat: 51.0447, lon: -114.0719 },
+
+  // International
+  { name: 'London', region: '', country: 'GB', lat: 51.5074, lon: -0.1278 },
+  { name: 'Dublin', region: '', country: 'IE', lat: 53.3498, lon: -6.2603 },
+  { name: 'Amsterdam', region: '', country: 'NL', lat: 52.3676, lon: 4.9041 },
+  { name: 'Berlin', region: '', country: 'DE', lat: 52.52, lon: 13.405 },
+  { name: 'Munich', region: '', country: 'DE', lat: 48.1351, lon: 11.582, aliases: ['münchen'] },
+  { name: 'Paris', region: '', country: 'FR', lat: 48.8566, lon: 2.3522 },
+  { name: 'Barcelona', region: '', country: 'ES', lat: 41.3874, lon: 2.1686 },
+  { name: 'Lisbon', region: '', country: 'PT', lat: 38.7223, lon: -9.1393 },
+  { name: 'Stockholm', region: '', country: 'SE', lat: 59.3293, lon: 18.0686 },
+  { name: 'Zurich', region: '', country: 'CH', lat: 47.3769, lon: 8.5417, aliases: ['zürich'] },
+  { name: 'Tel Aviv', region: '', country: 'IL', lat: 32.0853, lon: 34.7818 },
+  { name: 'Bangalore', region: '', country: 'IN', lat: 12.9716, lon: 77.5946, aliases: ['bengaluru'] },
+  { name: 'Singapore', region: '', country: 'SG', lat: 1.3521, lon: 103.8198 },
+  { name: 'Sydney', region: '', country: 'AU', lat: -33.8688, lon: 151.2093 },
+  { name: 'Melbourne', region: '', country: 'AU', lat: -37.8136, lon: 144.9631 },
+  { name: 'Mexico City', region: '', country: 'MX', lat: 19.4326, lon: -99.1332, aliases: ['cdmx'] },
+];
+
+const US_STATE_NAMES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO', connecticut: 'CT',
+  delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID',
+  illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA', maine: 'ME',
+  maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN', mississippi: 'MS', missouri: 'MO',
+  montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM',
+  'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH', oklahoma: 'OK', oregon: 'OR',
+  pennsylvania: 'PA', 'rhode island': 'RI', 'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN',
+  texas: 'TX', utah: 'UT', vermont: 'VT', virginia: 'VA', washington: 'WA', 'west virginia': 'WV',
+  wisconsin: 'WI', wyoming: 'WY', ontario: 'ON', quebec: 'QC', 'british columbia': 'BC', alberta: 'AB',
+};
+
+const NORTH_AMERICAN_REGIONS = new Set(Object.values(US_STATE_NAMES));
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+function normalizePlace(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\b(?:greater|metro(?:politan)?|area|region|hq|office)\b/g, ' ')
+    .replace(/[()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const CITY_INDEX = (() => {
+  const index = new Map<string, GazetteerCity[]>();
+  const add = (key: string, city: GazetteerCity) => {
+    const list = index.get(key) ?? [];
+    list.push(city);
+    index.set(key, list);
+  };
+  for (const city of CITY_GAZETTEER) {
+    add(normalizePlace(city.name), city);
+    for (const alias of city.aliases ?? []) add(normalizePlace(alias), city);
+  }
+  return index;
+})();
+
+function normalizeRegion(value: string): string {
+  const trimmed = normalizePlace(value).replace(/[.\d-]/g, '').trim();
+  if (/^[a-z]{2}$/.test(trimmed)) return trimmed.toUpperCase();
+  return US_STATE_NAMES[trimmed] ?? '';
+}
+
+/**
+ * Resolve free text such as "Austin, TX", "Austin, Texas, United States" or
+ * "Greater Boston Area" to a gazetteer city. Returns null when unknown.
+ */
+export function findCity(query: string): GazetteerCity | null {
+  const parts = query.split(',').map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const candidates = CITY_INDEX.get(normalizePlace(parts[0]));
+  if (!candidates || candidates.length === 0) return null;
+
+  const region = parts.length > 1 ? normalizeRegion(parts[1]) : '';
+  if (region) {
+    const inRegion = candidates.find((city) => city.region === region);
+    if (inRegion) return inRegion;
+    // A named state or province we do not list ("Portland, ME") is a
+    // different place, not the Portland we know.
+    if (NORTH_AMERICAN_REGIONS.has(region)) return null;
+  }
+  return candidates[0];
+}
+
+export function formatGazetteerCity(city: GazetteerCity): string {
+  return city.region ? `${city.name}, ${city.region}` : city.name;
+}
+
+/** Great-circle distance in miles. */
+export function haversineMiles(a: Pick<GazetteerCity, 'lat' | 'lon'>, b: Pick<GazetteerCity, 'lat' | 'lon'>): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
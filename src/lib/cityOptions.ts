@@ -1,3 +1,5 @@
+import { CITY_GAZETTEER, formatGazetteerCity } from './cityGazetteer';
+
 const RECENT_CITY_STORAGE_KEY = 'jf2-recent-cities-v1';
 const RECENT_CITY_LIMIT = 12;
 
@@ -95,6 +97,10 @@ export function getCityTypeaheadOptions(query: string, recentCities: string[]):
   for (const option of TOP_US_CITIES) {
     base.add(formatCityLabel(option));
   }
+  // Gazetteer cities resolve to coordinates, so suggesting them keeps radius matching exact.
+  for (const city of CITY_GAZETTEER) {
+    base.add(formatGazetteerCity(city));
+  }
 
   const all = [...base];
   if (!normalizedQuery) {
@@ -8,6 +8,7 @@
 // Followed by a merge step to combine orphan fragments.
 
 import type { ClaimOutcome } from '../types';
+import { findTerms, getDefaultOntology, type SkillOntology } from './skillOntology';
 
 // ============================================================
 // Types
@@ -88,78 +89,6 @@ function isSectionHeader(line: string): boolean {
   return SECTION_HEADERS.has(cleaned);
 }
 
-// ============================================================
-// Known Tools (for auto-detection in bullet text)
-// ============================================================
-
-const KNOWN_TOOLS: string[] = [
-  'Salesforce', 'HubSpot', 'Marketo', 'Pardot', 'Segment', 'Amplitude',
-  'Mixpanel', 'Google Analytics', 'GA4', 'Tableau', 'Looker', 'dbt',
-  'Snowflake', 'BigQuery', 'Braze', 'Iterable', 'Klaviyo', 'Mailchimp',
-  'Meta Ads', 'Google Ads', 'LinkedIn Ads', 'TikTok Ads',
-  'Figma', 'Notion', 'Jira', 'Asana', 'Trello', 'Slack',
-  'AWS', 'GCP', 'Azure', 'Stripe', 'Shopify', 'Magento',
-  'Webflow', 'WordPress', 'Contentful', 'Sanity',
-  'React', 'Next.js', 'Node.js', 'Python', 'SQL', 'PostgreSQL', 'MongoDB',
-  'Airtable', 'Zapier', 'Make', 'Power BI', 'Excel',
-  'Intercom', 'Zendesk', 'Drift', 'Gong', 'Outreach', 'Salesloft',
-  'Clearbit', 'ZoomInfo', '6sense', 'Demandbase',
-  'Optimizely', 'LaunchDarkly', 'VWO', 'Hotjar', 'FullStory',
-  'Attentive', 'Postscript', 'Yotpo', 'Privy',
-  'Adobe Analytics', 'Adobe Experience Manager', 'Adobe Campaign',
-  'Sprout Social', 'Hootsuite', 'Buffer',
-  'SEMrush', 'Ahrefs', 'Moz',
-];
-
-// Alias map: common variations -> canonical name
-const TOOL_ALIASES: Record<string, string> = {
-  'google analytics 4': 'GA4',
-  'ga 4': 'GA4',
-  'hubspot crm': 'HubSpot',
-  'salesforce crm': 'Salesforce',
-  'amazon web services': 'AWS',
-  'google cloud platform': 'GCP',
-  'google cloud': 'GCP',
-  'microsoft azure': 'Azure',
-  'next js': 'Next.js',
-  'nextjs': 'Next.js',
-  'node js': 'Node.js',
-  'nodejs': 'Node.js',
-  'postgres': 'PostgreSQL',
-  'mongo': 'MongoDB',
-  'power bi': 'Power BI',
-  'powerbi': 'Power BI',
-  'semrush': 'SEMrush',
-  'launch darkly': 'LaunchDarkly',
-  'full story': 'FullStory',
-  'sprout social': 'Sprout Social',
-  'zoom info': 'ZoomInfo',
-  'demand base': 'Demandbase',
-  'linked in ads': 'LinkedIn Ads',
-  'tik tok ads': 'TikTok Ads',
-  'facebook ads': 'Meta Ads',
-  'fb ads': 'Meta Ads',
-  'meta ads manager': 'Meta Ads',
-  'wordpress.com': 'WordPress',
-  'wordpress.org': 'WordPress',
-  'aem': 'Adobe Experience Manager',
-};
-
-// Build lookup structures once at module load
-interface ToolEntry {
-  canonical: string;
-  lower: string;
-}
-
-const TOOLS_LOWER: ToolEntry[] = KNOWN_TOOLS.map((t) => ({
-  canonical: t,
-  lower: t.toLowerCase(),
-}));
-
-const ALIAS_ENTRIES: { canonical: string; lower: string }[] = Object.entries(
-  TOOL_ALIASES,
-).map(([alias, canonical]) => ({ canonical, lower: alias.toLowerCase() }));
-
 // ============================================================
 // Patterns
 // ============================================================
@@ -849,7 +778,7 @@ function shouldTreatTextLineAsEvidence(line: string): boolean {
   return /[a-z]/.test(trimmed) || /\d/.test(trimmed);
 }
 
-function blockToClaim(block: RawClaimBlock): ParsedClaim {
+function blockToClaim(block: RawClaimBlock, ontology: SkillOntology): ParsedClaim {
   const claim = makeClaim();
   claim.role = block.role;
   claim.company = block.company;
@@ -861,7 +790,7 @@ function blockToClaim(block: RawClaimBlock): ParsedClaim {
 
   for (const bullet of mergeEvidenceTextLines(block.bullets)) {
     // Detect tools
-    for (const t of detectTools(bullet)) {
+    for (const t of detectTools(bullet, ontology)) {
       allToolsSet.add(t);
     }
 
@@ -884,7 +813,7 @@ function blockToClaim(block: RawClaimBlock): ParsedClaim {
     const normalized = line.trim();
     if (!normalized) continue;
 
-    for (const t of detectTools(line)) {
+    for (const t of detectTools(line, ontology)) {
       allToolsSet.add(t);
     }
 
@@ -975,7 +904,7 @@ function deduplicateResponsibilities(claims: ParsedClaim[]): void {
 // Main entry point
 // ============================================================
 
-export function parseResumeStructured(text: string): ParsedClaim[] {
+export function parseResumeStructured(text: string, ontology: SkillOntology = getDefaultOntology()): ParsedClaim[] {
   // Reset key counter each invocation for deterministic keys
   _keyCounter = 0;
 
@@ -990,7 +919,7 @@ export function parseResumeStructured(text: string): ParsedClaim[] {
   const rawBlocks = buildRawBlocks(classified);
 
   // Convert blocks to claims
-  let claims = rawBlocks.map(blockToClaim);
+  let claims = rawBlocks.map((block) => blockToClaim(block, ontology));
 
   // Merge orphan fragments
   claims = mergeAdjacentRolelessClaims(claims);
@@ -1015,44 +944,13 @@ export function parseResumeStructured(text: string): ParsedClaim[] {
 // Tool Detection (exported)
 // ============================================================
 
-export function detectTools(text: string): string[] {
-  const lower = text.toLowerCase();
-  const foundSet = new Set<string>();
-
-  // Check canonical tool names
-  for (const { canonical, lower: toolLower } of TOOLS_LOWER) {
-    if (!lower.includes(toolLower)) continue;
-
-    // Verify word boundary (not part of a larger word)
-    const idx = lower.indexOf(toolLower);
-    if (isWordBoundaryMatch(lower, idx, toolLower.length)) {
-      foundSet.add(canonical);
-    }
-  }
-
-  // Check aliases and normalize to canonical
-  for (const { canonical, lower: aliasLower } of ALIAS_ENTRIES) {
-    if (!lower.includes(aliasLower)) continue;
-
-    const idx = lower.indexOf(aliasLower);
-    if (isWordBoundaryMatch(lower, idx, aliasLower.length)) {
-      foundSet.add(canonical); // always store the canonical name
-    }
-  }
-
-  return [...foundSet];
-}
-
 /**
- * Check whether a substring match at `idx` with length `len` in `text`
- * sits on word boundaries (not embedded inside a larger word).
+ * Tools mentioned in text, by canonical name. Aliases ("SFDC", "Facebook
+ * Ads") resolve through the shared skill/tool ontology; umbrella terms such
+ * as "CRM" are not treated as tools.
  */
-function isWordBoundaryMatch(text: string, idx: number, len: number): boolean {
-  const BOUNDARY = /[\s,;()/\-.:|'"!?[\]{}]/;
-  const before = idx > 0 ? text[idx - 1] : ' ';
-  const after = idx + len < text.length ? text[idx + len] : ' ';
-  return (BOUNDARY.test(before) || idx === 0) &&
-    (BOUNDARY.test(after) || idx + len === text.length);
+export function detectTools(text: string, ontology: SkillOntology = getDefaultOntology()): string[] {
+  return findTerms(text, ontology, { kind: 'tool', includeCategories: false }).map((term) => term.canonical);
 }
 
 // ============================================================
@@ -0,0 +1,308 @@
+// Job Filter v2 — Compensation Normalization
+// Reads pay period, currency, base vs OTE split and equity mentions from a
+// job's comp text, then annualizes the base range into the profile's
+// currency using the user's own FX table. Scoring compares the result
+// against the comp floor and target.
+
+import type { CompPayPeriod, FxRate, Job, NormalizedComp, Profile } from '../types';
+
+export const DEFAULT_COMP_CURRENCY = 'USD';
+
+/** Working time assumed when annualizing: 40h weeks, 52 weeks, 260 days. */
+export const ANNUALIZATION_FACTORS: Record<CompPayPeriod, number> = {
+  hour: 2080,
+  day: 260,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'INR', 'JPY', 'SGD'] as const;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  CAD: 'CA$',
+  AUD: 'A$',
+  INR: '₹',
+  JPY: '¥',
+  SGD: 'S$',
+};
+
+// Longest markers first so "CA$" wins over "$".
+const CURRENCY_MARKERS: Array<[string, string]> = [
+  ['us$', 'USD'],
+  ['ca$', 'CAD'],
+  ['c$', 'CAD'],
+  ['au$', 'AUD'],
+  ['a$', 'AUD'],
+  ['s$', 'SGD'],
+  ['$', 'USD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['₹', 'INR'],
+  ['¥', 'JPY'],
+  ...SUPPORTED_CURRENCIES.map((code): [string, string] => [code.toLowerCase(), code]),
+];
+
+const PERIOD_AFTER: Array<[CompPayPeriod, RegExp]> = [
+  ['hour', /^\s*(?:\/\s*(?:hr|hour|h)\b|per\s+hour|an\s+hour|hourly|p\/h\b)/],
+  ['day', /^\s*(?:\/\s*day\b|per\s+day|a\s+day|daily|day\s+rate)/],
+  ['week', /^\s*(?:\/\s*(?:wk|week)\b|per\s+week|a\s+week|weekly)/],
+  ['month', /^\s*(?:\/\s*(?:mo|month)\b|per\s+month|a\s+month|monthly)/],
+  ['year', /^\s*(?:\/\s*(?:yr|year|annum)\b|per\s+(?:year|annum)|a\s+year|annually|annual\b|p\.?a\.?\b)/],
+];
+
+const PERIOD_BEFORE: Array<[CompPayPeriod, RegExp]> = [
+  ['hour', /\b(?:hourly|per hour)\b[^.\n]*$/],
+  ['day', /\b(?:daily|day rate)\b[^.\n]*$/],
+  ['week', /\bweekly\b[^.\n]*$/],
+  ['month', /\bmonthly\b[^.\n]*$/],
+];
+
+const OTE_PATTERN = /\bote\b|on[- ]target earnings|on[- ]target compensation/;
+const SPLIT_PATTERN = /\b(\d{2})\s*\/\s*(\d{2})\b/;
+const EQUITY_PATTERN = /\b(?:equity|stock options?|rsus?|restricted stock|shares|options grant)\b/;
+/** Amounts next to these words describe the company or the role's remit, not its pay. */
+const NON_SALARY_WORDS = String.raw`\b(?:raised|funding|funded|revenue|arr|valuation|series [a-e]|budget|spend|fund|investment|gmv|stipend|allowance|bonus of)\b`;
+// Before: anywhere earlier in the sentence. After: only up to the next
+// clause or amount, so "$150k base plus $20k bonus" keeps the base.
+const NON_SALARY_BEFORE = new RegExp(`${NON_SALARY_WORDS}[^.\\n]*$`);
+const NON_SALARY_AFTER = new RegExp(`^[^.,;:\\n$€£¥₹\\d]*${NON_SALARY_WORDS}`);
+const SALARY_CONTEXT = /\b(?:salary|salaries|pay|compensation|comp|base|ote|wages?|rate|earn(?:ings)?|range|package)\b/;
+/** Annualized base outside this band is not a salary unless the text says it is. */
+const PLAUSIBLE_ANNUAL_BASE = { min: 10_000, max: 2_000_000 };
+// Rough scale for currencies whose salaries run to millions of units.
+const HIGH_DENOMINATION_SCALE: Record<string, number> = { JPY: 100, INR: 100 };
+
+const CURRENCY_PREFIX = String.raw`(us\$|ca\$|c\$|au\$|a\$|s\$|\$|€|£|₹|¥|usd|eur|gbp|cad|aud|chf|inr|jpy|sgd)?`;
+const AMOUNT = String.raw`(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s?(k|m)?\b`;
+const CURRENCY_SUFFIX = String.raw`(?:\s?(usd|eur|gbp|cad|aud|chf|inr|jpy|sgd|€|£))?`;
+const RANGE_PATTERN = new RegExp(
+  `${CURRENCY_PREFIX}\\s?${AMOUNT}${CURRENCY_SUFFIX}(?:\\s*(?:-|–|—|to)\\s*${CURRENCY_PREFIX}\\s?${AMOUNT}${CURRENCY_SUFFIX})?`,
+  'gi',
+);
+
+// ============================================================
+// FX Table
+// ============================================================
+
+export function resolveCompCurrency(profile: Pick<Profile, 'compCurrency'> | null | undefined): string {
+  const code = profile?.compCurrency?.trim().toUpperCase();
+  return code && /^[A-Z]{3}$/.test(code) ? code : DEFAULT_COMP_CURRENCY;
+}
+
+export function sanitizeFxRates(rates: FxRate[] | undefined, baseCurrency = DEFAULT_COMP_CURRENCY): FxRate[] {
+  const seen = new Set<string>([baseCurrency]);
+  const output: FxRate[] = [];
+
+  for (const entry of rates ?? []) {
+    const currency = entry.currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency) || seen.has(currency)) continue;
+    if (!Number.isFinite(entry.rate) || entry.rate <= 0) continue;
+    seen.add(currency);
+    output.push({ currency, rate: entry.rate, updatedAt: entry.updatedAt });
+  }
+
+  return output;
+}
+
+/** Units of `to` per one unit of `from`, or null if the table has no entry. */
+export function getFxRate(from: string, to: string, rates: FxRate[] | undefined): number | null {
+  if (from === to) return 1;
+  return rates?.find((entry) => entry.currency === from)?.rate ?? null;
+}
+
+export function formatCompAmount(value: number, currency = DEFAULT_COMP_CURRENCY): string {
+  const symbol = CURRENCY_SYMBOLS[currency];
+  const amount = Math.round(value).toLocaleString();
+  return symbol ? `${symbol}${amount}` : `${currency} ${amount}`;
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+export interface ParsedCompMention {
+  currency?: string;
+  period?: CompPayPeriod;
+  min: number;
+  max: number;
+  isOte: boolean;
+  /** Base share of OTE in percent, e.g. 50 for "50/50". */
+  baseSharePercent?: number;
+  text: string;
+}
+
+function currencyFromMarker(marker: string | undefined): string | undefined {
+  if (!marker) return undefined;
+  const lower = marker.toLowerCase();
+  return CURRENCY_MARKERS.find(([candidate]) => candidate === lower)?.[1];
+}
+
+function parseAmount(digits: string, multiplier: string | undefined): number {
+  const value = Number.parseFloat(digits.replace(/,/g, ''));
+  if (!multiplier) return value;
+  return value * (multiplier.toLowerCase() === 'm' ? 1_000_000 : 1000);
+}
+
+/** The pay period and how many characters of `after` spell it out. */
+function detectPeriod(before: string, after: string): { period?: CompPayPeriod; length: number } {
+  for (const [period, pattern] of PERIOD_AFTER) {
+    const match = after.match(pattern);
+    if (match) return { period, length: match[0].length };
+  }
+  for (const [period, pattern] of PERIOD_BEFORE) if (pattern.test(before)) return { period, length: 0 };
+  return { length: 0 };
+}
+
+/**
+ * Find the first salary-like amount or range in `text`. Only amounts with a
+ * currency marker count, so "5-7 years" and "401(k)" are ignored, and
+ * budgets, spend or funding on either side of the amount rule it out.
+ */
+export function parseCompMention(text: string): ParsedCompMention | null {
+  const lower = text.toLowerCase();
+  RANGE_PATTERN.lastIndex = 0;
+
+  for (let match = RANGE_PATTERN.exec(lower); match; match = RANGE_PATTERN.exec(lower)) {
+    const [whole, prefix1, digits1, mult1, suffix1, prefix2, digits2, mult2, suffix2] = match;
+    const currency = currencyFromMarker(prefix1) ?? currencyFromMarker(suffix1)
+      ?? currencyFromMarker(prefix2) ?? currencyFromMarker(suffix2);
+    if (!currency) continue;
+
+    const start = match.index;
+    const end = start + whole.length;
+    const before = lower.slice(Math.max(0, start - 40), start);
+    const after = lower.slice(end, end + 40);
+    if (NON_SALARY_BEFORE.test(before) || NON_SALARY_AFTER.test(after)) continue;
+
+    // "120-150k" applies the trailing multiplier to both ends.
+    const min = parseAmount(digits1, mult1 ?? (digits2 ? mult2 : undefined));
+    const max = digits2 ? parseAmount(digits2, mult2 ?? mult1) : min;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || max < min || min <= 0) continue;
+
+    const { period, length: periodLength } = detectPeriod(before, after);
+    const factor = ANNUALIZATION_FACTORS[period ?? 'year'];
+    const scale = HIGH_DENOMINATION_SCALE[currency] ?? 1;
+    if (max * factor > PLAUSIBLE_ANNUAL_BASE.max * scale) continue;
+    // Small amounts without pay wording are fees or perks, not salaries.
+    const clause = after.match(/^[^.;\n$€£¥₹]*/)?.[0] ?? '';
+    if (min * factor < PLAUSIBLE_ANNUAL_BASE.min * scale && !SALARY_CONTEXT.test(`${before} ${clause}`)) continue;
+
+    const lineEnd = lower.indexOf('\n', end);
+    const context = `${before.slice(-25)} ${lower.slice(end, lineEnd === -1 ? end + 60 : Math.min(lineEnd, end + 60))}`;
+    const isOte = OTE_PATTERN.test(context);
+    const split = isOte ? context.match(SPLIT_PATTERN) : null;
+    const baseSharePercent = split && Number(split[1]) + Number(split[2]) === 100 ? Number(split[1]) : undefined;
+
+    return { currency, period, min, max, isOte, baseSharePercent, text: text.slice(start, end + periodLength).trim() };
+  }
+
+  return null;
+}
+
+// ============================================================
+// Normalization
+// ============================================================
+
+export interface CompNormalizationSettings {
+  currency: string;
+  fxRates: FxRate[];
+}
+
+export function resolveCompSettings(profile: Pick<Profile, 'compCurrency' | 'fxRates'> | null | undefined): CompNormalizationSettings {
+  const currency = resolveCompCurrency(profile);
+  return { currency, fxRates: sanitizeFxRates(profile?.fxRates, currency) };
+}
+
+function isDefaultShape(mention: ParsedCompMention, currency: string): boolean {
+  return (mention.currency ?? currency) === currency && (mention.period ?? 'year') === 'year' && !mention.isOte;
+}
+
+/**
+ * Annual base comp in the profile currency. Structured comp fields are
+ * taken as annual amounts in the profile currency unless the comp text
+ * says otherwise (a pay period, another currency, or an OTE figure).
+ */
+export function normalizeCompensation(
+  job: Pick<Partial<Job>, 'compMin' | 'compMax' | 'compRange' | 'jobDescription'>,
+  settings: CompNormalizationSettings,
+): NormalizedComp | null {
+  const text = [job.compRange, job.jobDescription].filter(Boolean).join('\n');
+  const mention = parseCompMention(text);
+  const hasFields = job.compMin !== undefined || job.compMax !== undefined;
+  const hasEquity = EQUITY_PATTERN.test(text.toLowerCase());
+
+  if (hasFields && (!mention || isDefaultShape(mention, settings.currency))) {
+    return {
+      source: 'fields',
+      currency: settings.currency,
+      period: 'year',
+      isOte: false,
+      hasEquity,
+      annualMin: job.compMin,
+      annualMax: job.compMax,
+      profileCurrency: settings.currency,
+      fxRate: 1,
+      notes: [],
+    };
+  }
+
+  if (!mention) return null;
+
+  const currency = mention.currency ?? settings.currency;
+  const period = mention.period ?? 'year';
+  const factor = ANNUALIZATION_FACTORS[period];
+  const notes: string[] = [];
+
+  let baseMin = mention.min * factor;
+  let baseMax = mention.max * factor;
+  if (mention.isOte) {
+    if (mention.baseSharePercent !== undefined) {
+      baseMin = (baseMin * mention.baseSharePercent) / 100;
+      baseMax = (baseMax * mention.baseSharePercent) / 100;
+      notes.push(`Base is ${mention.baseSharePercent}% of OTE`);
+    } else {
+      notes.push('Quoted as OTE with no base/variable split');
+    }
+  }
+  if (period !== 'year') notes.push(`Annualized from a ${period === 'hour' ? 'hourly' : `${period}ly`} rate`);
+
+  const fxRate = getFxRate(currency, settings.currency, settings.fxRates);
+  if (fxRate === null) {
+    notes.push(`No exchange rate for ${currency} in your FX table`);
+  } else if (fxRate !== 1) {
+    notes.push(`Converted from ${currency} at ${fxRate}`);
+  }
+
+  return {
+    source: 'text',
+    sourceText: mention.text,
+    currency,
+    period,
+    isOte: mention.isOte,
+    baseSharePercent: mention.baseSharePercent,
+    hasEquity,
+    annualMin: fxRate === null ? undefined : Math.round(baseMin * fxRate),
+    annualMax: fxRate === null ? undefined : Math.round(baseMax * fxRate),
+    profileCurrency: settings.currency,
+    fxRate: fxRate ?? undefined,
+    notes,
+  };
+}
+
+/** Short human label, e.g. "$176,800–$197,600/yr (from $85–95/hr)". */
+export function describeNormalizedComp(comp: NormalizedComp): string {
+  const low = comp.annualMin ?? comp.annualMax;
+  const high = comp.annualMax ?? comp.annualMin;
+  if (low === undefined || high === undefined) {
+    return comp.sourceText ? `${comp.sourceText} (not converted)` : 'Not converted';
+  }
+  const range = low === high
+    ? formatCompAmount(low, comp.profileCurrency)
+    : `${formatCompAmount(low, comp.profileCurrency)}–${formatCompAmount(high, comp.profileCurrency)}`;
+  const base = comp.isOte && comp.baseSharePercent === undefined ? `${range}/yr OTE` : `${range}/yr`;
+  return comp.source === 'text' && comp.notes.length > 0 && comp.sourceText ? `${base} (from ${comp.sourceText})` : base;
+}
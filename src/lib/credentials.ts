@@ -0,0 +1,356 @@
+// Job Filter v2 — Education & Certifications
+// Parses degrees and certifications out of a resume's EDUCATION /
+// CERTIFICATIONS section, and resolves JD education and certification
+// requirements against the profile's records.
+
+import type { CredentialRecord, RequirementMatch } from '../types';
+
+// ============================================================
+// Degrees
+// ============================================================
+
+/** 1 = associate, 2 = bachelor's, 3 = master's, 4 = doctorate. */
+export type DegreeLevel = 1 | 2 | 3 | 4;
+
+const DEGREE_LEVEL_LABELS: Record<DegreeLevel, string> = {
+  1: "Associate's degree",
+  2: "Bachelor's degree",
+  3: "Master's degree",
+  4: 'Doctorate',
+};
+
+const DEGREE_PATTERNS: Array<[RegExp, DegreeLevel]> = [
+  [/\b(?:ph\.?\s?d|doctorate|doctoral|ed\.?d|d\.?phil)\b/i, 4],
+  // Bare "MA" and "MS" are a state code and "MS Excel"; take them only dotted or before a field.
+  [/\b(?:mba|master[’']?s?|m\.s\.(?:c\.)?|msc|m\.a\.|m[as] (?:in|of)\b|m\.?eng|m\.?p\.?h|mfa|llm)(?![a-z])/i, 3],
+  [/\b(?:bachelor[’']?s?|b\.?s\.?c?|b\.?a|b\.?eng|b\.?b\.?a|ba\/bs|bs\/ba|undergraduate|4-year degree|four-year degree)\b(?![a-z])/i, 2],
+  // Dotted abbreviations only: a bare "as" is the English word.
+  [/\b(?:associate[’']s\b|associates? (?:degree|of)\b|a\.a\.(?:s\.)?|a\.s\.)(?![a-z])/i, 1],
+];
+
+const MBA_RE = /\bmba\b/i;
+const EQUIVALENT_EXPERIENCE_RE = /\bor equivalent\b|\bequivalent (?:practical |work )?experience\b|\bor related experience\b/i;
+const RELATED_FIELD_RE = /\b(?:or )?(?:a )?related (?:field|discipline|area)\b/i;
+const FIELD_RE = /\b(?:in|of)\s+([A-Za-z][A-Za-z,&/ -]{2,80})/i;
+const FIELD_STOPWORDS = new Set(['a', 'an', 'the', 'and', 'or', 'in', 'of', 'field', 'fields', 'related', 'similar', 'degree', 'discipline', 'preferred', 'required', 'equivalent', 'experience']);
+
+const PREFERRED_CLAUSE_RE = /\b(?:preferred|nice to have|a plus|bonus|desirable|ideally)\b/i;
+
+/**
+ * Split "Bachelor's degree required; MBA preferred" into the clauses that set
+ * the bar and the ones that only add to it. Either side may be empty.
+ */
+export function splitDegreeClauses(text: string): { required: string; preferred: string } {
+  const clauses = text.split(/\s*(?:;|\.\s|[()]|,\s*(?:but\s+)?|\s+but\s+)\s*/).filter(Boolean);
+  const preferred = clauses.filter((clause) => PREFERRED_CLAUSE_RE.test(clause));
+  const required = clauses.filter((clause) => !PREFERRED_CLAUSE_RE.test(clause));
+  return { required: required.join(', '), preferred: preferred.join(', ') };
+}
+
+export function detectDegreeLevel(text: string): DegreeLevel | null {
+  for (const [pattern, level] of DEGREE_PATTERNS) {
+    if (pattern.test(text)) return level;
+  }
+  return null;
+}
+
+function fieldTokens(text: string | undefined): string[] {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((token) => token.length > 2 && !FIELD_STOPWORDS.has(token));
+}
+
+// ============================================================
+// Certifications
+// ============================================================
+
+interface CertificationDefinition {
+  id: string;
+  label: string;
+  family: string;
+  pattern: RegExp;
+  /** Matches any member of the family ("Six Sigma"); dropped when a specific one is named. */
+  generic?: boolean;
+}
+
+/** Common certifications. Same-family certifications count as Partial. */
+export const CERTIFICATION_CATALOG: CertificationDefinition[] = [
+  { id: 'pmp', label: 'PMP', family: 'project_management', pattern: /\bpmp\b|project management professional/i },
+  { id: 'capm', label: 'CAPM', family: 'project_management', pattern: /\bcapm\b/i },
+  { id: 'prince2', label: 'PRINCE2', family: 'project_management', pattern: /\bprince ?2\b/i },
+  { id: 'csm', label: 'Certified ScrumMaster (CSM)', family: 'scrum', pattern: /\bcsm\b|certified scrum ?master/i },
+  { id: 'psm', label: 'Professional Scrum Master (PSM)', family: 'scrum', pattern: /\bpsm\b|professional scrum master/i },
+  { id: 'cspo', label: 'CSPO', family: 'scrum', pattern: /\bcspo\b|certified scrum product owner/i },
+  { id: 'safe', label: 'SAFe', family: 'scrum', pattern: /\bsafe\b(?: agilist| certified| \d)/i },
+  { id: 'cpa', label: 'CPA', family: 'accounting', pattern: /\bcpa\b|certified public accountant/i },
+  { id: 'cfa', label: 'CFA', family: 'finance', pattern: /\bcfa\b|chartered financial analyst/i },
+  { id: 'cissp', label: 'CISSP', family: 'security', pattern: /\bcissp\b/i },
+  { id: 'cism', label: 'CISM', family: 'security', pattern: /\bcism\b/i },
+  { id: 'security_plus', label: 'CompTIA Security+', family: 'security', pattern: /\bsecurity\+/i },
+  { id: 'aws', label: 'AWS Certified', family: 'aws', pattern: /\baws certified\b|\baws (?:solutions architect|developer|sysops)/i },
+  { id: 'gcp', label: 'Google Cloud Certified', family: 'gcp', pattern: /\bgoogle cloud certified\b|\bgcp (?:professional|associate)/i },
+  { id: 'azure', label: 'Microsoft Azure Certified', family: 'azure', pattern: /\bazure (?:administrator|fundamentals|solutions architect|certified)|\baz-\d{3}\b/i },
+  { id: 'salesforce_admin', label: 'Salesforce Certified Administrator', family: 'salesforce', pattern: /\bsalesforce (?:certified )?administrator\b/i },
+  { id: 'salesforce', label: 'Salesforce Certified', family: 'salesforce', pattern: /\bsalesforce certifi(?:ed|cation)\b/i, generic: true },
+  { id: 'hubspot', label: 'HubSpot Certified', family: 'hubspot', pattern: /\bhubspot (?:\w+ )?certifi(?:ed|cation)\b/i },
+  { id: 'google_analytics', label: 'Google Analytics Certified', family: 'analytics', pattern: /\bgoogle analytics (?:individual qualification|certifi(?:ed|cation))|\bgaiq\b/i },
+  { id: 'six_sigma_black', label: 'Six Sigma Black Belt', family: 'six_sigma', pattern: /\bsix sigma black belt\b|\blssbb\b/i },
+  { id: 'six_sigma_green', label: 'Six Sigma Green Belt', family: 'six_sigma', pattern: /\bsix sigma green belt\b|\blssgb\b/i },
+  { id: 'six_sigma', label: 'Six Sigma', family: 'six_sigma', pattern: /\bsix sigma\b/i, generic: true },
+  { id: 'shrm', label: 'SHRM-CP / SHRM-SCP', family: 'hr', pattern: /\bshrm-s?cp\b|\bshrm certifi(?:ed|cation)\b/i },
+  { id: 'phr', label: 'PHR / SPHR', family: 'hr', pattern: /\bs?phr\b/i },
+  { id: 'itil', label: 'ITIL', family: 'itil', pattern: /\bitil\b/i },
+  { id: 'ccna', label: 'CCNA', family: 'networking', pattern: /\bccn[ap]\b/i },
+];
+
+/** Catalog certifications named in a line; specific entries shadow generic family ones. */
+export function findCertifications(text: string): CertificationDefinition[] {
+  const found = CERTIFICATION_CATALOG.filter((cert) => cert.pattern.test(text));
+  return found.filter((cert) => !cert.generic || !found.some((other) => other.family === cert.family && !other.generic));
+}
+
+// ============================================================
+// Records
+// ============================================================
+
+export function createCredential(kind: CredentialRecord['kind'], source: CredentialRecord['source'] = 'manual'): CredentialRecord {
+  return {
+    id: `cred-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    name: '',
+    source,
+  };
+}
+
+export function sanitizeCredentials(input: CredentialRecord[] | undefined): CredentialRecord[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((entry) => entry && typeof entry.name === 'string' && entry.name.trim())
+    .map((entry) => ({
+      id: entry.id,
+      kind: entry.kind === 'certification' ? 'certification' : 'degree',
+      name: entry.name.trim(),
+      field: entry.field?.trim() || undefined,
+      institution: entry.institution?.trim() || undefined,
+      year: entry.year && Number.isFinite(entry.year) ? Math.round(entry.year) : undefined,
+      source: entry.source === 'resume' ? 'resume' : 'manual',
+    }));
+}
+
+function credentialKey(entry: CredentialRecord): string {
+  return `${entry.kind}:${entry.name}:${entry.field ?? ''}`.toLowerCase().replace(/[^a-z0-9:]+/g, '');
+}
+
+/**
+ * Fold resume-imported records into the saved list. Earlier resume imports
+ * are replaced; manual entries are kept and win over duplicates. Drafts
+ * saved before credentials were parsed leave the list untouched.
+ */
+export function mergeImportedCredentials(existing: CredentialRecord[] | undefined, imported: CredentialRecord[] | undefined): CredentialRecord[] {
+  if (!imported) return existing ?? [];
+  const manual = (existing ?? []).filter((entry) => entry.source === 'manual');
+  const seen = new Set(manual.map(credentialKey));
+  const merged = [...manual];
+  for (const entry of imported ?? []) {
+    const key = credentialKey(entry);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push({ ...entry, source: 'resume' });
+  }
+  return merged;
+}
+
+export function describeCredential(entry: CredentialRecord): string {
+  const name = entry.field ? `${entry.name}, ${entry.field}` : entry.name;
+  const institution = entry.institution ? ` — ${entry.institution}` : '';
+  const year = entry.year ? ` (${entry.year})` : '';
+  return `${name}${institution}${year}`;
+}
+
+// ============================================================
+// Resume parsing
+// ============================================================
+
+const YEAR_RE = /\b(19[5-9]\d|20\d{2})\b/g;
+const INSTITUTION_RE = /\b(?:university|college|institute|school|academy|polytechnic)\b/i;
+const CREDENTIAL_HEADER_RE = /^(education|certifications?|licenses?(?: (?:&|and) certifications)?|education (?:&|and) certifications)$/i;
+const NON_CREDENTIAL_HEADER_RE = /^(references|awards|publications|volunteer|volunteer experience)$/i;
+const BULLET_RE = /^[\s•·▪●◦‣\-–*]+/;
+
+function lastYear(text: string): number | undefined {
+  const years = text.match(YEAR_RE);
+  return years ? Number(years[years.length - 1]) : undefined;
+}
+
+function parseDegreeLine(line: string): Pick<CredentialRecord, 'name' | 'field'> | null {
+  const level = detectDegreeLevel(line);
+  if (!level) return null;
+  const stripped = line.replace(YEAR_RE, '').replace(/[()]/g, ' ').replace(/\s+/g, ' ').trim();
+  const parts = stripped.split(/\s*(?:,|\||—|–| - )\s*/).filter(Boolean);
+  const degreePart = parts.find((part) => detectDegreeLevel(part) && !INSTITUTION_RE.test(part)) ?? parts[0];
+  const fieldMatch = degreePart.match(FIELD_RE);
+  let name = degreePart;
+  let field = fieldMatch ? fieldMatch[1].trim() : undefined;
+  if (fieldMatch) name = degreePart.slice(0, fieldMatch.index).trim();
+  if (!field) {
+    const next = parts[parts.indexOf(degreePart) + 1];
+    if (next && !INSTITUTION_RE.test(next) && !detectDegreeLevel(next) && /^[A-Za-z &/-]{3,60}$/.test(next)) field = next;
+  }
+  return { name: name || DEGREE_LEVEL_LABELS[level], field };
+}
+
+/**
+ * Read degrees and certifications from resume lines. Only lines under an
+ * education or certification heading are considered.
+ */
+export function parseCredentialsFromResume(lines: string[]): CredentialRecord[] {
+  const records: CredentialRecord[] = [];
+  let inSection = false;
+  let pendingInstitution: string | undefined;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(BULLET_RE, '').trim();
+    if (!line) return;
+    if (CREDENTIAL_HEADER_RE.test(line)) {
+      inSection = true;
+      return;
+    }
+    if (NON_CREDENTIAL_HEADER_RE.test(line) || /^(experience|work experience|skills|summary|projects)$/i.test(line)) {
+      inSection = false;
+      return;
+    }
+    if (!inSection) return;
+
+    const certifications = findCertifications(line);
+    const degree = certifications.length === 0 ? parseDegreeLine(line) : null;
+    const institution = line.split(/\s*(?:,|\||—|–| - )\s*/).find((part) => INSTITUTION_RE.test(part))?.trim();
+
+    if (degree) {
+      const record: CredentialRecord = {
+        id: `cred-resume-${index}`,
+        kind: 'degree',
+        name: degree.name,
+        field: degree.field,
+        institution: institution ?? pendingInstitution,
+        year: lastYear(line),
+        source: 'resume',
+      };
+      pendingInstitution = undefined;
+      records.push(record);
+      return;
+    }
+
+    if (certifications.length > 0 || /\bcertifi(?:ed|cate|cation)\b|\blicen[cs]ed?\b/i.test(line)) {
+      records.push({
+        id: `cred-resume-${index}`,
+        kind: 'certification',
+        name: line.replace(YEAR_RE, '').replace(/[(),\s]+$/g, '').replace(/\s+/g, ' ').trim(),
+        year: lastYear(line),
+        source: 'resume',
+      });
+      return;
+    }
+
+    if (INSTITUTION_RE.test(line)) {
+      // Institution on its own line; the degree usually follows.
+      const previous = records[records.length - 1];
+      if (previous?.kind === 'degree' && !previous.institution) previous.institution = institution ?? line;
+      else pendingInstitution = institution ?? line;
+    }
+  });
+
+  return records;
+}
+
+// ============================================================
+// Requirement matching
+// ============================================================
+
+export interface CredentialMatch {
+  status: RequirementMatch;
+  evidence?: string;
+}
+
+function matchDegreeRequirement(description: string, degrees: CredentialRecord[]): CredentialMatch {
+  // "MBA preferred" next to a required bachelor's doesn't raise the bar.
+  const { required } = splitDegreeClauses(description);
+  const bar = required || description;
+  const requiredLevel = detectDegreeLevel(bar) ?? 2;
+  const wantsMba = MBA_RE.test(bar);
+  const allowsEquivalent = EQUIVALENT_EXPERIENCE_RE.test(description);
+  const fieldMatch = bar.match(FIELD_RE);
+  const requiredFields = fieldTokens(fieldMatch?.[1]);
+  const allowsRelatedField = RELATED_FIELD_RE.test(description);
+
+  const ranked = degrees
+    .map((degree) => ({ degree, level: detectDegreeLevel(degree.name) ?? 2 }))
+    .sort((a, b) => b.level - a.level);
+
+  if (ranked.length === 0) {
+    return allowsEquivalent
+      ? { status: 'Partial', evidence: 'No degree on file; posting accepts equivalent experience' }
+      : { status: 'Missing' };
+  }
+
+  for (const { degree, level } of ranked) {
+    if (wantsMba && !MBA_RE.test(degree.name)) continue;
+    if (level < requiredLevel) continue;
+    const degreeFields = fieldTokens(`${degree.field ?? ''} ${degree.name}`);
+    const fieldOk = requiredFields.length === 0 || requiredFields.some((token) => degreeFields.includes(token));
+    if (fieldOk) return { status: 'Met', evidence: describeCredential(degree) };
+    if (allowsRelatedField) {
+      return { status: 'Partial', evidence: `${describeCredential(degree)}; confirm the field counts as related` };
+    }
+    return { status: 'Partial', evidence: `${describeCredential(degree)}; field differs from the posting` };
+  }
+
+  const best = ranked[0];
+  if (wantsMba && best.level >= 3) {
+    return { status: 'Partial', evidence: `${describeCredential(best.degree)}; posting asks for an MBA` };
+  }
+  if (allowsEquivalent) {
+    return { status: 'Partial', evidence: `${describeCredential(best.degree)}; posting accepts equivalent experience` };
+  }
+  return {
+    status: 'Missing',
+    evidence: `Highest degree on file: ${describeCredential(best.degree)} (needs ${wantsMba ? 'an MBA' : DEGREE_LEVEL_LABELS[requiredLevel]})`,
+  };
+}
+
+function matchCertificationRequirement(description: string, certifications: CredentialRecord[]): CredentialMatch {
+  if (certifications.length === 0) return { status: 'Missing' };
+  const required = findCertifications(description);
+
+  if (required.length > 0) {
+    let partial: CredentialMatch | null = null;
+    for (const cert of certifications) {
+      const held = findCertifications(cert.name);
+      if (held.some((entry) => required.some((req) => req.id === entry.id))) {
+        return { status: 'Met', evidence: describeCredential(cert) };
+      }
+      if (!partial && held.some((entry) => required.some((req) => req.family === entry.family))) {
+        partial = { status: 'Partial', evidence: `${describeCredential(cert)}; related to ${required.map((req) => req.label).join(' / ')}` };
+      }
+    }
+    return partial ?? { status: 'Missing' };
+  }
+
+  // Uncatalogued certifications: the held name must appear in the requirement.
+  const lower = description.toLowerCase();
+  const held = certifications.find((cert) => cert.name.length >= 3 && lower.includes(cert.name.toLowerCase()));
+  return held ? { status: 'Met', evidence: describeCredential(held) } : { status: 'Missing' };
+}
+
+export function matchCredentialRequirement(
+  type: 'education' | 'certification',
+  description: string,
+  credentials: CredentialRecord[] | undefined,
+): CredentialMatch {
+  const records = credentials ?? [];
+  if (type === 'certification') {
+    return matchCertificationRequirement(description, records.filter((entry) => entry.kind === 'certification'));
+  }
+  return matchDegreeRequirement(description, records.filter((entry) => entry.kind === 'degree'));
+}
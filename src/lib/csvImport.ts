@@ -0,0 +1,368 @@
+// Job Filter v2 — Spreadsheet Import
+// Parses CSV / TSV exports of a job-tracking spreadsheet, guesses which
+// column feeds which job field, and previews every row with validation
+// errors and duplicate matches before anything is saved.
+
+import { PIPELINE_STAGES } from '../types';
+import type { EmploymentType, Job, LocationType, PipelineStage } from '../types';
+import { findDuplicateCandidates } from './jobDuplicates';
+import { parseCompFromText } from './scoring';
+
+// ============================================================
+// Parsing
+// ============================================================
+
+export interface ParsedTable {
+  delimiter: ',' | '\t' | ';';
+  headers: string[];
+  rows: string[][];
+  /** 1-based file line each row starts on; quoted newlines make these differ from row order. */
+  lineNumbers: number[];
+}
+
+function detectDelimiter(text: string): ParsedTable['delimiter'] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = (['\t', ',', ';'] as const).map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).delimiter;
+}
+
+/**
+ * RFC 4180-style parsing: quoted fields may hold delimiters, newlines and
+ * doubled quotes. Fully empty lines are dropped.
+ */
+export function parseDelimitedText(text: string): ParsedTable {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const records: string[][] = [];
+  const recordLines: number[] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    record.push(field.trim());
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    if (record.some(Boolean)) {
+      records.push(record);
+      recordLines.push(recordLine);
+    }
+    record = [];
+  };
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n' || (char === '\r' && source[index + 1] !== '\n')) line += 1;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index += 1;
+      endRecord();
+      line += 1;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) endRecord();
+
+  const [headers = [], ...rows] = records;
+  return { delimiter, headers, rows, lineNumbers: recordLines.slice(1) };
+}
+
+// ============================================================
+// Column mapping
+// ============================================================
+
+export type ImportField =
+  | 'title'
+  | 'company'
+  | 'url'
+  | 'location'
+  | 'locationType'
+  | 'employmentType'
+  | 'compRange'
+  | 'compMin'
+  | 'compMax'
+  | 'jobDescription'
+  | 'stage'
+  | 'source'
+  | 'notes'
+  | 'createdAt';
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  title: 'Job title',
+  company: 'Company',
+  url: 'Job URL',
+  location: 'Location',
+  locationType: 'Work type',
+  employmentType: 'Employment type',
+  compRange: 'Salary range',
+  compMin: 'Salary min',
+  compMax: 'Salary max',
+  jobDescription: 'Job description',
+  stage: 'Stage / status',
+  source: 'Source',
+  notes: 'Notes',
+  createdAt: 'Date added',
+};
+
+/** One entry per column; null skips the column. */
+export type ColumnMapping = Array<ImportField | null>;
+
+// Checked in order; the first field whose pattern matches a header claims it.
+const HEADER_PATTERNS: Array<{ field: ImportField; pattern: RegExp }> = [
+  { field: 'compMin', pattern: /\b(?:min(?:imum)?|low|from)\b.*\b(?:salary|comp|pay|base)\b|\b(?:salary|comp|pay|base)\b.*\b(?:min|low|from)\b/ },
+  { field: 'compMax', pattern: /\b(?:max(?:imum)?|high|to)\b.*\b(?:salary|comp|pay|base)\b|\b(?:salary|comp|pay|base)\b.*\b(?:max|high|to)\b/ },
+  { field: 'compRange', pattern: /\b(?:salary|comp|compensation|pay|base|ote)\b/ },
+  { field: 'locationType', pattern: /\b(?:remote|work (?:type|model|arrangement)|workplace|location type|on-?site)\b/ },
+  { field: 'employmentType', pattern: /\b(?:employment|job type|contract type|full[- ]time)\b/ },
+  { field: 'url', pattern: /\b(?:url|link|posting|href)\b/ },
+  { field: 'jobDescription', pattern: /\b(?:description|jd|details|summary)\b/ },
+  { field: 'source', pattern: /\b(?:source|found (?:on|via)|channel|board)\b/ },
+  { field: 'company', pattern: /\b(?:company|employer|organi[sz]ation|org)\b/ },
+  { field: 'title', pattern: /\b(?:title|role|position|job)\b/ },
+  { field: 'location', pattern: /\b(?:location|city|office|where)\b/ },
+  { field: 'stage', pattern: /\b(?:stage|status|pipeline|progress)\b/ },
+  { field: 'notes', pattern: /\b(?:notes?|comments?|next steps?)\b/ },
+  { field: 'createdAt', pattern: /\b(?:date|added|saved|created|applied on)\b/ },
+];
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<ImportField>();
+  return headers.map((header) => {
+    const text = header.toLowerCase().replace(/[_.]+/g, ' ');
+    const match = HEADER_PATTERNS.find(({ field, pattern }) => !taken.has(field) && pattern.test(text));
+    if (!match) return null;
+    taken.add(match.field);
+    return match.field;
+  });
+}
+
+// ============================================================
+// Value coercion
+// ============================================================
+
+const STAGE_ALIASES: Array<{ stage: PipelineStage; pattern: RegExp }> = [
+  { stage: 'Closed Won', pattern: /\b(?:accepted|hired|won|signed)\b/ },
+  { stage: 'Closed Lost', pattern: /\b(?:rejected|declined|lost|closed|withdrawn|ghosted|no response|not selected|passed)\b/ },
+  { stage: 'Negotiation', pattern: /\bnegotiat/ },
+  { stage: 'Offer', pattern: /\boffer\b/ },
+  { stage: 'Interviewing', pattern: /\b(?:interview|onsite|final round|panel|take[- ]home)/ },
+  { stage: 'Response/Screen', pattern: /\b(?:screen|response|replied|recruiter call|phone)/ },
+  { stage: 'Outreach Sent', pattern: /\b(?:applied|application sent|submitted|outreach|reached out|referred)\b/ },
+  { stage: 'Assets Ready', pattern: /\b(?:ready to apply|assets|resume ready)\b/ },
+  { stage: 'Researched', pattern: /\bresearch/ },
+  { stage: 'Discovered', pattern: /\b(?:saved|wishlist|bookmarked|interested|to apply|idea|discovered|new)\b/ },
+];
+
+export function parseStage(value: string): PipelineStage | null {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  const exact = PIPELINE_STAGES.find((stage) => stage.toLowerCase() === text);
+  return exact ?? STAGE_ALIASES.find(({ pattern }) => pattern.test(text))?.stage ?? null;
+}
+
+function parseLocationType(value: string): LocationType | null {
+  const text = value.toLowerCase();
+  if (/\bhybrid\b/.test(text)) return 'Hybrid';
+  if (/\bremote\b|\bwfh\b/.test(text)) return 'Remote';
+  if (/\b(?:on-?site|in[- ]office|in[- ]person|office)\b/.test(text)) return 'In-person';
+  return null;
+}
+
+function parseEmploymentType(value: string): EmploymentType | null {
+  const text = value.toLowerCase();
+  if (/\bfull[- ]?time\b|\bft\b|\bperm/.test(text)) return 'Full-time';
+  if (/\bpart[- ]?time\b|\bpt\b/.test(text)) return 'Part-time';
+  if (/\bcontract|\b1099\b|\btemp/.test(text)) return 'Contract';
+  if (/\bfreelance/.test(text)) return 'Freelance';
+  return null;
+}
+
+/** "$150k", "150,000", "150000.00" as whole currency units. */
+function parseAmount(value: string): number | null {
+  const match = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|m)?\b/i);
+  if (!match) return null;
+  const multiplier = match[2] ? (match[2].toLowerCase() === 'm' ? 1_000_000 : 1000) : 1;
+  return Math.round(Number(match[1]) * multiplier);
+}
+
+function parseDate(value: string): string | null {
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return `${text}T00:00:00.000Z`;
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================
+// Preview
+// ============================================================
+
+export type ImportRowStatus = 'ready' | 'duplicate' | 'invalid';
+
+export interface ImportRowPreview {
+  /** 1-based line in the file, counting the header. */
+  rowNumber: number;
+  status: ImportRowStatus;
+  job: Partial<Job>;
+  errors: string[];
+  warnings: string[];
+  /** Existing job, or earlier row, this one repeats. */
+  duplicateOf?: { title: string; company: string; inFile: boolean; reasons: string[] };
+}
+
+export interface ImportPreview {
+  rows: ImportRowPreview[];
+  readyCount: number;
+  duplicateCount: number;
+  invalidCount: number;
+}
+
+function rowToJob(values: string[], mapping: ColumnMapping): { job: Partial<Job>; warnings: string[] } {
+  const job: Partial<Job> = {};
+  const warnings: string[] = [];
+
+  mapping.forEach((field, column) => {
+    const value = values[column]?.trim() ?? '';
+    if (!field || !value) return;
+
+    switch (field) {
+      case 'stage': {
+        const stage = parseStage(value);
+        if (stage) job.stage = stage;
+        else warnings.push(`Unrecognized stage "${value}"; it will start in the pipeline as new`);
+        break;
+      }
+      case 'locationType': {
+        const locationType = parseLocationType(value);
+        if (locationType) job.locationType = locationType;
+        else warnings.push(`Unrecognized work type "${value}"`);
+        break;
+      }
+      case 'employmentType': {
+        const employmentType = parseEmploymentType(value);
+        if (employmentType) job.employmentType = employmentType;
+        else warnings.push(`Unrecognized employment type "${value}"`);
+        break;
+      }
+      case 'compMin':
+      case 'compMax': {
+        const amount = parseAmount(value);
+        if (amount) job[field] = amount;
+        else warnings.push(`Couldn't read ${IMPORT_FIELD_LABELS[field].toLowerCase()} "${value}"`);
+        break;
+      }
+      case 'url':
+        if (isHttpUrl(value)) job.url = value;
+        else warnings.push(`Skipped invalid URL "${value}"`);
+        break;
+      case 'createdAt': {
+        const date = parseDate(value);
+        if (date) job.createdAt = date;
+        else warnings.push(`Couldn't read date "${value}"`);
+        break;
+      }
+      default:
+        job[field] = value;
+    }
+  });
+
+  if (job.compRange && job.compMin === undefined && job.compMax === undefined) {
+    const comp = parseCompFromText(job.compRange);
+    if (comp.min) job.compMin = comp.min;
+    if (comp.max) job.compMax = comp.max;
+  }
+  if (!job.locationType && job.location) {
+    job.locationType = parseLocationType(job.location) ?? undefined;
+  }
+
+  return { job, warnings };
+}
+
+// Duplicate checks need whole jobs; earlier rows stand in with empty lists.
+function asPendingJob(job: Partial<Job>, rowNumber: number): Job {
+  return {
+    id: `import-row-${rowNumber}`,
+    title: job.title ?? '',
+    company: job.company ?? '',
+    url: job.url,
+    location: job.location,
+    locationType: job.locationType ?? 'Unknown',
+    employmentType: job.employmentType ?? 'Full-time',
+    jobDescription: job.jobDescription ?? '',
+    stage: job.stage ?? 'Discovered',
+    stageTimestamps: {},
+    disqualifiers: [],
+    reasonsToPursue: [],
+    reasonsToPass: [],
+    redFlags: [],
+    requirementsExtracted: [],
+    createdAt: '',
+    updatedAt: '',
+  };
+}
+
+/** Validate every row and flag repeats of saved jobs or of earlier rows. */
+export function buildImportPreview(table: ParsedTable, mapping: ColumnMapping, existingJobs: Job[]): ImportPreview {
+  const pending: Job[] = [];
+  const rows = table.rows.map((values, index): ImportRowPreview => {
+    const rowNumber = table.lineNumbers[index];
+    const { job, warnings } = rowToJob(values, mapping);
+    const errors: string[] = [];
+    if (!job.title) errors.push('Missing job title');
+    if (!job.company) errors.push('Missing company');
+    if (errors.length > 0) return { rowNumber, status: 'invalid', job, errors, warnings };
+
+    const [existing] = findDuplicateCandidates(job, existingJobs);
+    const [earlier] = existing ? [] : findDuplicateCandidates(job, pending);
+    const match = existing ?? earlier;
+    if (match) {
+      return {
+        rowNumber,
+        status: 'duplicate',
+        job,
+        errors,
+        warnings,
+        duplicateOf: { title: match.job.title, company: match.job.company, inFile: !existing, reasons: match.reasons },
+      };
+    }
+
+    pending.push(asPendingJob(job, rowNumber));
+    return { rowNumber, status: 'ready', job, errors, warnings };
+  });
+
+  return {
+    rows,
+    readyCount: rows.filter((row) => row.status === 'ready').length,
+    duplicateCount: rows.filter((row) => row.status === 'duplicate').length,
+    invalidCount: rows.filter((row) => row.status === 'invalid').length,
+  };
+}
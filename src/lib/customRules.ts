@@ -0,0 +1,183 @@
+// Job Filter v2 — Custom Scoring Rules
+// User-defined rules evaluated alongside the built-in hard filters and risk
+// signals. Each rule checks JD text, title, company, comp or location and
+// then disqualifies, warns, or adds/subtracts points.
+
+import type {
+  CustomRuleAction,
+  CustomRuleCondition,
+  CustomRuleField,
+  CustomRuleOperator,
+  CustomScoringRule,
+  Job,
+} from '../types';
+
+export const CUSTOM_RULE_FIELDS: Array<{ value: CustomRuleField; label: string }> = [
+  { value: 'jobDescription', label: 'Job description' },
+  { value: 'title', label: 'Title' },
+  { value: 'company', label: 'Company' },
+  { value: 'compensation', label: 'Compensation' },
+  { value: 'location', label: 'Location' },
+];
+
+export const CUSTOM_RULE_ACTIONS: Array<{ value: CustomRuleAction; label: string }> = [
+  { value: 'disqualify', label: 'Disqualify' },
+  { value: 'warn', label: 'Warn' },
+  { value: 'points', label: 'Adjust points' },
+];
+
+const TEXT_OPERATORS: CustomRuleOperator[] = ['contains', 'not_contains'];
+const COMP_OPERATORS: CustomRuleOperator[] = ['below', 'at_least'];
+
+export const CUSTOM_RULE_OPERATOR_LABELS: Record<CustomRuleOperator, string> = {
+  contains: 'contains',
+  not_contains: 'does not contain',
+  below: 'is below',
+  at_least: 'is at least',
+};
+
+/** Points a single rule may add or subtract. */
+export const MAX_CUSTOM_RULE_POINTS = 25;
+
+export function getOperatorsForField(field: CustomRuleField): CustomRuleOperator[] {
+  return field === 'compensation' ? COMP_OPERATORS : TEXT_OPERATORS;
+}
+
+export function createCustomRuleCondition(field: CustomRuleField = 'jobDescription'): CustomRuleCondition {
+  return { field, operator: getOperatorsForField(field)[0], value: '' };
+}
+
+export function createCustomRule(label = 'New rule'): CustomScoringRule {
+  return {
+    id: crypto.randomUUID(),
+    label,
+    enabled: true,
+    match: 'all',
+    conditions: [createCustomRuleCondition()],
+    action: 'warn',
+  };
+}
+
+function sanitizeCondition(condition: CustomRuleCondition): CustomRuleCondition | null {
+  const field = CUSTOM_RULE_FIELDS.some((option) => option.value === condition.field) ? condition.field : null;
+  if (!field) return null;
+  const operators = getOperatorsForField(field);
+  const operator = operators.includes(condition.operator) ? condition.operator : operators[0];
+  const value = condition.value.trim();
+  if (!value) return null;
+  if (field === 'compensation' && parseAmount(value) === null) return null;
+  return { field, operator, value };
+}
+
+export function sanitizeCustomRules(rules: CustomScoringRule[] | undefined): CustomScoringRule[] {
+  const seen = new Set<string>();
+  const output: CustomScoringRule[] = [];
+
+  for (const rule of rules ?? []) {
+    const label = rule.label.trim();
+    if (!label || seen.has(rule.id)) continue;
+    const conditions = rule.conditions
+      .map(sanitizeCondition)
+      .filter((condition): condition is CustomRuleCondition => condition !== null);
+    if (conditions.length === 0) continue;
+    seen.add(rule.id);
+
+    const action = CUSTOM_RULE_ACTIONS.some((option) => option.value === rule.action) ? rule.action : 'warn';
+    const points = action === 'points'
+      ? Math.max(-MAX_CUSTOM_RULE_POINTS, Math.min(MAX_CUSTOM_RULE_POINTS, Math.round(rule.points ?? 0)))
+      : undefined;
+
+    output.push({
+      id: rule.id,
+      label,
+      enabled: rule.enabled !== false,
+      match: rule.match === 'any' ? 'any' : 'all',
+      conditions,
+      action,
+      points,
+    });
+  }
+
+  return output;
+}
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+/** Comma-separated alternatives: "crypto, web3" matches either phrase. */
+function splitPhrases(value: string): string[] {
+  return value.split(',').map((phrase) => phrase.trim().toLowerCase()).filter(Boolean);
+}
+
+function parseAmount(value: string): number | null {
+  const match = value.trim().toLowerCase().replace(/[$,\s]/g, '').match(/^(\d+(?:\.\d+)?)(k)?$/);
+  if (!match) return null;
+  const amount = Number.parseFloat(match[1]) * (match[2] ? 1000 : 1);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function fieldText(job: Partial<Job>, field: Exclude<CustomRuleField, 'compensation'>): string {
+  switch (field) {
+    case 'jobDescription':
+      return (job.jobDescription || '').toLowerCase();
+    case 'title':
+      return (job.title || '').toLowerCase();
+    case 'company':
+      return (job.company || '').toLowerCase();
+    case 'location':
+      return [job.location, job.locationType].filter(Boolean).join(' ').toLowerCase();
+  }
+}
+
+interface ConditionResult {
+  matched: boolean;
+  /** JD phrases that made a contains-condition true, for highlighting. */
+  jdPhrases: string[];
+}
+
+function evaluateCondition(job: Partial<Job>, condition: CustomRuleCondition): ConditionResult {
+  if (condition.field === 'compensation') {
+    const threshold = parseAmount(condition.value);
+    if (threshold === null) return { matched: false, jdPhrases: [] };
+    // Unlisted comp never fires a comp condition; the comp floor filter covers that case.
+    if (condition.operator === 'below') {
+      const top = job.compMax ?? job.compMin;
+      return { matched: top !== undefined && top < threshold, jdPhrases: [] };
+    }
+    const bottom = job.compMin ?? job.compMax;
+    return { matched: bottom !== undefined && bottom >= threshold, jdPhrases: [] };
+  }
+
+  const text = fieldText(job, condition.field);
+  const hits = splitPhrases(condition.value).filter((phrase) => text.includes(phrase));
+  if (condition.operator === 'not_contains') return { matched: hits.length === 0, jdPhrases: [] };
+  return { matched: hits.length > 0, jdPhrases: condition.field === 'jobDescription' ? hits : [] };
+}
+
+export interface CustomRuleMatch {
+  rule: CustomScoringRule;
+  jdPhrases: string[];
+}
+
+export function evaluateCustomRules(job: Partial<Job>, rules: CustomScoringRule[] | undefined): CustomRuleMatch[] {
+  const matches: CustomRuleMatch[] = [];
+
+  for (const rule of rules ?? []) {
+    if (!rule.enabled || rule.conditions.length === 0) continue;
+    const results = rule.conditions.map((condition) => evaluateCondition(job, condition));
+    const fired = rule.match === 'any' ? results.some((result) => result.matched) : results.every((result) => result.matched);
+    if (!fired) continue;
+    matches.push({
+      rule,
+      jdPhrases: results.filter((result) => result.matched).flatMap((result) => result.jdPhrases),
+    });
+  }
+
+  return matches;
+}
+
+export function describeCustomRuleCondition(condition: CustomRuleCondition): string {
+  const field = CUSTOM_RULE_FIELDS.find((option) => option.value === condition.field)?.label ?? condition.field;
+  return `${field} ${CUSTOM_RULE_OPERATOR_LABELS[condition.operator]} "${condition.value}"`;
+}
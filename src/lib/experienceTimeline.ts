@@ -0,0 +1,278 @@
+// Job Filter v2 — Experience Timeline
+// Computes years of experience from the claim timeline. Overlapping roles
+// are merged so concurrent jobs are not double-counted, and months are
+// attributed to a topic ("B2B SaaS", "managing people") only for roles
+// whose title, responsibilities, outcomes or tools show that topic.
+
+import type { Claim, RequirementMatch } from '../types';
+import { findTerms, getDefaultOntology, relateTerms, type SkillOntology } from './skillOntology';
+
+// ============================================================
+// Dates
+// ============================================================
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2,
+  apr: 3, april: 3, may: 4, jun: 5, june: 5,
+  jul: 6, july: 6, aug: 7, august: 7, sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9, nov: 10, november: 10, dec: 11, december: 11,
+};
+
+const CURRENT_RE = /^(?:present|current|now|today|ongoing)$/i;
+
+function monthIndex(date: Date): number {
+  return date.getFullYear() * 12 + date.getMonth();
+}
+
+/**
+ * Month index (year * 12 + month) for "Jan 2020", "01/2020", "2020-01",
+ * "2020" or "Present". A bare year starts in January and ends in December.
+ */
+export function parseTimelineMonth(value: string | undefined, edge: 'start' | 'end', now: Date): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return edge === 'end' ? monthIndex(now) : null;
+  if (CURRENT_RE.test(trimmed)) return monthIndex(now);
+
+  const named = trimmed.match(/\b([A-Za-z]+)\.?,?\s+(\d{4})\b/);
+  if (named) {
+    const month = MONTHS[named[1].toLowerCase()];
+    if (month !== undefined) return Number(named[2]) * 12 + month;
+  }
+
+  const slashed = trimmed.match(/^(\d{1,2})\/(\d{4})$/);
+  const dashed = trimmed.match(/^(\d{4})-(\d{1,2})$/);
+  if (slashed || dashed) {
+    const month = Number(slashed ? slashed[1] : dashed![2]);
+    const year = Number(slashed ? slashed[2] : dashed![1]);
+    if (month >= 1 && month <= 12) return year * 12 + month - 1;
+  }
+
+  const year = trimmed.match(/^(\d{4})$/);
+  if (year) return Number(year[1]) * 12 + (edge === 'start' ? 0 : 11);
+
+  return null;
+}
+
+// ============================================================
+// Timeline
+// ============================================================
+
+export interface TimelineRole {
+  claim: Claim;
+  /** Inclusive month indices. */
+  start: number;
+  end: number;
+}
+
+export function buildTimeline(claims: Claim[], now: Date = new Date()): TimelineRole[] {
+  const roles: TimelineRole[] = [];
+  for (const claim of claims) {
+    const start = parseTimelineMonth(claim.startDate, 'start', now);
+    const end = parseTimelineMonth(claim.endDate, 'end', now);
+    if (start === null || end === null || end < start) continue;
+    roles.push({ claim, start, end: Math.min(end, monthIndex(now)) });
+  }
+  return roles.sort((a, b) => a.start - b.start);
+}
+
+/** Months covered by a set of inclusive ranges, counting overlaps once. */
+export function mergedMonths(ranges: Array<{ start: number; end: number }>): number {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let current: { start: number; end: number } | null = null;
+  for (const range of sorted) {
+    if (current && range.start <= current.end + 1) {
+      current.end = Math.max(current.end, range.end);
+      continue;
+    }
+    if (current) total += current.end - current.start + 1;
+    current = { ...range };
+  }
+  if (current) total += current.end - current.start + 1;
+  return total;
+}
+
+// ============================================================
+// Topic attribution
+// ============================================================
+
+interface ExperienceTopic {
+  requirement: RegExp;
+  evidence: RegExp;
+  /** Role titles that imply the topic on their own. */
+  title?: RegExp;
+}
+
+const EXPERIENCE_TOPICS: ExperienceTopic[] = [
+  {
+    requirement: /\b(?:managing|leading|manage|lead)\s+(?:people|teams?|direct reports|managers)\b|\bpeople (?:management|leadership)\b|\bteam (?:management|leadership)\b|\bmanagerial\b/i,
+    evidence: /\b(?:managed|led|leading|managing|built|grew|hired|coached|mentored)\s+(?:a\s+)?(?:team|\d+\s*(?:direct reports|people|reports|marketers|engineers|person))|\bdirect reports\b|\bpeople management\b|\bhired\b/i,
+    title: /\b(?:director|head of|vp|vice president|chief|cmo|cro|coo|ceo|team lead|manager of)\b/i,
+  },
+  {
+    requirement: /\bb2b\b|\bsaas\b/i,
+    evidence: /\bb2b\b|\bsaas\b|\benterprise software\b|\bsubscription software\b|\barr\b/i,
+  },
+  {
+    requirement: /\bb2c\b|\bconsumer\b|\bdtc\b|\bd2c\b|\bdirect[- ]to[- ]consumer\b/i,
+    evidence: /\bb2c\b|\bconsumer\b|\bdtc\b|\bd2c\b|\bdirect[- ]to[- ]consumer\b|\becommerce\b|\be-commerce\b/i,
+  },
+  {
+    requirement: /\bstartups?\b|\bearly[- ]stage\b|\bhigh[- ]growth\b/i,
+    evidence: /\bstartups?\b|\bearly[- ]stage\b|\bseed\b|\bseries [abc]\b|\bhigh[- ]growth\b|\bfounding\b|\bfirst (?:marketing |growth )?hire\b/i,
+  },
+];
+
+// Stop words to exclude when computing keyword match scores.
+// These add noise and inflate match ratios for unrelated claims.
+const KEYWORD_STOP_WORDS = new Set([
+  'with', 'that', 'this', 'from', 'have', 'been', 'will', 'they',
+  'their', 'them', 'than', 'also', 'over', 'into', 'such', 'more',
+  'well', 'very', 'just', 'like', 'work', 'role', 'team', 'ability',
+  'strong', 'knowledge', 'understanding', 'experience', 'including',
+  'related', 'across', 'within', 'between', 'through', 'years',
+]);
+
+function claimText(claim: Claim): string {
+  return [
+    claim.role,
+    claim.company,
+    ...claim.responsibilities,
+    ...claim.outcomes.map((outcome) => outcome.description),
+    ...claim.tools,
+  ].join(' ');
+}
+
+/**
+ * Whether a role's evidence shows the topic. Known topics use their own
+ * patterns; skills and tools use the ontology; anything else falls back to
+ * a weighted keyword overlap of at least 40%.
+ */
+export function claimShowsTopic(claim: Claim, topic: string, ontology: SkillOntology = getDefaultOntology()): boolean {
+  const text = claimText(claim);
+  const known = EXPERIENCE_TOPICS.filter((entry) => entry.requirement.test(topic));
+  if (known.length > 0) {
+    return known.every((entry) => entry.evidence.test(text) || Boolean(entry.title?.test(claim.role)));
+  }
+
+  const required = findTerms(topic, ontology);
+  if (required.length > 0) {
+    const held = findTerms(text, ontology);
+    if (required.some((term) => held.some((entry) => {
+      const relation = relateTerms(term, entry, ontology);
+      return relation === 'exact' || relation === 'narrower';
+    }))) {
+      return true;
+    }
+  }
+
+  const topicLower = topic.toLowerCase();
+  const textLower = text.toLowerCase();
+  // Longer keywords weigh more: "marketing" (weight 6) counts more than "data" (weight 1).
+  const keywords = topicLower.split(/[^a-z0-9+#&]+/).filter((word) => word.length > 3 && !KEYWORD_STOP_WORDS.has(word));
+  let totalWeight = 0;
+  let matchedWeight = 0;
+  for (const keyword of keywords) {
+    const weight = Math.max(1, keyword.length - 3);
+    totalWeight += weight;
+    if (textLower.includes(keyword)) matchedWeight += weight;
+  }
+  return totalWeight > 0 && matchedWeight / totalWeight >= 0.4;
+}
+
+// ============================================================
+// Years
+// ============================================================
+
+export interface ExperienceContribution {
+  role: string;
+  company: string;
+  months: number;
+  start: number;
+  end: number;
+}
+
+export interface ExperienceYears {
+  /** Months on topic, overlaps counted once. */
+  months: number;
+  /** Months across the whole timeline, overlaps counted once. */
+  totalMonths: number;
+  contributions: ExperienceContribution[];
+}
+
+export function computeExperienceYears(
+  claims: Claim[],
+  topic?: string,
+  options: { now?: Date; ontology?: SkillOntology } = {},
+): ExperienceYears {
+  const timeline = buildTimeline(claims, options.now);
+  const relevant = topic?.trim()
+    ? timeline.filter((entry) => claimShowsTopic(entry.claim, topic, options.ontology))
+    : timeline;
+
+  return {
+    months: mergedMonths(relevant),
+    totalMonths: mergedMonths(timeline),
+    contributions: relevant
+      .map((entry) => ({
+        role: entry.claim.role,
+        company: entry.claim.company,
+        months: entry.end - entry.start + 1,
+        start: entry.start,
+        end: entry.end,
+      }))
+      .sort((a, b) => b.end - a.end),
+  };
+}
+
+export function formatYears(months: number): string {
+  const years = Math.floor((months / 12) * 10) / 10;
+  return `${Number.isInteger(years) ? years : years.toFixed(1)} yr${years === 1 ? '' : 's'}`;
+}
+
+function describeContributions(contributions: ExperienceContribution[]): string {
+  const shown = contributions.slice(0, 3).map((entry) => `${entry.role} at ${entry.company} (${formatYears(entry.months)})`);
+  const extra = contributions.length - shown.length;
+  return extra > 0 ? `${shown.join(', ')} +${extra} more` : shown.join(', ');
+}
+
+export interface ExperienceMatch {
+  status: RequirementMatch;
+  evidence?: string;
+}
+
+/**
+ * Resolve "N years of <topic>" against the timeline. Met when on-topic
+ * months reach N years; Partial when they reach 60% of it, or when total
+ * career length does; Missing otherwise.
+ */
+export function matchExperienceRequirement(
+  yearsNeeded: number,
+  topic: string,
+  claims: Claim[] | undefined,
+  options: { now?: Date; ontology?: SkillOntology } = {},
+): ExperienceMatch {
+  if (!claims || claims.length === 0) return { status: 'Missing' };
+
+  const result = computeExperienceYears(claims, topic, options);
+  const neededMonths = yearsNeeded * 12;
+  const sources = describeContributions(result.contributions);
+
+  if (result.months > 0 && result.months >= neededMonths) {
+    return { status: 'Met', evidence: `${formatYears(result.months)}: ${sources}` };
+  }
+  if (result.months > 0 && result.months >= neededMonths * 0.6) {
+    return { status: 'Partial', evidence: `${formatYears(result.months)} of ${yearsNeeded} needed: ${sources}` };
+  }
+  if (result.totalMonths >= neededMonths) {
+    return {
+      status: 'Partial',
+      evidence: result.months > 0
+        ? `${formatYears(result.totalMonths)} total, ${formatYears(result.months)} on topic: ${sources}`
+        : `${formatYears(result.totalMonths)} total; no roles show this topic`,
+    };
+  }
+  return result.months > 0
+    ? { status: 'Missing', evidence: `${formatYears(result.months)} of ${yearsNeeded} needed: ${sources}` }
+    : { status: 'Missing' };
+}
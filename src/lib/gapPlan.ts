@@ -0,0 +1,168 @@
+// Job Filter v2 — Gap Plan
+// Turns missing and partial requirements into trackable plan items
+// (learning task, proof to add, talking point), grouped across every
+// Pursue job so the gaps blocking the most opportunities surface first.
+
+import type { GapItem, GapItemKind, GapItemStatus, Job, Requirement, ScoreThresholds } from '../types';
+import { getEffectiveFitLabel } from './scoreBands';
+import { isSameRequirementKey, requirementKey } from './requirementOverrides';
+
+export const GAP_ITEM_KIND_LABELS: Record<GapItemKind, string> = {
+  learning: 'Learning task',
+  proof: 'Proof to add',
+  talking_point: 'Talking point',
+};
+
+export const GAP_ITEM_STATUS_LABELS: Record<GapItemStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  done: 'Done',
+  closed: 'Closed (now met)',
+};
+
+export function isActiveGapItem(item: Pick<GapItem, 'status'>): boolean {
+  return item.status === 'open' || item.status === 'in_progress';
+}
+
+// ============================================================
+// Aggregation
+// ============================================================
+
+export interface GapJobRef {
+  jobId: string;
+  title: string;
+  company: string;
+  priority: Requirement['priority'];
+  match: Requirement['match'];
+}
+
+export interface GapGroup {
+  key: string;
+  type: Requirement['type'];
+  description: string;
+  jobs: GapJobRef[];
+  /** Jobs where this is a missing must-have. */
+  blockingCount: number;
+  item?: GapItem;
+}
+
+function matchesGroup(group: Pick<GapGroup, 'key' | 'type'>, type: Requirement['type'], key: string): boolean {
+  return group.type === type && isSameRequirementKey(group.key, key);
+}
+
+/**
+ * Group unmet requirements across Pursue jobs by fuzzy requirement key,
+ * most-blocking first, and attach the tracked item for each group.
+ */
+export function aggregateGaps(jobs: Job[], items: GapItem[], thresholds: ScoreThresholds): GapGroup[] {
+  const groups: GapGroup[] = [];
+
+  for (const job of jobs) {
+    if (getEffectiveFitLabel(job.fitScore, job.fitLabel, thresholds) !== 'Pursue') continue;
+
+    for (const requirement of job.requirementsExtracted ?? []) {
+      if (requirement.match === 'Met') continue;
+      const key = requirementKey(requirement.description);
+      if (!key) continue;
+
+      let group = groups.find((entry) => matchesGroup(entry, requirement.type, key));
+      if (!group) {
+        group = { key, type: requirement.type, description: requirement.description, jobs: [], blockingCount: 0 };
+        groups.push(group);
+      }
+      if (group.jobs.some((ref) => ref.jobId === job.id)) continue;
+      group.jobs.push({
+        jobId: job.id,
+        title: job.title,
+        company: job.company,
+        priority: requirement.priority,
+        match: requirement.match,
+      });
+      if (requirement.priority === 'Must' && requirement.match === 'Missing') group.blockingCount += 1;
+    }
+  }
+
+  for (const group of groups) {
+    group.item = items.find((item) => matchesGroup(item, group.type, group.key));
+  }
+
+  return groups.sort((a, b) => (
+    b.blockingCount - a.blockingCount
+    || b.jobs.length - a.jobs.length
+    || a.description.localeCompare(b.description)
+  ));
+}
+
+// ============================================================
+// Items
+// ============================================================
+
+/**
+ * Default plan type: tools, skills and credentials are learned; a partial
+ * match needs a stronger proof; missing experience needs a talking point.
+ */
+export function suggestGapItemKind(requirement: Pick<Requirement, 'type' | 'match'>): GapItemKind {
+  if (requirement.match === 'Partial') return 'proof';
+  if (requirement.type === 'experience' || requirement.type === 'other') return 'talking_point';
+  return 'learning';
+}
+
+export function createGapItem(
+  group: Pick<GapGroup, 'key' | 'type' | 'description'>,
+  kind: GapItemKind,
+  id: string,
+  now: string,
+): GapItem {
+  return {
+    id,
+    key: group.key,
+    type: group.type,
+    description: group.description,
+    kind,
+    status: 'open',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Active items whose requirement is now Met in every job that lists it.
+ * Returns the updates to apply; items with no matching job stay as they are.
+ */
+export function findMetGapItems(items: GapItem[], jobs: Job[], now: string): Array<{ id: string; updates: Partial<GapItem> }> {
+  const closures: Array<{ id: string; updates: Partial<GapItem> }> = [];
+
+  for (const item of items) {
+    if (!isActiveGapItem(item)) continue;
+
+    const hits = jobs.flatMap((job) => (job.requirementsExtracted ?? [])
+      .filter((requirement) => requirement.type === item.type && isSameRequirementKey(item.key, requirementKey(requirement.description)))
+      .map((requirement) => ({ job, requirement })));
+    if (hits.length === 0 || hits.some(({ requirement }) => requirement.match !== 'Met')) continue;
+
+    const { job, requirement } = hits[0];
+    closures.push({
+      id: item.id,
+      updates: {
+        status: 'closed',
+        closedAt: now,
+        closedReason: requirement.evidence
+          ? `Now met for ${job.title} at ${job.company}: ${requirement.evidence}`
+          : `Now met for ${job.title} at ${job.company}`,
+        updatedAt: now,
+      },
+    });
+  }
+
+  return closures;
+}
+
+/** Jobs holding an unmet requirement that an active item tracks. */
+export function jobsWithActiveGaps(items: GapItem[], jobs: Job[]): Job[] {
+  const active = items.filter(isActiveGapItem);
+  if (active.length === 0) return [];
+  return jobs.filter((job) => (job.requirementsExtracted ?? []).some((requirement) => (
+    requirement.match !== 'Met'
+    && active.some((item) => item.type === requirement.type && isSameRequirementKey(item.key, requirementKey(requirement.description)))
+  )));
+}
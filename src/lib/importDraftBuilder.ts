@@ -1,6 +1,8 @@
 import { detectTools, parseResumeStructured } from './claimParser';
 import type { ParsedClaim } from './claimParser';
 import { summarizeTextStage, toNumberedPreview } from './importDiagnostics';
+import { parseCredentialsFromResume } from './credentials';
+import { getDefaultOntology, type SkillOntology } from './skillOntology';
 import type {
   ImportDraft,
   ImportDraftCompany,
@@ -17,6 +19,8 @@ import type { ClaimsImportExtractionDiagnostics } from './claimsImportPipeline';
 interface BuildImportDraftOptions {
   mode?: SegmentationMode;
   extractionDiagnostics?: ClaimsImportExtractionDiagnostics;
+  /** Skill/tool vocabulary for tool detection; defaults to the built-in one. */
+  ontology?: SkillOntology;
 }
 
 export interface ImportDraftParseResult {
@@ -648,6 +652,7 @@ function buildRole(
   roleIndex: number,
   claimZone: ResumeZone,
   forceNeedsAttention = false,
+  ontology: SkillOntology = getDefaultOntology(),
 ): ImportDraftRole {
   const normalizedEvidence = normalizeClaimEvidence(claim, claimZone);
   const normalizedResponsibilities = [...normalizedEvidence.responsibilities];
@@ -698,7 +703,7 @@ function buildRole(
     };
   });
 
-  const toolsFromText = detectTools(`${normalizedResponsibilities.join(' ')} ${normalizedOutcomes.map((o) => o.description).join(' ')}`);
+  const toolsFromText = detectTools(`${normalizedResponsibilities.join(' ')} ${normalizedOutcomes.map((o) => o.description).join(' ')}`, ontology);
   const mergedTools = [...new Set([...claim.tools, ...toolsFromText])];
 
   const tools: ImportDraftItem[] = mergedTools.map((tool, index) => {
@@ -904,7 +909,7 @@ function mergeAnchoredFeaturedAchievementRoles(companies: ImportDraftCompany[]):
   });
 }
 
-function buildFallbackClaimsFromLines(lines: string[]): ParsedClaim[] {
+function buildFallbackClaimsFromLines(lines: string[], ontology: SkillOntology): ParsedClaim[] {
   const items: string[] = [];
 
   for (let i = 0; i < lines.length; i += 1) {
@@ -946,7 +951,7 @@ function buildFallbackClaimsFromLines(lines: string[]): ParsedClaim[] {
       metric: toOutcomeMetric(description),
       isNumeric: /\d/.test(description),
     }));
-  const tools = detectTools(items.join(' '));
+  const tools = detectTools(items.join(' '), ontology);
 
   return [
     {
@@ -967,6 +972,7 @@ function buildImportDraftForMode(
   rawText: string,
   mode: SegmentationMode,
   extractionDiagnostics?: ClaimsImportExtractionDiagnostics,
+  ontology: SkillOntology = getDefaultOntology(),
 ): ImportDraftParseResult {
   const normalizedInput = normalizeImportText(rawText);
   const inputLines = normalizedInput.split('\n');
@@ -983,9 +989,9 @@ function buildImportDraftForMode(
 
   const lines = normalizedText.split('\n').map((line) => line.trim()).filter(Boolean);
   const lineZones = classifyLineZones(lines);
-  let claims = parseResumeStructured(normalizedText);
+  let claims = parseResumeStructured(normalizedText, ontology);
   if (claims.length === 0) {
-    claims = buildFallbackClaimsFromLines(lines);
+    claims = buildFallbackClaimsFromLines(lines, ontology);
   }
 
   const grouped = new Map<string, ImportDraftCompany>();
@@ -1069,13 +1075,16 @@ function buildImportDraftForMode(
       roleCounter,
       claimZone,
       unresolvedIdentity,
+      ontology,
     );
     grouped.get(groupKey)?.roles.push(role);
     roleCounter += 1;
   }
 
+  const credentials = parseCredentialsFromResume(normalizedInput.split('\n'));
   const draft: ImportDraft = {
     companies: mergeAnchoredFeaturedAchievementRoles([...grouped.values()]),
+    ...(credentials.length > 0 ? { credentials } : {}),
   };
 
   return {
@@ -1124,7 +1133,7 @@ export function buildBestImportDraftFromText(
 ): ImportDraftParseResult {
   const candidates = AUTO_SEGMENTATION_MODES.map((mode) => ({
     mode,
-    result: buildImportDraftForMode(rawText, mode, options.extractionDiagnostics),
+    result: buildImportDraftForMode(rawText, mode, options.extractionDiagnostics, options.ontology),
   }));
 
   const scored = candidates
@@ -1142,7 +1151,7 @@ export function buildBestImportDraftFromText(
 
   const winner = scored[0] ?? {
     mode: 'default' as SegmentationMode,
-    result: buildImportDraftForMode(rawText, 'default', options.extractionDiagnostics),
+    result: buildImportDraftForMode(rawText, 'default', options.extractionDiagnostics, options.ontology),
     score: 0,
     counts: { companies: 0, roles: 0, items: 0, bulletCandidates: 0 },
   };
@@ -1165,7 +1174,7 @@ export function buildBestImportDraftFromText(
 
 export function buildImportDraftFromText(rawText: string, options: BuildImportDraftOptions = {}): ImportDraftParseResult {
   if (options.mode) {
-    return buildImportDraftForMode(rawText, options.mode, options.extractionDiagnostics);
+    return buildImportDraftForMode(rawText, options.mode, options.extractionDiagnostics, options.ontology);
   }
 
   return buildBestImportDraftFromText(rawText, options);
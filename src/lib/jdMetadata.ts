@@ -0,0 +1,211 @@
+// Job Filter v2 — JD Metadata
+// Proposes title, company, location, work arrangement, employment type,
+// company stage and posting / closing dates from the header and footer of
+// a raw pasted job description. Proposals are suggestions for the capture
+// form; nothing is applied without the user accepting it.
+
+import type { EmploymentType, JobStageHint, LocationType } from '../types';
+import { parsePostedDate } from './jobHealth';
+import { normalizeTitle } from './titleNormalization';
+
+export interface JdMetadata {
+  title?: string;
+  company?: string;
+  location?: string;
+  locationType?: LocationType;
+  employmentType?: EmploymentType;
+  stageHint?: JobStageHint;
+  postedAt?: string;
+  closesAt?: string;
+}
+
+export type JdMetadataField = keyof JdMetadata;
+
+export const JD_METADATA_LABELS: Record<JdMetadataField, string> = {
+  title: 'Title',
+  company: 'Company',
+  location: 'Location',
+  locationType: 'Work type',
+  employmentType: 'Employment',
+  stageHint: 'Company stage',
+  postedAt: 'Posted',
+  closesAt: 'Closes',
+};
+
+export const STAGE_HINT_LABELS: Record<JobStageHint, string> = {
+  seed: 'Seed / Pre-seed',
+  series_a: 'Series A',
+  series_b: 'Series B',
+  series_c_plus: 'Series C+',
+  public: 'Public company',
+  profitable_private: 'Profitable private',
+  unknown: 'Unknown',
+};
+
+const HEADER_LINES = 15;
+const FOOTER_LINES = 10;
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function clean(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/^[\s\-–—:|•·*]+|[\s\-–—:|•·*,.]+$/g, '').trim();
+}
+
+function looksLikeTitle(line: string): boolean {
+  const text = clean(line);
+  if (!text || text.length > 80 || text.split(' ').length > 10 || /[.!?]$/.test(line.trim())) return false;
+  return normalizeTitle(text).function !== null;
+}
+
+function labelled(lines: string[], labels: string): string | undefined {
+  const pattern = new RegExp(`^(?:${labels})\\s*[:\\-–]\\s*(.+)$`, 'i');
+  for (const line of lines) {
+    const value = line.match(pattern)?.[1];
+    if (value && clean(value)) return clean(value);
+  }
+  return undefined;
+}
+
+/** The option whose pattern first appears in `text`, so the posting's own framing wins. */
+function earliest<T>(text: string, options: Array<{ value: T; pattern: RegExp }>): T | undefined {
+  let best: { value: T; index: number } | undefined;
+  for (const { value, pattern } of options) {
+    const index = text.search(pattern);
+    if (index !== -1 && (!best || index < best.index)) best = { value, index };
+  }
+  return best?.value;
+}
+
+function parseDateText(value: string): string | undefined {
+  const text = value.replace(/(\d)(?:st|nd|rd|th)\b/gi, '$1').replace('.', '');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return `${text}T00:00:00.000Z`;
+  const parsed = Date.parse(text);
+  if (Number.isNaN(parsed)) return undefined;
+  const date = new Date(parsed);
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())).toISOString();
+}
+
+// ============================================================
+// Fields
+// ============================================================
+
+// "Director of Growth at Acme", "Director of Growth - Acme", "Director of Growth | Acme"
+const TITLE_AND_COMPANY = /^(.+?)\s+(?:at|@|[-–—|])\s+(.+)$/i;
+// LinkedIn's "Acme · New York, NY (Hybrid) · Reposted 2 weeks ago"
+const COMPANY_AND_PLACE = /^([^·•]+?)\s*[·•]\s*([^·•]+)/;
+const HIRING = /\b(?:is hiring|are hiring|we're hiring|we are hiring|looking for|seeking)\s+(?:an?\s+|our\s+(?:first\s+|next\s+)?)?([A-Z][\w&/,' -]{2,70}?)(?=\s+(?:to|who|that|with)\b|[.!\n]|$)/;
+const ABOUT_COMPANY = /^About\s+([A-Z][\w&.'-]*(?:\s+[A-Z][\w&.'-]*){0,3})\s*:?$/;
+const NOT_A_COMPANY = new Set(['the', 'us', 'you', 'this', 'our', 'your', 'me', 'team', 'role', 'company']);
+const COMPANY_IS_HIRING = /\b([A-Z][\w&.'-]*(?:\s+[A-Z][\w&.'-]*){0,2})\s+is (?:hiring|looking|seeking)\b/;
+const CITY_STATE = /\b([A-Z][a-z]+(?:[ -][A-Z][a-z]+)*,\s?[A-Z]{2})\b(?:,?\s?(?:USA|US|United States))?/;
+const ARRANGEMENT_SUFFIX = /\s*\((?:remote|hybrid|on-?site|in[- ]office)\)\s*$/i;
+
+function proposeTitleAndCompany(header: string[], lines: string[]): Pick<JdMetadata, 'title' | 'company'> {
+  const result: Pick<JdMetadata, 'title' | 'company'> = {
+    title: labelled(header, 'job title|title|position|role'),
+    company: labelled(header, 'company|employer|organization|hiring company'),
+  };
+
+  const [first] = header;
+  const split = first?.match(TITLE_AND_COMPANY);
+  if (split && looksLikeTitle(split[1]) && !looksLikeTitle(split[2])) {
+    result.title ??= clean(split[1]);
+    result.company ??= clean(split[2]);
+  }
+
+  if (!result.title) {
+    const hiring = header.join('\n').match(HIRING)?.[1];
+    if (hiring && looksLikeTitle(hiring)) result.title = clean(hiring);
+  }
+  result.title ??= header.find(looksLikeTitle)?.trim();
+
+  if (!result.company) {
+    const titleIndex = header.findIndex((line) => clean(line) === result.title);
+    const next = titleIndex === -1 ? undefined : header[titleIndex + 1]?.match(COMPANY_AND_PLACE)?.[1];
+    result.company = (next && clean(next))
+      || lines.map((line) => line.match(ABOUT_COMPANY)?.[1])
+        .find((name) => name && !NOT_A_COMPANY.has(name.split(' ')[0].toLowerCase()))
+      || header.join('\n').match(COMPANY_IS_HIRING)?.[1];
+  }
+
+  return Object.fromEntries(Object.entries(result).filter(([, value]) => value)) as Pick<JdMetadata, 'title' | 'company'>;
+}
+
+function proposeLocation(header: string[], title: string | undefined): string | undefined {
+  const fromLabel = labelled(header, 'location|job location|office location|based in|work location');
+  if (fromLabel) return fromLabel.replace(ARRANGEMENT_SUFFIX, '');
+
+  // The line under the title on LinkedIn-style pastes: "Acme · New York, NY (Hybrid)".
+  const titleIndex = title ? header.findIndex((line) => clean(line) === title) : -1;
+  const place = titleIndex === -1 ? undefined : header[titleIndex + 1]?.match(COMPANY_AND_PLACE)?.[2];
+  if (place && !/\b(?:ago|applicants?|clicked)\b/i.test(place)) return clean(place.replace(ARRANGEMENT_SUFFIX, ''));
+
+  return header.join('\n').match(CITY_STATE)?.[1];
+}
+
+const LOCATION_TYPE_PATTERNS: Array<{ value: LocationType; pattern: RegExp }> = [
+  { value: 'Hybrid', pattern: /\bhybrid\b/i },
+  // Skips negations: "not remote", "non-remote", "this is not a remote role".
+  { value: 'Remote', pattern: /(?<!\b(?:not|no|non|isn[’']t)[- ](?:(?:a|an|a fully|fully)\s+)?)\bremote\b(?![- ]friendly)/i },
+  { value: 'In-person', pattern: /\b(?:on-?site|in[- ]office|in[- ]person)\b/i },
+];
+
+const EMPLOYMENT_TYPE_PATTERNS: Array<{ value: EmploymentType; pattern: RegExp }> = [
+  { value: 'Full-time', pattern: /\bfull[- ]?time\b/i },
+  { value: 'Part-time', pattern: /\bpart[- ]?time\b/i },
+  { value: 'Contract', pattern: /\b(?:contract(?:[- ]to[- ]hire)?\s+(?:role|position|basis|engagement)|contractor|1099|fixed[- ]term|temporary)\b/i },
+  { value: 'Freelance', pattern: /\bfreelance\b/i },
+];
+
+const STAGE_PATTERNS: Array<{ value: JobStageHint; pattern: RegExp }> = [
+  { value: 'seed', pattern: /\b(?:pre-?seed|seed[- ](?:stage|round|funded|funding))\b/i },
+  { value: 'series_a', pattern: /\bseries a\b/i },
+  { value: 'series_b', pattern: /\bseries b\b/i },
+  { value: 'series_c_plus', pattern: /\bseries [c-h]\b/i },
+  { value: 'public', pattern: /\b(?:publicly traded|public company|nyse|nasdaq)\b/i },
+  { value: 'profitable_private', pattern: /\b(?:profitable|bootstrapped)\b/i },
+];
+
+const CLOSING_DATE = /\b(?:closing date|applications? (?:close|closes|due)|application deadline|deadline to apply|apply by|open until|closes on)\s*(?:on|is)?\s*:?\s*([a-z]{3,9}\.? \d{1,2}(?:st|nd|rd|th)?,? \d{4}|\d{1,2}(?:st|nd|rd|th)? [a-z]{3,9},? \d{4}|\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})/i;
+
+// ============================================================
+// Extractor
+// ============================================================
+
+/**
+ * Read metadata proposals from a pasted JD. Title, company and location
+ * come from the header; work type and employment type prefer the header
+ * and fall back to the whole posting; dates usually sit in the footer.
+ */
+export function extractJdMetadata(text: string, capturedAt: string): JdMetadata {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) return {};
+  const header = lines.slice(0, HEADER_LINES);
+  const headerText = header.join('\n');
+  const edges = [...header, ...lines.slice(-FOOTER_LINES)].join('\n');
+
+  const { title, company } = proposeTitleAndCompany(header, lines);
+  const closing = edges.match(CLOSING_DATE)?.[1];
+
+  const metadata: JdMetadata = {
+    title,
+    company,
+    location: proposeLocation(header, title),
+    locationType: earliest(headerText, LOCATION_TYPE_PATTERNS) ?? earliest(text, LOCATION_TYPE_PATTERNS),
+    employmentType: earliest(headerText, EMPLOYMENT_TYPE_PATTERNS) ?? earliest(text, EMPLOYMENT_TYPE_PATTERNS),
+    stageHint: earliest(text, STAGE_PATTERNS),
+    postedAt: parsePostedDate(edges, capturedAt),
+    closesAt: closing ? parseDateText(closing) : undefined,
+  };
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as JdMetadata;
+}
+
+export function describeMetadataValue(field: JdMetadataField, value: string): string {
+  if (field === 'stageHint') return STAGE_HINT_LABELS[value as JobStageHint] ?? value;
+  if (field === 'postedAt' || field === 'closesAt') {
+    return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  }
+  return value;
+}
@@ -0,0 +1,134 @@
+// Job Filter v2 — JD Segmenter
+// Splits a job description into headed sections (about the company,
+// responsibilities, requirements, preferred, benefits, compensation,
+// EEO/legal) so scoring can read each signal from the part of the posting
+// it belongs to.
+
+import type { JdSection, JdSectionKind } from '../types';
+
+// ============================================================
+// Headings
+// ============================================================
+
+// Checked in order: "About you" is requirements and "About the role" is
+// responsibilities before the generic "About <company>" falls through.
+const HEADING_PATTERNS: Array<[JdSectionKind, RegExp]> = [
+  ['legal', /\b(?:equal (?:employment )?opportunity|eeoc?|e-verify|accommodations?|non-?discrimination|privacy (?:notice|policy)|legal|disclaimer|commitment to (?:diversity|inclusion))\b/],
+  ['preferred', /\b(?:preferred|nice[- ]to[- ]haves?|bonus points|pluses|a plus|extra credit|what sets you apart|additional qualifications|desired (?:qualifications|skills))\b/],
+  ['benefits', /\b(?:benefits|perks|what we offer|total rewards|what's in it for you|why you'll love)\b/],
+  ['compensation', /\b(?:compensation|salary|pay range|pay transparency|base pay)\b/],
+  ['requirements', /\b(?:requirements|qualifications|what you(?:'ll| will)? (?:need|bring)|what we(?:'re| are) looking for|who you are|about you|must[- ]haves?|you have|skills (?:and|&) experience|your experience|is this you)\b/],
+  ['responsibilities', /\b(?:responsibilities|what you(?:'ll| will) (?:do|own|be doing)|the role|your role|about the (?:role|job|position|opportunity)|the opportunity|role overview|job description|position summary|duties|day[- ]to[- ]day|in this role|your impact)\b/],
+  ['about', /\b(?:about (?:us|the company|the team|[\w.&-]+)|who we are|our (?:mission|story|company|values)|company overview|the company|life at|why (?:join|work))\b/],
+];
+
+// Unheaded paragraphs that still open a section of their own.
+const LEGAL_SENTENCE_RE = /\bequal (?:employment )?opportunity employer\b|\bwithout regard to (?:race|sex|age)\b|\beeo\/aa\b/i;
+const COMP_SENTENCE_RE = /^(?:the\s+)?(?:expected\s+|anticipated\s+|annual\s+)?(?:base\s+)?(?:salary|pay|compensation)\s+(?:range|for this (?:role|position))\b/i;
+
+const MAX_HEADING_LENGTH = 60;
+const MAX_HEADING_WORDS = 8;
+// A bare line without heading markup must open with the heading phrase
+// ("Key responsibilities"), so "Own the company's roadmap" stays body text.
+const MAX_BARE_HEADING_WORDS = 5;
+const HEADING_LEAD_WORD_RE = /^(?:key|core|primary|main|your|our|job|minimum|basic|required|additional|company|role|the)\s+/;
+
+function hasHeadingMarkup(line: string): boolean {
+  const trimmed = line.trim();
+  return /[:：]$/.test(trimmed)
+    || /^#{1,6}\s/.test(trimmed)
+    || /^(\*\*|__).*\1$/.test(trimmed)
+    || (/[A-Z]/.test(trimmed) && trimmed === trimmed.toUpperCase());
+}
+
+function cleanHeading(line: string): string {
+  return line
+    .trim()
+    .replace(/^#{1,6}\s*/, '')
+    .replace(/^(\*\*|__)(.*)\1$/, '$2')
+    .replace(/[:：]\s*$/, '')
+    .replace(/[’‘]/g, "'")
+    .trim();
+}
+
+/** Section kind for a heading line, or null when the line is not a heading. */
+export function classifyHeading(line: string): JdSectionKind | null {
+  if (/^\s*(?:[-•◦▪]|\*\s)/.test(line)) return null;
+  const heading = cleanHeading(line);
+  if (!heading || heading.length > MAX_HEADING_LENGTH) return null;
+  const words = heading.split(/\s+/).length;
+  const marked = hasHeadingMarkup(line);
+  if (/[.!]$/.test(heading) || words > (marked ? MAX_HEADING_WORDS : MAX_BARE_HEADING_WORDS)) return null;
+
+  const lower = heading.toLowerCase();
+  const leadLength = lower.match(HEADING_LEAD_WORD_RE)?.[0].length ?? 0;
+  for (const [kind, pattern] of HEADING_PATTERNS) {
+    const match = pattern.exec(lower);
+    if (match && (marked || match.index === 0 || match.index === leadLength)) return kind;
+  }
+  return null;
+}
+
+// ============================================================
+// Segmentation
+// ============================================================
+
+/**
+ * Split a posting into sections. Text before the first heading is 'other';
+ * a posting with no recognizable headings comes back as one 'other' section.
+ */
+export function segmentJobDescription(text: string): JdSection[] {
+  const sections: JdSection[] = [];
+  const open = (kind: JdSectionKind, start: number, heading?: string) => {
+    const current = sections[sections.length - 1];
+    if (current) current.end = start;
+    sections.push({ kind, start, end: text.length, ...(heading ? { heading } : {}) });
+  };
+
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (!line.trim()) continue;
+
+    const current = sections[sections.length - 1];
+    // "Benefits: medical, dental, 401(k)" — a heading with its content inline.
+    const inline = line.match(/^\s*([^:]{2,40}):\s*\S/);
+    const heading = inline ? inline[1] : line;
+    const headingKind = classifyHeading(heading);
+    if (headingKind) {
+      open(headingKind, lineStart, cleanHeading(heading));
+      continue;
+    }
+
+    if (LEGAL_SENTENCE_RE.test(line) && current?.kind !== 'legal') {
+      open('legal', lineStart);
+    } else if (COMP_SENTENCE_RE.test(line.trim()) && current?.kind !== 'compensation') {
+      open('compensation', lineStart);
+    } else if (!current) {
+      open('other', lineStart);
+    }
+  }
+
+  return sections;
+}
+
+/** Text of the sections of the given kinds, in posting order. */
+export function sectionText(text: string, sections: JdSection[], kinds: readonly JdSectionKind[]): string {
+  return sections
+    .filter((section) => kinds.includes(section.kind))
+    .map((section) => text.slice(section.start, section.end).trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+export const JD_SECTION_LABELS: Record<JdSectionKind, string> = {
+  about: 'About the company',
+  responsibilities: 'Responsibilities',
+  requirements: 'Requirements',
+  preferred: 'Preferred',
+  benefits: 'Benefits',
+  compensation: 'Compensation',
+  legal: 'EEO / legal',
+  other: 'Overview',
+};
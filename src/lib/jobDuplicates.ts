@@ -0,0 +1,304 @@
+// Job Filter v2 — Duplicate Jobs
+// Spots the same posting captured more than once (LinkedIn, Indeed, the
+// company site) and plans the merge into one surviving job.
+
+import { PIPELINE_STAGES } from '../types';
+import type { Job, JobSource, PipelineStage } from '../types';
+import { normalizeTitle } from './titleNormalization';
+
+// ============================================================
+// Normalization
+// ============================================================
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|plc|ag|bv)\b/g;
+
+export function normalizeCompanyName(name: string | undefined): string {
+  return (name ?? '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/^\s*the\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Query parameters that identify a posting; everything else is tracking.
+const POSTING_ID_PARAMS = new Set(['jk', 'vjk', 'gh_jid', 'jobid', 'job_id', 'id', 'posting_id', 'reqid']);
+
+/**
+ * Host + path + identifying params, so the same posting shared with
+ * different tracking params, `www.`, or a trailing slash compares equal.
+ */
+export function canonicalizeJobUrl(url: string | undefined): string | null {
+  if (!url?.trim()) return null;
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '');
+  if (host.endsWith('linkedin.com')) {
+    const id = parsed.pathname.match(/\/jobs\/view\/(?:[^/]*-)?(\d+)/)?.[1] ?? parsed.searchParams.get('currentJobId');
+    if (id) return `linkedin.com/jobs/view/${id}`;
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => POSTING_ID_PARAMS.has(key.toLowerCase()))
+    .map(([key, value]) => `${key.toLowerCase()}=${value}`)
+    .sort();
+  const path = parsed.pathname.replace(/\/+$/, '');
+  return `${host}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+}
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior',
+  jr: 'junior',
+  mgr: 'manager',
+  dir: 'director',
+  eng: 'engineering',
+  mktg: 'marketing',
+};
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .replace(/\([^)]*\)/g, ' ')
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token && token !== 'of' && token !== 'and' && token !== 'the')
+      .map((token) => TITLE_ABBREVIATIONS[token] ?? token),
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared += 1;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+export function titleSimilarity(a: string, b: string): number {
+  return jaccard(titleTokens(a), titleTokens(b));
+}
+
+const SHINGLE_SIZE = 5;
+const MIN_SHINGLE_WORDS = 40;
+
+/** Overlapping five-word runs; empty for JDs too short to compare. */
+export function jdShingles(text: string | undefined): Set<string> {
+  const words = (text ?? '').toLowerCase().split(/[^a-z0-9$%]+/).filter(Boolean);
+  if (words.length < MIN_SHINGLE_WORDS) return new Set();
+  const shingles = new Set<string>();
+  for (let index = 0; index + SHINGLE_SIZE <= words.length; index += 1) {
+    shingles.add(words.slice(index, index + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
+
+// ============================================================
+// Matching
+// ============================================================
+
+const TITLE_MATCH = 0.8;
+const JD_MATCH = 0.6;
+
+export interface DuplicateMatch {
+  job: Job;
+  /** 0-1, for ordering candidates. */
+  similarity: number;
+  reasons: string[];
+}
+
+interface JobFeatures {
+  url: string | null;
+  company: string;
+  title: string;
+  level: string | null;
+  location: string;
+  shingles: Set<string>;
+}
+
+function jobFeatures(job: Partial<Job>): JobFeatures {
+  return {
+    url: canonicalizeJobUrl(job.url),
+    company: normalizeCompanyName(job.company),
+    title: job.title ?? '',
+    level: normalizeTitle(job.title ?? '').seniority,
+    location: (job.location ?? '').toLowerCase().replace(/[^a-z]+/g, ' ').trim(),
+    shingles: jdShingles(job.jobDescription),
+  };
+}
+
+function compareFeatures(a: JobFeatures, b: JobFeatures): Omit<DuplicateMatch, 'job'> | null {
+  if (a.url && a.url === b.url) {
+    return { similarity: 1, reasons: ['Same posting URL'] };
+  }
+  if (!a.company || a.company !== b.company) return null;
+
+  const reasons: string[] = [];
+  const jdSimilarity = jaccard(a.shingles, b.shingles);
+  if (jdSimilarity >= JD_MATCH) {
+    reasons.push(`Job descriptions ${Math.round(jdSimilarity * 100)}% the same`);
+  }
+
+  // Same title in different cities is often a separate opening; only
+  // call it a duplicate on title alone when locations agree.
+  const titleScore = titleSimilarity(a.title, b.title);
+  const sameLevel = a.level === b.level;
+  const locationsConflict = Boolean(a.location && b.location && a.location !== b.location);
+  if (titleScore >= TITLE_MATCH && sameLevel && (!locationsConflict || reasons.length > 0)) {
+    reasons.unshift('Same company and title');
+  }
+
+  if (reasons.length === 0) return null;
+  return { similarity: Math.max(jdSimilarity, titleScore * 0.9), reasons };
+}
+
+/** Saved jobs that look like the same posting as `candidate`, closest first. */
+export function findDuplicateCandidates(candidate: Partial<Job>, jobs: Job[]): DuplicateMatch[] {
+  const features = jobFeatures(candidate);
+  const matches: DuplicateMatch[] = [];
+  for (const job of jobs) {
+    if (job.id === candidate.id) continue;
+    const match = compareFeatures(features, jobFeatures(job));
+    if (match) matches.push({ job, ...match });
+  }
+  return matches.sort((a, b) => b.similarity - a.similarity);
+}
+
+export interface DuplicateGroup {
+  survivor: Job;
+  duplicates: Job[];
+  reasons: string[];
+}
+
+/** Pipeline-wide scan: clusters of jobs that look like one posting. */
+export function findDuplicateGroups(jobs: Job[]): DuplicateGroup[] {
+  const features = jobs.map(jobFeatures);
+  const parent = jobs.map((_, index) => index);
+  const root = (index: number): number => {
+    let current = index;
+    while (parent[current] !== current) current = parent[current];
+    return current;
+  };
+  const reasonsByRoot = new Map<number, Set<string>>();
+  const pairReasons: Array<[number, string[]]> = [];
+
+  for (let i = 0; i < jobs.length; i += 1) {
+    for (let j = i + 1; j < jobs.length; j += 1) {
+      const match = compareFeatures(features[i], features[j]);
+      if (!match) continue;
+      parent[root(j)] = root(i);
+      pairReasons.push([i, match.reasons]);
+    }
+  }
+
+  for (const [index, reasons] of pairReasons) {
+    const key = root(index);
+    const set = reasonsByRoot.get(key) ?? new Set<string>();
+    for (const reason of reasons) set.add(reason);
+    reasonsByRoot.set(key, set);
+  }
+
+  const members = new Map<number, Job[]>();
+  jobs.forEach((job, index) => {
+    const key = root(index);
+    members.set(key, [...(members.get(key) ?? []), job]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  for (const [key, group] of members) {
+    if (group.length < 2) continue;
+    const survivor = pickSurvivor(group);
+    groups.push({
+      survivor,
+      duplicates: group.filter((job) => job.id !== survivor.id),
+      reasons: [...(reasonsByRoot.get(key) ?? [])],
+    });
+  }
+  return groups;
+}
+
+// ============================================================
+// Merging
+// ============================================================
+
+function stageRank(stage: PipelineStage): number {
+  return stage === 'Closed Lost' ? -1 : PIPELINE_STAGES.indexOf(stage);
+}
+
+/** The job furthest along the pipeline survives; ties go to the oldest capture. */
+export function pickSurvivor(jobs: Job[]): Job {
+  return jobs.reduce((best, job) => {
+    const diff = stageRank(job.stage) - stageRank(best.stage);
+    if (diff !== 0) return diff > 0 ? job : best;
+    return job.createdAt < best.createdAt ? job : best;
+  });
+}
+
+function jobSources(job: Job): JobSource[] {
+  if (job.sources?.length) return job.sources;
+  if (!job.source && !job.url) return [];
+  return [{ source: job.source, url: job.url, capturedAt: job.createdAt }];
+}
+
+/**
+ * Field updates for the survivor: every source, the earliest time each
+ * stage was reached, the fullest JD, and anything the survivor lacks.
+ */
+export function mergeJobFields(survivor: Job, duplicates: Job[], now: string): Partial<Job> {
+  const all = [survivor, ...duplicates];
+
+  const sources: JobSource[] = [];
+  const seen = new Set<string>();
+  for (const entry of all.flatMap(jobSources)) {
+    const key = `${entry.source ?? ''}|${canonicalizeJobUrl(entry.url) ?? entry.url ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    sources.push(entry);
+  }
+
+  const stageTimestamps: Partial<Record<PipelineStage, string>> = {};
+  for (const job of all) {
+    for (const [stage, timestamp] of Object.entries(job.stageTimestamps) as Array<[PipelineStage, string | undefined]>) {
+      if (!timestamp) continue;
+      const current = stageTimestamps[stage];
+      if (!current || timestamp < current) stageTimestamps[stage] = timestamp;
+    }
+  }
+
+  const jobDescription = all.reduce(
+    (longest, job) => (job.jobDescription.length > longest.length ? job.jobDescription : longest),
+    survivor.jobDescription,
+  );
+  const fallback = <K extends keyof Job>(key: K): Job[K] => all.find((job) => job[key] !== undefined && job[key] !== '')?.[key] as Job[K];
+  const notes = [...new Set(all.map((job) => job.notes?.trim()).filter((note): note is string => Boolean(note)))];
+  const requirementOverrides = all.flatMap((job) => job.requirementOverrides ?? []);
+
+  return {
+    sources,
+    stageTimestamps,
+    jobDescription,
+    url: fallback('url'),
+    source: fallback('source'),
+    location: fallback('location'),
+    companyId: fallback('companyId'),
+    compRange: fallback('compRange'),
+    compMin: fallback('compMin'),
+    compMax: fallback('compMax'),
+    scoringInputs: fallback('scoringInputs'),
+    researchBrief: fallback('researchBrief'),
+    postedAt: fallback('postedAt'),
+    closesAt: fallback('closesAt'),
+    captureSnapshot: fallback('captureSnapshot'),
+    notes: notes.length > 0 ? notes.join('\n\n') : undefined,
+    requirementOverrides: requirementOverrides.length > 0 ? requirementOverrides : undefined,
+    createdAt: all.reduce((earliest, job) => (job.createdAt < earliest ? job.createdAt : earliest), survivor.createdAt),
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,204 @@
+// Job Filter v2 — Job Health
+// Heuristics for postings that are stale or evergreen ("ghost jobs"):
+// boilerplate-heavy JDs, always-open wording, repeated re-posting, old
+// posting dates, and silence since capture.
+
+import type { Activity, Job, JdSectionKind, PipelineStage } from '../types';
+import { segmentJobDescription } from './jdSegmenter';
+import { findDuplicateCandidates, findDuplicateGroups } from './jobDuplicates';
+
+export type JobHealthStatus = 'fresh' | 'stale' | 'likely_ghost';
+
+export interface JobHealthSignal {
+  id: 'boilerplate' | 'evergreen' | 'reposted' | 'posting_age' | 'no_response';
+  label: string;
+  weight: number;
+}
+
+export interface JobHealth {
+  status: JobHealthStatus;
+  signals: JobHealthSignal[];
+  /** Posting date the page declared, or read from the pasted text. */
+  postedAt?: string;
+}
+
+export const JOB_HEALTH_LABELS: Record<JobHealthStatus, string> = {
+  fresh: 'Fresh',
+  stale: 'Stale',
+  likely_ghost: 'Likely ghost',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LIKELY_GHOST_WEIGHT = 3;
+
+function daysBetween(from: string, to: string): number {
+  return Math.floor((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+// ============================================================
+// Posting date
+// ============================================================
+
+const RELATIVE_POSTED = /\b(?:re)?posted\s+(?:on\s+)?(\d+)\+?\s*(day|week|month)s?\s+ago\b/i;
+const RELATIVE_TODAY = /\b(?:re)?posted\s+(today|yesterday|just now)\b/i;
+const ABSOLUTE_POSTED = /\b(?:date posted|posted on|posted)\s*:?\s*([a-z]{3,9}\.? \d{1,2},? \d{4}|\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})/i;
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+/**
+ * Posting date from text like "Posted 3 weeks ago" or "Date posted: Jan 5,
+ * 2026". Relative dates count back from `capturedAt`, when the text was pasted.
+ */
+export function parsePostedDate(text: string, capturedAt: string): string | undefined {
+  const captured = new Date(capturedAt).getTime();
+
+  const relative = text.match(RELATIVE_POSTED);
+  if (relative) {
+    const days = Number(relative[1]) * UNIT_DAYS[relative[2].toLowerCase()];
+    return new Date(captured - days * DAY_MS).toISOString();
+  }
+
+  const today = text.match(RELATIVE_TODAY);
+  if (today) {
+    const days = today[1].toLowerCase() === 'yesterday' ? 1 : 0;
+    return new Date(captured - days * DAY_MS).toISOString();
+  }
+
+  const absolute = text.match(ABSOLUTE_POSTED);
+  if (absolute) {
+    const value = /^\d{4}-\d{2}-\d{2}$/.test(absolute[1]) ? `${absolute[1]}T00:00:00Z` : absolute[1].replace('.', '');
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed) && parsed <= captured) return new Date(parsed).toISOString();
+  }
+
+  return undefined;
+}
+
+// ============================================================
+// Signals
+// ============================================================
+
+// Wording that says outright no specific seat is open.
+const EVERGREEN_WORDING = /\b(always accepting (?:applications|resumes)|evergreen (?:role|position|requisition|posting)|general application|no (?:current|immediate) opening)/i;
+// Weaker hints; also common in company boilerplate, so only read from the
+// role's own sections. "Join our talent community" footers are not a signal.
+const PIPELINE_WORDING = /\b(always (?:hiring|looking)|talent pool|pipeline of (?:candidates|talent))/i;
+const BOILERPLATE_KINDS: readonly JdSectionKind[] = ['about', 'benefits', 'legal'];
+
+const ROLE_SPECIFIC: readonly JdSectionKind[] = ['responsibilities', 'requirements', 'preferred'];
+const MIN_BOILERPLATE_CHECK_LENGTH = 600;
+const MIN_ROLE_SPECIFIC_SHARE = 0.25;
+
+// A reply of any kind means someone is reading applications.
+const RESPONDED_STAGES: PipelineStage[] = [
+  'Response/Screen', 'Interviewing', 'Offer', 'Negotiation', 'Closed Won', 'Closed Lost',
+];
+
+function evergreenSignal(job: Job): JobHealthSignal | null {
+  const text = job.jobDescription;
+  const match = text.match(EVERGREEN_WORDING);
+  if (match) return { id: 'evergreen', label: `Evergreen wording ("${match[0]}")`, weight: 3 };
+
+  const sections = job.jdSections ?? segmentJobDescription(text);
+  const roleText = sections
+    .filter((section) => !BOILERPLATE_KINDS.includes(section.kind))
+    .map((section) => text.slice(section.start, section.end))
+    .join('\n');
+  const hint = roleText.match(PIPELINE_WORDING);
+  if (!hint) return null;
+  return { id: 'evergreen', label: `Evergreen wording ("${hint[0]}")`, weight: 1 };
+}
+
+function boilerplateSignal(job: Job): JobHealthSignal | null {
+  const text = job.jobDescription;
+  if (text.length < MIN_BOILERPLATE_CHECK_LENGTH) return null;
+  const sections = job.jdSections ?? segmentJobDescription(text);
+  // Without headings the whole posting is one block and can't be judged.
+  if (!sections.some((section) => section.kind !== 'other')) return null;
+
+  const roleChars = sections
+    .filter((section) => ROLE_SPECIFIC.includes(section.kind))
+    .reduce((sum, section) => sum + (section.end - section.start), 0);
+  const share = roleChars / text.length;
+  if (share >= MIN_ROLE_SPECIFIC_SHARE) return null;
+  return {
+    id: 'boilerplate',
+    label: `Mostly boilerplate: ${Math.round(share * 100)}% of the posting describes the role`,
+    weight: 1,
+  };
+}
+
+function repostSignal(job: Job, duplicates: Job[]): JobHealthSignal | null {
+  const captures = [
+    job.createdAt,
+    ...(job.sources ?? []).map((source) => source.capturedAt),
+    ...duplicates.map((duplicate) => duplicate.createdAt),
+  ].sort();
+  const uniqueCaptures = new Set(captures);
+  if (uniqueCaptures.size < 2) return null;
+
+  const spanDays = daysBetween(captures[0], captures[captures.length - 1]);
+  if (spanDays < 21) return null;
+  return {
+    id: 'reposted',
+    label: `Captured ${uniqueCaptures.size} times over ${spanDays} days (re-posted)`,
+    weight: 2,
+  };
+}
+
+function postingAgeSignal(postedAt: string | undefined, now: string): JobHealthSignal | null {
+  if (!postedAt) return null;
+  const age = daysBetween(postedAt, now);
+  if (age < 30) return null;
+  return { id: 'posting_age', label: `Posted ${age} days ago`, weight: age >= 60 ? 2 : 1 };
+}
+
+function noResponseSignal(job: Job, activities: Activity[], now: string): JobHealthSignal | null {
+  if (RESPONDED_STAGES.includes(job.stage)) return null;
+  if (activities.some((activity) => activity.jobId === job.id && activity.direction === 'Inbound')) return null;
+
+  const days = daysBetween(job.createdAt, now);
+  if (days < 21) return null;
+  return { id: 'no_response', label: `No inbound activity in ${days} days since capture`, weight: days >= 45 ? 2 : 1 };
+}
+
+// ============================================================
+// Analyzer
+// ============================================================
+
+function assessJob(job: Job, duplicates: Job[], activities: Activity[], now: string): JobHealth {
+  const postedAt = job.postedAt ?? parsePostedDate(job.jobDescription, job.createdAt);
+
+  const signals = [
+    evergreenSignal(job),
+    repostSignal(job, duplicates),
+    postingAgeSignal(postedAt, now),
+    noResponseSignal(job, activities, now),
+    boilerplateSignal(job),
+  ].filter((signal): signal is JobHealthSignal => signal !== null);
+
+  const weight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  const status: JobHealthStatus = weight >= LIKELY_GHOST_WEIGHT ? 'likely_ghost' : weight > 0 ? 'stale' : 'fresh';
+  return { status, signals, ...(postedAt ? { postedAt } : {}) };
+}
+
+export function analyzeJobHealth(
+  job: Job,
+  context: { jobs?: Job[]; activities?: Activity[]; now?: string } = {},
+): JobHealth {
+  const duplicates = findDuplicateCandidates(job, context.jobs ?? []).map((match) => match.job);
+  return assessJob(job, duplicates, context.activities ?? [], context.now ?? new Date().toISOString());
+}
+
+/** Health for every job, sharing one duplicate scan across the pipeline. */
+export function analyzePipelineHealth(jobs: Job[], activities: Activity[], now: string): Map<string, JobHealth> {
+  const duplicatesById = new Map<string, Job[]>();
+  for (const group of findDuplicateGroups(jobs)) {
+    const members = [group.survivor, ...group.duplicates];
+    for (const member of members) {
+      duplicatesById.set(member.id, members.filter((other) => other.id !== member.id));
+    }
+  }
+
+  return new Map(jobs.map((job) => [job.id, assessJob(job, duplicatesById.get(job.id) ?? [], activities, now)]));
+}
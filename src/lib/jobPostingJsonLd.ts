@@ -0,0 +1,291 @@
+// Job Filter v2 — JobPosting JSON-LD
+// Reads the schema.org JobPosting block that most ATS pages (Greenhouse,
+// Lever, Ashby, Workday) embed, from pasted page HTML or raw JSON-LD, into
+// a prefilled job plus a snapshot of what was pasted.
+
+import type { CaptureSnapshot, CompPayPeriod, EmploymentType, Job, LocationType } from '../types';
+import { ANNUALIZATION_FACTORS, formatCompAmount } from './compNormalization';
+
+export type JobPostingDraft = Pick<
+  Partial<Job>,
+  | 'title'
+  | 'company'
+  | 'url'
+  | 'location'
+  | 'locationType'
+  | 'employmentType'
+  | 'compRange'
+  | 'compMin'
+  | 'compMax'
+  | 'jobDescription'
+  | 'postedAt'
+  | 'captureSnapshot'
+>;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+// ============================================================
+// Finding the JobPosting
+// ============================================================
+
+const LD_JSON_SCRIPT = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+function isJobPosting(node: JsonObject): boolean {
+  return asArray(node['@type']).some((type) => type === 'JobPosting');
+}
+
+function collectJobPostings(node: unknown, found: JsonObject[]): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectJobPostings(item, found);
+    return;
+  }
+  if (!isObject(node)) return;
+  if (isJobPosting(node)) {
+    found.push(node);
+    return;
+  }
+  if (node['@graph']) collectJobPostings(node['@graph'], found);
+}
+
+/** True when the pasted text looks like page source or JSON rather than a plain JD. */
+export function looksLikeStructuredPaste(text: string): boolean {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) return /"@(?:context|type)"\s*:/.test(trimmed);
+  return /<script[^>]*application\/ld\+json/i.test(trimmed) || /^<(!doctype|html)\b/i.test(trimmed);
+}
+
+/** Every JobPosting object in pasted HTML (ld+json scripts) or raw JSON-LD. */
+export function findJobPostings(input: string): JsonObject[] {
+  const found: JsonObject[] = [];
+  const trimmed = input.trim();
+  if (/^[[{]/.test(trimmed)) {
+    collectJobPostings(parseJson(trimmed), found);
+    return found;
+  }
+
+  for (const match of trimmed.matchAll(LD_JSON_SCRIPT)) {
+    // Some CMSs wrap the JSON in an HTML comment or CDATA block.
+    const body = match[1].replace(/^\s*(?:<!--|\/\/\s*<!\[CDATA\[)/, '').replace(/(?:-->|\/\/\s*\]\]>)\s*$/, '');
+    collectJobPostings(parseJson(body), found);
+  }
+  return found;
+}
+
+// ============================================================
+// Field mapping
+// ============================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  hellip: '…',
+  bull: '•',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? Number.parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/** Posting descriptions are HTML, sometimes entity-escaped twice; keep paragraphs and list items as lines. */
+export function htmlToText(html: string): string {
+  const markup = /&lt;\/?[a-z]/i.test(html) ? decodeEntities(html) : html;
+  return decodeEntities(
+    markup
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|ul|ol|tr|section)>/gi, '\n')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function organizationName(value: unknown): string | undefined {
+  for (const entry of asArray(value)) {
+    const name = isObject(entry) ? asText(entry.name) : asText(entry);
+    if (name) return name;
+  }
+  return undefined;
+}
+
+function placeText(place: unknown): string | undefined {
+  if (!isObject(place)) return asText(place);
+  const address = isObject(place.address) ? place.address : undefined;
+  if (!address) return asText(place.address) ?? asText(place.name);
+
+  const country = isObject(address.addressCountry) ? asText(address.addressCountry.name) : asText(address.addressCountry);
+  const parts = [asText(address.addressLocality), asText(address.addressRegion), country];
+  const text = parts.filter(Boolean).join(', ');
+  return text || asText(place.name);
+}
+
+function postingLocation(posting: JsonObject): string | undefined {
+  const places = asArray(posting.jobLocation).map(placeText).filter((text): text is string => Boolean(text));
+  if (places.length > 0) return [...new Set(places)].join(' / ');
+
+  const remoteRegions = asArray(posting.applicantLocationRequirements)
+    .map((requirement) => (isObject(requirement) ? asText(requirement.name) : asText(requirement)))
+    .filter((text): text is string => Boolean(text));
+  return remoteRegions.length > 0 ? `Remote (${remoteRegions.join(', ')})` : undefined;
+}
+
+function postingLocationType(posting: JsonObject, description: string): LocationType {
+  const telecommute = asArray(posting.jobLocationType).some((type) => String(type).toUpperCase() === 'TELECOMMUTE');
+  if (/\bhybrid\b/i.test(description) && (!telecommute || posting.jobLocation)) return 'Hybrid';
+  if (telecommute) return 'Remote';
+  if (/\b(?:on-?site|in[- ]office|in person)\b/i.test(description)) return 'In-person';
+  return 'Unknown';
+}
+
+const EMPLOYMENT_TYPES: Record<string, EmploymentType> = {
+  FULL_TIME: 'Full-time',
+  PART_TIME: 'Part-time',
+  CONTRACTOR: 'Contract',
+  TEMPORARY: 'Contract',
+  PER_DIEM: 'Freelance',
+};
+
+function postingEmploymentType(value: unknown): EmploymentType | undefined {
+  for (const entry of asArray(value)) {
+    const key = String(entry).toUpperCase().replace(/[\s-]+/g, '_');
+    if (EMPLOYMENT_TYPES[key]) return EMPLOYMENT_TYPES[key];
+  }
+  return undefined;
+}
+
+const UNIT_PERIODS: Record<string, CompPayPeriod> = {
+  HOUR: 'hour',
+  DAY: 'day',
+  WEEK: 'week',
+  MONTH: 'month',
+  YEAR: 'year',
+};
+
+const PERIOD_TEXT: Record<CompPayPeriod, string> = {
+  hour: 'per hour',
+  day: 'per day',
+  week: 'per week',
+  month: 'per month',
+  year: 'per year',
+};
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value.replace(/[^0-9.]/g, '')) : Number(value);
+  return typeof value !== 'boolean' && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * `baseSalary` as the comp fields. The range keeps the posting's own
+ * currency and period so comp normalization can convert it; min / max are
+ * annualized in that currency.
+ */
+function postingComp(value: unknown): Pick<JobPostingDraft, 'compRange' | 'compMin' | 'compMax'> {
+  const salary = asArray(value).find(isObject);
+  if (!salary) return {};
+
+  const currency = (asText(salary.currency) ?? 'USD').toUpperCase();
+  const amount = isObject(salary.value) ? salary.value : { value: salary.value };
+  const unit = asText(amount.unitText) ?? asText(salary.unitText) ?? 'YEAR';
+  const period = UNIT_PERIODS[unit.toUpperCase()] ?? 'year';
+
+  const min = toNumber(amount.minValue) ?? toNumber(amount.value);
+  const max = toNumber(amount.maxValue) ?? toNumber(amount.value) ?? min;
+  if (min === undefined || max === undefined) return {};
+
+  const low = Math.min(min, max);
+  const high = Math.max(min, max);
+  const range = low === high
+    ? formatCompAmount(low, currency)
+    : `${formatCompAmount(low, currency)} - ${formatCompAmount(high, currency)}`;
+  const factor = ANNUALIZATION_FACTORS[period];
+
+  return {
+    compRange: `${range} ${PERIOD_TEXT[period]}`,
+    compMin: Math.round(low * factor),
+    compMax: Math.round(high * factor),
+  };
+}
+
+function postingDate(value: unknown): string | undefined {
+  const text = asText(value);
+  if (!text) return undefined;
+  const parsed = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+  return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString();
+}
+
+/** Map one JobPosting object onto job fields; anything it lacks is left unset. */
+export function jobPostingToDraft(posting: JsonObject): JobPostingDraft {
+  const description = htmlToText(asText(posting.description) ?? '');
+  const title = asText(posting.title);
+  const draft: JobPostingDraft = {
+    title: title ? htmlToText(title) : undefined,
+    company: organizationName(posting.hiringOrganization),
+    url: asText(posting.url),
+    location: postingLocation(posting),
+    locationType: postingLocationType(posting, description),
+    employmentType: postingEmploymentType(posting.employmentType),
+    jobDescription: description || undefined,
+    postedAt: postingDate(posting.datePosted),
+    ...postingComp(posting.baseSalary ?? posting.estimatedSalary),
+  };
+  return Object.fromEntries(Object.entries(draft).filter(([, value]) => value !== undefined)) as JobPostingDraft;
+}
+
+/**
+ * Prefilled job from pasted page source or JSON-LD, with the paste kept as
+ * the capture snapshot. Null when no JobPosting is found. The first posting
+ * wins when a page lists several.
+ */
+export function parseJobPostingPaste(input: string, capturedAt: string): JobPostingDraft | null {
+  const [posting] = findJobPostings(input);
+  if (!posting) return null;
+
+  const snapshot: CaptureSnapshot = {
+    format: /^[[{]/.test(input.trim()) ? 'json-ld' : 'html',
+    content: input,
+    capturedAt,
+  };
+  return { ...jobPostingToDraft(posting), captureSnapshot: snapshot };
+}
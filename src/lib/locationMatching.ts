@@ -0,0 +1,81 @@
+// Job Filter v2 — Location Matching
+// Matches a job's location against the profile's location preferences.
+// Hybrid and onsite preferences with a city are checked by great-circle
+// distance when both places are in the bundled gazetteer, and by text
+// otherwise.
+
+import type { Job, LocationPreference } from '../types';
+import { findCity, formatGazetteerCity, haversineMiles, type GazetteerCity } from './cityGazetteer';
+
+/** Radius used when a hybrid/onsite preference has a city but no radius. */
+export const DEFAULT_RADIUS_MILES = 25;
+
+export interface LocationMatchResult {
+  /** null when the job or profile does not say enough to decide. */
+  matched: boolean | null;
+  /** e.g. "Austin, TX is 18 mi from preferred Round Rock (25 mi radius)". */
+  reason?: string;
+  distanceMiles?: number;
+}
+
+const WORK_MODE_WORDS = /\b(?:hybrid|on-?site|in[- ]office|in[- ]person|remote|headquarters)\b/gi;
+
+/** Split "Austin, TX or Dallas, TX; Remote" into resolvable city candidates. */
+export function resolveJobCities(location: string | undefined): GazetteerCity[] {
+  if (!location) return [];
+  const cities: GazetteerCity[] = [];
+  for (const part of location.split(/;|\||\/|\n|\bor\b|\band\b|·|•/i)) {
+    const cleaned = part.replace(WORK_MODE_WORDS, ' ').replace(/^[\s\-–:(),]+|[\s\-–:(),]+$/g, '').trim();
+    if (!cleaned) continue;
+    const city = findCity(cleaned);
+    if (city && !cities.includes(city)) cities.push(city);
+  }
+  return cities;
+}
+
+function describeDistance(jobCity: GazetteerCity, preferredCity: GazetteerCity, distance: number, radius: number): string {
+  return `${formatGazetteerCity(jobCity)} is ${Math.round(distance)} mi from preferred ${preferredCity.name} (${radius} mi radius)`;
+}
+
+export function matchJobLocation(
+  job: Pick<Partial<Job>, 'location' | 'locationType'>,
+  preferences: LocationPreference[] | undefined,
+  willingToRelocate = false,
+): LocationMatchResult {
+  if (!preferences || preferences.length === 0) return { matched: null };
+  if (!job.locationType || job.locationType === 'Unknown') return { matched: null };
+
+  const jobType = job.locationType === 'In-person' ? 'Onsite' : job.locationType;
+  const location = (job.location || '').toLowerCase();
+  const jobCities = resolveJobCities(job.location);
+  const sameType = preferences.filter((preference) => preference.type === jobType);
+  let nearestMiss: { reason: string; distance: number } | null = null;
+
+  for (const preference of sameType) {
+    if (preference.type === 'Remote') return { matched: true };
+    if (!preference.city?.trim()) return { matched: true };
+
+    const preferredCity = findCity(preference.city);
+    const radius = preference.radiusMiles ?? DEFAULT_RADIUS_MILES;
+
+    if (preferredCity && jobCities.length > 0) {
+      for (const jobCity of jobCities) {
+        const distance = haversineMiles(jobCity, preferredCity);
+        const reason = describeDistance(jobCity, preferredCity, distance, radius);
+        if (distance <= radius) return { matched: true, reason, distanceMiles: Math.round(distance) };
+        if (!nearestMiss || distance < nearestMiss.distance) nearestMiss = { reason, distance };
+      }
+      continue;
+    }
+
+    if (location.includes(preference.city.trim().toLowerCase())) return { matched: true };
+  }
+
+  if (sameType.length > 0 && (willingToRelocate || sameType.some((preference) => preference.willingToRelocate))) {
+    return { matched: true };
+  }
+
+  return nearestMiss
+    ? { matched: false, reason: nearestMiss.reason, distanceMiles: Math.round(nearestMiss.distance) }
+    : { matched: false };
+}
@@ -2,15 +2,19 @@
 // Pure functions that compute metrics from raw data.
 
 import { differenceInDays, differenceInHours, startOfWeek, subWeeks, isAfter } from 'date-fns';
-import type { Job, Activity, PipelineStage, FunnelMetrics, BottleneckMetrics } from '../types';
+import type { Job, Activity, PipelineStage, FunnelMetrics, BottleneckMetrics, ScoreThresholds } from '../types';
 import { PIPELINE_STAGES } from '../types';
-import { getEffectiveFitLabel } from './scoreBands';
+import { getEffectiveFitLabel, SCORE_LABEL_THRESHOLDS } from './scoreBands';
 
 // ============================================================
 // Executive Dashboard Metrics
 // ============================================================
 
-export function computeFunnelMetrics(jobs: Job[], activities: Activity[]): FunnelMetrics {
+export function computeFunnelMetrics(
+  jobs: Job[],
+  activities: Activity[],
+  thresholds: ScoreThresholds = SCORE_LABEL_THRESHOLDS,
+): FunnelMetrics {
   const now = new Date();
   const thisWeekStart = startOfWeek(now, { weekStartsOn: 1 });
   const lastWeekStart = subWeeks(thisWeekStart, 1);
@@ -37,7 +41,7 @@ export function computeFunnelMetrics(jobs: Job[], activities: Activity[]): Funne
 
   // Pursue rate
   const scoredJobs = jobs.filter((j) => j.fitScore !== undefined || j.fitLabel);
-  const pursueJobs = scoredJobs.filter((j) => getEffectiveFitLabel(j.fitScore, j.fitLabel) === 'Pursue');
+  const pursueJobs = scoredJobs.filter((j) => getEffectiveFitLabel(j.fitScore, j.fitLabel, thresholds) === 'Pursue');
   const pursueRate = scoredJobs.length > 0 ? pursueJobs.length / scoredJobs.length : 0;
 
   // Outreach volume (activities with direction Outbound)
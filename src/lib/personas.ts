@@ -0,0 +1,106 @@
+// Job Filter v2 — Target Personas
+// Several named searches on one profile (e.g. "VP Growth, remote" and
+// "Director Lifecycle, hybrid NYC"). Each persona overlays the profile's
+// targeting fields; scoring runs once per persona.
+
+import type { Job, Profile, TargetPersona } from '../types';
+import { sanitizeHardFilters, sanitizeLocationPreferences } from './profilePreferences';
+
+export function createPersona(profile: Profile, name = 'New persona'): TargetPersona {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    targetRoles: [...profile.targetRoles],
+    compFloor: profile.compFloor,
+    compTarget: profile.compTarget,
+    locationPreferences: sanitizeLocationPreferences(profile.locationPreferences),
+    willingToRelocate: profile.willingToRelocate,
+  };
+}
+
+function sanitizeComp(value: number | undefined): number | undefined {
+  if (value === undefined || !Number.isFinite(value) || value <= 0) return undefined;
+  return Math.round(value);
+}
+
+export function sanitizePersonas(personas: TargetPersona[] | undefined): TargetPersona[] {
+  const seen = new Set<string>();
+  const output: TargetPersona[] = [];
+
+  for (const persona of personas ?? []) {
+    const name = persona.name.trim();
+    if (!name || seen.has(persona.id)) continue;
+    seen.add(persona.id);
+
+    output.push({
+      id: persona.id,
+      name,
+      targetRoles: Array.from(new Set(persona.targetRoles.map((role) => role.trim()).filter(Boolean))),
+      compFloor: sanitizeComp(persona.compFloor),
+      compTarget: sanitizeComp(persona.compTarget),
+      locationPreferences: persona.locationPreferences ? sanitizeLocationPreferences(persona.locationPreferences) : undefined,
+      willingToRelocate: persona.willingToRelocate,
+      hardFilters: persona.hardFilters,
+    });
+  }
+
+  return output;
+}
+
+/**
+ * The profile as seen by one persona. The result has no personas of its own
+ * so it can be passed straight to the single-profile scorer.
+ */
+export function applyPersona(profile: Profile, persona: TargetPersona): Profile {
+  const compFloor = persona.compFloor ?? profile.compFloor;
+  const hardFilters = persona.hardFilters
+    ? sanitizeHardFilters({ ...profile.hardFilters, ...persona.hardFilters })
+    : profile.hardFilters;
+
+  return {
+    ...profile,
+    targetRoles: persona.targetRoles.length > 0 ? persona.targetRoles : profile.targetRoles,
+    compFloor,
+    compTarget: persona.compTarget ?? profile.compTarget,
+    locationPreferences: persona.locationPreferences ?? profile.locationPreferences,
+    willingToRelocate: persona.willingToRelocate ?? profile.willingToRelocate,
+    hardFilters: persona.compFloor !== undefined && !persona.hardFilters?.minBaseSalary
+      ? { ...hardFilters, minBaseSalary: compFloor }
+      : hardFilters,
+    personas: undefined,
+  };
+}
+
+const TITLE_STOPWORDS = new Set(['of', 'and', 'the', 'for', 'to', 'in']);
+
+function tokenize(value: string): Set<string> {
+  return new Set(
+    value.toLowerCase().split(/[^a-z0-9]+/).filter((token) => token.length > 1 && !TITLE_STOPWORDS.has(token)),
+  );
+}
+
+/** Share of a persona's best-matching target role found in the job title (0-1). */
+export function titleAffinity(title: string | undefined, persona: TargetPersona): number {
+  const titleTokens = tokenize(title ?? '');
+  if (titleTokens.size === 0) return 0;
+
+  let best = 0;
+  for (const role of persona.targetRoles) {
+    const roleTokens = tokenize(role);
+    if (roleTokens.size === 0) continue;
+    let overlap = 0;
+    for (const token of roleTokens) if (titleTokens.has(token)) overlap += 1;
+    best = Math.max(best, overlap / roleTokens.size);
+  }
+  return best;
+}
+
+export function getPersonaName(profile: Profile | null | undefined, personaId: string | undefined): string | undefined {
+  if (!personaId) return undefined;
+  return profile?.personas?.find((persona) => persona.id === personaId)?.name;
+}
+
+export function filterJobsByPersona(jobs: Job[], personaId: string | null): Job[] {
+  if (!personaId) return jobs;
+  return jobs.filter((job) => job.bestPersonaId === personaId);
+}
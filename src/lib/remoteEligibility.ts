@@ -0,0 +1,421 @@
+// Job Filter v2 — Remote Eligibility
+// Reads geographic restrictions ("US only", "EMEA", "must reside in
+// Canada") and working-hour overlap requirements ("4 hours overlap with
+// PT") out of remote job descriptions, and checks them against the
+// profile's home country, time zone and minimum acceptable overlap.
+
+import type { RemotePreferences } from '../types';
+
+export type RemoteRegionId =
+  | 'US'
+  | 'CA'
+  | 'MX'
+  | 'GB'
+  | 'IN'
+  | 'AU'
+  | 'north_america'
+  | 'americas'
+  | 'latam'
+  | 'europe'
+  | 'emea'
+  | 'apac';
+
+export interface CountryOption {
+  code: string;
+  name: string;
+  regions: RemoteRegionId[];
+}
+
+const EUROPE: RemoteRegionId[] = ['europe', 'emea'];
+
+export const COUNTRY_OPTIONS: CountryOption[] = [
+  { code: 'US', name: 'United States', regions: ['US', 'north_america', 'americas'] },
+  { code: 'CA', name: 'Canada', regions: ['CA', 'north_america', 'americas'] },
+  { code: 'MX', name: 'Mexico', regions: ['MX', 'north_america', 'americas', 'latam'] },
+  { code: 'BR', name: 'Brazil', regions: ['americas', 'latam'] },
+  { code: 'AR', name: 'Argentina', regions: ['americas', 'latam'] },
+  { code: 'CO', name: 'Colombia', regions: ['americas', 'latam'] },
+  { code: 'CL', name: 'Chile', regions: ['americas', 'latam'] },
+  { code: 'GB', name: 'United Kingdom', regions: ['GB', ...EUROPE] },
+  { code: 'IE', name: 'Ireland', regions: EUROPE },
+  { code: 'DE', name: 'Germany', regions: EUROPE },
+  { code: 'FR', name: 'France', regions: EUROPE },
+  { code: 'NL', name: 'Netherlands', regions: EUROPE },
+  { code: 'ES', name: 'Spain', regions: EUROPE },
+  { code: 'PT', name: 'Portugal', regions: EUROPE },
+  { code: 'IT', name: 'Italy', regions: EUROPE },
+  { code: 'PL', name: 'Poland', regions: EUROPE },
+  { code: 'SE', name: 'Sweden', regions: EUROPE },
+  { code: 'CH', name: 'Switzerland', regions: EUROPE },
+  { code: 'IL', name: 'Israel', regions: ['emea'] },
+  { code: 'AE', name: 'United Arab Emirates', regions: ['emea'] },
+  { code: 'ZA', name: 'South Africa', regions: ['emea'] },
+  { code: 'NG', name: 'Nigeria', regions: ['emea'] },
+  { code: 'IN', name: 'India', regions: ['IN', 'apac'] },
+  { code: 'SG', name: 'Singapore', regions: ['apac'] },
+  { code: 'PH', name: 'Philippines', regions: ['apac'] },
+  { code: 'JP', name: 'Japan', regions: ['apac'] },
+  { code: 'AU', name: 'Australia', regions: ['AU', 'apac'] },
+  { code: 'NZ', name: 'New Zealand', regions: ['apac'] },
+];
+
+/** Time zones offered in Settings; the browser's own zone is added when missing. */
+export const TIME_ZONE_OPTIONS: string[] = [
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Halifax',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Athens',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+const REGION_LABELS: Record<RemoteRegionId, string> = {
+  US: 'the US',
+  CA: 'Canada',
+  MX: 'Mexico',
+  GB: 'the UK',
+  IN: 'India',
+  AU: 'Australia',
+  north_america: 'North America',
+  americas: 'the Americas',
+  latam: 'Latin America',
+  europe: 'Europe',
+  emea: 'EMEA',
+  apac: 'APAC',
+};
+
+// Longer names first so "north america" wins over "america".
+const REGION_TERMS: Array<[RemoteRegionId, string]> = [
+  ['US', 'united states'],
+  ['US', 'u\\.s\\.a?\\.?'],
+  ['US', 'usa'],
+  ['US', 'us'],
+  ['north_america', 'north america'],
+  ['latam', 'latin america'],
+  ['latam', 'latam'],
+  ['americas', 'the americas'],
+  ['americas', 'americas'],
+  ['CA', 'canada'],
+  ['MX', 'mexico'],
+  ['GB', 'united kingdom'],
+  ['GB', 'uk'],
+  ['europe', 'european union'],
+  ['europe', 'europe'],
+  ['europe', 'eu'],
+  ['emea', 'emea'],
+  ['apac', 'asia[- ]pacific'],
+  ['apac', 'apac'],
+  ['IN', 'india'],
+  ['AU', 'australia'],
+];
+
+const REGION_ALTERNATION = REGION_TERMS.map(([, term]) => term).join('|');
+
+// One region or a list of them: "US or Canada", "US, Canada, and Mexico".
+const REGION_TERM = String.raw`(?:the\s+)?(?:${REGION_ALTERNATION})(?![a-z])`;
+const REGION_SEPARATOR = String.raw`(?:\s*[,/&]\s*(?:(?:or|and)\s+)?|\s+(?:or|and)\s+)`;
+const REGION_LIST = String.raw`${REGION_TERM}(?:${REGION_SEPARATOR}${REGION_TERM})*`;
+const REGION_TERM_PATTERN = new RegExp(String.raw`(?<![a-z])(?:${REGION_ALTERNATION})(?![a-z])`, 'gi');
+
+// "US only", "Remote (US)", "Remote - EMEA", "must be based in Canada",
+// "open to candidates located in Europe", "must be US-based", "within the US".
+// A bare "US-based" describes the team as often as the hire, so it needs a
+// candidate verb in front or "only" after.
+const RESTRICTION_PATTERNS: RegExp[] = [
+  new RegExp(String.raw`\b(${REGION_LIST})(?:[\s-]+based)?[\s-]*only\b`, 'gi'),
+  new RegExp(
+    String.raw`\b(?:must|need to|should|candidates?|applicants?|you)\s+(?:be\s+|are\s+|who are\s+)?(${REGION_LIST})[\s-]+based\b`,
+    'gi',
+  ),
+  new RegExp(String.raw`\bremote\s*(?:\(|-|–|—|:|,)\s*(${REGION_LIST})\b`, 'gi'),
+  new RegExp(
+    String.raw`\b(?:located|based|residing|reside|live|living|residents?)\s+(?:in|within)\s+(${REGION_LIST})\b`,
+    'gi',
+  ),
+  new RegExp(String.raw`\bremote\s+(?:with)?in\s+(${REGION_LIST})\b`, 'gi'),
+  new RegExp(String.raw`\b(?:anywhere|remote)\s+in\s+(${REGION_LIST})\b`, 'gi'),
+];
+
+const GLOBAL_PATTERN = /\b(?:work from anywhere|remote[- ]first,? (?:worldwide|globally)|anywhere in the world|fully distributed worldwide|remote worldwide|globally remote)\b/i;
+
+// ============================================================
+// Time zones
+// ============================================================
+
+/**
+ * Standard-time UTC offsets for zone names used in postings. European zones
+ * come first so "Central European Time" isn't read as US Central.
+ */
+const ZONE_OFFSETS: Array<[RegExp, string, number]> = [
+  [/\b(?:central european(?: time)?|cet|cest)\b/i, 'CET', 1],
+  [/\b(?:eastern european(?: time)?|eet|eest)\b/i, 'EET', 2],
+  [/\b(?:pacific(?: time)?|pst|pdt|pt)\b/i, 'PT', -8],
+  [/\b(?:mountain(?: time)?|mst|mdt|mt)\b/i, 'MT', -7],
+  [/\b(?:central(?: time)?|cst|cdt|ct)\b/i, 'CT', -6],
+  [/\b(?:eastern(?: time)?|est|edt|et)\b/i, 'ET', -5],
+  [/\b(?:gmt|utc|bst|uk time)\b/i, 'GMT', 0],
+  [/\b(?:ist|india standard time)\b/i, 'IST', 5.5],
+  [/\b(?:sgt|singapore time)\b/i, 'SGT', 8],
+  [/\b(?:jst|japan time)\b/i, 'JST', 9],
+  [/\b(?:aest|aedt|sydney time)\b/i, 'AEST', 10],
+];
+
+const ZONE_ALTERNATION = String.raw`pacific(?: time)?|mountain(?: time)?|central european(?: time)?|eastern european(?: time)?|central(?: time)?|eastern(?: time)?|pst|pdt|pt|mst|mdt|mt|cst|cdt|ct|est|edt|et|gmt|utc|bst|cet|cest|eet|eest|ist|sgt|jst|aest|aedt`;
+
+const OVERLAP_PATTERNS: RegExp[] = [
+  // "4 hours of overlap with PT", "at least 4 hours overlap with Eastern"
+  new RegExp(String.raw`(\d{1,2})\+?\s*(?:hours?|hrs?)\s+(?:of\s+)?overlap(?:ping)?\s+(?:with\s+)?(?:the\s+)?(${ZONE_ALTERNATION})\b`, 'i'),
+  // "overlap of at least 4 hours with PT"
+  new RegExp(String.raw`overlap\s+(?:of\s+)?(?:at least\s+)?(\d{1,2})\+?\s*(?:hours?|hrs?)\s+(?:with\s+)?(?:the\s+)?(${ZONE_ALTERNATION})\b`, 'i'),
+];
+
+const WORK_HOURS_PATTERN = new RegExp(
+  String.raw`(?:work(?:ing)?|available|core|business)\s+(?:hours\s+)?(?:during|in|on|aligned (?:with|to))?\s*(?:the\s+)?(${ZONE_ALTERNATION})\s+(?:business\s+|working\s+|core\s+)?hours\b`,
+  'i',
+);
+const ZONE_HOURS_PATTERN = new RegExp(String.raw`\b(${ZONE_ALTERNATION})\s+(?:business|working|core)\s+hours\b`, 'i');
+const HOUR_WINDOW_PATTERN = new RegExp(
+  String.raw`(\d{1,2})(?::\d{2})?\s*(am|pm)?\s*(?:-|–|—|to)\s*(\d{1,2})(?::\d{2})?\s*(am|pm)\s*(${ZONE_ALTERNATION})\b`,
+  'i',
+);
+
+/** Reference instant for offsets: mid-January, so every zone is on standard time. */
+const OFFSET_REFERENCE = new Date(Date.UTC(2026, 0, 15, 12));
+
+const WORKDAY_START = 9;
+const WORKDAY_END = 17;
+
+function zoneFromText(text: string): { label: string; offset: number } | null {
+  for (const [pattern, label, offset] of ZONE_OFFSETS) {
+    if (pattern.test(text)) return { label, offset };
+  }
+  return null;
+}
+
+/** Standard-time UTC offset in hours for an IANA zone, or null if unknown. */
+export function getTimeZoneOffsetHours(timeZone: string | undefined): number | null {
+  if (!timeZone) return null;
+  try {
+    const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' })
+      .formatToParts(OFFSET_REFERENCE)
+      .find((entry) => entry.type === 'timeZoneName')?.value;
+    if (!part) return null;
+    if (part === 'GMT' || part === 'UTC') return 0;
+    const match = part.match(/^(?:GMT|UTC)([+-])(\d{1,2})(?::(\d{2}))?$/);
+    if (!match) return null;
+    const hours = Number(match[2]) + Number(match[3] ?? 0) / 60;
+    return match[1] === '-' ? -hours : hours;
+  } catch {
+    return null;
+  }
+}
+
+function to24(hour: number, meridiem: string | undefined, fallback: string | undefined): number {
+  const suffix = (meridiem ?? fallback ?? '').toLowerCase();
+  if (suffix === 'pm' && hour < 12) return hour + 12;
+  if (suffix === 'am' && hour === 12) return 0;
+  return hour;
+}
+
+/** Hours two daily windows (in UTC hours, possibly wrapping midnight) share. */
+export function overlapHours(a: [number, number], b: [number, number]): number {
+  let best = 0;
+  for (const shift of [-24, 0, 24]) {
+    const start = Math.max(a[0], b[0] + shift);
+    const end = Math.min(a[1], b[1] + shift);
+    best = Math.max(best, end - start);
+  }
+  return Math.max(0, Math.round(best * 10) / 10);
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+export interface TimeZoneRequirement {
+  zoneLabel: string;
+  zoneOffset: number;
+  /** Team working window in the team's local hours. */
+  window: [number, number];
+  /** Overlap the posting asks for; the whole window when it says "work PT hours". */
+  requiredOverlapHours: number;
+  text: string;
+}
+
+export interface RemoteRestrictions {
+  regions: RemoteRegionId[];
+  global: boolean;
+  timeZone: TimeZoneRequirement | null;
+}
+
+function regionForTerm(term: string): RemoteRegionId | null {
+  const lower = term.toLowerCase();
+  for (const [region, pattern] of REGION_TERMS) {
+    if (new RegExp(`^(?:${pattern})$`, 'i').test(lower)) return region;
+  }
+  return null;
+}
+
+function parseTimeZoneRequirement(text: string): TimeZoneRequirement | null {
+  for (const pattern of OVERLAP_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const zone = zoneFromText(match[2]);
+    if (!zone) continue;
+    return {
+      zoneLabel: zone.label,
+      zoneOffset: zone.offset,
+      window: [WORKDAY_START, WORKDAY_END],
+      requiredOverlapHours: Math.min(Number(match[1]), WORKDAY_END - WORKDAY_START),
+      text: match[0],
+    };
+  }
+
+  const windowMatch = text.match(HOUR_WINDOW_PATTERN);
+  if (windowMatch) {
+    const zone = zoneFromText(windowMatch[5]);
+    if (zone) {
+      const start = to24(Number(windowMatch[1]), windowMatch[2], Number(windowMatch[1]) >= 7 && Number(windowMatch[1]) < 12 ? 'am' : windowMatch[4]);
+      const end = to24(Number(windowMatch[3]), windowMatch[4], undefined);
+      if (end > start) {
+        return {
+          zoneLabel: zone.label,
+          zoneOffset: zone.offset,
+          window: [start, end],
+          requiredOverlapHours: end - start,
+          text: windowMatch[0],
+        };
+      }
+    }
+  }
+
+  const hoursMatch = text.match(WORK_HOURS_PATTERN) ?? text.match(ZONE_HOURS_PATTERN);
+  if (hoursMatch) {
+    const zone = zoneFromText(hoursMatch[1]);
+    if (zone) {
+      return {
+        zoneLabel: zone.label,
+        zoneOffset: zone.offset,
+        window: [WORKDAY_START, WORKDAY_END],
+        requiredOverlapHours: WORKDAY_END - WORKDAY_START,
+        text: hoursMatch[0],
+      };
+    }
+  }
+
+  return null;
+}
+
+export function parseRemoteRestrictions(jobDescription: string): RemoteRestrictions {
+  const regions: RemoteRegionId[] = [];
+  for (const pattern of RESTRICTION_PATTERNS) {
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(jobDescription); match; match = pattern.exec(jobDescription)) {
+      for (const term of match[1].match(REGION_TERM_PATTERN) ?? []) {
+        // "us" is also a pronoun: require it upper-case ("US") in the source.
+        if (/^us$/i.test(term) && term !== 'US') continue;
+        const region = regionForTerm(term);
+        if (region && !regions.includes(region)) regions.push(region);
+      }
+    }
+  }
+
+  return {
+    regions,
+    global: regions.length === 0 && GLOBAL_PATTERN.test(jobDescription),
+    timeZone: parseTimeZoneRequirement(jobDescription),
+  };
+}
+
+// ============================================================
+// Eligibility
+// ============================================================
+
+export interface RemoteEligibilityResult {
+  disqualifiers: string[];
+  warnings: string[];
+  reasons: string[];
+}
+
+export function describeRegions(regions: RemoteRegionId[]): string {
+  return regions.map((region) => REGION_LABELS[region]).join(' or ');
+}
+
+export function getCountryName(code: string | undefined): string | undefined {
+  return COUNTRY_OPTIONS.find((country) => country.code === code)?.name;
+}
+
+export function sanitizeRemotePreferences(input: RemotePreferences | undefined): RemotePreferences {
+  const country = input?.homeCountry?.trim().toUpperCase();
+  const overlap = input?.minOverlapHours;
+  return {
+    homeCountry: country && /^[A-Z]{2}$/.test(country) ? country : undefined,
+    timeZone: input?.timeZone && getTimeZoneOffsetHours(input.timeZone) !== null ? input.timeZone : undefined,
+    minOverlapHours: overlap !== undefined && Number.isFinite(overlap) && overlap > 0
+      ? Math.min(8, Math.round(overlap * 2) / 2)
+      : undefined,
+  };
+}
+
+/**
+ * Check a remote job's geography and hours against the profile. Without a
+ * home country, geographic limits become warnings; without a time zone,
+ * hour requirements are surfaced but not scored.
+ */
+export function checkRemoteEligibility(
+  jobDescription: string,
+  preferences: RemotePreferences | undefined,
+): RemoteEligibilityResult {
+  const result: RemoteEligibilityResult = { disqualifiers: [], warnings: [], reasons: [] };
+  const restrictions = parseRemoteRestrictions(jobDescription);
+  const prefs = sanitizeRemotePreferences(preferences);
+
+  if (restrictions.regions.length > 0) {
+    const allowed = describeRegions(restrictions.regions);
+    const country = COUNTRY_OPTIONS.find((option) => option.code === prefs.homeCountry);
+    if (!prefs.homeCountry) {
+      result.warnings.push(`Remote role limited to ${allowed}`);
+    } else if (country && restrictions.regions.some((region) => country.regions.includes(region))) {
+      result.reasons.push(`Remote eligibility includes ${country.name}`);
+    } else {
+      result.disqualifiers.push(`Remote role limited to ${allowed}; you are based in ${country?.name ?? prefs.homeCountry}`);
+    }
+  }
+
+  const requirement = restrictions.timeZone;
+  if (requirement) {
+    const homeOffset = getTimeZoneOffsetHours(prefs.timeZone);
+    if (homeOffset === null) {
+      result.warnings.push(`Requires working hours aligned with ${requirement.zoneLabel}`);
+    } else {
+      // Compare both working days on a UTC clock.
+      const home: [number, number] = [WORKDAY_START - homeOffset, WORKDAY_END - homeOffset];
+      const team: [number, number] = [requirement.window[0] - requirement.zoneOffset, requirement.window[1] - requirement.zoneOffset];
+      const overlap = overlapHours(home, team);
+      const minimum = prefs.minOverlapHours;
+
+      if (minimum !== undefined && overlap < minimum && overlap < requirement.requiredOverlapHours) {
+        result.disqualifiers.push(
+          `Needs ${requirement.requiredOverlapHours}h overlap with ${requirement.zoneLabel}; your 9-5 overlaps ${overlap}h (minimum ${minimum}h)`,
+        );
+      } else if (overlap < requirement.requiredOverlapHours) {
+        result.warnings.push(
+          `Needs ${requirement.requiredOverlapHours}h overlap with ${requirement.zoneLabel}; your 9-5 overlaps ${overlap}h`,
+        );
+      } else {
+        result.reasons.push(`Working hours overlap ${requirement.zoneLabel} by ${overlap}h`);
+      }
+    }
+  }
+
+  return result;
+}
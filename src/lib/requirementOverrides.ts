@@ -0,0 +1,166 @@
+// Job Filter v2 — Requirement Overrides
+// Manual match/priority decisions on extracted requirements. Requirements
+// are regenerated on every scoring run, so overrides are keyed on a fuzzy
+// form of the description and re-applied after extraction.
+
+import type { Claim, Requirement, RequirementMatch, RequirementOverride, RequirementPriority } from '../types';
+
+// ============================================================
+// Fuzzy keys
+// ============================================================
+
+const KEY_STOP_WORDS = new Set([
+  'of', 'in', 'with', 'and', 'the', 'a', 'an', 'or', 'for', 'to', 'on', 'at', 'as',
+  'experience', 'years', 'year', 'yrs', 'plus', 'strong', 'proven', 'demonstrated',
+  'required', 'preferred', 'must', 'have', 'ability',
+]);
+
+// Same bar `scoring.ts` uses to treat two experience requirements as one.
+const KEY_SIMILARITY_THRESHOLD = 0.6;
+
+function keyTokens(description: string): string[] {
+  const tokens = description
+    .toLowerCase()
+    .replace(/[^a-z0-9+#\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !/^\d+\+?$/.test(token) && !KEY_STOP_WORDS.has(token))
+    .map((token) => (token.length > 4 && token.endsWith('s') ? token.slice(0, -1) : token));
+  return [...new Set(tokens)].sort();
+}
+
+/**
+ * Order- and wording-tolerant key: "5+ years of lifecycle marketing" and
+ * "Lifecycle Marketing experience" share the key "lifecycle marketing".
+ */
+export function requirementKey(description: string): string {
+  return keyTokens(description).join(' ');
+}
+
+function keySimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared += 1;
+  }
+  return shared / new Set([...tokensA, ...tokensB]).size;
+}
+
+/** Whether two requirement keys describe the same requirement. */
+export function isSameRequirementKey(a: string, b: string): boolean {
+  return keySimilarity(a, b) >= KEY_SIMILARITY_THRESHOLD;
+}
+
+function findBestOverride(
+  requirement: Pick<Requirement, 'type' | 'description'>,
+  overrides: RequirementOverride[],
+  exclude: Set<RequirementOverride> = new Set(),
+): RequirementOverride | null {
+  const key = requirementKey(requirement.description);
+  let best: RequirementOverride | null = null;
+  let bestScore = 0;
+  for (const override of overrides) {
+    if (exclude.has(override) || override.type !== requirement.type) continue;
+    const score = keySimilarity(key, override.key);
+    if (score >= KEY_SIMILARITY_THRESHOLD && score > bestScore) {
+      best = override;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function findRequirementOverride(
+  requirement: Pick<Requirement, 'type' | 'description'>,
+  overrides: RequirementOverride[] | undefined,
+): RequirementOverride | null {
+  return overrides?.length ? findBestOverride(requirement, overrides) : null;
+}
+
+// ============================================================
+// Applying
+// ============================================================
+
+/**
+ * Apply saved overrides to freshly extracted requirements. Each override
+ * applies to at most one requirement; the scored values are kept on
+ * `Requirement.scored` so the UI can show what changed.
+ */
+export function applyRequirementOverrides(
+  requirements: Requirement[],
+  overrides: RequirementOverride[] | undefined,
+): Requirement[] {
+  if (!overrides?.length) return requirements;
+
+  const used = new Set<RequirementOverride>();
+  return requirements.map((requirement) => {
+    const override = findBestOverride(requirement, overrides, used);
+    if (!override) return requirement;
+    used.add(override);
+    return {
+      ...requirement,
+      match: override.match ?? requirement.match,
+      priority: override.priority ?? requirement.priority,
+      evidence: override.evidence ?? requirement.evidence,
+      scored: { match: requirement.match, priority: requirement.priority, evidence: requirement.evidence },
+    };
+  });
+}
+
+// ============================================================
+// Editing
+// ============================================================
+
+export interface RequirementOverrideChanges {
+  match?: RequirementMatch;
+  priority?: RequirementPriority;
+  claim?: Claim | null;
+}
+
+export function describeProofEvidence(claim: Pick<Claim, 'role' | 'company'>): string {
+  return `${claim.role} at ${claim.company} (added by you)`;
+}
+
+/**
+ * Save an override for `requirement`, replacing any existing one it
+ * matches. Values equal to what scoring found are dropped, and an override
+ * left with nothing to change is removed.
+ */
+export function upsertRequirementOverride(
+  overrides: RequirementOverride[] | undefined,
+  requirement: Requirement,
+  changes: RequirementOverrideChanges,
+  now: string,
+): RequirementOverride[] {
+  const existing = findRequirementOverride(requirement, overrides);
+  const rest = (overrides ?? []).filter((override) => override !== existing);
+  const scored = requirement.scored ?? requirement;
+
+  const match = changes.match && changes.match !== scored.match ? changes.match : undefined;
+  const priority = changes.priority && changes.priority !== scored.priority ? changes.priority : undefined;
+  const claim = changes.claim ?? null;
+  if (!match && !priority && !claim) return rest;
+
+  return [
+    ...rest,
+    {
+      key: requirementKey(requirement.description),
+      type: requirement.type,
+      description: requirement.description,
+      ...(match ? { match } : {}),
+      ...(priority ? { priority } : {}),
+      ...(claim ? { claimId: claim.id, evidence: describeProofEvidence(claim) } : {}),
+      updatedAt: now,
+    },
+  ];
+}
+
+export function removeRequirementOverride(
+  overrides: RequirementOverride[] | undefined,
+  requirement: Pick<Requirement, 'type' | 'description'>,
+): RequirementOverride[] {
+  const existing = findRequirementOverride(requirement, overrides);
+  return (overrides ?? []).filter((override) => override !== existing);
+}
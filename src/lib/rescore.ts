@@ -0,0 +1,126 @@
+// Job Filter v2 — Batch Re-score
+// Scores every job against a (possibly draft) profile in memory so the
+// user can see which fit labels would change before committing settings.
+
+import type { Claim, FitLabel, Job, Profile } from '../types';
+import { scoreJob, type ScoringResult } from './scoring';
+import { getEffectiveFitLabel, resolveScoreThresholds } from './scoreBands';
+import { appendScoreHistory, buildScoreHistoryEntry } from './scoreHistory';
+
+export interface RescoreChange {
+  jobId: string;
+  title: string;
+  company: string;
+  previousScore?: number;
+  nextScore: number;
+  previousLabel?: FitLabel;
+  nextLabel: FitLabel;
+}
+
+export interface RescorePreview {
+  scoredCount: number;
+  labelChanges: RescoreChange[];
+  scoreChanges: number;
+  labelCounts: Record<FitLabel, { before: number; after: number }>;
+}
+
+/** Jobs worth re-scoring: anything already scored or with a description to score. */
+export function isRescorable(job: Job): boolean {
+  return job.fitScore !== undefined || Boolean(job.jobDescription?.trim());
+}
+
+export interface ScoreUpdateContext {
+  profile: Profile;
+  claims: Claim[];
+  now: string;
+}
+
+/**
+ * Map a scoring result onto the stored job fields and record the run in the
+ * job's score history. Captured jobs advance to Scored, matching the
+ * single-job flow.
+ */
+export function buildScoreUpdates(job: Job, result: ScoringResult, { profile, claims, now }: ScoreUpdateContext): Partial<Job> {
+  const updates: Partial<Job> = {
+    fitScore: result.fitScore,
+    fitLabel: result.fitLabel,
+    disqualifiers: result.disqualifiers,
+    riskWarnings: result.riskWarnings,
+    reasonsToPursue: result.reasonsToPursue,
+    reasonsToPass: result.reasonsToPass,
+    gapSuggestions: result.gapSuggestions,
+    mustHaveSummary: result.mustHaveSummary,
+    redFlags: result.redFlags,
+    requirementsExtracted: result.requirementsExtracted,
+    scoreBreakdown: result.breakdown,
+    scoreTrace: result.trace,
+    personaScores: result.personaScores,
+    bestPersonaId: result.bestPersonaId,
+    compNormalized: result.compNormalized,
+    jdSections: result.jdSections,
+    scoreHistory: appendScoreHistory(job, buildScoreHistoryEntry(job, result, profile, claims, now)),
+    updatedAt: now,
+  };
+
+  if (job.stage === 'Captured') {
+    updates.stage = 'Scored';
+    updates.stageTimestamps = { ...job.stageTimestamps, Scored: now };
+  }
+
+  return updates;
+}
+
+/**
+ * Compare stored scores against a re-score under `profile`. Previous labels
+ * are read with the thresholds currently saved on `currentProfile` so only
+ * real label moves are reported.
+ */
+export function previewRescore(
+  jobs: Job[],
+  profile: Profile,
+  claims: Claim[],
+  currentProfile: Profile | null = null,
+): RescorePreview {
+  const nextThresholds = resolveScoreThresholds(profile);
+  const previousThresholds = resolveScoreThresholds(currentProfile ?? profile);
+  const labelCounts: RescorePreview['labelCounts'] = {
+    Pursue: { before: 0, after: 0 },
+    Maybe: { before: 0, after: 0 },
+    Pass: { before: 0, after: 0 },
+  };
+  const labelChanges: RescoreChange[] = [];
+  let scoreChanges = 0;
+  let scoredCount = 0;
+
+  for (const job of jobs) {
+    if (!isRescorable(job)) continue;
+    scoredCount += 1;
+
+    const result = scoreJob(job, profile, claims);
+    const previousLabel = getEffectiveFitLabel(job.fitScore, job.fitLabel, previousThresholds);
+    const nextLabel = getEffectiveFitLabel(result.fitScore, result.fitLabel, nextThresholds) ?? result.fitLabel;
+
+    if (previousLabel) labelCounts[previousLabel].before += 1;
+    labelCounts[nextLabel].after += 1;
+
+    if (job.fitScore === undefined || Math.round(job.fitScore) !== Math.round(result.fitScore)) {
+      scoreChanges += 1;
+    }
+
+    if (previousLabel !== nextLabel) {
+      labelChanges.push({
+        jobId: job.id,
+        title: job.title,
+        company: job.company,
+        previousScore: job.fitScore,
+        nextScore: result.fitScore,
+        previousLabel,
+        nextLabel,
+      });
+    }
+  }
+
+  labelChanges.sort((a, b) => b.nextScore - a.nextScore);
+
+  return { scoredCount, labelChanges, scoreChanges, labelCounts };
+}
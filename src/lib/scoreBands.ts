@@ -1,25 +1,43 @@
-import type { FitLabel } from '../types';
+import type { FitLabel, Profile, ScoreThresholds } from '../types';
 
-export const SCORE_LABEL_THRESHOLDS = {
+export const SCORE_LABEL_THRESHOLDS: Readonly<ScoreThresholds> = {
   pursueMin: 70,
   maybeMin: 40,
-} as const;
+};
 
 export function clampScore(score: number): number {
   if (Number.isNaN(score)) return 0;
   return Math.max(0, Math.min(100, Math.round(score)));
 }
 
-export function getFitLabel(score: number): FitLabel {
+/**
+ * Clamp user-entered thresholds into 1-100 and keep Maybe strictly below Pursue.
+ */
+export function sanitizeScoreThresholds(thresholds: Partial<ScoreThresholds> | undefined): ScoreThresholds {
+  const pursueMin = Math.max(2, clampScore(thresholds?.pursueMin ?? SCORE_LABEL_THRESHOLDS.pursueMin));
+  const maybeMin = Math.max(1, Math.min(pursueMin - 1, clampScore(thresholds?.maybeMin ?? SCORE_LABEL_THRESHOLDS.maybeMin)));
+  return { pursueMin, maybeMin };
+}
+
+export function resolveScoreThresholds(profile: Pick<Profile, 'scoreThresholds'> | null | undefined): ScoreThresholds {
+  if (!profile?.scoreThresholds) return { ...SCORE_LABEL_THRESHOLDS };
+  return sanitizeScoreThresholds(profile.scoreThresholds);
+}
+
+export function getFitLabel(score: number, thresholds: ScoreThresholds = SCORE_LABEL_THRESHOLDS): FitLabel {
   const normalized = clampScore(score);
-  if (normalized >= SCORE_LABEL_THRESHOLDS.pursueMin) return 'Pursue';
-  if (normalized >= SCORE_LABEL_THRESHOLDS.maybeMin) return 'Maybe';
+  if (normalized >= thresholds.pursueMin) return 'Pursue';
+  if (normalized >= thresholds.maybeMin) return 'Maybe';
   return 'Pass';
 }
 
-export function getEffectiveFitLabel(score: number | undefined, label: FitLabel | undefined): FitLabel | undefined {
+export function getEffectiveFitLabel(
+  score: number | undefined,
+  label: FitLabel | undefined,
+  thresholds: ScoreThresholds = SCORE_LABEL_THRESHOLDS,
+): FitLabel | undefined {
   if (score === undefined) return label;
-  return getFitLabel(score);
+  return getFitLabel(score, thresholds);
 }
 
 export function getFitLabelText(label: FitLabel | undefined): string {
@@ -0,0 +1,254 @@
+// Job Filter v2 — Outcome Calibration
+// Fits an L2-regularized logistic regression of "did this job progress?"
+// on the stored score breakdown, reports how well scores predict
+// progression, and turns the fitted coefficients into suggested weights.
+// Runs entirely in memory; nothing here writes to the database.
+
+import type { Job, Outcome, PipelineStage, ScoringWeights } from '../types';
+import { DEFAULT_WEIGHTS, sanitizeScoringWeights } from './scoring';
+
+const PROGRESSION_STAGES: PipelineStage[] = ['Response/Screen', 'Interviewing', 'Offer', 'Negotiation', 'Closed Won'];
+
+const FEATURES = ['roleScopeAuthority', 'compensationBenefits', 'companyStageAbility', 'domainFit', 'riskPenalty'] as const;
+type Feature = (typeof FEATURES)[number];
+const POSITIVE_FEATURES = FEATURES.filter((feature): feature is Exclude<Feature, 'riskPenalty'> => feature !== 'riskPenalty');
+
+export const MIN_CALIBRATION_SAMPLES = 8;
+export const MIN_SAMPLES_PER_CLASS = 3;
+
+/** Pseudo-count of jobs the current weights are worth when blending in learned weights. */
+const PRIOR_STRENGTH = 20;
+const L2_PENALTY = 0.1;
+const LEARNING_RATE = 0.3;
+const ITERATIONS = 1500;
+
+export interface CalibrationSample {
+  jobId: string;
+  fitScore: number;
+  features: Record<Feature, number>;
+  progressed: boolean;
+}
+
+export interface CalibrationCoefficient {
+  category: Feature;
+  coefficient: number;
+}
+
+export type CalibrationReport =
+  | {
+    status: 'insufficient_data';
+    sampleCount: number;
+    positiveCount: number;
+    negativeCount: number;
+    pendingCount: number;
+  }
+  | {
+    status: 'ok';
+    sampleCount: number;
+    positiveCount: number;
+    negativeCount: number;
+    pendingCount: number;
+    /** Area under the ROC curve of the stored fit score (0.5 = chance). */
+    currentAuc: number;
+    /** In-sample AUC of the fitted model; optimistic with small samples. */
+    modelAuc: number;
+    modelBrier: number;
+    coefficients: CalibrationCoefficient[];
+    suggestedWeights: ScoringWeights;
+  };
+
+function reachedStages(job: Job, outcomes: Outcome[]): Set<PipelineStage> {
+  const stages = new Set<PipelineStage>(Object.keys(job.stageTimestamps) as PipelineStage[]);
+  stages.add(job.stage);
+  for (const outcome of outcomes) stages.add(outcome.stage);
+  return stages;
+}
+
+/**
+ * Label scored jobs: progressed if they ever reached a response or later,
+ * not progressed if they closed lost without getting there. Everything else
+ * is still pending and left out.
+ */
+export function deriveCalibrationSamples(
+  jobs: Job[],
+  outcomes: Outcome[],
+  weights: ScoringWeights = DEFAULT_WEIGHTS,
+): { samples: CalibrationSample[]; pendingCount: number } {
+  const outcomesByJob = new Map<string, Outcome[]>();
+  for (const outcome of outcomes) {
+    const list = outcomesByJob.get(outcome.jobId) ?? [];
+    list.push(outcome);
+    outcomesByJob.set(outcome.jobId, list);
+  }
+
+  const samples: CalibrationSample[] = [];
+  let pendingCount = 0;
+
+  for (const job of jobs) {
+    if (job.fitScore === undefined || !job.scoreBreakdown) continue;
+    const stages = reachedStages(job, outcomesByJob.get(job.id) ?? []);
+    const progressed = PROGRESSION_STAGES.some((stage) => stages.has(stage));
+    const closedLost = stages.has('Closed Lost');
+
+    if (!progressed && !closedLost) {
+      pendingCount += 1;
+      continue;
+    }
+
+    const breakdown = job.scoreBreakdown;
+    const fraction = (value: number, max: number) => (max > 0 ? value / max : 0);
+    samples.push({
+      jobId: job.id,
+      fitScore: job.fitScore,
+      progressed,
+      features: {
+        roleScopeAuthority: fraction(breakdown.roleScopeAuthority, weights.roleScopeAuthority),
+        compensationBenefits: fraction(breakdown.compensationBenefits, weights.compensationBenefits),
+        companyStageAbility: fraction(breakdown.companyStageAbility, weights.companyStageAbility),
+        domainFit: fraction(breakdown.domainFit, weights.domainFit),
+        riskPenalty: fraction(breakdown.riskPenalty, weights.riskPenaltyMax),
+      },
+    });
+  }
+
+  return { samples, pendingCount };
+}
+
+/** Probability that a random positive outranks a random negative (ties count half). */
+export function computeAuc(scores: number[], labels: boolean[]): number {
+  let positives = 0;
+  let negatives = 0;
+  let wins = 0;
+  for (let i = 0; i < scores.length; i += 1) {
+    if (!labels[i]) continue;
+    positives += 1;
+    for (let j = 0; j < scores.length; j += 1) {
+      if (labels[j]) continue;
+      if (scores[i] > scores[j]) wins += 1;
+      else if (scores[i] === scores[j]) wins += 0.5;
+    }
+  }
+  for (const label of labels) if (!label) negatives += 1;
+  if (positives === 0 || negatives === 0) return 0.5;
+  return wins / (positives * negatives);
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+export interface FittedModel {
+  intercept: number;
+  coefficients: number[];
+  means: number[];
+  scales: number[];
+  /** False for features that were constant across the sample. */
+  informative: boolean[];
+}
+
+/**
+ * Batch gradient descent on standardized features. The intercept is not
+ * penalized.
+ */
+export function fitLogisticRegression(rows: number[][], labels: boolean[], l2 = L2_PENALTY): FittedModel {
+  const featureCount = rows[0]?.length ?? 0;
+  const n = rows.length;
+  const means = Array.from({ length: featureCount }, (_, k) => rows.reduce((sum, row) => sum + row[k], 0) / Math.max(n, 1));
+  const variances = means.map((mean, k) => rows.reduce((sum, row) => sum + (row[k] - mean) ** 2, 0) / Math.max(n, 1));
+  // Constant features (rounding noise aside) carry no signal; leave them unscaled.
+  const informative = variances.map((variance) => variance > 1e-12);
+  const scales = variances.map((variance, k) => (informative[k] ? Math.sqrt(variance) : 1));
+  const standardized = rows.map((row) => row.map((value, k) => (value - means[k]) / scales[k]));
+
+  let intercept = 0;
+  const coefficients = new Array<number>(featureCount).fill(0);
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration += 1) {
+    let interceptGradient = 0;
+    const gradients = new Array<number>(featureCount).fill(0);
+
+    for (let i = 0; i < n; i += 1) {
+      const row = standardized[i];
+      const prediction = sigmoid(intercept + row.reduce((sum, value, k) => sum + value * coefficients[k], 0));
+      const error = prediction - (labels[i] ? 1 : 0);
+      interceptGradient += error;
+      for (let k = 0; k < featureCount; k += 1) gradients[k] += error * row[k];
+    }
+
+    intercept -= (LEARNING_RATE * interceptGradient) / n;
+    for (let k = 0; k < featureCount; k += 1) {
+      coefficients[k] -= LEARNING_RATE * (gradients[k] / n + l2 * coefficients[k]);
+    }
+  }
+
+  return { intercept, coefficients, means, scales, informative };
+}
+
+function predict(model: FittedModel, row: number[]): number {
+  return sigmoid(model.intercept + row.reduce((sum, value, k) => sum + ((value - model.means[k]) / model.scales[k]) * model.coefficients[k], 0));
+}
+
+/**
+ * Turn coefficients into point weights. A category's effect per unit of
+ * "fraction earned" is coefficient / scale. Categories that never varied
+ * carry no information and keep their current weight; the rest share the
+ * remaining point budget in proportion to their positive effect. Learned
+ * weights are then blended toward the current ones by sample size.
+ */
+function suggestWeights(model: FittedModel, current: ScoringWeights, sampleCount: number): ScoringWeights {
+  const indexOf = (feature: Feature) => FEATURES.indexOf(feature);
+  const effect = (feature: Feature) => model.coefficients[indexOf(feature)] / model.scales[indexOf(feature)];
+
+  const informative = POSITIVE_FEATURES.filter((feature) => model.informative[indexOf(feature)]);
+  const budget = informative.reduce((sum, feature) => sum + current[feature], 0);
+  const effectTotal = informative.reduce((sum, feature) => sum + Math.max(effect(feature), 0), 0);
+
+  const blend = sampleCount / (sampleCount + PRIOR_STRENGTH);
+  const mix = (learned: number, existing: number) => blend * learned + (1 - blend) * existing;
+
+  const suggested: ScoringWeights = { ...current };
+  if (effectTotal > 0) {
+    for (const feature of informative) {
+      suggested[feature] = mix((Math.max(effect(feature), 0) / effectTotal) * budget, current[feature]);
+    }
+    if (model.informative[indexOf('riskPenalty')]) {
+      const learnedRisk = (Math.max(-effect('riskPenalty'), 0) / effectTotal) * budget;
+      suggested.riskPenaltyMax = Math.min(30, mix(learnedRisk, current.riskPenaltyMax));
+    }
+  }
+
+  return sanitizeScoringWeights(suggested);
+}
+
+export function calibrateWeights(jobs: Job[], outcomes: Outcome[], current: ScoringWeights = DEFAULT_WEIGHTS): CalibrationReport {
+  const { samples, pendingCount } = deriveCalibrationSamples(jobs, outcomes, current);
+  const positiveCount = samples.filter((sample) => sample.progressed).length;
+  const negativeCount = samples.length - positiveCount;
+
+  if (
+    samples.length < MIN_CALIBRATION_SAMPLES
+    || positiveCount < MIN_SAMPLES_PER_CLASS
+    || negativeCount < MIN_SAMPLES_PER_CLASS
+  ) {
+    return { status: 'insufficient_data', sampleCount: samples.length, positiveCount, negativeCount, pendingCount };
+  }
+
+  const rows = samples.map((sample) => FEATURES.map((feature) => sample.features[feature]));
+  const labels = samples.map((sample) => sample.progressed);
+  const model = fitLogisticRegression(rows, labels);
+  const predictions = rows.map((row) => predict(model, row));
+  const brier = predictions.reduce((sum, prediction, i) => sum + (prediction - (labels[i] ? 1 : 0)) ** 2, 0) / predictions.length;
+
+  return {
+    status: 'ok',
+    sampleCount: samples.length,
+    positiveCount,
+    negativeCount,
+    pendingCount,
+    currentAuc: computeAuc(samples.map((sample) => sample.fitScore), labels),
+    modelAuc: computeAuc(predictions, labels),
+    modelBrier: brier,
+    coefficients: FEATURES.map((category, index) => ({ category, coefficient: model.coefficients[index] })),
+    suggestedWeights: suggestWeights(model, current, samples.length),
+  };
+}
@@ -0,0 +1,187 @@
+// Job Filter v2 — Score History
+// Keeps a per-job log of scoring runs with hashes of the inputs that went
+// into each run, so a label flip can be attributed to a profile edit, an
+// evidence edit, a job edit, or a scoring engine change.
+
+import type { Claim, Job, Profile, ScoreHistoryEntry } from '../types';
+import { SCORING_ENGINE_VERSION, type ScoringResult } from './scoring';
+
+export const SCORE_HISTORY_LIMIT = 25;
+
+/** Profile fields that never influence scoring and would only add noise. */
+const NON_SCORING_PROFILE_FIELDS = new Set<keyof Profile>(['id', 'name', 'firstName', 'lastName', 'digitalResume', 'updatedAt']);
+
+export type ScoreChangeCause = 'engine' | 'profile' | 'evidence' | 'job';
+
+export interface ScoreRunDiff {
+  scoreDelta: number;
+  labelChanged: boolean;
+  causes: ScoreChangeCause[];
+  addedReasonsToPursue: string[];
+  removedReasonsToPursue: string[];
+  addedReasonsToPass: string[];
+  removedReasonsToPass: string[];
+  addedDisqualifiers: string[];
+  removedDisqualifiers: string[];
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** FNV-1a 32-bit, hex encoded. Short and stable; not for security. */
+export function hashString(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < input.length; index += 1) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function hashProfileForScoring(profile: Profile): string {
+  const scoringFields = Object.fromEntries(
+    Object.entries(profile).filter(([key]) => !NON_SCORING_PROFILE_FIELDS.has(key as keyof Profile)),
+  );
+  return hashString(stableStringify(scoringFields));
+}
+
+export function hashEvidence(claims: Claim[]): string {
+  const evidence = [...claims]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((claim) => ({
+      company: claim.company,
+      role: claim.role,
+      startDate: claim.startDate,
+      endDate: claim.endDate,
+      responsibilities: claim.responsibilities,
+      tools: claim.tools,
+      outcomes: claim.outcomes.map((outcome) => outcome.description),
+    }));
+  return hashString(stableStringify(evidence));
+}
+
+export function hashJobInputs(job: Partial<Job>): string {
+  return hashString(stableStringify({
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    locationType: job.locationType,
+    employmentType: job.employmentType,
+    compRange: job.compRange,
+    compMin: job.compMin,
+    compMax: job.compMax,
+    jobDescription: job.jobDescription,
+    scoringInputs: job.scoringInputs,
+    // Overrides rewrite requirement matches, so they move scores like any edit.
+    requirementOverrides: job.requirementOverrides?.map((override) => ({
+      key: override.key,
+      match: override.match,
+      priority: override.priority,
+      claimId: override.claimId,
+      evidence: override.evidence,
+    })),
+  }));
+}
+
+export function buildScoreHistoryEntry(
+  job: Partial<Job>,
+  result: ScoringResult,
+  profile: Profile,
+  claims: Claim[],
+  scoredAt: string,
+): ScoreHistoryEntry {
+  return {
+    scoredAt,
+    engineVersion: SCORING_ENGINE_VERSION,
+    profileHash: hashProfileForScoring(profile),
+    evidenceHash: hashEvidence(claims),
+    jobHash: hashJobInputs(job),
+    fitScore: result.fitScore,
+    fitLabel: result.fitLabel,
+    breakdown: result.breakdown,
+    reasonsToPursue: result.reasonsToPursue,
+    reasonsToPass: result.reasonsToPass,
+    disqualifiers: result.disqualifiers,
+  };
+}
+
+/** Snapshot of a score stored before history existed, so the first new run has a baseline. */
+function buildLegacyEntry(job: Job): ScoreHistoryEntry | null {
+  if (job.fitScore === undefined || !job.fitLabel) return null;
+  return {
+    scoredAt: job.stageTimestamps.Scored ?? job.updatedAt,
+    engineVersion: 0,
+    profileHash: '',
+    evidenceHash: '',
+    jobHash: '',
+    fitScore: job.fitScore,
+    fitLabel: job.fitLabel,
+    breakdown: job.scoreBreakdown,
+    reasonsToPursue: job.reasonsToPursue ?? [],
+    reasonsToPass: job.reasonsToPass ?? [],
+    disqualifiers: job.disqualifiers ?? [],
+  };
+}
+
+function isSameRun(a: ScoreHistoryEntry, b: ScoreHistoryEntry): boolean {
+  return a.engineVersion === b.engineVersion
+    && a.profileHash === b.profileHash
+    && a.evidenceHash === b.evidenceHash
+    && a.jobHash === b.jobHash
+    && a.fitScore === b.fitScore
+    && a.fitLabel === b.fitLabel;
+}
+
+/**
+ * Append a run to the job's history, oldest first. Re-scoring with unchanged
+ * inputs does not add a duplicate entry.
+ */
+export function appendScoreHistory(job: Job, entry: ScoreHistoryEntry, limit = SCORE_HISTORY_LIMIT): ScoreHistoryEntry[] {
+  const history = job.scoreHistory ? [...job.scoreHistory] : [];
+  if (history.length === 0) {
+    const legacy = buildLegacyEntry(job);
+    if (legacy) history.push(legacy);
+  }
+
+  const last = history[history.length - 1];
+  if (last && isSameRun(last, entry)) return history;
+
+  history.push(entry);
+  return history.slice(-limit);
+}
+
+function difference(next: string[], previous: string[]): string[] {
+  const previousKeys = new Set(previous.map((item) => item.toLowerCase()));
+  return next.filter((item) => !previousKeys.has(item.toLowerCase()));
+}
+
+export function diffScoreRuns(previous: ScoreHistoryEntry, next: ScoreHistoryEntry): ScoreRunDiff {
+  const causes: ScoreChangeCause[] = [];
+  // Legacy entries have no hashes, so only an engine change can be claimed.
+  if (previous.engineVersion !== next.engineVersion) causes.push('engine');
+  if (previous.engineVersion > 0) {
+    if (previous.profileHash !== next.profileHash) causes.push('profile');
+    if (previous.evidenceHash !== next.evidenceHash) causes.push('evidence');
+    if (previous.jobHash !== next.jobHash) causes.push('job');
+  }
+
+  return {
+    scoreDelta: Math.round((next.fitScore - previous.fitScore) * 10) / 10,
+    labelChanged: previous.fitLabel !== next.fitLabel,
+    causes,
+    addedReasonsToPursue: difference(next.reasonsToPursue, previous.reasonsToPursue),
+    removedReasonsToPursue: difference(previous.reasonsToPursue, next.reasonsToPursue),
+    addedReasonsToPass: difference(next.reasonsToPass, previous.reasonsToPass),
+    removedReasonsToPass: difference(previous.reasonsToPass, next.reasonsToPass),
+    addedDisqualifiers: difference(next.disqualifiers, previous.disqualifiers),
+    removedDisqualifiers: difference(previous.disqualifiers, next.disqualifiers),
+  };
+}
@@ -0,0 +1,77 @@
+// Job Filter v2 — Score Trace Helpers
+// Locates the JD text behind each scoring rule and splits a description
+// into plain/highlighted segments for rendering.
+
+import type { ScoreTraceCategory, ScoreTraceEntry, TextSpan } from '../types';
+
+const MAX_SPANS_PER_RULE = 8;
+
+/**
+ * Every occurrence of `needle` in already-lowercased `text`. With
+ * `wordStart`, matches must begin on a word boundary (same rule as the
+ * lexicon signal matcher).
+ */
+export function findTextSpans(text: string, needle: string, options: { wordStart?: boolean } = {}): TextSpan[] {
+  if (!needle) return [];
+  const spans: TextSpan[] = [];
+  let index = text.indexOf(needle);
+  while (index !== -1 && spans.length < MAX_SPANS_PER_RULE) {
+    if (!options.wordStart || index === 0 || !/[a-z0-9]/.test(text[index - 1])) {
+      spans.push({ start: index, end: index + needle.length });
+    }
+    index = text.indexOf(needle, index + 1);
+  }
+  return spans;
+}
+
+/** Sort, merge overlapping ranges and drop anything past `limit`. */
+export function normalizeSpans(spans: TextSpan[], limit = Number.POSITIVE_INFINITY): TextSpan[] {
+  const sorted = spans
+    .filter((span) => span.start < limit && span.end > span.start)
+    .map((span) => ({ start: span.start, end: Math.min(span.end, limit) }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TextSpan[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+export function sumTracePoints(trace: ScoreTraceEntry[], category?: ScoreTraceCategory): number {
+  const total = trace
+    .filter((entry) => !category || entry.category === category)
+    .reduce((sum, entry) => sum + entry.points, 0);
+  return Math.round(total * 10) / 10;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/** Split `text` into alternating plain and highlighted runs. */
+export function segmentHighlights(text: string, spans: TextSpan[]): HighlightSegment[] {
+  const ranges = normalizeSpans(spans, text.length);
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  for (const range of ranges) {
+    if (range.start > cursor) {
+      segments.push({ text: text.slice(cursor, range.start), highlighted: false });
+    }
+    segments.push({ text: text.slice(range.start, range.end), highlighted: true });
+    cursor = range.end;
+  }
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlighted: false });
+  }
+
+  return segments;
+}
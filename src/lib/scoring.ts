@@ -7,30 +7,67 @@ import type {
   FitLabel,
   Profile,
   Requirement,
+  ScoringWeights,
   Claim,
+  CredentialRecord,
+  OntologyTerm,
   RequirementPriority,
   RequirementMatch,
   MustHaveSummary,
   SeedStagePolicy,
+  JdSection,
+  JdSectionKind,
   JobScoringInputs,
+  NormalizedComp,
+  PersonaScore,
+  ScoreTraceCategory,
+  ScoreTraceEntry,
+  TextSpan,
 } from '../types';
 import { BENEFITS_CATALOG, legacyBenefitsToIds } from './benefitsCatalog';
 import { sanitizeHardFilters } from './profilePreferences';
-import { getFitLabel } from './scoreBands';
+import { getFitLabel, resolveScoreThresholds } from './scoreBands';
 import { getAutoUsableProofs } from './proofLibrary';
+import { getRoleFamilyPreset, resolveScoringLexicon } from './scoringLexicons';
+import { findTextSpans, normalizeSpans } from './scoreTrace';
+import { applyPersona, titleAffinity } from './personas';
+import { evaluateCustomRules } from './customRules';
+import { formatCompAmount, normalizeCompensation, resolveCompSettings } from './compNormalization';
+import { matchJobLocation } from './locationMatching';
+import { checkRemoteEligibility } from './remoteEligibility';
+import { matchCredentialRequirement, splitDegreeClauses } from './credentials';
+import { matchExperienceRequirement } from './experienceTimeline';
+import { segmentJobDescription, sectionText } from './jdSegmenter';
+import { applyRequirementOverrides } from './requirementOverrides';
+import {
+  compareTitleToTargets,
+  describeFunction,
+  describeLevel,
+  hasRecognizedFunction,
+  normalizeTitle,
+} from './titleNormalization';
+import {
+  describeTermRelation,
+  findTerms,
+  relateTerms,
+  resolveOntology,
+  resolveTerm,
+  type SkillOntology,
+} from './skillOntology';
 
 // ============================================================
 // Scoring Weights (calibratable)
 // ============================================================
 
-export interface ScoringWeights {
-  roleScopeAuthority: number; // max 30
-  compensationBenefits: number; // max 25
-  companyStageAbility: number; // max 20
-  domainFit: number; // max 15
-  riskPenaltyMax: number; // max -10
-}
+export type { ScoringWeights } from '../types';
 
+/**
+ * Bump whenever rule logic changes in a way that can move scores, so score
+ * history can separate engine changes from profile or evidence edits.
+ */
+export const SCORING_ENGINE_VERSION = 19;
+
+/** Category caps the rules below are written against; user weights rescale these. */
 export const DEFAULT_WEIGHTS: ScoringWeights = {
   roleScopeAuthority: 30,
   compensationBenefits: 25,
@@ -39,20 +76,44 @@ export const DEFAULT_WEIGHTS: ScoringWeights = {
   riskPenaltyMax: 10,
 };
 
+const MAX_CATEGORY_WEIGHT = 100;
+
+/**
+ * Coerce user-entered weights to finite, non-negative numbers.
+ * Missing fields fall back to the defaults.
+ */
+export function sanitizeScoringWeights(weights: Partial<ScoringWeights> | undefined): ScoringWeights {
+  const pick = (key: keyof ScoringWeights): number => {
+    const value = Number(weights?.[key]);
+    if (!Number.isFinite(value)) return DEFAULT_WEIGHTS[key];
+    return Math.max(0, Math.min(MAX_CATEGORY_WEIGHT, Math.round(value)));
+  };
+
+  return {
+    roleScopeAuthority: pick('roleScopeAuthority'),
+    compensationBenefits: pick('compensationBenefits'),
+    companyStageAbility: pick('companyStageAbility'),
+    domainFit: pick('domainFit'),
+    riskPenaltyMax: pick('riskPenaltyMax'),
+  };
+}
+
+export function resolveScoringWeights(profile: Pick<Profile, 'scoringWeights'> | null | undefined): ScoringWeights {
+  if (!profile?.scoringWeights) return { ...DEFAULT_WEIGHTS };
+  return sanitizeScoringWeights(profile.scoringWeights);
+}
+
+/** Rescale a category scored against its default cap onto the user's weight. */
+function scaleCategoryScore(raw: number, defaultMax: number, weight: number): number {
+  if (weight === defaultMax) return raw;
+  return Math.round((raw / defaultMax) * weight * 10) / 10;
+}
+
 // ============================================================
 // Hard Disqualifiers
 // ============================================================
 
-const PAID_MEDIA_KEYWORDS = [
-  'paid media manager',
-  'paid social manager',
-  'ppc manager',
-  'performance marketing manager',
-  'paid acquisition manager',
-  'sem manager',
-  'paid search manager',
-  'media buyer',
-];
+const HANDS_ON_MARKERS = ['day-to-day', 'hands-on', 'in-platform'];
 
 const SEED_STAGE_KEYWORDS = [
   'seed stage',
@@ -86,6 +147,11 @@ export interface ScoringResult {
   redFlags: string[];
   requirementsExtracted: Requirement[];
   breakdown: ScoreBreakdown;
+  trace: ScoreTraceEntry[];
+  bestPersonaId?: string;
+  personaScores?: PersonaScore[];
+  compNormalized?: NormalizedComp;
+  jdSections: JdSection[];
 }
 
 export interface ScoreBreakdown {
@@ -135,6 +201,21 @@ function inferEmploymentFilterType(job: Partial<Job>, jd: string): 'full_time_w2
   return null;
 }
 
+/**
+ * Match a lexicon signal against already-lowercased text. The signal must
+ * start on a word boundary so short terms ("api", "ui") do not fire inside
+ * unrelated words, but may run into a suffix ("strategic" -> "strategically").
+ */
+function includesSignal(text: string, signal: string): boolean {
+  if (!signal) return false;
+  let index = text.indexOf(signal);
+  while (index !== -1) {
+    if (index === 0 || !/[a-z0-9]/.test(text[index - 1])) return true;
+    index = text.indexOf(signal, index + 1);
+  }
+  return false;
+}
+
 function hasBenefitMatch(jd: string, benefitId: string): boolean {
   const benefit = BENEFIT_BY_ID.get(benefitId);
   if (!benefit) return false;
@@ -180,32 +261,58 @@ function normalizeScoringInputs(input: JobScoringInputs | undefined): JobScoring
   };
 }
 
-function buildScoringContext(jobDescription: string, scoringInputs: JobScoringInputs): string {
-  const sections: string[] = [jobDescription];
+// Posting sections each group of signals is read from. 'other' (text before
+// the first heading, or a posting with no headings) is in every scope, so
+// unstructured postings score the same as before segmentation.
+const SIGNAL_SCOPES = {
+  role: ['responsibilities', 'requirements', 'preferred', 'other'],
+  benefits: ['benefits', 'compensation', 'other'],
+  company: ['about', 'benefits', 'other'],
+  domain: ['about', 'responsibilities', 'requirements', 'preferred', 'other'],
+  risk: ['about', 'responsibilities', 'requirements', 'preferred', 'benefits', 'compensation', 'other'],
+  requirements: ['responsibilities', 'requirements', 'preferred', 'other'],
+} satisfies Record<string, JdSectionKind[]>;
 
-  if (scoringInputs.mustHaveRequirements.length > 0) {
-    sections.push(
-      'Requirements:',
-      ...scoringInputs.mustHaveRequirements.map((item) => `- Must have ${item}`),
-    );
-  }
+type SignalScope = keyof typeof SIGNAL_SCOPES;
 
-  if (scoringInputs.experienceRequirements.length > 0) {
-    sections.push(
-      'Experience requirements:',
-      ...scoringInputs.experienceRequirements.map((item) => `- ${item}`),
-    );
-  }
+/**
+ * Join the JD with the structured scoring inputs. With `scope`, only the
+ * JD sections of those kinds are kept, and structured inputs are kept only
+ * when their section (requirements or benefits) is in scope.
+ */
+function buildScoringContext(
+  jobDescription: string,
+  scoringInputs: JobScoringInputs,
+  scope?: { sections: JdSection[]; kinds: readonly JdSectionKind[] },
+): string {
+  const sections: string[] = [scope ? sectionText(jobDescription, scope.sections, scope.kinds) : jobDescription];
+  const includes = (kind: JdSectionKind) => !scope || scope.kinds.includes(kind);
+
+  if (includes('requirements')) {
+    if (scoringInputs.mustHaveRequirements.length > 0) {
+      sections.push(
+        'Requirements:',
+        ...scoringInputs.mustHaveRequirements.map((item) => `- Must have ${item}`),
+      );
+    }
 
-  if (scoringInputs.skills.length > 0) {
-    sections.push(`Skills: ${scoringInputs.skills.join(', ')}`);
-  }
+    if (scoringInputs.experienceRequirements.length > 0) {
+      sections.push(
+        'Experience requirements:',
+        ...scoringInputs.experienceRequirements.map((item) => `- ${item}`),
+      );
+    }
+
+    if (scoringInputs.skills.length > 0) {
+      sections.push(`Skills: ${scoringInputs.skills.join(', ')}`);
+    }
 
-  if (scoringInputs.tools.length > 0) {
-    sections.push(`Tools: ${scoringInputs.tools.join(', ')}`);
+    if (scoringInputs.tools.length > 0) {
+      sections.push(`Tools: ${scoringInputs.tools.join(', ')}`);
+    }
   }
 
-  if (scoringInputs.benefits.length > 0) {
+  if (includes('benefits') && scoringInputs.benefits.length > 0) {
     sections.push(`Benefits: ${scoringInputs.benefits.join(', ')}`);
   }
 
@@ -277,30 +384,52 @@ function dedupeMessages(messages: string[]): string[] {
   return output;
 }
 
-function matchesLocationPreferences(job: Partial<Job>, profile: Profile): boolean | null {
-  if (!profile.locationPreferences || profile.locationPreferences.length === 0) return null;
-  if (!job.locationType || job.locationType === 'Unknown') return null;
-
-  const jobType = job.locationType === 'In-person' ? 'Onsite' : job.locationType;
-  const location = (job.location || '').toLowerCase();
-
-  for (const preference of profile.locationPreferences) {
-    if (preference.type !== jobType) continue;
-    if (preference.type === 'Remote') return true;
+/**
+ * Score a job. With personas on the profile, the job is scored once per
+ * persona and the best persona's result is returned, alongside every
+ * persona's score. Ties go to the persona whose target roles best match the
+ * title, then to the earlier persona.
+ */
+export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]): ScoringResult {
+  const personas = profile.personas ?? [];
+  if (personas.length === 0) return scoreJobForProfile(job, profile, claims);
 
-    if (!preference.city?.trim()) return true;
-    if (location.includes(preference.city.trim().toLowerCase())) return true;
-    if (profile.willingToRelocate || preference.willingToRelocate) return true;
-  }
+  const runs = personas.map((persona) => ({
+    persona,
+    result: scoreJobForProfile(job, applyPersona(profile, persona), claims),
+    affinity: titleAffinity(job.title, persona),
+  }));
+  const best = runs.reduce((leader, run) => {
+    if (run.result.fitScore !== leader.result.fitScore) return run.result.fitScore > leader.result.fitScore ? run : leader;
+    return run.affinity > leader.affinity ? run : leader;
+  });
 
-  return false;
+  return {
+    ...best.result,
+    bestPersonaId: best.persona.id,
+    personaScores: runs.map(({ persona, result }) => ({
+      personaId: persona.id,
+      personaName: persona.name,
+      fitScore: result.fitScore,
+      fitLabel: result.fitLabel,
+    })),
+  };
 }
 
-export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]): ScoringResult {
+function scoreJobForProfile(job: Partial<Job>, profile: Profile, claims?: Claim[]): ScoringResult {
   const proofClaims = getAutoUsableProofs(claims ?? []);
   const scoringInputs = normalizeScoringInputs(job.scoringInputs);
-  const scoringContext = buildScoringContext(job.jobDescription || '', scoringInputs);
+  const jobDescription = job.jobDescription || '';
+  const scoringContext = buildScoringContext(jobDescription, scoringInputs);
   const jd = scoringContext.toLowerCase();
+  const jdSections = segmentJobDescription(jobDescription);
+  const scopedContext = (scope: SignalScope) =>
+    buildScoringContext(jobDescription, scoringInputs, { sections: jdSections, kinds: SIGNAL_SCOPES[scope] });
+  const roleJd = scopedContext('role').toLowerCase();
+  const benefitsJd = scopedContext('benefits').toLowerCase();
+  const companyJd = scopedContext('company').toLowerCase();
+  const domainJd = scopedContext('domain').toLowerCase();
+  const riskJd = scopedContext('risk').toLowerCase();
   const title = (job.title || '').toLowerCase();
   const hardFilters = sanitizeHardFilters({
     ...(profile.hardFilters ?? {}),
@@ -313,7 +442,10 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
   const preferredBenefitIds = profile.preferredBenefitIds?.length
     ? profile.preferredBenefitIds
     : legacyBenefitsToIds(profile.preferredBenefits);
-  const benefitsKnown = hasKnownBenefitsSignal(jd);
+  const benefitsKnown = hasKnownBenefitsSignal(benefitsJd);
+  const lexicon = resolveScoringLexicon(profile);
+  const weights = resolveScoringWeights(profile);
+  const roleFamilyPreset = getRoleFamilyPreset(lexicon.roleFamily);
 
   const disqualifiers: string[] = [];
   const riskWarnings: string[] = [];
@@ -321,47 +453,100 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
   const reasonsToPass: string[] = [];
   const redFlags: string[] = [];
 
+  // Spans index into the raw JD, which leads the scoring context; anything
+  // past its end came from structured inputs and is not highlighted.
+  const jdLength = jobDescription.length;
+  const trace: ScoreTraceEntry[] = [];
+  const addTrace = (category: ScoreTraceCategory, ruleId: string, label: string, points: number, spans: TextSpan[] = []) => {
+    trace.push({ ruleId, category, label, points, spans: normalizeSpans(spans, jdLength) });
+  };
+  // With a scope, only highlight matches inside the sections that scope reads.
+  const inScope = (spans: TextSpan[], scope?: SignalScope) => {
+    if (!scope) return spans;
+    const kinds: readonly JdSectionKind[] = SIGNAL_SCOPES[scope];
+    return spans.filter((span) => jdSections.some((section) => (
+      kinds.includes(section.kind) && span.start >= section.start && span.start < section.end
+    )));
+  };
+  const signalSpans = (signals: string[], scope?: SignalScope) =>
+    inScope(signals.flatMap((signal) => findTextSpans(jd, signal, { wordStart: true })), scope);
+  const phraseSpans = (phrases: string[], scope?: SignalScope) =>
+    inScope(phrases.flatMap((phrase) => findTextSpans(jd, phrase)), scope);
+  const capCategory = (category: ScoreTraceCategory, raw: number, cap: number): number => {
+    if (raw <= cap) return raw;
+    addTrace(category, `${category}.cap`, `Capped at ${cap} points`, cap - raw);
+    return cap;
+  };
+
   // ----------------------------------------------------------
   // Hard Disqualifiers
   // ----------------------------------------------------------
 
-  // 1. Paid account management as core expectation
-  const isPaidMediaOperator = PAID_MEDIA_KEYWORDS.some(
-    (kw) => title.includes(kw) || jd.includes(kw + ' role') || jd.includes('hands-on ' + kw)
+  // 1. Excluded operator roles for the profile's role family
+  //    (e.g. hands-on paid media account management for growth leaders)
+  const isExcludedOperatorRole = lexicon.excludedRoleKeywords.some(
+    (kw) => includesSignal(title, kw) || roleJd.includes(kw + ' role') || roleJd.includes('hands-on ' + kw)
   );
-  const hasPaidMediaHeavy =
-    (jd.includes('manage paid') || jd.includes('run paid') || jd.includes('execute paid')) &&
-    (jd.includes('day-to-day') || jd.includes('hands-on') || jd.includes('in-platform'));
-
-  if (isPaidMediaOperator || hasPaidMediaHeavy) {
-    disqualifiers.push('Role appears to require hands-on paid media account management as core function');
+  const hasExcludedDutyHeavy =
+    lexicon.excludedDutyPhrases.some((phrase) => roleJd.includes(phrase)) &&
+    HANDS_ON_MARKERS.some((marker) => roleJd.includes(marker));
+
+  if (isExcludedOperatorRole || hasExcludedDutyHeavy) {
+    const message = `Role appears to require ${lexicon.excludedRoleLabel} as core function`;
+    disqualifiers.push(message);
+    addTrace('disqualifier', 'disqualifier.excluded_role', message, 0, [
+      ...phraseSpans(lexicon.excludedRoleKeywords.flatMap((kw) => [kw + ' role', 'hands-on ' + kw]), 'role'),
+      ...(hasExcludedDutyHeavy ? phraseSpans([...lexicon.excludedDutyPhrases, ...HANDS_ON_MARKERS], 'role') : []),
+    ]);
   }
 
   // 2. Seed-stage
   const isSeedStage =
-    SEED_STAGE_KEYWORDS.some((kw) => jd.includes(kw)) ||
+    SEED_STAGE_KEYWORDS.some((kw) => companyJd.includes(kw)) ||
     job.compRange?.toLowerCase().includes('seed') ||
     scoringInputs.stageHint === 'seed';
 
   if (isSeedStage) {
     if (seedStagePolicy === 'disqualify') {
       disqualifiers.push('Company appears to be seed-stage');
+      addTrace('disqualifier', 'disqualifier.seed_stage', 'Company appears to be seed-stage', 0, phraseSpans(SEED_STAGE_KEYWORDS, 'company'));
     } else if (seedStagePolicy === 'warn') {
       riskWarnings.push('Company appears to be seed-stage');
     }
   }
 
-  // 3. Compensation below floor
+  // 3. Compensation below floor (annual base in the profile currency)
+  const compSettings = resolveCompSettings(profile);
+  const normalizedComp = normalizeCompensation(job, compSettings);
+  const money = (value: number) => formatCompAmount(value, compSettings.currency);
+  const compSource = normalizedComp?.source === 'text' && normalizedComp.notes.length > 0
+    ? `, from ${normalizedComp.sourceText}`
+    : '';
+  // An OTE figure with no split says nothing reliable about base pay.
+  const baseSplitUnknown = Boolean(normalizedComp?.isOte && normalizedComp.baseSharePercent === undefined);
+  const compMin = baseSplitUnknown ? undefined : normalizedComp?.annualMin;
+  const compMax = baseSplitUnknown ? undefined : normalizedComp?.annualMax;
+
+  if (normalizedComp && normalizedComp.fxRate === undefined) {
+    riskWarnings.push(`Could not convert ${normalizedComp.currency} comp; add a rate to your FX table`);
+  }
+  if (baseSplitUnknown) {
+    riskWarnings.push('Comp is quoted as OTE without a base/variable split');
+  }
+
   const effectiveCompFloor = Math.max(profile.compFloor || 0, hardFilters.minBaseSalary || 0);
-  if (job.compMax && job.compMax < effectiveCompFloor) {
-    disqualifiers.push(`Max compensation ($${job.compMax.toLocaleString()}) is below floor ($${effectiveCompFloor.toLocaleString()})`);
+  if (compMax && compMax < effectiveCompFloor) {
+    const message = `Max compensation (${money(compMax)}${compSource}) is below floor (${money(effectiveCompFloor)})`;
+    disqualifiers.push(message);
+    addTrace('disqualifier', 'disqualifier.comp_floor', message, 0);
   }
 
   for (const benefitId of requiredBenefitIds) {
-    if (!hasBenefitMatch(jd, benefitId)) {
+    if (!hasBenefitMatch(benefitsJd, benefitId)) {
       const benefitLabel = BENEFIT_BY_ID.get(benefitId)?.label ?? benefitId;
       if (benefitsKnown) {
         disqualifiers.push(`Missing required benefit: ${benefitLabel}`);
+        addTrace('disqualifier', `disqualifier.benefit.${benefitId}`, `Missing required benefit: ${benefitLabel}`, 0);
       } else {
         riskWarnings.push(`Could not verify required benefit: ${benefitLabel}`);
       }
@@ -372,6 +557,7 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
   const jobEmploymentFilterType = inferEmploymentFilterType(job, jd);
   if (jobEmploymentFilterType && hardFilters.employmentTypes.length > 0 && !hardFilters.employmentTypes.includes(jobEmploymentFilterType)) {
     disqualifiers.push('Role employment type falls outside your hard filters');
+    addTrace('disqualifier', 'disqualifier.employment_type', 'Role employment type falls outside your hard filters', 0);
   }
 
   // 5. Sponsorship filter
@@ -379,24 +565,52 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
     const hasRestriction = VISA_SPONSORSHIP_RESTRICTION_PATTERNS.some((pattern) => jd.includes(pattern));
     if (hasRestriction) {
       disqualifiers.push('Job indicates visa sponsorship is unavailable');
+      addTrace(
+        'disqualifier',
+        'disqualifier.sponsorship',
+        'Job indicates visa sponsorship is unavailable',
+        0,
+        phraseSpans(VISA_SPONSORSHIP_RESTRICTION_PATTERNS),
+      );
     }
   }
 
   // 6. Travel and onsite constraints
   const travelPercent = parseTravelPercent(jd);
   if (travelPercent !== null && travelPercent > hardFilters.maxTravelPercent) {
-    disqualifiers.push(`Travel requirement (${travelPercent}%) exceeds your max (${hardFilters.maxTravelPercent}%)`);
+    const message = `Travel requirement (${travelPercent}%) exceeds your max (${hardFilters.maxTravelPercent}%)`;
+    disqualifiers.push(message);
+    addTrace('disqualifier', 'disqualifier.travel', message, 0, phraseSpans([`${travelPercent}%`]));
   }
 
   const onsiteDays = estimateOnsiteDaysPerWeek(job, jd);
   if (onsiteDays !== null && onsiteDays > hardFilters.maxOnsiteDaysPerWeek) {
-    disqualifiers.push(`Onsite requirement (${onsiteDays} days/week) exceeds your max (${hardFilters.maxOnsiteDaysPerWeek})`);
+    const message = `Onsite requirement (${onsiteDays} days/week) exceeds your max (${hardFilters.maxOnsiteDaysPerWeek})`;
+    disqualifiers.push(message);
+    addTrace('disqualifier', 'disqualifier.onsite', message, 0);
   }
 
   // 7. Location preference fit
-  const locationMatch = matchesLocationPreferences(job, profile);
-  if (locationMatch === false) {
-    disqualifiers.push('Job location does not match your location preferences');
+  const locationMatch = matchJobLocation(job, profile.locationPreferences, profile.willingToRelocate);
+  if (locationMatch.matched === false) {
+    const message = locationMatch.reason
+      ? `Job location does not match your location preferences (${locationMatch.reason})`
+      : 'Job location does not match your location preferences';
+    disqualifiers.push(message);
+    addTrace('disqualifier', 'disqualifier.location', message, 0);
+  } else if (locationMatch.matched && locationMatch.reason) {
+    reasonsToPursue.push(locationMatch.reason);
+  }
+
+  // 8. Remote geography and time-zone overlap
+  if (job.locationType === 'Remote') {
+    const remote = checkRemoteEligibility(`${job.location || ''}\n${scoringContext}`, profile.remotePreferences);
+    for (const message of remote.disqualifiers) {
+      disqualifiers.push(message);
+      addTrace('disqualifier', 'disqualifier.remote', message, 0);
+    }
+    riskWarnings.push(...remote.warnings);
+    reasonsToPursue.push(...remote.reasons);
   }
 
   // ----------------------------------------------------------
@@ -405,40 +619,101 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
 
   let roleScore = 0;
 
-  // Title-level signals
-  const seniorTitles = ['vp', 'vice president', 'head of', 'director', 'chief', 'svp', 'senior vice president'];
-  const hasSeniorTitle = seniorTitles.some((t) => title.includes(t));
-  if (hasSeniorTitle) {
-    roleScore += 12;
-    reasonsToPursue.push('Senior leadership title');
+  // Title level and function, against target roles when the profile has them
+  const targetRoles = profile.targetRoles.filter((role) => role.trim());
+  if (targetRoles.length > 0) {
+    const titleFit = compareTitleToTargets(job.title || '', targetRoles);
+    const levels = `${describeLevel(titleFit.title)} vs ${describeLevel(titleFit.target)}`;
+    const functions = `${describeFunction(titleFit.title)} vs ${describeFunction(titleFit.target)}`;
+
+    let levelPoints: number;
+    let levelLabel: string;
+    if (titleFit.seniorityFit === 'match') {
+      levelPoints = 8;
+      levelLabel = `Title level matches target (${describeLevel(titleFit.title)})`;
+      reasonsToPursue.push(levelLabel);
+    } else if (titleFit.seniorityFit === 'over') {
+      levelPoints = titleFit.levelGap === 1 ? 6 : 3;
+      levelLabel = `Title is above target level (${levels})`;
+      reasonsToPass.push(levelLabel);
+    } else if (titleFit.seniorityFit === 'under') {
+      levelPoints = titleFit.levelGap === -1 ? 4 : 1;
+      levelLabel = `Title is below target level (${levels})`;
+      reasonsToPass.push(levelLabel);
+    } else {
+      levelPoints = 3;
+      levelLabel = 'Title level unclear against target roles';
+      reasonsToPass.push(levelLabel);
+    }
+    roleScore += levelPoints;
+    addTrace('roleScopeAuthority', 'role.title_level', levelLabel, levelPoints);
+
+    let functionPoints: number;
+    let functionLabel: string;
+    if (titleFit.functionMatch === 'match') {
+      functionPoints = 4;
+      functionLabel = `Title function matches target (${describeFunction(titleFit.title)})`;
+    } else if (titleFit.functionMatch === 'related') {
+      functionPoints = 2;
+      functionLabel = `Title function is adjacent to target (${functions})`;
+    } else if (titleFit.functionMatch === 'mismatch') {
+      functionPoints = 0;
+      functionLabel = `Title function differs from target (${functions})`;
+      reasonsToPass.push(functionLabel);
+    } else {
+      functionPoints = 1;
+      functionLabel = 'Title function unclear';
+    }
+    roleScore += functionPoints;
+    addTrace('roleScopeAuthority', 'role.title_function', functionLabel, functionPoints);
   } else {
-    roleScore += 4;
-    reasonsToPass.push('Title may not indicate senior leadership');
+    // No target roles: fall back to the lexicon's senior title words, but
+    // only trust them when the title names a real function.
+    const hasSeniorTitle = lexicon.seniorTitles.some((t) => includesSignal(title, t));
+    if (hasSeniorTitle && hasRecognizedFunction(normalizeTitle(job.title || ''))) {
+      roleScore += 12;
+      reasonsToPursue.push('Senior leadership title');
+      addTrace('roleScopeAuthority', 'role.senior_title', 'Senior leadership title', 12);
+    } else if (hasSeniorTitle) {
+      roleScore += 6;
+      reasonsToPass.push('Senior title word without a recognized function');
+      addTrace('roleScopeAuthority', 'role.senior_title', 'Senior title word without a recognized function', 6);
+    } else {
+      roleScore += 4;
+      reasonsToPass.push('Title may not indicate senior leadership');
+      addTrace('roleScopeAuthority', 'role.senior_title', 'Title may not indicate senior leadership', 4);
+    }
   }
 
   // Strategy signals
-  const strategySignals = ['strategy', 'strategic', 'roadmap', 'vision', 'build the team', 'lead the team', 'cross-functional', 'p&l', 'budget ownership'];
-  const strategyCount = strategySignals.filter((s) => jd.includes(s)).length;
+  const matchedStrategySignals = lexicon.strategySignals.filter((s) => includesSignal(roleJd, s));
+  const strategyCount = matchedStrategySignals.length;
   if (strategyCount >= 3) {
     roleScore += 12;
     reasonsToPursue.push('Strong strategic ownership signals');
+    addTrace('roleScopeAuthority', 'role.strategy', `Strong strategic ownership signals (${strategyCount} found)`, 12, signalSpans(matchedStrategySignals, 'role'));
   } else if (strategyCount >= 1) {
     roleScore += 7;
     reasonsToPursue.push('Some strategic scope indicated');
+    addTrace('roleScopeAuthority', 'role.strategy', `Some strategic scope indicated (${strategyCount} found)`, 7, signalSpans(matchedStrategySignals, 'role'));
   } else {
     roleScore += 2;
     reasonsToPass.push('Limited strategic scope signals in JD');
+    addTrace('roleScopeAuthority', 'role.strategy', 'Limited strategic scope signals in JD', 2);
   }
 
   // Team management
-  if (jd.includes('manage a team') || jd.includes('direct reports') || jd.includes('build a team') || jd.includes('lead a team')) {
+  const matchedTeamSignals = lexicon.teamSignals.filter((signal) => includesSignal(roleJd, signal));
+  if (matchedTeamSignals.length > 0) {
     roleScore += 6;
     reasonsToPursue.push('People management / team leadership');
+    addTrace('roleScopeAuthority', 'role.team', 'People management / team leadership', 6, signalSpans(matchedTeamSignals, 'role'));
   } else {
     roleScore += 2;
+    addTrace('roleScopeAuthority', 'role.team', 'No team leadership signals', 2);
   }
 
-  roleScore = Math.min(roleScore, 30);
+  roleScore = capCategory('roleScopeAuthority', roleScore, DEFAULT_WEIGHTS.roleScopeAuthority);
 
   // ----------------------------------------------------------
   // B) Compensation & Benefits (0-25)
@@ -446,34 +721,58 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
 
   let compScore = 0;
 
-  if (job.compMin && job.compMin >= profile.compTarget) {
+  if (compMin && compMin >= profile.compTarget) {
     compScore += 15;
-    reasonsToPursue.push(`Comp min ($${job.compMin.toLocaleString()}) meets or exceeds target`);
-  } else if (job.compMin && job.compMin >= profile.compFloor) {
+    reasonsToPursue.push(`Comp min (${money(compMin)}${compSource}) meets or exceeds target`);
+    addTrace('compensationBenefits', 'comp.base', `Comp min (${money(compMin)}${compSource}) meets or exceeds target`, 15);
+  } else if (compMin && compMin >= profile.compFloor) {
     compScore += 10;
-    reasonsToPursue.push(`Comp min ($${job.compMin.toLocaleString()}) meets floor`);
-  } else if (!job.compMin && !job.compMax) {
+    reasonsToPursue.push(`Comp min (${money(compMin)}${compSource}) meets floor`);
+    addTrace('compensationBenefits', 'comp.base', `Comp min (${money(compMin)}${compSource}) meets floor`, 10);
+  } else if (!compMin && !compMax) {
     compScore += 7; // Unknown = neutral
+    addTrace('compensationBenefits', 'comp.base', 'Compensation not listed (neutral)', 7);
   } else {
     compScore += 3;
     reasonsToPass.push('Compensation may be below target');
+    addTrace('compensationBenefits', 'comp.base', 'Compensation may be below target', 3);
   }
 
   // Benefits signals
   const benefitSignals = ['medical', 'dental', '401k', '401(k)', 'equity', 'stock', 'bonus', 'rsu', 'shares'];
-  const benefitCount = benefitSignals.filter((b) => jd.includes(b)).length;
-  compScore += Math.min(benefitCount * 2, 10);
+  const matchedBenefitSignals = benefitSignals.filter((b) => benefitsJd.includes(b));
+  const benefitCount = matchedBenefitSignals.length;
+  const benefitPoints = Math.min(benefitCount * 2, 10);
+  compScore += benefitPoints;
   if (benefitCount >= 3) {
     reasonsToPursue.push('Strong benefits package indicated');
   }
+  if (benefitPoints > 0) {
+    addTrace(
+      'compensationBenefits',
+      'comp.benefits',
+      `${benefitCount} benefit signal${benefitCount === 1 ? '' : 's'} in JD`,
+      benefitPoints,
+      phraseSpans(matchedBenefitSignals, 'benefits'),
+    );
+  }
 
-  const preferredBenefitMatches = preferredBenefitIds.filter((benefitId) => hasBenefitMatch(jd, benefitId)).length;
+  const matchedPreferredBenefitIds = preferredBenefitIds.filter((benefitId) => hasBenefitMatch(benefitsJd, benefitId));
+  const preferredBenefitMatches = matchedPreferredBenefitIds.length;
   if (preferredBenefitMatches > 0) {
-    compScore += Math.min(preferredBenefitMatches * 1.5, 6);
+    const preferredPoints = Math.min(preferredBenefitMatches * 1.5, 6);
+    compScore += preferredPoints;
     reasonsToPursue.push(`${preferredBenefitMatches} preferred benefit${preferredBenefitMatches === 1 ? '' : 's'} matched`);
+    addTrace(
+      'compensationBenefits',
+      'comp.preferred_benefits',
+      `${preferredBenefitMatches} preferred benefit${preferredBenefitMatches === 1 ? '' : 's'} matched`,
+      preferredPoints,
+      phraseSpans(matchedPreferredBenefitIds.flatMap((benefitId) => (BENEFIT_BY_ID.get(benefitId)?.keywords ?? []).map((keyword) => keyword.toLowerCase())), 'benefits'),
+    );
   }
 
-  compScore = Math.min(compScore, 25);
+  compScore = capCategory('compensationBenefits', compScore, DEFAULT_WEIGHTS.compensationBenefits);
 
   // ----------------------------------------------------------
   // C) Company Stage / Ability to Pay (0-20)
@@ -494,12 +793,21 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
   };
 
   let bestStageScore = 8; // default for unknown
+  let bestStageSignal: string | null = null;
   for (const [signal, score] of Object.entries(stageSignals)) {
-    if (jd.includes(signal)) {
-      bestStageScore = Math.max(bestStageScore, score);
+    if (companyJd.includes(signal) && score > bestStageScore) {
+      bestStageScore = score;
+      bestStageSignal = signal;
     }
   }
-  companyScore = Math.min(bestStageScore, 20);
+  addTrace(
+    'companyStageAbility',
+    'company.stage',
+    bestStageSignal ? `Company stage signal: "${bestStageSignal}"` : 'Company stage unknown (neutral)',
+    bestStageScore,
+    bestStageSignal ? phraseSpans([bestStageSignal], 'company') : [],
+  );
+  companyScore = capCategory('companyStageAbility', bestStageScore, DEFAULT_WEIGHTS.companyStageAbility);
 
   if (companyScore >= 15) {
     reasonsToPursue.push('Company stage suggests ability to pay');
@@ -511,18 +819,22 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
 
   let domainScore = 0;
 
-  const domainSignals = [
-    'growth', 'lifecycle', 'gtm', 'go-to-market', 'revenue', 'demand gen',
-    'acquisition', 'retention', 'conversion', 'funnel', 'marketing ops',
-    'ecommerce', 'e-commerce', 'b2c', 'dtc', 'direct-to-consumer',
-    'martech', 'analytics', 'attribution', 'experimentation',
-  ];
-
-  const domainCount = domainSignals.filter((d) => jd.includes(d)).length;
-  domainScore = Math.min(Math.round(domainCount * 2.5), 15);
+  const matchedDomainSignals = lexicon.domainSignals.filter((d) => includesSignal(domainJd, d));
+  const domainCount = matchedDomainSignals.length;
+  domainScore = Math.round(domainCount * 2.5);
+  if (domainCount > 0) {
+    addTrace(
+      'domainFit',
+      'domain.signals',
+      `${domainCount} domain signal${domainCount === 1 ? '' : 's'}: ${matchedDomainSignals.join(', ')}`,
+      domainScore,
+      signalSpans(matchedDomainSignals, 'domain'),
+    );
+  }
+  domainScore = capCategory('domainFit', domainScore, DEFAULT_WEIGHTS.domainFit);
 
   if (domainCount >= 4) {
-    reasonsToPursue.push('Strong domain alignment (growth/lifecycle/GTM)');
+    reasonsToPursue.push(`Strong domain alignment (${roleFamilyPreset.domainLabel})`);
   } else if (domainCount >= 2) {
     reasonsToPursue.push('Moderate domain alignment');
   }
@@ -533,29 +845,53 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
 
   let riskPenalty = 0;
 
-  const riskSignals = [
-    { pattern: 'miracle', penalty: 3, flag: 'JD implies "miracle needed" expectations' },
-    { pattern: 'wear many hats', penalty: 2, flag: 'Wear-many-hats language (resource constrained)' },
-    { pattern: 'startup mentality', penalty: 1, flag: 'Startup mentality language' },
-    { pattern: 'fast-paced', penalty: 0, flag: '' }, // common, not really a risk
-    { pattern: 'unicorn', penalty: 2, flag: 'Looking for a "unicorn" (unrealistic expectations)' },
-    { pattern: 'do it all', penalty: 3, flag: 'Expects one person to "do it all"' },
-  ];
-
-  for (const { pattern, penalty, flag } of riskSignals) {
-    if (jd.includes(pattern) && penalty > 0) {
+  for (const { pattern, penalty, flag } of lexicon.riskSignals) {
+    if (riskJd.includes(pattern) && penalty > 0) {
       riskPenalty += penalty;
       if (flag) redFlags.push(flag);
+      addTrace('riskPenalty', `risk.${pattern}`, flag || `JD mentions "${pattern}"`, -penalty, phraseSpans([pattern], 'risk'));
     }
   }
 
-  riskPenalty = Math.min(riskPenalty, DEFAULT_WEIGHTS.riskPenaltyMax);
+  if (riskPenalty > weights.riskPenaltyMax) {
+    addTrace('riskPenalty', 'riskPenalty.cap', `Risk penalty capped at ${weights.riskPenaltyMax} points`, riskPenalty - weights.riskPenaltyMax);
+    riskPenalty = weights.riskPenaltyMax;
+  }
+
+  // ----------------------------------------------------------
+  // F) Custom rules (user-defined, outside the category caps)
+  // ----------------------------------------------------------
+
+  let customRulePoints = 0;
+
+  for (const { rule, jdPhrases } of evaluateCustomRules({ ...job, compMin, compMax }, profile.customRules)) {
+    const spans = phraseSpans(jdPhrases);
+    if (rule.action === 'disqualify') {
+      disqualifiers.push(rule.label);
+      addTrace('disqualifier', `rule.${rule.id}`, rule.label, 0, spans);
+    } else if (rule.action === 'warn') {
+      riskWarnings.push(rule.label);
+    } else if (rule.points) {
+      customRulePoints += rule.points;
+      const signed = rule.points > 0 ? `+${rule.points}` : `${rule.points}`;
+      (rule.points > 0 ? reasonsToPursue : reasonsToPass).push(`${rule.label} (${signed} pts)`);
+      addTrace('adjustment', `rule.${rule.id}`, rule.label, rule.points, spans);
+    }
+  }
 
   // ----------------------------------------------------------
   // Extract requirements (with claim matching)
   // ----------------------------------------------------------
 
-  const requirements = extractRequirements(scoringContext, proofClaims);
+  const requirements = applyRequirementOverrides(
+    extractRequirements(
+      scopedContext('requirements'),
+      proofClaims,
+      profile.credentials,
+      resolveOntology(profile.ontologyTerms),
+    ),
+    job.requirementOverrides,
+  );
   const mustHaveSummary = buildMustHaveSummary(requirements);
   const gapSuggestions = buildGapSuggestions(requirements);
 
@@ -567,10 +903,35 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
   // Final Score
   // ----------------------------------------------------------
 
-  const rawScore = roleScore + compScore + companyScore + domainScore - riskPenalty;
+  const weightedRole = scaleCategoryScore(roleScore, DEFAULT_WEIGHTS.roleScopeAuthority, weights.roleScopeAuthority);
+  const weightedComp = scaleCategoryScore(compScore, DEFAULT_WEIGHTS.compensationBenefits, weights.compensationBenefits);
+  const weightedCompany = scaleCategoryScore(companyScore, DEFAULT_WEIGHTS.companyStageAbility, weights.companyStageAbility);
+  const weightedDomain = scaleCategoryScore(domainScore, DEFAULT_WEIGHTS.domainFit, weights.domainFit);
+
+  const weightAdjustments: Array<[ScoreTraceCategory, number, number, number]> = [
+    ['roleScopeAuthority', roleScore, weightedRole, weights.roleScopeAuthority],
+    ['compensationBenefits', compScore, weightedComp, weights.compensationBenefits],
+    ['companyStageAbility', companyScore, weightedCompany, weights.companyStageAbility],
+    ['domainFit', domainScore, weightedDomain, weights.domainFit],
+  ];
+  for (const [category, raw, weighted, weight] of weightAdjustments) {
+    if (weighted !== raw) {
+      addTrace(category, `${category}.weight`, `Scaled to your ${weight}-point weight`, Math.round((weighted - raw) * 10) / 10);
+    }
+  }
+
+  const rawScore = weightedRole + weightedComp + weightedCompany + weightedDomain - riskPenalty + customRulePoints;
   const hasHardDisqualifier = disqualifiers.length > 0;
   const fitScore = hasHardDisqualifier ? 0 : Math.max(0, Math.min(100, rawScore));
-  const fitLabel = getFitLabel(fitScore);
+  if (fitScore !== rawScore) {
+    addTrace(
+      'adjustment',
+      hasHardDisqualifier ? 'adjustment.disqualified' : 'adjustment.clamp',
+      hasHardDisqualifier ? 'Hard disqualifier sets the score to 0' : 'Score limited to the 0-100 range',
+      Math.round((fitScore - rawScore) * 10) / 10,
+    );
+  }
+  const fitLabel = getFitLabel(fitScore, resolveScoreThresholds(profile));
   const normalizedDisqualifiers = dedupeMessages(disqualifiers);
   const normalizedRiskWarnings = dedupeMessages(riskWarnings);
   const normalizedReasonsToPursue = dedupeMessages(reasonsToPursue);
@@ -591,12 +952,15 @@ export function scoreJob(job: Partial<Job>, profile: Profile, claims?: Claim[]):
     redFlags: dedupeMessages(redFlags),
     requirementsExtracted: requirements,
     breakdown: {
-      roleScopeAuthority: roleScore,
-      compensationBenefits: compScore,
-      companyStageAbility: companyScore,
-      domainFit: domainScore,
+      roleScopeAuthority: weightedRole,
+      compensationBenefits: weightedComp,
+      companyStageAbility: weightedCompany,
+      domainFit: weightedDomain,
       riskPenalty,
     },
+    trace,
+    compNormalized: normalizedComp ?? undefined,
+    jdSections,
   };
 }
 
@@ -628,38 +992,6 @@ const PREFERRED_PATTERNS = [
   /\bwhat sets you apart\b/i,
 ];
 
-const TOOL_PATTERNS = [
-  'salesforce', 'hubspot', 'marketo', 'pardot', 'segment', 'amplitude',
-  'mixpanel', 'google analytics', 'ga4', 'tableau', 'looker', 'dbt',
-  'snowflake', 'bigquery', 'braze', 'iterable', 'klaviyo', 'mailchimp',
-  'meta ads', 'google ads', 'linkedin ads', 'tiktok ads',
-  'figma', 'notion', 'jira', 'asana',
-  'optimizely', 'launchdarkly', 'vwo', 'hotjar', 'fullstory',
-  'semrush', 'ahrefs', 'moz',
-  'adobe analytics', 'adobe experience manager',
-  'intercom', 'zendesk', 'drift', 'gong', 'outreach', 'salesloft',
-  'clearbit', 'zoominfo', '6sense', 'demandbase',
-  'attentive', 'postscript', 'yotpo',
-  'power bi', 'excel', 'sql',
-  'shopify', 'magento', 'stripe',
-];
-
-const SKILL_PATTERNS = [
-  'analytical',
-  'communication',
-  'leadership',
-  'project management',
-  'team management',
-  'strategic thinking',
-  'data-driven',
-  'cross-functional',
-  'stakeholder management',
-  'budget management',
-  'p&l',
-  'vendor management',
-  'agency management',
-];
-
 // ============================================================
 // Years-of-experience patterns
 // ============================================================
@@ -715,14 +1047,6 @@ function isPrioritySectionHeader(line: string): boolean {
 // Similarity / deduplication helpers
 // ============================================================
 
-/**
- * Normalize a tool name for deduplication.
- * Lowercase, collapse whitespace, strip trailing "s" for plurals.
- */
-function normalizeToolName(name: string): string {
-  return name.toLowerCase().trim().replace(/\s+/g, ' ');
-}
-
 /**
  * Normalize an experience description for similarity comparison.
  * Lowercase, remove filler words, collapse whitespace.
@@ -793,7 +1117,14 @@ function isDuplicateSkill(existing: Requirement[], desc: string): boolean {
 // Main extraction
 // ============================================================
 
-function extractRequirements(jd: string, claims?: Claim[]): Requirement[] {
+const EDUCATION_LINE_RE = /\bbachelor['\u2019]?s?\b|\bmaster['\u2019]?s?\b|\bmba\b|\bdegree\b/i;
+
+function extractRequirements(
+  jd: string,
+  claims: Claim[] | undefined,
+  credentials: CredentialRecord[] | undefined,
+  ontology: SkillOntology,
+): Requirement[] {
   const reqs: Requirement[] = [];
   const lines = jd.split('\n');
 
@@ -849,7 +1180,7 @@ function extractRequirements(jd: string, claims?: Claim[]): Requirement[] {
           break;
         }
 
-        const match = matchExperienceClaim(years, desc, claims);
+        const match = matchExperienceRequirement(years, desc, claims, { ontology });
 
         reqs.push({
           type: 'experience',
@@ -864,14 +1195,29 @@ function extractRequirements(jd: string, claims?: Claim[]): Requirement[] {
     }
 
     // ---- Tools ----
-    for (const tool of TOOL_PATTERNS) {
-      const normalized = normalizeToolName(tool);
-      if (lineLower.includes(normalized) && !addedTools.has(normalized)) {
-        addedTools.add(normalized);
-        const match = matchToolClaim(tool, claims);
+    for (const term of findTerms(line, ontology, { kind: 'tool' })) {
+      const key = term.canonical.toLowerCase();
+      if (addedTools.has(key)) continue;
+      addedTools.add(key);
+      const match = matchToolClaim(term, claims, ontology);
+      reqs.push({
+        type: 'tool',
+        description: term.canonical,
+        priority: linePriority,
+        match: match.status,
+        evidence: match.evidence,
+      });
+    }
+
+    // ---- Skills ----
+    for (const term of findTerms(line, ontology, { kind: 'skill' })) {
+      // Build a meaningful description from the line context
+      const skillDesc = buildSkillDescription(line, term.canonical);
+      if (!isDuplicateSkill(reqs, skillDesc)) {
+        const match = matchSkillClaim(term, claims, ontology);
         reqs.push({
-          type: 'tool',
-          description: capitalizeFirst(tool),
+          type: 'skill',
+          description: cleanDescription(skillDesc),
           priority: linePriority,
           match: match.status,
           evidence: match.evidence,
@@ -879,37 +1225,25 @@ function extractRequirements(jd: string, claims?: Claim[]): Requirement[] {
       }
     }
 
-    // ---- Skills (new) ----
-    // Detect lines that mention soft/hard skills from SKILL_PATTERNS
-    for (const skill of SKILL_PATTERNS) {
-      const skillLower = skill.toLowerCase();
-      if (lineLower.includes(skillLower)) {
-        // Build a meaningful description from the line context
-        const skillDesc = buildSkillDescription(line, skill);
-        if (!isDuplicateSkill(reqs, skillDesc)) {
-          const match = matchSkillClaim(skill, claims);
-          reqs.push({
-            type: 'skill',
-            description: cleanDescription(skillDesc),
-            priority: linePriority,
-            match: match.status,
-            evidence: match.evidence,
-          });
-        }
-      }
-    }
-
     // ---- Education ----
-    if (/\bbachelor[''\u2019]?s?\b|\bmaster[''\u2019]?s?\b|\bmba\b|\bdegree\b/i.test(lineLower)) {
-      const desc = cleanDescription(line);
-      const descNorm = normalizeExpDescription(desc);
-      if (desc && !addedEducationNorm.has(descNorm)) {
+    if (EDUCATION_LINE_RE.test(lineLower)) {
+      // "Bachelor's required; MBA preferred" is two requirements, not one Must MBA.
+      const { required, preferred } = splitDegreeClauses(line);
+      const parts: Array<[string, RequirementPriority]> = EDUCATION_LINE_RE.test(required) && EDUCATION_LINE_RE.test(preferred)
+        ? [[required, linePriority === 'Preferred' ? currentPriority : linePriority], [preferred, 'Preferred']]
+        : [[line, linePriority]];
+      for (const [text, priority] of parts) {
+        const desc = cleanDescription(text);
+        const descNorm = normalizeExpDescription(desc);
+        if (!desc || addedEducationNorm.has(descNorm)) continue;
         addedEducationNorm.add(descNorm);
+        const match = matchCredentialRequirement('education', desc, credentials);
         reqs.push({
           type: 'education',
           description: desc,
-          priority: linePriority,
-          match: 'Missing', // User would need to verify manually
+          priority,
+          match: match.status,
+          evidence: match.evidence,
         });
       }
     }
@@ -920,11 +1254,13 @@ function extractRequirements(jd: string, claims?: Claim[]): Requirement[] {
       const descNorm = normalizeExpDescription(desc);
       if (desc && !addedCertNorm.has(descNorm)) {
         addedCertNorm.add(descNorm);
+        const match = matchCredentialRequirement('certification', desc, credentials);
         reqs.push({
           type: 'certification',
           description: desc,
           priority: linePriority,
-          match: 'Missing',
+          match: match.status,
+          evidence: match.evidence,
         });
       }
     }
@@ -969,183 +1305,86 @@ interface MatchResult {
   evidence?: string;
 }
 
-// Stop words to exclude when computing keyword match scores.
-// These add noise and inflate match ratios for unrelated claims.
-const KEYWORD_STOP_WORDS = new Set([
-  'with', 'that', 'this', 'from', 'have', 'been', 'will', 'they',
-  'their', 'them', 'than', 'also', 'over', 'into', 'such', 'more',
-  'well', 'very', 'just', 'like', 'work', 'role', 'team', 'ability',
-  'strong', 'knowledge', 'understanding', 'experience', 'including',
-  'related', 'across', 'within', 'between', 'through',
-]);
-
-function matchExperienceClaim(yearsNeeded: number, description: string, claims?: Claim[]): MatchResult {
-  if (!claims || claims.length === 0) return { status: 'Missing' };
+function claimEvidenceText(claim: Claim, includeRole = false): string {
+  return [
+    ...(includeRole ? [claim.role] : []),
+    ...claim.responsibilities,
+    ...claim.outcomes.map((o) => o.description),
+  ].join(' ');
+}
 
-  const descLower = description.toLowerCase();
-  // Filter keywords: must be > 3 chars, not a stop word
-  const keywords = descLower
-    .split(/\s+/)
-    .filter((w) => w.length > 3 && !KEYWORD_STOP_WORDS.has(w));
+/**
+ * Find the closest held term to a required one across all claims. Exact and
+ * narrower matches are Met; broader and related matches are Partial with an
+ * explanation. Met anywhere beats Partial anywhere.
+ */
+function matchTermInClaims(
+  required: OntologyTerm,
+  claims: Claim[],
+  heldTermsFor: (claim: Claim) => Array<{ term: OntologyTerm; listed: boolean }>,
+  describeMet: (claim: Claim, listed: boolean) => string,
+  ontology: SkillOntology,
+): MatchResult {
+  let partial: MatchResult | null = null;
 
   for (const claim of claims) {
-    // Calculate approximate years at this role
-    const years = estimateClaimYears(claim);
-
-    // Check if claim responsibilities/outcomes match the description
-    const allText = [
-      claim.role,
-      ...claim.responsibilities,
-      ...claim.outcomes.map((o) => o.description),
-    ].join(' ').toLowerCase();
-
-    // Weight longer keywords more heavily:
-    // Each keyword gets weight = max(1, keyword.length - 3).
-    // This means "marketing" (9 chars, weight 6) counts more than "data" (4 chars, weight 1).
-    let totalWeight = 0;
-    let matchedWeight = 0;
-    for (const kw of keywords) {
-      const weight = Math.max(1, kw.length - 3);
-      totalWeight += weight;
-      if (allText.includes(kw)) {
-        matchedWeight += weight;
-      }
-    }
-
-    // Also check claim.tools for tool-like keywords in the description
-    for (const tool of claim.tools) {
-      const toolLower = tool.toLowerCase();
-      if (descLower.includes(toolLower)) {
-        // Boost: treat tool match as significant evidence
-        matchedWeight += Math.max(1, toolLower.length - 3);
-        totalWeight += Math.max(1, toolLower.length - 3);
-      }
-    }
-
-    const keywordMatchRatio = totalWeight > 0 ? matchedWeight / totalWeight : 0;
-
-    // Threshold: 40% weighted match required for "Met"
-    if (keywordMatchRatio >= 0.4) {
-      if (years >= yearsNeeded) {
+    for (const { term, listed } of heldTermsFor(claim)) {
+      const relation = relateTerms(required, term, ontology);
+      if (relation === 'exact') return { status: 'Met', evidence: describeMet(claim, listed) };
+      if (relation === 'narrower') {
         return {
           status: 'Met',
-          evidence: `${claim.role} at ${claim.company} (${years}+ yrs)`,
+          evidence: `${describeMet(claim, listed)}; ${describeTermRelation(required, term, relation, ontology)}`,
         };
-      } else if (years >= yearsNeeded * 0.6) {
-        return {
+      }
+      if (relation && !partial) {
+        partial = {
           status: 'Partial',
-          evidence: `${claim.role} at ${claim.company} (${years} yrs, need ${yearsNeeded})`,
+          evidence: `${describeTermRelation(required, term, relation, ontology)} (${claim.role} at ${claim.company})`,
         };
       }
     }
   }
 
-  // Check across all claims for total years
-  const totalYears = claims.reduce((sum, c) => sum + estimateClaimYears(c), 0);
-  if (totalYears >= yearsNeeded) {
-    return {
-      status: 'Partial',
-      evidence: `${totalYears} total years across ${claims.length} role${claims.length !== 1 ? 's' : ''}`,
-    };
-  }
-
-  return { status: 'Missing' };
+  return partial ?? { status: 'Missing' };
 }
 
-function matchToolClaim(tool: string, claims?: Claim[]): MatchResult {
+function matchToolClaim(tool: OntologyTerm, claims: Claim[] | undefined, ontology: SkillOntology): MatchResult {
   if (!claims || claims.length === 0) return { status: 'Missing' };
 
-  const toolLower = tool.toLowerCase();
-
-  for (const claim of claims) {
-    // Check tools array (case-insensitive, normalized)
-    if (claim.tools.some((t) => normalizeToolName(t) === normalizeToolName(toolLower))) {
-      return {
-        status: 'Met',
-        evidence: `Used at ${claim.company} (${claim.role})`,
-      };
-    }
-
-    // Check responsibilities/outcomes text
-    const allText = [
-      ...claim.responsibilities,
-      ...claim.outcomes.map((o) => o.description),
-    ].join(' ').toLowerCase();
-
-    if (allText.includes(toolLower)) {
-      return {
-        status: 'Met',
-        evidence: `Referenced in ${claim.role} at ${claim.company}`,
-      };
-    }
-  }
-
-  return { status: 'Missing' };
+  return matchTermInClaims(
+    tool,
+    claims,
+    (claim) => {
+      const listed = claim.tools
+        .map((name) => resolveTerm(name, ontology))
+        .filter((term): term is OntologyTerm => term !== null)
+        .map((term) => ({ term, listed: true }));
+      const mentioned = findTerms(claimEvidenceText(claim), ontology, { kind: 'tool' })
+        .map((term) => ({ term, listed: false }));
+      return [...listed, ...mentioned];
+    },
+    (claim, listed) => (listed
+      ? `Used at ${claim.company} (${claim.role})`
+      : `Referenced in ${claim.role} at ${claim.company}`),
+    ontology,
+  );
 }
 
 /**
- * Match a skill keyword against claims.
- * Looks for the skill keyword in responsibilities, outcomes, and role text.
+ * Match a skill against claims. Looks for the skill, its aliases, and
+ * related skills in responsibilities, outcomes, and role text.
  */
-function matchSkillClaim(skill: string, claims?: Claim[]): MatchResult {
+function matchSkillClaim(skill: OntologyTerm, claims: Claim[] | undefined, ontology: SkillOntology): MatchResult {
   if (!claims || claims.length === 0) return { status: 'Missing' };
 
-  const skillLower = skill.toLowerCase();
-
-  for (const claim of claims) {
-    const allText = [
-      claim.role,
-      ...claim.responsibilities,
-      ...claim.outcomes.map((o) => o.description),
-    ].join(' ').toLowerCase();
-
-    if (allText.includes(skillLower)) {
-      return {
-        status: 'Met',
-        evidence: `Demonstrated in ${claim.role} at ${claim.company}`,
-      };
-    }
-  }
-
-  return { status: 'Missing' };
-}
-
-function estimateClaimYears(claim: Claim): number {
-  if (!claim.startDate) return 0;
-
-  const start = parseClaimDate(claim.startDate);
-  const end = claim.endDate ? parseClaimDate(claim.endDate) : new Date();
-
-  if (!start) return 0;
-  const endDate = end || new Date();
-
-  const diffMs = endDate.getTime() - start.getTime();
-  return Math.max(0, Math.round(diffMs / (365.25 * 24 * 60 * 60 * 1000)));
-}
-
-function parseClaimDate(dateStr: string): Date | null {
-  // Try "Month Year" format
-  const match = dateStr.match(/(\w+)\s+(\d{4})/);
-  if (match) {
-    const months: Record<string, number> = {
-      jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2,
-      apr: 3, april: 3, may: 4, jun: 5, june: 5,
-      jul: 6, july: 6, aug: 7, august: 7, sep: 8, september: 8,
-      oct: 9, october: 9, nov: 10, november: 10, dec: 11, december: 11,
-    };
-    const monthNum = months[match[1].toLowerCase()];
-    if (monthNum !== undefined) {
-      return new Date(parseInt(match[2]), monthNum, 1);
-    }
-  }
-
-  // Try just year
-  const yearMatch = dateStr.match(/^(\d{4})$/);
-  if (yearMatch) {
-    return new Date(parseInt(yearMatch[1]), 0, 1);
-  }
-
-  return null;
+  return matchTermInClaims(
+    skill,
+    claims,
+    (claim) => findTerms(claimEvidenceText(claim, true), ontology).map((term) => ({ term, listed: false })),
+    (claim) => `Demonstrated in ${claim.role} at ${claim.company}`,
+    ontology,
+  );
 }
 
 function capitalizeFirst(s: string): string {
@@ -0,0 +1,243 @@
+// Job Filter v2 — Scoring Lexicons
+// Per-profile signal dictionaries consumed by the scoring engine.
+// Role family presets seed the lists; users edit them in Settings.
+
+import type { Profile, RiskSignalRule, RoleFamilyId, ScoringLexicon } from '../types';
+
+export interface RoleFamilyPreset {
+  id: RoleFamilyId;
+  label: string;
+  domainLabel: string;
+  lexicon: Omit<ScoringLexicon, 'roleFamily'>;
+}
+
+const SHARED_SENIOR_TITLES = ['vp', 'vice president', 'head of', 'director', 'chief', 'svp', 'senior vice president'];
+
+const SHARED_TEAM_SIGNALS = ['manage a team', 'direct reports', 'build a team', 'lead a team'];
+
+const SHARED_RISK_SIGNALS: RiskSignalRule[] = [
+  { pattern: 'miracle', penalty: 3, flag: 'JD implies "miracle needed" expectations' },
+  { pattern: 'wear many hats', penalty: 2, flag: 'Wear-many-hats language (resource constrained)' },
+  { pattern: 'startup mentality', penalty: 1, flag: 'Startup mentality language' },
+  { pattern: 'unicorn', penalty: 2, flag: 'Looking for a "unicorn" (unrealistic expectations)' },
+  { pattern: 'do it all', penalty: 3, flag: 'Expects one person to "do it all"' },
+];
+
+export const ROLE_FAMILY_PRESETS: RoleFamilyPreset[] = [
+  {
+    id: 'growth_marketing',
+    label: 'Growth & marketing',
+    domainLabel: 'growth/lifecycle/GTM',
+    lexicon: {
+      seniorTitles: SHARED_SENIOR_TITLES,
+      strategySignals: ['strategy', 'strategic', 'roadmap', 'vision', 'build the team', 'lead the team', 'cross-functional', 'p&l', 'budget ownership'],
+      teamSignals: SHARED_TEAM_SIGNALS,
+      domainSignals: [
+        'growth', 'lifecycle', 'gtm', 'go-to-market', 'revenue', 'demand gen',
+        'acquisition', 'retention', 'conversion', 'funnel', 'marketing ops',
+        'ecommerce', 'e-commerce', 'b2c', 'dtc', 'direct-to-consumer',
+        'martech', 'analytics', 'attribution', 'experimentation',
+      ],
+      excludedRoleKeywords: [
+        'paid media manager',
+        'paid social manager',
+        'ppc manager',
+        'performance marketing manager',
+        'paid acquisition manager',
+        'sem manager',
+        'paid search manager',
+        'media buyer',
+      ],
+      excludedDutyPhrases: ['manage paid', 'run paid', 'execute paid'],
+      excludedRoleLabel: 'hands-on paid media account management',
+      riskSignals: SHARED_RISK_SIGNALS,
+    },
+  },
+  {
+    id: 'engineering',
+    label: 'Engineering',
+    domainLabel: 'software engineering',
+    lexicon: {
+      seniorTitles: [...SHARED_SENIOR_TITLES, 'principal', 'staff', 'distinguished', 'architect', 'engineering manager'],
+      strategySignals: ['architecture', 'technical strategy', 'technical direction', 'roadmap', 'system design', 'cross-functional', 'mentor', 'rfc', 'technical vision'],
+      teamSignals: [...SHARED_TEAM_SIGNALS, 'grow the team', 'hiring engineers'],
+      domainSignals: [
+        'distributed systems', 'backend', 'frontend', 'full stack', 'full-stack',
+        'api', 'microservices', 'cloud', 'aws', 'gcp', 'azure', 'kubernetes',
+        'typescript', 'python', 'golang', 'java', 'ci/cd', 'observability',
+        'scalability', 'reliability', 'performance', 'security',
+      ],
+      excludedRoleKeywords: ['qa tester', 'manual tester', 'help desk technician', 'it support technician'],
+      excludedDutyPhrases: ['manual testing', 'ticket triage', 'on-call rotation 24/7'],
+      excludedRoleLabel: 'primarily manual testing or support work',
+      riskSignals: [
+        ...SHARED_RISK_SIGNALS,
+        { pattern: 'rockstar', penalty: 1, flag: 'Rockstar/ninja language' },
+        { pattern: '10x engineer', penalty: 2, flag: 'Expects a "10x engineer"' },
+      ],
+    },
+  },
+  {
+    id: 'product',
+    label: 'Product management',
+    domainLabel: 'product management',
+    lexicon: {
+      seniorTitles: [...SHARED_SENIOR_TITLES, 'group product manager', 'principal product manager', 'cpo'],
+      strategySignals: ['product strategy', 'product vision', 'roadmap', 'prioritization', 'okrs', 'cross-functional', 'p&l', 'market research', 'go-to-market'],
+      teamSignals: [...SHARED_TEAM_SIGNALS, 'manage product managers'],
+      domainSignals: [
+        'product discovery', 'user research', 'customer interviews', 'product-led',
+        'plg', 'experimentation', 'a/b test', 'analytics', 'metrics', 'activation',
+        'retention', 'platform', 'b2b', 'saas', 'api', 'pricing', 'monetization',
+        'requirements', 'prd', 'launch',
+      ],
+      excludedRoleKeywords: ['project coordinator', 'scrum master', 'product owner (contract)'],
+      excludedDutyPhrases: ['write user stories only', 'backlog administration'],
+      excludedRoleLabel: 'delivery coordination rather than product ownership',
+      riskSignals: SHARED_RISK_SIGNALS,
+    },
+  },
+  {
+    id: 'data',
+    label: 'Data & analytics',
+    domainLabel: 'data/analytics',
+    lexicon: {
+      seniorTitles: [...SHARED_SENIOR_TITLES, 'principal', 'staff', 'lead data'],
+      strategySignals: ['data strategy', 'roadmap', 'vision', 'cross-functional', 'stakeholder', 'governance', 'build the team', 'lead the team'],
+      teamSignals: SHARED_TEAM_SIGNALS,
+      domainSignals: [
+        'sql', 'python', 'dbt', 'snowflake', 'bigquery', 'data warehouse',
+        'data modeling', 'etl', 'elt', 'machine learning', 'statistics',
+        'experimentation', 'causal', 'forecasting', 'dashboards', 'looker',
+        'tableau', 'analytics engineering', 'data pipeline', 'airflow',
+      ],
+      excludedRoleKeywords: ['data entry', 'data entry clerk', 'reporting clerk'],
+      excludedDutyPhrases: ['manual data entry', 'keying data'],
+      excludedRoleLabel: 'manual data entry',
+      riskSignals: SHARED_RISK_SIGNALS,
+    },
+  },
+  {
+    id: 'sales',
+    label: 'Sales & revenue',
+    domainLabel: 'sales/revenue',
+    lexicon: {
+      seniorTitles: [...SHARED_SENIOR_TITLES, 'cro', 'regional vice president', 'rvp'],
+      strategySignals: ['sales strategy', 'territory planning', 'forecast', 'quota', 'go-to-market', 'cross-functional', 'p&l', 'enablement', 'pipeline strategy'],
+      teamSignals: [...SHARED_TEAM_SIGNALS, 'manage account executives', 'build the sales team'],
+      domainSignals: [
+        'enterprise', 'mid-market', 'smb', 'saas', 'b2b', 'pipeline', 'quota',
+        'annual recurring revenue', 'bookings', 'closing', 'negotiation', 'account management',
+        'customer success', 'partnerships', 'channel', 'salesforce', 'meddic',
+        'forecasting', 'revenue', 'expansion',
+      ],
+      excludedRoleKeywords: ['cold caller', 'telemarketer', 'door-to-door'],
+      excludedDutyPhrases: ['100% commission', 'commission only'],
+      excludedRoleLabel: 'commission-only or cold-calling work',
+      riskSignals: SHARED_RISK_SIGNALS,
+    },
+  },
+  {
+    id: 'design',
+    label: 'Design',
+    domainLabel: 'product design',
+    lexicon: {
+      seniorTitles: [...SHARED_SENIOR_TITLES, 'principal designer', 'design manager', 'staff designer'],
+      strategySignals: ['design strategy', 'design vision', 'design system', 'roadmap', 'cross-functional', 'research strategy', 'craft', 'build the team'],
+      teamSignals: SHARED_TEAM_SIGNALS,
+      domainSignals: [
+        'ux', 'ui', 'interaction design', 'user research', 'usability', 'prototyping',
+        'figma', 'design system', 'accessibility', 'visual design', 'information architecture',
+        'journey mapping', 'service design', 'product design', 'motion',
+      ],
+      excludedRoleKeywords: ['production artist', 'print designer'],
+      excludedDutyPhrases: ['resize banners', 'print production'],
+      excludedRoleLabel: 'production-only design work',
+      riskSignals: SHARED_RISK_SIGNALS,
+    },
+  },
+];
+
+export const DEFAULT_ROLE_FAMILY: RoleFamilyId = 'growth_marketing';
+
+const PRESET_BY_ID = new Map(ROLE_FAMILY_PRESETS.map((preset) => [preset.id, preset]));
+
+export function getRoleFamilyPreset(roleFamily: RoleFamilyId | undefined): RoleFamilyPreset {
+  return PRESET_BY_ID.get(roleFamily ?? DEFAULT_ROLE_FAMILY) ?? PRESET_BY_ID.get(DEFAULT_ROLE_FAMILY)!;
+}
+
+export function createLexiconFromPreset(roleFamily: RoleFamilyId): ScoringLexicon {
+  const preset = getRoleFamilyPreset(roleFamily);
+  return {
+    roleFamily: preset.id,
+    seniorTitles: [...preset.lexicon.seniorTitles],
+    strategySignals: [...preset.lexicon.strategySignals],
+    teamSignals: [...preset.lexicon.teamSignals],
+    domainSignals: [...preset.lexicon.domainSignals],
+    excludedRoleKeywords: [...preset.lexicon.excludedRoleKeywords],
+    excludedDutyPhrases: [...preset.lexicon.excludedDutyPhrases],
+    excludedRoleLabel: preset.lexicon.excludedRoleLabel,
+    riskSignals: preset.lexicon.riskSignals.map((signal) => ({ ...signal })),
+  };
+}
+
+function sanitizeSignalList(values: string[] | undefined): string[] {
+  if (!Array.isArray(values)) return [];
+  const seen = new Set<string>();
+  const output: string[] = [];
+  for (const value of values) {
+    const normalized = String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!normalized || seen.has(normalized)) continue;
+    seen.add(normalized);
+    output.push(normalized);
+  }
+  return output;
+}
+
+function sanitizeRiskSignals(values: RiskSignalRule[] | undefined): RiskSignalRule[] {
+  if (!Array.isArray(values)) return [];
+  const seen = new Set<string>();
+  const output: RiskSignalRule[] = [];
+  for (const value of values) {
+    const pattern = String(value?.pattern ?? '').trim().toLowerCase();
+    if (!pattern || seen.has(pattern)) continue;
+    seen.add(pattern);
+    const penalty = Number(value.penalty);
+    output.push({
+      pattern,
+      penalty: Number.isFinite(penalty) ? Math.min(10, Math.max(0, Math.round(penalty))) : 0,
+      flag: String(value.flag ?? '').trim() || `JD mentions "${pattern}"`,
+    });
+  }
+  return output;
+}
+
+/**
+ * Normalize a user-edited lexicon. Lists are lowercased and deduped so the
+ * scorer can match them against the lowercased JD without extra work.
+ */
+export function sanitizeScoringLexicon(input: Partial<ScoringLexicon> | undefined): ScoringLexicon {
+  const base = createLexiconFromPreset(input?.roleFamily ?? DEFAULT_ROLE_FAMILY);
+  if (!input) return base;
+
+  return {
+    roleFamily: base.roleFamily,
+    seniorTitles: input.seniorTitles ? sanitizeSignalList(input.seniorTitles) : base.seniorTitles,
+    strategySignals: input.strategySignals ? sanitizeSignalList(input.strategySignals) : base.strategySignals,
+    teamSignals: input.teamSignals ? sanitizeSignalList(input.teamSignals) : base.teamSignals,
+    domainSignals: input.domainSignals ? sanitizeSignalList(input.domainSignals) : base.domainSignals,
+    excludedRoleKeywords: input.excludedRoleKeywords ? sanitizeSignalList(input.excludedRoleKeywords) : base.excludedRoleKeywords,
+    excludedDutyPhrases: input.excludedDutyPhrases ? sanitizeSignalList(input.excludedDutyPhrases) : base.excludedDutyPhrases,
+    excludedRoleLabel: input.excludedRoleLabel?.trim() || base.excludedRoleLabel,
+    riskSignals: input.riskSignals ? sanitizeRiskSignals(input.riskSignals) : base.riskSignals,
+  };
+}
+
+/**
+ * Resolve the lexicon the scorer should use for a profile. Profiles saved
+ * before lexicons existed fall back to the growth-marketing preset, which
+ * matches the signals the engine used to hardcode.
+ */
+export function resolveScoringLexicon(profile: Pick<Profile, 'scoringLexicon'>): ScoringLexicon {
+  return sanitizeScoringLexicon(profile.scoringLexicon);
+}
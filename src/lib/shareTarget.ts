@@ -0,0 +1,89 @@
+// Job Filter v2 — Share Target
+// Turns what another app shares to the installed PWA (manifest
+// `share_target`, GET /share-target?title=&text=&url=) into capture-form
+// fields. Apps disagree on which field carries what: LinkedIn puts the link
+// and "Check out this job at …" in `text`, browsers send the page title.
+
+import type { PendingShare } from '../types';
+import { parseJobLink } from './alertDigest';
+
+export type SharedContent = Pick<PendingShare, 'title' | 'text' | 'url'>;
+
+export interface CapturePrefill {
+  title?: string;
+  company?: string;
+  url?: string;
+  source?: string;
+  jobDescription?: string;
+  /** Queued share to clear once the job is saved. */
+  shareId?: string;
+}
+
+/** Shared text longer than this is treated as a pasted description. */
+const MIN_DESCRIPTION_LENGTH = 200;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/;
+const SITE_SUFFIX = /\s*[|–—-]\s*(?:LinkedIn|Indeed(?:\.com)?|Glassdoor|Wellfound|Built In)\s*$/i;
+
+// "Check out this job at Acme: Director of Growth"
+const CHECK_OUT_JOB = /^check out this job at (.+?):\s*(.+)$/i;
+// LinkedIn page titles: "Acme hiring Director of Growth in New York, NY"
+const COMPANY_HIRING = /^(.+?) hiring (.+?)(?: in .+)?$/i;
+// "Director of Growth at Acme"
+const TITLE_AT_COMPANY = /^(.+?)\s+(?:at|@)\s+(.+)$/i;
+// "Director of Growth - Acme | Indeed.com"; only trusted with a site suffix, since
+// "Growth Lead - Remote" uses the same dash
+const TITLE_DASH_COMPANY = /^(.+?)\s+[-–—|]\s+(.+)$/;
+
+export function readShareParams(params: URLSearchParams): SharedContent | null {
+  const share: SharedContent = {};
+  for (const key of ['title', 'text', 'url'] as const) {
+    const value = params.get(key)?.trim();
+    if (value) share[key] = value;
+  }
+  return Object.keys(share).length > 0 ? share : null;
+}
+
+function titleAndCompany(line: string): Pick<CapturePrefill, 'title' | 'company'> | null {
+  const text = line.replace(SITE_SUFFIX, '').trim();
+  const checkOut = text.match(CHECK_OUT_JOB);
+  if (checkOut) return { company: checkOut[1].trim(), title: checkOut[2].trim() };
+  const hiring = text.match(COMPANY_HIRING);
+  if (hiring) return { company: hiring[1].trim(), title: hiring[2].trim() };
+  const split = text.match(TITLE_AT_COMPANY) ?? (SITE_SUFFIX.test(line) ? text.match(TITLE_DASH_COMPANY) : null);
+  if (split) return { title: split[1].trim(), company: split[2].trim() };
+  return null;
+}
+
+export function shareToCapturePrefill(share: SharedContent): CapturePrefill {
+  const rawUrl = share.url || share.text?.match(URL_PATTERN)?.[0] || share.title?.match(URL_PATTERN)?.[0];
+  const link = rawUrl ? parseJobLink(rawUrl) : null;
+  const text = (share.text ?? '').replace(URL_PATTERN, '').trim();
+  const title = (share.title ?? '').replace(URL_PATTERN, '').trim();
+
+  const prefill: CapturePrefill = {
+    url: link?.url ?? rawUrl,
+    source: link && link.source !== 'Other' ? link.source : undefined,
+  };
+
+  if (text.length >= MIN_DESCRIPTION_LENGTH) {
+    prefill.jobDescription = text;
+  }
+
+  const shortLines = [title, ...(prefill.jobDescription ? [] : text.split('\n'))].map((line) => line.trim()).filter(Boolean);
+  const parsed = shortLines.map(titleAndCompany).find(Boolean);
+  if (parsed) {
+    prefill.title = parsed.title;
+    prefill.company = parsed.company;
+  } else if (title && !/^(?:LinkedIn|Indeed|Glassdoor)$/i.test(title)) {
+    prefill.title = title.replace(SITE_SUFFIX, '');
+  }
+
+  return Object.fromEntries(Object.entries(prefill).filter(([, value]) => value)) as CapturePrefill;
+}
+
+/** Open the capture form filled from a queued share. */
+export function openShareInCapture(share: PendingShare): void {
+  const detail: CapturePrefill = { ...shareToCapturePrefill(share), shareId: share.id };
+  window.dispatchEvent(new CustomEvent('open-capture-modal', { detail }));
+}
@@ -0,0 +1,380 @@
+// Job Filter v2 — Skill & Tool Ontology
+// One vocabulary of skills and tools with canonical names, aliases, parent
+// terms and related terms. Resume import uses it to detect tools; JD
+// requirement extraction uses it to find and match skills and tools. Users
+// can extend it from Settings (Profile.ontologyTerms).
+
+import type { OntologyTerm, OntologyTermKind } from '../types';
+
+// ============================================================
+// Built-in vocabulary
+// ============================================================
+
+const tool = (canonical: string, extra: Omit<OntologyTerm, 'canonical' | 'kind'> = {}): OntologyTerm => ({
+  canonical,
+  kind: 'tool',
+  ...extra,
+});
+
+const skill = (canonical: string, extra: Omit<OntologyTerm, 'canonical' | 'kind'> = {}): OntologyTerm => ({
+  canonical,
+  kind: 'skill',
+  ...extra,
+});
+
+const toolCategory = (canonical: string, aliases: string[] = []): OntologyTerm => tool(canonical, { aliases, category: true });
+
+export const BUILT_IN_ONTOLOGY: OntologyTerm[] = [
+  // Tool categories
+  toolCategory('CRM', ['crm platform', 'crm system']),
+  toolCategory('Marketing automation', ['marketing automation platform']),
+  toolCategory('Web analytics'),
+  toolCategory('Product analytics'),
+  toolCategory('BI', ['business intelligence', 'bi tools']),
+  toolCategory('Data warehouse', ['cloud data warehouse']),
+  toolCategory('Customer data platform', ['cdp']),
+  toolCategory('Paid social', ['paid social platforms']),
+  toolCategory('Sales engagement'),
+  toolCategory('Experimentation', ['a/b testing tools', 'experimentation platform']),
+  toolCategory('Cloud platform', ['cloud platforms']),
+  toolCategory('Project management tools'),
+  toolCategory('Customer support platform', ['helpdesk']),
+  toolCategory('Sales intelligence'),
+  toolCategory('SEO tools'),
+  toolCategory('CMS', ['content management system']),
+  toolCategory('Ecommerce platform'),
+  toolCategory('SMS marketing'),
+  toolCategory('Social media management'),
+
+  // Tools
+  tool('Salesforce', { aliases: ['sfdc', 'salesforce crm', 'salesforce.com', 'sales cloud'], parent: 'CRM' }),
+  tool('HubSpot', { aliases: ['hubspot crm', 'hub spot'], parent: 'CRM', related: ['Marketing automation'] }),
+  tool('Marketo', { aliases: ['adobe marketo', 'marketo engage'], parent: 'Marketing automation' }),
+  tool('Pardot', { aliases: ['account engagement'], parent: 'Marketing automation', related: ['Salesforce'] }),
+  tool('Braze', { parent: 'Marketing automation' }),
+  tool('Iterable', { parent: 'Marketing automation', caseSensitive: true }),
+  tool('Klaviyo', { parent: 'Marketing automation' }),
+  tool('Mailchimp', { aliases: ['mail chimp'], parent: 'Marketing automation' }),
+  tool('Adobe Campaign', { parent: 'Marketing automation' }),
+  tool('Segment', { aliases: ['twilio segment'], parent: 'Customer data platform', caseSensitive: true }),
+  tool('Google Analytics', { aliases: ['universal analytics'], parent: 'Web analytics' }),
+  tool('GA4', { aliases: ['google analytics 4', 'ga 4'], parent: 'Google Analytics' }),
+  tool('Adobe Analytics', { aliases: ['omniture'], parent: 'Web analytics' }),
+  tool('Amplitude', { parent: 'Product analytics' }),
+  tool('Mixpanel', { parent: 'Product analytics' }),
+  tool('Hotjar', { parent: 'Product analytics' }),
+  tool('FullStory', { aliases: ['full story'], parent: 'Product analytics' }),
+  tool('Tableau', { parent: 'BI' }),
+  tool('Looker', { aliases: ['looker studio', 'google data studio', 'data studio'], parent: 'BI' }),
+  tool('Power BI', { aliases: ['powerbi'], parent: 'BI' }),
+  tool('Excel', { aliases: ['microsoft excel', 'ms excel'], related: ['BI'], caseSensitive: true }),
+  tool('dbt', { aliases: ['data build tool'], related: ['Data warehouse'] }),
+  tool('Snowflake', { parent: 'Data warehouse' }),
+  tool('BigQuery', { aliases: ['big query', 'google bigquery'], parent: 'Data warehouse' }),
+  tool('SQL', { related: ['Data warehouse'] }),
+  tool('PostgreSQL', { aliases: ['postgres'], related: ['SQL'] }),
+  tool('MongoDB', { aliases: ['mongo'] }),
+  tool('Python'),
+  tool('Meta Ads', { aliases: ['facebook ads', 'fb ads', 'meta ads manager', 'facebook ads manager', 'instagram ads'], parent: 'Paid social' }),
+  tool('LinkedIn Ads', { aliases: ['linked in ads', 'linkedin campaign manager'], parent: 'Paid social' }),
+  tool('TikTok Ads', { aliases: ['tik tok ads'], parent: 'Paid social' }),
+  tool('Google Ads', { aliases: ['adwords', 'google adwords'], related: ['Paid search'] }),
+  tool('Outreach', { aliases: ['outreach.io'], parent: 'Sales engagement', caseSensitive: true }),
+  tool('Salesloft', { aliases: ['sales loft'], parent: 'Sales engagement' }),
+  tool('Gong', { related: ['Sales engagement'] }),
+  tool('ZoomInfo', { aliases: ['zoom info'], parent: 'Sales intelligence' }),
+  tool('Clearbit', { parent: 'Sales intelligence' }),
+  tool('6sense', { parent: 'Sales intelligence', related: ['Account-based marketing'] }),
+  tool('Demandbase', { aliases: ['demand base'], parent: 'Sales intelligence', related: ['Account-based marketing'] }),
+  tool('Optimizely', { parent: 'Experimentation' }),
+  tool('VWO', { parent: 'Experimentation' }),
+  tool('LaunchDarkly', { aliases: ['launch darkly'], parent: 'Experimentation' }),
+  tool('AWS', { aliases: ['amazon web services'], parent: 'Cloud platform' }),
+  tool('GCP', { aliases: ['google cloud platform', 'google cloud'], parent: 'Cloud platform' }),
+  tool('Azure', { aliases: ['microsoft azure'], parent: 'Cloud platform' }),
+  tool('Jira', { parent: 'Project management tools' }),
+  tool('Asana', { parent: 'Project management tools' }),
+  tool('Trello', { parent: 'Project management tools' }),
+  tool('Notion', { related: ['Project management tools'], caseSensitive: true }),
+  tool('Airtable', { related: ['Project management tools'] }),
+  tool('Slack', { caseSensitive: true }),
+  tool('Figma'),
+  tool('Zapier'),
+  tool('Make', { aliases: ['make.com', 'integromat'], related: ['Zapier'], caseSensitive: true }),
+  tool('Intercom', { parent: 'Customer support platform' }),
+  tool('Zendesk', { parent: 'Customer support platform' }),
+  tool('Drift', { related: ['Intercom'], caseSensitive: true }),
+  tool('SEMrush', { parent: 'SEO tools' }),
+  tool('Ahrefs', { parent: 'SEO tools' }),
+  tool('Moz', { parent: 'SEO tools', caseSensitive: true }),
+  tool('WordPress', { aliases: ['wordpress.com', 'wordpress.org'], parent: 'CMS' }),
+  tool('Webflow', { parent: 'CMS' }),
+  tool('Contentful', { parent: 'CMS' }),
+  tool('Sanity', { parent: 'CMS', caseSensitive: true }),
+  tool('Adobe Experience Manager', { aliases: ['aem'], parent: 'CMS' }),
+  tool('Shopify', { parent: 'Ecommerce platform' }),
+  tool('Magento', { aliases: ['adobe commerce'], parent: 'Ecommerce platform' }),
+  tool('Stripe'),
+  tool('Attentive', { parent: 'SMS marketing', caseSensitive: true }),
+  tool('Postscript', { parent: 'SMS marketing', caseSensitive: true }),
+  tool('Yotpo'),
+  tool('Privy', { caseSensitive: true }),
+  tool('Sprout Social', { parent: 'Social media management' }),
+  tool('Hootsuite', { parent: 'Social media management' }),
+  tool('Buffer', { parent: 'Social media management', caseSensitive: true }),
+  tool('React', { aliases: ['react.js', 'reactjs'], caseSensitive: true }),
+  tool('Next.js', { aliases: ['next js', 'nextjs'], related: ['React'] }),
+  tool('Node.js', { aliases: ['node js', 'nodejs'] }),
+
+  // Skills
+  skill('Analytical', { aliases: ['analytical skills'] }),
+  skill('Communication', { aliases: ['communication skills'] }),
+  skill('Leadership', { related: ['Team management'] }),
+  skill('Project management', { related: ['Project management tools'] }),
+  skill('Team management', { aliases: ['people management', 'managing teams'], parent: 'Leadership' }),
+  skill('Strategic thinking', { aliases: ['strategic planning'] }),
+  skill('Data-driven', { aliases: ['data driven'], related: ['Analytical'] }),
+  skill('Cross-functional', { aliases: ['cross functional'], related: ['Stakeholder management'] }),
+  skill('Stakeholder management', { related: ['Cross-functional'] }),
+  skill('Budget management', { aliases: ['budget ownership'], related: ['P&L'] }),
+  skill('P&L', { aliases: ['p&l ownership', 'profit and loss'], related: ['Budget management'] }),
+  skill('Vendor management', { related: ['Agency management'] }),
+  skill('Agency management', { parent: 'Vendor management' }),
+  skill('Lifecycle marketing', { aliases: ['crm marketing'], related: ['Retention marketing', 'Marketing automation'] }),
+  skill('Email marketing', { parent: 'Lifecycle marketing' }),
+  skill('Retention marketing', { related: ['Lifecycle marketing'] }),
+  skill('Demand generation', { aliases: ['demand gen'], related: ['Account-based marketing', 'Paid acquisition'] }),
+  skill('Account-based marketing', { aliases: ['abm', 'account based marketing'], parent: 'Demand generation' }),
+  skill('Paid acquisition', { aliases: ['paid media', 'performance marketing'], related: ['Demand generation'] }),
+  skill('Paid search', { aliases: ['sem', 'ppc'], parent: 'Paid acquisition' }),
+  skill('SEO', { aliases: ['search engine optimization'], related: ['Content marketing'] }),
+  skill('Content marketing', { related: ['SEO'] }),
+  skill('Product marketing', { aliases: ['gtm strategy'] }),
+  skill('Growth marketing', { related: ['Demand generation', 'Lifecycle marketing'] }),
+  skill('Marketing operations', { aliases: ['marketing ops', 'mops'], related: ['Marketing automation'] }),
+  skill('Revenue operations', { aliases: ['revops', 'rev ops'], related: ['Marketing operations'] }),
+  skill('A/B testing', { aliases: ['ab testing', 'split testing'], related: ['Experimentation'] }),
+];
+
+// ============================================================
+// Lookup
+// ============================================================
+
+interface PhraseMatcher {
+  term: OntologyTerm;
+  phrase: string;
+  caseSensitive: boolean;
+}
+
+export interface SkillOntology {
+  terms: OntologyTerm[];
+  /** Lowercased canonical or alias → term. Tools win over skills on clashes. */
+  byName: Map<string, OntologyTerm>;
+  /** Longest phrase first, so "google analytics 4" wins over "google analytics". */
+  matchers: PhraseMatcher[];
+}
+
+function keyOf(value: string): string {
+  return value.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+function mergeTerm(base: OntologyTerm, extra: OntologyTerm): OntologyTerm {
+  const unique = (values: string[]) => [...new Map(values.map((value) => [keyOf(value), value])).values()];
+  return {
+    ...base,
+    aliases: unique([...(base.aliases ?? []), ...(extra.aliases ?? [])]),
+    related: unique([...(base.related ?? []), ...(extra.related ?? [])]),
+    parent: extra.parent ?? base.parent,
+  };
+}
+
+/**
+ * Build the lookup from the built-in vocabulary plus user terms. A user
+ * term whose name matches a built-in one extends it instead of replacing it.
+ */
+export function buildOntology(customTerms: OntologyTerm[] = []): SkillOntology {
+  const byCanonical = new Map<string, OntologyTerm>();
+  for (const term of [...BUILT_IN_ONTOLOGY, ...customTerms]) {
+    const key = `${term.kind}:${keyOf(term.canonical)}`;
+    const existing = byCanonical.get(key);
+    byCanonical.set(key, existing ? mergeTerm(existing, term) : term);
+  }
+
+  const terms = [...byCanonical.values()];
+  const byName = new Map<string, OntologyTerm>();
+  const matchers: PhraseMatcher[] = [];
+  // Skills first so tool names take the shared key.
+  for (const term of [...terms].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'skill' ? -1 : 1))) {
+    for (const name of [term.canonical, ...(term.aliases ?? [])]) {
+      const key = keyOf(name);
+      if (!key) continue;
+      byName.set(key, term);
+      matchers.push({
+        term,
+        phrase: name === term.canonical && term.caseSensitive ? name : key,
+        caseSensitive: Boolean(term.caseSensitive) && name === term.canonical,
+      });
+    }
+  }
+  matchers.sort((a, b) => b.phrase.length - a.phrase.length);
+
+  return { terms, byName, matchers };
+}
+
+let defaultOntology: SkillOntology | null = null;
+
+export function getDefaultOntology(): SkillOntology {
+  defaultOntology ??= buildOntology();
+  return defaultOntology;
+}
+
+export function resolveOntology(customTerms: OntologyTerm[] | undefined): SkillOntology {
+  return customTerms && customTerms.length > 0 ? buildOntology(customTerms) : getDefaultOntology();
+}
+
+export function resolveTerm(name: string, ontology: SkillOntology = getDefaultOntology()): OntologyTerm | null {
+  return ontology.byName.get(keyOf(name)) ?? null;
+}
+
+const BOUNDARY_RE = /[\s,;()/\-.:|'"!?[\]{}]/;
+
+function isBoundary(text: string, start: number, end: number): boolean {
+  const before = start > 0 ? text[start - 1] : ' ';
+  const after = end < text.length ? text[end] : ' ';
+  return BOUNDARY_RE.test(before) && BOUNDARY_RE.test(after);
+}
+
+export interface FindTermsOptions {
+  kind?: OntologyTermKind;
+  /** Include umbrella terms such as "CRM". Default true. */
+  includeCategories?: boolean;
+}
+
+/**
+ * Terms mentioned in text, in order of first mention. Longer phrases claim
+ * their span first, so "CRM marketing" is not also read as "CRM".
+ */
+export function findTerms(
+  text: string,
+  ontology: SkillOntology = getDefaultOntology(),
+  options: FindTermsOptions = {},
+): OntologyTerm[] {
+  const lower = text.toLowerCase();
+  const claimed: Array<[number, number]> = [];
+  const found: Array<{ term: OntologyTerm; index: number }> = [];
+  const seen = new Set<OntologyTerm>();
+
+  for (const matcher of ontology.matchers) {
+    if (options.kind && matcher.term.kind !== options.kind) continue;
+    if (options.includeCategories === false && matcher.term.category) continue;
+    const haystack = matcher.caseSensitive ? text : lower;
+
+    let index = haystack.indexOf(matcher.phrase);
+    while (index !== -1) {
+      const end = index + matcher.phrase.length;
+      const overlaps = claimed.some(([start, stop]) => index < stop && end > start);
+      if (!overlaps && isBoundary(text, index, end)) {
+        claimed.push([index, end]);
+        if (!seen.has(matcher.term)) {
+          seen.add(matcher.term);
+          found.push({ term: matcher.term, index });
+        }
+      }
+      index = haystack.indexOf(matcher.phrase, index + 1);
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index).map((entry) => entry.term);
+}
+
+// ============================================================
+// Relationships
+// ============================================================
+
+/**
+ * How a held term relates to a required one:
+ * - exact: same term (or an alias of it)
+ * - narrower: held is a kind of the required term (GA4 for Google Analytics)
+ * - broader: held is the parent of the required term (Google Analytics for GA4)
+ * - related: listed as related, or both sit under the same parent
+ */
+export type TermRelation = 'exact' | 'narrower' | 'broader' | 'related';
+
+function ancestors(term: OntologyTerm, ontology: SkillOntology): OntologyTerm[] {
+  const chain: OntologyTerm[] = [];
+  let current = term.parent ? resolveTerm(term.parent, ontology) : null;
+  while (current && !chain.includes(current) && current !== term) {
+    chain.push(current);
+    current = current.parent ? resolveTerm(current.parent, ontology) : null;
+  }
+  return chain;
+}
+
+function listsAsRelated(term: OntologyTerm, other: OntologyTerm, ontology: SkillOntology): boolean {
+  return (term.related ?? []).some((name) => resolveTerm(name, ontology) === other);
+}
+
+export function relateTerms(
+  required: OntologyTerm,
+  held: OntologyTerm,
+  ontology: SkillOntology = getDefaultOntology(),
+): TermRelation | null {
+  if (required === held) return 'exact';
+  if (ancestors(held, ontology).includes(required)) return 'narrower';
+  if (ancestors(required, ontology).includes(held)) return 'broader';
+  if (listsAsRelated(required, held, ontology) || listsAsRelated(held, required, ontology)) return 'related';
+  const requiredParent = required.parent ? resolveTerm(required.parent, ontology) : null;
+  const heldParent = held.parent ? resolveTerm(held.parent, ontology) : null;
+  if (requiredParent && requiredParent === heldParent) return 'related';
+  return null;
+}
+
+/** Short explanation for a non-exact match, e.g. "GA4 is a kind of Google Analytics". */
+export function describeTermRelation(required: OntologyTerm, held: OntologyTerm, relation: TermRelation, ontology: SkillOntology = getDefaultOntology()): string {
+  switch (relation) {
+    case 'exact':
+      return held.canonical;
+    case 'narrower':
+      return `${held.canonical} is a kind of ${required.canonical}`;
+    case 'broader':
+      return `${held.canonical} is broader than ${required.canonical}`;
+    case 'related': {
+      const sharedParent = required.parent && resolveTerm(required.parent, ontology) === (held.parent ? resolveTerm(held.parent, ontology) : null)
+        ? resolveTerm(required.parent, ontology)
+        : null;
+      return sharedParent
+        ? `${held.canonical} and ${required.canonical} are both ${sharedParent.canonical}`
+        : `${held.canonical} is related to ${required.canonical}`;
+    }
+  }
+}
+
+// ============================================================
+// User terms
+// ============================================================
+
+export function createOntologyTerm(kind: OntologyTermKind = 'tool'): OntologyTerm {
+  return { canonical: '', kind, aliases: [], related: [] };
+}
+
+function cleanList(values: string[] | undefined): string[] {
+  if (!Array.isArray(values)) return [];
+  return [...new Map(values.map((value) => value.trim()).filter(Boolean).map((value) => [keyOf(value), value])).values()];
+}
+
+export function sanitizeOntologyTerms(input: OntologyTerm[] | undefined): OntologyTerm[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((term) => term && typeof term.canonical === 'string' && term.canonical.trim())
+    .map((term) => {
+      const canonical = term.canonical.trim();
+      const parent = term.parent?.trim();
+      return {
+        canonical,
+        kind: term.kind === 'skill' ? 'skill' : 'tool',
+        aliases: cleanList(term.aliases).filter((alias) => keyOf(alias) !== keyOf(canonical)),
+        parent: parent && keyOf(parent) !== keyOf(canonical) ? parent : undefined,
+        related: cleanList(term.related).filter((name) => keyOf(name) !== keyOf(canonical)),
+      };
+    });
+}
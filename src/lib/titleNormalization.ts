@@ -0,0 +1,245 @@
+// Job Filter v2 — Title Normalization
+// Parses a job title into seniority, function and specialization, and
+// compares it against the profile's target roles for role-scope scoring.
+
+// ============================================================
+// Types
+// ============================================================
+
+export type SeniorityLevel =
+  | 'intern'
+  | 'entry'
+  | 'mid'
+  | 'senior'
+  | 'lead'
+  | 'manager'
+  | 'senior_manager'
+  | 'director'
+  | 'senior_director'
+  | 'head'
+  | 'vp'
+  | 'svp'
+  | 'c_level';
+
+export type TitleFunction =
+  | 'growth'
+  | 'marketing'
+  | 'product'
+  | 'engineering'
+  | 'data'
+  | 'design'
+  | 'sales'
+  | 'customer_success'
+  | 'partnerships'
+  | 'operations'
+  | 'finance'
+  | 'people'
+  | 'communications';
+
+export interface NormalizedTitle {
+  raw: string;
+  seniority: SeniorityLevel | null;
+  function: TitleFunction | null;
+  /** Remaining title words, e.g. ['lifecycle'] for "Director of Lifecycle Marketing". */
+  specialization: string[];
+}
+
+export type SeniorityFit = 'under' | 'match' | 'over' | 'unknown';
+export type FunctionMatch = 'match' | 'related' | 'mismatch' | 'unknown';
+
+export interface TitleFit {
+  title: NormalizedTitle;
+  target: NormalizedTitle | null;
+  seniorityFit: SeniorityFit;
+  /** Job level minus target level; 0 when either is unknown. */
+  levelGap: number;
+  functionMatch: FunctionMatch;
+}
+
+// ============================================================
+// Vocabulary
+// ============================================================
+
+// Checked in order, so compound levels come before the plain ones they contain.
+// "Senior" promotes a manager or director title wherever it sits before the
+// level word: "Senior Product Manager" is a senior manager.
+const SENIORITY_PATTERNS: Array<{ level: SeniorityLevel; pattern: RegExp }> = [
+  { level: 'c_level', pattern: /\bchief\b[\w\s&-]*\bofficer\b|\bc[emtpfro]o\b/ },
+  { level: 'svp', pattern: /\b(svp|evp|senior vice president|executive vice president)\b/ },
+  { level: 'vp', pattern: /\b(vp|vice president|avp)\b/ },
+  { level: 'head', pattern: /\bhead of\b|\bhead,/ },
+  { level: 'senior_director', pattern: /\b(senior|sr\.?)\s[\w\s&/-]*\bdirector\b/ },
+  { level: 'director', pattern: /\bdirector\b/ },
+  { level: 'senior_manager', pattern: /\b(senior|sr\.?)\s[\w\s&/-]*\bmanager\b/ },
+  { level: 'manager', pattern: /\bmanager\b/ },
+  { level: 'lead', pattern: /\b(lead|principal|staff)\b/ },
+  { level: 'senior', pattern: /\b(senior|sr\.?)(?=\s|$)/ },
+  { level: 'intern', pattern: /\b(intern|internship)\b/ },
+  { level: 'entry', pattern: /\b(junior|jr\.?|associate|assistant|coordinator|entry[- ]level)(?=\s|$)/ },
+];
+
+// Levels that sit at the same rung compare as a match.
+const SENIORITY_RANK: Record<SeniorityLevel, number> = {
+  intern: 0,
+  entry: 1,
+  mid: 2,
+  senior: 2,
+  lead: 3,
+  manager: 3,
+  senior_manager: 4,
+  director: 5,
+  senior_director: 5,
+  head: 5,
+  vp: 6,
+  svp: 6,
+  c_level: 7,
+};
+
+export const SENIORITY_LABELS: Record<SeniorityLevel, string> = {
+  intern: 'Intern',
+  entry: 'Entry level',
+  mid: 'Individual contributor',
+  senior: 'Senior',
+  lead: 'Lead',
+  manager: 'Manager',
+  senior_manager: 'Senior Manager',
+  director: 'Director',
+  senior_director: 'Senior Director',
+  head: 'Head of',
+  vp: 'VP',
+  svp: 'SVP',
+  c_level: 'C-level',
+};
+
+// Checked in order: the first match wins, so "growth marketing" is growth.
+const FUNCTION_PATTERNS: Array<{ fn: TitleFunction; pattern: RegExp }> = [
+  { fn: 'growth', pattern: /\b(growth|lifecycle|retention|acquisition|demand gen(eration)?|crm)\b/ },
+  { fn: 'product', pattern: /\bproduct\b(?! marketing)|\bcpo\b/ },
+  { fn: 'marketing', pattern: /\b(marketing|brand|content|seo|sem|paid media|performance|cmo|social media)\b/ },
+  { fn: 'data', pattern: /\b(data|analytics|analyst|insights|machine learning|bi)\b/ },
+  { fn: 'engineering', pattern: /\b(engineer(ing)?|software|developer|platform|infrastructure|devops|security|cto)\b/ },
+  { fn: 'design', pattern: /\b(design(er)?|ux|ui|creative)\b/ },
+  { fn: 'sales', pattern: /\b(sales|account executive|revenue|business development|cro)\b/ },
+  { fn: 'customer_success', pattern: /\b(customer success|customer experience|support|account management)\b/ },
+  { fn: 'partnerships', pattern: /\b(partnerships?|alliances|channel)\b/ },
+  { fn: 'operations', pattern: /\b(operations|ops|strategy|coo)\b/ },
+  { fn: 'finance', pattern: /\b(finance|financial|accounting|fp&a|cfo)\b/ },
+  { fn: 'people', pattern: /\b(people|talent|recruiting|hr|human resources)\b/ },
+  { fn: 'communications', pattern: /\b(communications|comms|pr|public relations)\b/ },
+];
+
+const RELATED_FUNCTIONS: Partial<Record<TitleFunction, TitleFunction[]>> = {
+  growth: ['marketing', 'product', 'data'],
+  marketing: ['growth', 'communications', 'sales'],
+  product: ['growth', 'engineering', 'design'],
+  engineering: ['product', 'data'],
+  data: ['engineering', 'growth'],
+  design: ['product'],
+  sales: ['partnerships', 'customer_success', 'marketing'],
+  customer_success: ['sales', 'operations'],
+  partnerships: ['sales'],
+  operations: ['finance', 'customer_success'],
+  communications: ['marketing'],
+};
+
+const SPECIALIZATION_STOP_WORDS = new Set([
+  'of', 'and', 'the', 'for', 'to', 'in', 'a', 'an', 'at', 'remote', 'hybrid', 'us', 'usa',
+  'senior', 'sr', 'junior', 'jr', 'associate', 'assistant', 'coordinator', 'manager', 'director',
+  'head', 'vice', 'president', 'vp', 'svp', 'evp', 'avp', 'chief', 'officer', 'lead', 'principal',
+  'staff', 'intern', 'internship', 'executive', 'entry', 'level',
+]);
+
+// ============================================================
+// Parsing
+// ============================================================
+
+export function normalizeTitle(title: string): NormalizedTitle {
+  // Drop parenthesised notes and trailing locations ("— Remote, US").
+  const text = title
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\s[-–—|]\s.*$/, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const seniority = SENIORITY_PATTERNS.find(({ pattern }) => pattern.test(text))?.level ?? (text ? 'mid' : null);
+  const match = FUNCTION_PATTERNS.find(({ pattern }) => pattern.test(text));
+  const functionWords = match ? (text.match(match.pattern)?.[0] ?? '').split(' ') : [];
+
+  const specialization = text
+    .replace(/[^a-z0-9&+\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !SPECIALIZATION_STOP_WORDS.has(word) && !functionWords.includes(word));
+
+  return {
+    raw: title,
+    seniority,
+    function: match?.fn ?? null,
+    specialization: [...new Set(specialization)],
+  };
+}
+
+/**
+ * Whether the title names a recognised function, or names nothing beyond
+ * its level. "Director of First Impressions" carries a leadership word but
+ * no function, so its level can't be taken at face value.
+ */
+export function hasRecognizedFunction(title: NormalizedTitle): boolean {
+  return title.function !== null || title.specialization.length === 0;
+}
+
+// ============================================================
+// Comparison
+// ============================================================
+
+function compareFunction(job: NormalizedTitle, target: NormalizedTitle): FunctionMatch {
+  if (!job.function || !target.function) return 'unknown';
+  if (job.function === target.function) return 'match';
+  return RELATED_FUNCTIONS[target.function]?.includes(job.function) ? 'related' : 'mismatch';
+}
+
+const FUNCTION_MATCH_ORDER: FunctionMatch[] = ['match', 'related', 'unknown', 'mismatch'];
+
+/**
+ * Compare a job title with the closest target role: best function match
+ * first, then the nearest level.
+ */
+export function compareTitleToTargets(jobTitle: string, targetRoles: string[]): TitleFit {
+  const title = normalizeTitle(jobTitle);
+  const targets = targetRoles.map((role) => role.trim()).filter(Boolean).map(normalizeTitle);
+
+  const jobRank = title.seniority && hasRecognizedFunction(title) ? SENIORITY_RANK[title.seniority] : null;
+
+  let best: TitleFit | null = null;
+  for (const target of targets) {
+    const functionMatch = compareFunction(title, target);
+    const targetRank = target.seniority ? SENIORITY_RANK[target.seniority] : null;
+    const known = jobRank !== null && targetRank !== null;
+    const levelGap = known ? jobRank - targetRank : 0;
+    const seniorityFit: SeniorityFit = !known ? 'unknown' : levelGap === 0 ? 'match' : levelGap > 0 ? 'over' : 'under';
+    const candidate: TitleFit = { title, target, seniorityFit, levelGap, functionMatch };
+
+    if (
+      !best
+      || FUNCTION_MATCH_ORDER.indexOf(functionMatch) < FUNCTION_MATCH_ORDER.indexOf(best.functionMatch)
+      || (functionMatch === best.functionMatch && rankFit(candidate) < rankFit(best))
+    ) {
+      best = candidate;
+    }
+  }
+
+  return best ?? { title, target: null, seniorityFit: 'unknown', levelGap: 0, functionMatch: 'unknown' };
+}
+
+function rankFit(fit: TitleFit): number {
+  return fit.seniorityFit === 'unknown' ? Number.POSITIVE_INFINITY : Math.abs(fit.levelGap);
+}
+
+export function describeLevel(title: NormalizedTitle | null): string {
+  return title?.seniority ? SENIORITY_LABELS[title.seniority] : 'Unknown level';
+}
+
+export function describeFunction(title: NormalizedTitle | null): string {
+  if (!title?.function) return 'unknown function';
+  return title.function.replace('_', ' ');
+}
@@ -0,0 +1,138 @@
+// Job Filter v2 — What-if Simulator
+// Scores every job under a hypothetical profile change (comp floor, onsite
+// days, benefits, seed policy, target roles) without saving anything, and
+// reports which jobs would change label or gain / lose disqualifiers.
+
+import type { Claim, FitLabel, HardFilters, Job, Profile, SeedStagePolicy } from '../types';
+import { scoreJob, type ScoringResult } from './scoring';
+import { getEffectiveFitLabel, resolveScoreThresholds } from './scoreBands';
+import { isRescorable } from './rescore';
+
+export interface ProfilePatch {
+  /** Sets both the comp floor and the minimum base salary hard filter. */
+  compFloor?: number;
+  hardFilters?: Partial<HardFilters>;
+  requiredBenefitIds?: string[];
+  preferredBenefitIds?: string[];
+  seedStagePolicy?: SeedStagePolicy;
+  targetRoles?: string[];
+}
+
+export interface SimulatedDisqualifier {
+  ruleId: string;
+  label: string;
+}
+
+export interface SimulatedChange {
+  jobId: string;
+  title: string;
+  company: string;
+  before: { score: number; label: FitLabel };
+  after: { score: number; label: FitLabel };
+  disqualifiersGained: SimulatedDisqualifier[];
+  disqualifiersLost: SimulatedDisqualifier[];
+}
+
+export interface SimulationResult {
+  simulatedCount: number;
+  /** Jobs whose label or disqualifiers move, biggest score swing first. */
+  changes: SimulatedChange[];
+  labelCounts: Record<FitLabel, { before: number; after: number }>;
+  labelChangeCount: number;
+  /** Jobs that pick up at least one new disqualifier. */
+  gainedCount: number;
+  /** Jobs that shed at least one disqualifier. */
+  lostCount: number;
+}
+
+export function applyProfilePatch(profile: Profile, patch: ProfilePatch): Profile {
+  const hardFilters: HardFilters = { ...profile.hardFilters, ...patch.hardFilters };
+  if (patch.compFloor !== undefined) hardFilters.minBaseSalary = patch.compFloor;
+
+  return {
+    ...profile,
+    compFloor: patch.compFloor ?? profile.compFloor,
+    hardFilters,
+    requiredBenefitIds: patch.requiredBenefitIds ?? profile.requiredBenefitIds,
+    preferredBenefitIds: patch.preferredBenefitIds ?? profile.preferredBenefitIds,
+    targetRoles: patch.targetRoles ?? profile.targetRoles,
+    scoringPolicy: patch.seedStagePolicy
+      ? { ...profile.scoringPolicy, seedStagePolicy: patch.seedStagePolicy }
+      : profile.scoringPolicy,
+  };
+}
+
+function disqualifierRules(result: ScoringResult): Map<string, string> {
+  return new Map(
+    result.trace
+      .filter((entry) => entry.category === 'disqualifier')
+      .map((entry) => [entry.ruleId, entry.label]),
+  );
+}
+
+function diffRules(from: Map<string, string>, to: Map<string, string>): SimulatedDisqualifier[] {
+  return [...to]
+    .filter(([ruleId]) => !from.has(ruleId))
+    .map(([ruleId, label]) => ({ ruleId, label }));
+}
+
+/**
+ * Both sides are scored fresh, so stored scores from older engine versions
+ * don't show up as changes the patch caused.
+ */
+export function simulateProfilePatch(
+  jobs: Job[],
+  profile: Profile,
+  patch: ProfilePatch,
+  claims: Claim[] = [],
+): SimulationResult {
+  const patched = applyProfilePatch(profile, patch);
+  const thresholds = resolveScoreThresholds(profile);
+  const labelCounts: SimulationResult['labelCounts'] = {
+    Pursue: { before: 0, after: 0 },
+    Maybe: { before: 0, after: 0 },
+    Pass: { before: 0, after: 0 },
+  };
+  const changes: SimulatedChange[] = [];
+  let simulatedCount = 0;
+  let labelChangeCount = 0;
+  let gainedCount = 0;
+  let lostCount = 0;
+
+  for (const job of jobs) {
+    if (!isRescorable(job)) continue;
+    simulatedCount += 1;
+
+    const before = scoreJob(job, profile, claims);
+    const after = scoreJob(job, patched, claims);
+    const beforeLabel = getEffectiveFitLabel(before.fitScore, before.fitLabel, thresholds) ?? before.fitLabel;
+    const afterLabel = getEffectiveFitLabel(after.fitScore, after.fitLabel, thresholds) ?? after.fitLabel;
+    labelCounts[beforeLabel].before += 1;
+    labelCounts[afterLabel].after += 1;
+
+    const beforeRules = disqualifierRules(before);
+    const afterRules = disqualifierRules(after);
+    const disqualifiersGained = diffRules(beforeRules, afterRules);
+    const disqualifiersLost = diffRules(afterRules, beforeRules);
+
+    if (beforeLabel !== afterLabel) labelChangeCount += 1;
+    if (disqualifiersGained.length > 0) gainedCount += 1;
+    if (disqualifiersLost.length > 0) lostCount += 1;
+
+    if (beforeLabel !== afterLabel || disqualifiersGained.length > 0 || disqualifiersLost.length > 0) {
+      changes.push({
+        jobId: job.id,
+        title: job.title,
+        company: job.company,
+        before: { score: before.fitScore, label: beforeLabel },
+        after: { score: after.fitScore, label: afterLabel },
+        disqualifiersGained,
+        disqualifiersLost,
+      });
+    }
+  }
+
+  changes.sort((a, b) => Math.abs(b.after.score - b.before.score) - Math.abs(a.after.score - a.before.score));
+
+  return { simulatedCount, changes, labelCounts, labelChangeCount, gainedCount, lostCount };
+}
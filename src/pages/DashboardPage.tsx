@@ -15,18 +15,25 @@ import {
   Search,
   ChevronRight,
   Lightbulb,
+  ListChecks,
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { computeFunnelMetrics, computeBottleneckMetrics } from '../lib/metrics';
+import { resolveScoreThresholds } from '../lib/scoreBands';
+import { GapPlanPanel } from '../components/gaps/GapPlanPanel';
 import { PIPELINE_STAGES } from '../types';
 import type { FunnelMetrics, BottleneckMetrics } from '../types';
 
 export function DashboardPage() {
   const jobs = useStore((s) => s.jobs);
   const activities = useStore((s) => s.activities);
-  const [tab, setTab] = useState<'executive' | 'bottleneck'>('executive');
+  const profile = useStore((s) => s.profile);
+  const [tab, setTab] = useState<'executive' | 'bottleneck' | 'gaps'>('executive');
 
-  const funnel = useMemo(() => computeFunnelMetrics(jobs, activities), [jobs, activities]);
+  const funnel = useMemo(
+    () => computeFunnelMetrics(jobs, activities, resolveScoreThresholds(profile)),
+    [jobs, activities, profile],
+  );
   const bottleneck = useMemo(() => computeBottleneckMetrics(jobs), [jobs]);
 
   if (jobs.length === 0) {
@@ -79,13 +86,22 @@ export function DashboardPage() {
           <AlertTriangle size={14} />
           Bottleneck
         </button>
+        <button
+          onClick={() => setTab('gaps')}
+          className={`flex-1 flex items-center justify-center gap-1.5 py-2 text-sm font-medium rounded-md transition-colors ${
+            tab === 'gaps'
+              ? 'bg-white text-neutral-900 shadow-sm'
+              : 'text-neutral-500 hover:text-neutral-700'
+          }`}
+        >
+          <ListChecks size={14} />
+          Gap plan
+        </button>
       </div>
 
-      {tab === 'executive' ? (
-        <ExecutiveTab funnel={funnel} />
-      ) : (
-        <BottleneckTab bottleneck={bottleneck} />
-      )}
+      {tab === 'executive' && <ExecutiveTab funnel={funnel} />}
+      {tab === 'bottleneck' && <BottleneckTab bottleneck={bottleneck} />}
+      {tab === 'gaps' && <GapPlanPanel />}
     </div>
   );
 }
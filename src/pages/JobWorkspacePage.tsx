@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   ArrowLeft,
@@ -19,13 +19,21 @@ import {
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { PIPELINE_STAGES } from '../types';
-import type { FitLabel, PipelineStage, Requirement, RequirementMatch } from '../types';
+import type { Claim, FitLabel, PipelineStage, Requirement, RequirementMatch, RequirementOverride } from '../types';
 import { ResearchTab } from '../components/research/ResearchTab';
 import { AssetsTab } from '../components/assets/AssetsTab';
 import { CRMTab } from '../components/crm/CRMTab';
 import { QATab } from '../components/qa/QATab';
 import { EditJobModal } from '../components/jobs/EditJobModal';
-import { getEffectiveFitLabel, getFitLabelText } from '../lib/scoreBands';
+import { JobPostingSections } from '../components/jobs/JobPostingSections';
+import { RequirementOverrideEditor } from '../components/jobs/RequirementOverrideEditor';
+import { ScoreHistoryPanel } from '../components/scoring/ScoreHistoryPanel';
+import { ScoreTracePanel } from '../components/scoring/ScoreTracePanel';
+import { getEffectiveFitLabel, getFitLabelText, resolveScoreThresholds } from '../lib/scoreBands';
+import { resolveScoringWeights } from '../lib/scoring';
+import { describeNormalizedComp } from '../lib/compNormalization';
+import { findRequirementOverride, type RequirementOverrideChanges } from '../lib/requirementOverrides';
+import { analyzeJobHealth, JOB_HEALTH_LABELS } from '../lib/jobHealth';
 
 const FIT_LABEL_STYLES: Record<FitLabel, string> = {
   Pursue: 'text-green-700 bg-green-50 border border-green-200',
@@ -93,7 +101,7 @@ function ScoreDial({ score, label }: { score: number; label: FitLabel }) {
 }
 
 function BreakdownBar({ label, value, max, color }: { label: string; value: number; max: number; color: string }) {
-  const pct = Math.min((value / max) * 100, 100);
+  const pct = max > 0 ? Math.min((value / max) * 100, 100) : 0;
   return (
     <div className="space-y-1">
       <div className="flex items-center justify-between">
@@ -123,7 +131,19 @@ function getGapSeverity(req: Requirement): GapSeverity {
   return req.priority === 'Must' ? 'High' : 'Medium';
 }
 
-function RequirementsMatrix({ requirements }: { requirements: Requirement[] }) {
+function RequirementsMatrix({
+  requirements,
+  overrides,
+  proofs,
+  onOverride,
+}: {
+  requirements: Requirement[];
+  overrides?: RequirementOverride[];
+  proofs: Claim[];
+  onOverride: (requirement: Requirement, changes: RequirementOverrideChanges | null) => Promise<void>;
+}) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
   if (requirements.length === 0) {
     return (
       <div className="bg-white rounded-lg border border-neutral-200 p-8 shadow-sm text-center">
@@ -208,6 +228,7 @@ function RequirementsMatrix({ requirements }: { requirements: Requirement[] }) {
               <th className="text-left px-3 py-2 font-semibold text-neutral-500 uppercase tracking-wider">Your Evidence</th>
               <th className="text-center px-3 py-2 font-semibold text-neutral-500 uppercase tracking-wider w-20">Match</th>
               <th className="text-center px-3 py-2 font-semibold text-neutral-500 uppercase tracking-wider w-24">Gap Severity</th>
+              <th className="w-10"><span className="sr-only">Edit</span></th>
             </tr>
           </thead>
           <tbody>
@@ -216,53 +237,86 @@ function RequirementsMatrix({ requirements }: { requirements: Requirement[] }) {
               const typeStyle = TYPE_STYLES[req.type] || TYPE_STYLES.other;
               const gapSev = getGapSeverity(req);
               const gapStyle = GAP_SEVERITY_STYLES[gapSev];
+              const isEditing = editingIndex === i;
               return (
-                <tr
-                  key={i}
-                  className={`border-b border-neutral-50 last:border-b-0 ${
-                    gapSev === 'High' ? 'bg-red-50/30' : ''
-                  }`}
-                >
-                  <td className="px-4 py-2.5">
-                    <span className="text-neutral-800 font-medium">{req.description}</span>
-                    {req.yearsNeeded ? (
-                      <span className="text-[10px] text-neutral-400 ml-1.5">({req.yearsNeeded}+ yrs)</span>
-                    ) : null}
-                  </td>
-                  <td className="px-3 py-2.5">
-                    <span className={`text-[11px] font-medium px-1.5 py-0.5 rounded-md ${typeStyle}`}>
-                      {req.type}
-                    </span>
-                  </td>
-                  <td className="px-3 py-2.5 text-neutral-500 max-w-[180px]">
-                    {req.jdExcerpt ? (
-                      <span className="line-clamp-2 text-[11px] italic text-neutral-500" title={req.jdExcerpt}>
-                        &ldquo;{req.jdExcerpt}&rdquo;
+                <Fragment key={i}>
+                  <tr
+                    className={`border-b border-neutral-50 last:border-b-0 ${
+                      gapSev === 'High' ? 'bg-red-50/30' : ''
+                    }`}
+                  >
+                    <td className="px-4 py-2.5">
+                      <span className="text-neutral-800 font-medium">{req.description}</span>
+                      {req.yearsNeeded ? (
+                        <span className="text-[10px] text-neutral-400 ml-1.5">({req.yearsNeeded}+ yrs)</span>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2.5">
+                      <span className={`text-[11px] font-medium px-1.5 py-0.5 rounded-md ${typeStyle}`}>
+                        {req.type}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2.5 text-neutral-500 max-w-[180px]">
+                      {req.jdExcerpt ? (
+                        <span className="line-clamp-2 text-[11px] italic text-neutral-500" title={req.jdExcerpt}>
+                          &ldquo;{req.jdExcerpt}&rdquo;
+                        </span>
+                      ) : (
+                        <span className="text-neutral-300 italic text-[11px]">--</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2.5 text-neutral-500 max-w-[180px]">
+                      {req.evidence ? (
+                        <span className="line-clamp-2 text-[11px]" title={req.evidence}>{req.evidence}</span>
+                      ) : (
+                        <span className="text-neutral-300 italic text-[11px]">
+                          {req.match === 'Missing' ? 'No matching evidence' : '--'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2.5 text-center">
+                      <span className={`text-[11px] font-medium px-1.5 py-0.5 rounded-md ${matchStyle.bg} ${matchStyle.text}`}>
+                        {matchStyle.label}
                       </span>
-                    ) : (
-                      <span className="text-neutral-300 italic text-[11px]">--</span>
-                    )}
-                  </td>
-                  <td className="px-3 py-2.5 text-neutral-500 max-w-[180px]">
-                    {req.evidence ? (
-                      <span className="line-clamp-2 text-[11px]" title={req.evidence}>{req.evidence}</span>
-                    ) : (
-                      <span className="text-neutral-300 italic text-[11px]">
-                        {req.match === 'Missing' ? 'No matching evidence' : '--'}
+                      {req.scored && (
+                        <span
+                          className="block mt-1 text-[10px] text-neutral-400"
+                          title={`Scored as ${req.scored.match}, ${req.scored.priority === 'Must' ? 'must-have' : 'preferred'}`}
+                        >
+                          Set by you
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2.5 text-center">
+                      <span className={`text-[11px] font-medium px-1.5 py-0.5 rounded-md ${gapStyle.bg} ${gapStyle.text}`}>
+                        {gapSev}
                       </span>
-                    )}
-                  </td>
-                  <td className="px-3 py-2.5 text-center">
-                    <span className={`text-[11px] font-medium px-1.5 py-0.5 rounded-md ${matchStyle.bg} ${matchStyle.text}`}>
-                      {matchStyle.label}
-                    </span>
-                  </td>
-                  <td className="px-3 py-2.5 text-center">
-                    <span className={`text-[11px] font-medium px-1.5 py-0.5 rounded-md ${gapStyle.bg} ${gapStyle.text}`}>
-                      {gapSev}
-                    </span>
-                  </td>
-                </tr>
+                    </td>
+                    <td className="px-2 py-2.5 text-center">
+                      <button
+                        type="button"
+                        onClick={() => setEditingIndex(isEditing ? null : i)}
+                        className="p-1 rounded text-neutral-400 hover:text-neutral-700 hover:bg-neutral-100"
+                        aria-label={`Edit match for ${req.description}`}
+                      >
+                        <Pencil size={12} />
+                      </button>
+                    </td>
+                  </tr>
+                  {isEditing && (
+                    <tr className="border-b border-neutral-100 bg-neutral-50">
+                      <td colSpan={7} className="px-4 py-3">
+                        <RequirementOverrideEditor
+                          requirement={req}
+                          proofs={proofs}
+                          currentProofId={findRequirementOverride(req, overrides)?.claimId}
+                          onSave={(changes) => onOverride(req, changes)}
+                          onClose={() => setEditingIndex(null)}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               );
             })}
           </tbody>
@@ -284,6 +338,9 @@ export function JobWorkspacePage() {
   const moveJobToStage = useStore((s) => s.moveJobToStage);
   const updateJob = useStore((s) => s.updateJob);
   const profile = useStore((s) => s.profile);
+  const claims = useStore((s) => s.claims);
+  const setRequirementOverride = useStore((s) => s.setRequirementOverride);
+  const activities = useStore((s) => s.activities);
   const [isEditModalOpen, setEditModalOpen] = useState(false);
 
   const job = useMemo(() => jobs.find((j) => j.id === jobId), [jobs, jobId]);
@@ -329,9 +386,14 @@ export function JobWorkspacePage() {
   };
 
   const breakdown = job.scoreBreakdown;
-  const fitLabel = getEffectiveFitLabel(job.fitScore, job.fitLabel);
+  const weights = resolveScoringWeights(profile);
+  const fitLabel = getEffectiveFitLabel(job.fitScore, job.fitLabel, resolveScoreThresholds(profile));
   const fitLabelText = getFitLabelText(fitLabel);
-  const riskWarnings = job.riskWarnings ?? [];
+  const health = analyzeJobHealth(job, { jobs, activities: activities ?? [] });
+  const riskWarnings = [
+    ...(job.riskWarnings ?? []),
+    ...health.signals.map((signal) => `${JOB_HEALTH_LABELS[health.status]} posting: ${signal.label}`),
+  ];
   const gapSuggestions = job.gapSuggestions ?? [];
   const mustHaveSummary = job.mustHaveSummary;
   const missingMustHaves = (job.requirementsExtracted ?? [])
@@ -435,6 +497,29 @@ export function JobWorkspacePage() {
                     {fitLabelText}
                   </span>
                 </div>
+                {job.personaScores && job.personaScores.length > 1 && (
+                  <div className="mt-4 pt-3 border-t border-neutral-100 text-left" data-testid="persona-scores">
+                    <p className="text-[11px] font-semibold text-neutral-500 uppercase tracking-wider mb-1.5">By persona</p>
+                    <ul className="space-y-1">
+                      {job.personaScores.map((entry) => {
+                        const isBest = entry.personaId === job.bestPersonaId;
+                        return (
+                          <li
+                            key={entry.personaId}
+                            className={`flex items-center justify-between text-xs rounded-md px-2 py-1 ${
+                              isBest ? 'bg-brand-50 text-brand-800 font-semibold' : 'text-neutral-600'
+                            }`}
+                          >
+                            <span className="truncate">{entry.personaName}{isBest && ' · best match'}</span>
+                            <span className="tabular-nums shrink-0 ml-2">
+                              {Math.round(entry.fitScore)} · {getFitLabelText(entry.fitLabel)}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="bg-white rounded-lg border border-neutral-200 p-6 shadow-sm text-center">
@@ -458,6 +543,25 @@ export function JobWorkspacePage() {
               </div>
             )}
 
+            {job.compNormalized && (job.compNormalized.source === 'text' || job.compNormalized.hasEquity) && (
+              <div className="bg-white rounded-lg border border-neutral-200 p-4 shadow-sm" data-testid="comp-normalized">
+                <h4 className="text-xs font-bold text-neutral-700 uppercase tracking-wider mb-1.5">Compensation</h4>
+                <p className="text-sm font-semibold text-neutral-900">{describeNormalizedComp(job.compNormalized)}</p>
+                {job.compNormalized.notes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {job.compNormalized.notes.map((note) => (
+                      <li key={note} className="text-[11px] text-neutral-500">{note}</li>
+                    ))}
+                  </ul>
+                )}
+                {job.compNormalized.hasEquity && (
+                  <span className="inline-block mt-2 text-[11px] font-medium text-neutral-600 bg-neutral-100 px-2 py-0.5 rounded">
+                    Equity mentioned
+                  </span>
+                )}
+              </div>
+            )}
+
             {mustHaveSummary && mustHaveSummary.total > 0 && (
               <div className={`bg-white rounded-lg border p-4 shadow-sm ${
                 mustHaveSummary.hasBlockers ? 'border-red-200' : 'border-emerald-200'
@@ -618,38 +722,44 @@ export function JobWorkspacePage() {
                 <div className="space-y-3">
                   <BreakdownBar
                     label="Role Scope & Authority"
-                    value={breakdown?.roleScopeAuthority ?? Math.round(job.fitScore * 0.3)}
-                    max={30}
+                    value={breakdown?.roleScopeAuthority ?? Math.round((job.fitScore * weights.roleScopeAuthority) / 100)}
+                    max={weights.roleScopeAuthority}
                     color="bg-brand-500"
                   />
                   <BreakdownBar
                     label="Compensation & Benefits"
-                    value={breakdown?.compensationBenefits ?? Math.round(job.fitScore * 0.25)}
-                    max={25}
+                    value={breakdown?.compensationBenefits ?? Math.round((job.fitScore * weights.compensationBenefits) / 100)}
+                    max={weights.compensationBenefits}
                     color="bg-green-500"
                   />
                   <BreakdownBar
                     label="Company Stage"
-                    value={breakdown?.companyStageAbility ?? Math.round(job.fitScore * 0.2)}
-                    max={20}
+                    value={breakdown?.companyStageAbility ?? Math.round((job.fitScore * weights.companyStageAbility) / 100)}
+                    max={weights.companyStageAbility}
                     color="bg-violet-500"
                   />
                   <BreakdownBar
                     label="Domain Fit"
-                    value={breakdown?.domainFit ?? Math.round(job.fitScore * 0.15)}
-                    max={15}
+                    value={breakdown?.domainFit ?? Math.round((job.fitScore * weights.domainFit) / 100)}
+                    max={weights.domainFit}
                     color="bg-cyan-500"
                   />
                   <BreakdownBar
                     label="Risk Penalty"
                     value={breakdown?.riskPenalty ?? job.redFlags.length * 2}
-                    max={10}
+                    max={weights.riskPenaltyMax}
                     color="bg-red-400"
                   />
                 </div>
               </div>
             )}
 
+            {job.scoreHistory && job.scoreHistory.length > 0 && <ScoreHistoryPanel history={job.scoreHistory} />}
+
+            {job.fitScore !== undefined && job.scoreTrace && job.scoreTrace.length > 0 && (
+              <ScoreTracePanel trace={job.scoreTrace} jobDescription={job.jobDescription} fitScore={job.fitScore} />
+            )}
+
             <details className="bg-white rounded-lg border border-neutral-200 p-4 shadow-sm">
               <summary className="cursor-pointer text-xs font-bold text-neutral-700 uppercase tracking-wider">
                 Advanced actions
@@ -698,8 +808,16 @@ export function JobWorkspacePage() {
         )}
 
         {activeTab === 'requirements' && (
-          <div className="py-4">
-            <RequirementsMatrix requirements={job.requirementsExtracted} />
+          <div className="py-4 space-y-6">
+            <RequirementsMatrix
+              requirements={job.requirementsExtracted}
+              overrides={job.requirementOverrides}
+              proofs={claims ?? []}
+              onOverride={async (requirement, changes) => {
+                if (jobId) await setRequirementOverride(jobId, requirement, changes);
+              }}
+            />
+            <JobPostingSections jobDescription={job.jobDescription} sections={job.jdSections} />
           </div>
         )}
 
@@ -1,4 +1,4 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Briefcase,
@@ -12,11 +12,21 @@ import {
   Zap,
   Target,
   ArrowRight,
+  Users,
+  Ghost,
+  Mail,
+  Upload,
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
+import { AlertDigestModal } from '../components/jobs/AlertDigestModal';
+import { BulkImportModal } from '../components/jobs/BulkImportModal';
+import { DuplicateJobsPanel } from '../components/jobs/DuplicateJobsPanel';
+import { PendingSharesBanner } from '../components/jobs/PendingSharesBanner';
 import { STAGE_CATEGORIES } from '../types';
-import type { Job, FitLabel, PipelineStage } from '../types';
-import { getEffectiveFitLabel, getFitLabelText } from '../lib/scoreBands';
+import type { Job, FitLabel, PipelineStage, ScoreThresholds } from '../types';
+import { getEffectiveFitLabel, getFitLabelText, resolveScoreThresholds } from '../lib/scoreBands';
+import { filterJobsByPersona } from '../lib/personas';
+import { analyzePipelineHealth, JOB_HEALTH_LABELS, type JobHealthStatus } from '../lib/jobHealth';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -88,8 +98,8 @@ const FIT_LABEL_STYLES: Record<FitLabel, string> = {
   Pass: 'text-red-600 bg-red-50 ring-1 ring-red-200',
 };
 
-const SCORE_COLOR = (score: number | undefined, label: FitLabel | undefined): string => {
-  const normalized = getEffectiveFitLabel(score, label);
+const SCORE_COLOR = (score: number | undefined, label: FitLabel | undefined, thresholds?: ScoreThresholds): string => {
+  const normalized = getEffectiveFitLabel(score, label, thresholds);
   if (!normalized) return 'text-neutral-400';
   if (normalized === 'Pursue') return 'text-green-700';
   if (normalized === 'Maybe') return 'text-amber-600';
@@ -123,11 +133,31 @@ const CATEGORY_META: Record<string, { ring: string; badge: string; dot: string }
 // Job Card (dense)
 // ---------------------------------------------------------------------------
 
-function JobCard({ job, onClick }: { job: Job; onClick: () => void }) {
+const HEALTH_STYLES: Record<JobHealthStatus, string> = {
+  fresh: 'bg-neutral-100 text-neutral-600',
+  stale: 'bg-amber-50 text-amber-700',
+  likely_ghost: 'bg-red-50 text-red-700',
+};
+
+const HEALTH_FILTERS: JobHealthStatus[] = ['fresh', 'stale', 'likely_ghost'];
+
+function JobCard({
+  job,
+  thresholds,
+  personaName,
+  health,
+  onClick,
+}: {
+  job: Job;
+  thresholds: ScoreThresholds;
+  personaName?: string;
+  health?: JobHealthStatus;
+  onClick: () => void;
+}) {
   const comp = formatComp(job);
   const loc = formatLocation(job);
   const action = NEXT_ACTION[job.stage];
-  const fitLabel = getEffectiveFitLabel(job.fitScore, job.fitLabel);
+  const fitLabel = getEffectiveFitLabel(job.fitScore, job.fitLabel, thresholds);
   const fitLabelText = getFitLabelText(fitLabel);
 
   return (
@@ -144,6 +174,11 @@ function JobCard({ job, onClick }: { job: Job; onClick: () => void }) {
           {job.title}
         </h4>
         <div className="flex items-center gap-1.5 shrink-0">
+          {health && health !== 'fresh' && (
+            <span className={`text-[10px] font-semibold px-1.5 py-px rounded ${HEALTH_STYLES[health]}`}>
+              {JOB_HEALTH_LABELS[health]}
+            </span>
+          )}
           {fitLabel && (
             <span
               className={`text-[10px] font-semibold px-1.5 py-px rounded ${FIT_LABEL_STYLES[fitLabel]}`}
@@ -162,7 +197,7 @@ function JobCard({ job, onClick }: { job: Job; onClick: () => void }) {
       <div className="flex items-center gap-2 mt-0.5">
         <span className="text-xs text-neutral-500 truncate">{job.company}</span>
         {job.fitScore !== undefined && (
-          <span className={`text-[11px] font-bold tabular-nums ${SCORE_COLOR(job.fitScore, fitLabel)}`}>
+          <span className={`text-[11px] font-bold tabular-nums ${SCORE_COLOR(job.fitScore, fitLabel, thresholds)}`}>
             {job.fitScore}
           </span>
         )}
@@ -187,6 +222,14 @@ function JobCard({ job, onClick }: { job: Job; onClick: () => void }) {
         </div>
       )}
 
+      {/* Row 3b: Best persona (only when personas are configured) */}
+      {personaName && (
+        <div className="flex items-center gap-1 mt-1 text-[10px] text-neutral-500">
+          <Users size={10} className="shrink-0 text-neutral-400" />
+          <span className="truncate">{personaName}</span>
+        </div>
+      )}
+
       {/* Row 4: Next action */}
       <div className="flex items-center justify-between mt-1.5">
         {action && (
@@ -207,12 +250,35 @@ function JobCard({ job, onClick }: { job: Job; onClick: () => void }) {
 
 export function PipelinePage() {
   const navigate = useNavigate();
-  const jobs = useStore((s) => s.jobs);
+  const allJobs = useStore((s) => s.jobs);
+  const profile = useStore((s) => s.profile);
+  const thresholds = useMemo(() => resolveScoreThresholds(profile), [profile]);
+  const personas = useMemo(() => profile?.personas ?? [], [profile]);
+  const personaNames = useMemo(() => new Map(personas.map((persona) => [persona.id, persona.name])), [personas]);
+  const [personaFilter, setPersonaFilter] = useState<string | null>(null);
+  const activePersonaFilter = personaFilter && personaNames.has(personaFilter) ? personaFilter : null;
+  const activities = useStore((s) => s.activities);
+  const healthById = useMemo(
+    () => analyzePipelineHealth(allJobs, activities ?? [], new Date().toISOString()),
+    [allJobs, activities],
+  );
+  const [healthFilter, setHealthFilter] = useState<JobHealthStatus | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showAlertDigest, setShowAlertDigest] = useState(false);
+  const jobs = useMemo(() => {
+    const byPersona = filterJobsByPersona(allJobs, activePersonaFilter);
+    return healthFilter ? byPersona.filter((job) => healthById.get(job.id)?.status === healthFilter) : byPersona;
+  }, [allJobs, activePersonaFilter, healthFilter, healthById]);
+  const healthCounts = useMemo(() => {
+    const counts: Record<JobHealthStatus, number> = { fresh: 0, stale: 0, likely_ghost: 0 };
+    for (const health of healthById.values()) counts[health.status] += 1;
+    return counts;
+  }, [healthById]);
 
   // ---- Computed stats ----
   const stats = useMemo(() => {
-    const pursueCount = jobs.filter((job) => getEffectiveFitLabel(job.fitScore, job.fitLabel) === 'Pursue').length;
-    const maybeCount = jobs.filter((job) => getEffectiveFitLabel(job.fitScore, job.fitLabel) === 'Maybe').length;
+    const pursueCount = jobs.filter((job) => getEffectiveFitLabel(job.fitScore, job.fitLabel, thresholds) === 'Pursue').length;
+    const maybeCount = jobs.filter((job) => getEffectiveFitLabel(job.fitScore, job.fitLabel, thresholds) === 'Maybe').length;
     const outreachStages: PipelineStage[] = [
       'Outreach Sent',
       'Response/Screen',
@@ -232,7 +298,7 @@ export function PipelinePage() {
         : null;
 
     return { total: jobs.length, pursueCount, maybeCount, activeOutreach, interviewCount, offerCount, avgScore };
-  }, [jobs]);
+  }, [jobs, thresholds]);
 
   // ---- Jobs by stage, sorted ----
   const jobsByStage = useMemo(() => {
@@ -250,9 +316,12 @@ export function PipelinePage() {
   }, [jobs]);
 
   // ---- Empty state ----
-  if (jobs.length === 0) {
+  if (allJobs.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-24 text-center">
+        <div className="w-full max-w-md mb-6 text-left empty:hidden">
+          <PendingSharesBanner />
+        </div>
         <div className="w-14 h-14 bg-brand-50 rounded-xl flex items-center justify-center mb-4">
           <Briefcase size={24} className="text-brand-600" />
         </div>
@@ -267,6 +336,24 @@ export function PipelinePage() {
           <Plus size={16} />
           Add Your First Job
         </button>
+        <div className="mt-3 flex items-center gap-4">
+          <button
+            onClick={() => setShowImport(true)}
+            className="inline-flex items-center gap-1.5 text-sm font-medium text-brand-700 hover:text-brand-800 cursor-pointer"
+          >
+            <Upload size={14} />
+            Import from a spreadsheet
+          </button>
+          <button
+            onClick={() => setShowAlertDigest(true)}
+            className="inline-flex items-center gap-1.5 text-sm font-medium text-brand-700 hover:text-brand-800 cursor-pointer"
+          >
+            <Mail size={14} />
+            Triage an alert email
+          </button>
+        </div>
+        <BulkImportModal open={showImport} onClose={() => setShowImport(false)} />
+        <AlertDigestModal open={showAlertDigest} onClose={() => setShowAlertDigest(false)} />
       </div>
     );
   }
@@ -283,13 +370,29 @@ export function PipelinePage() {
             {stats.total} job{stats.total !== 1 ? 's' : ''} tracked
           </p>
         </div>
-        <button
-          onClick={() => window.dispatchEvent(new CustomEvent('open-capture-modal'))}
-          className="inline-flex items-center gap-1.5 px-3.5 py-1.5 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 shadow-sm cursor-pointer"
-        >
-          <Plus size={14} />
-          Add Job
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowAlertDigest(true)}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-neutral-200 bg-white text-neutral-700 rounded-lg text-sm font-medium hover:bg-neutral-50 cursor-pointer"
+          >
+            <Mail size={14} />
+            Alert email
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-neutral-200 bg-white text-neutral-700 rounded-lg text-sm font-medium hover:bg-neutral-50 cursor-pointer"
+          >
+            <Upload size={14} />
+            Import
+          </button>
+          <button
+            onClick={() => window.dispatchEvent(new CustomEvent('open-capture-modal'))}
+            className="inline-flex items-center gap-1.5 px-3.5 py-1.5 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 shadow-sm cursor-pointer"
+          >
+            <Plus size={14} />
+            Add Job
+          </button>
+        </div>
       </div>
 
       {/* ---------------------------------------------------------------- */}
@@ -334,11 +437,66 @@ export function PipelinePage() {
             icon={<Target size={13} className="text-neutral-400" />}
             label="Avg Score"
             value={stats.avgScore}
-            valueClass={SCORE_COLOR(stats.avgScore, getEffectiveFitLabel(stats.avgScore, undefined))}
+            valueClass={SCORE_COLOR(stats.avgScore, undefined, thresholds)}
           />
         )}
       </div>
 
+      <PendingSharesBanner />
+      <DuplicateJobsPanel jobs={allJobs} />
+      <BulkImportModal open={showImport} onClose={() => setShowImport(false)} />
+      <AlertDigestModal open={showAlertDigest} onClose={() => setShowAlertDigest(false)} />
+
+      {/* ---------------------------------------------------------------- */}
+      {/* Persona filter — only when the profile runs several searches */}
+      {/* ---------------------------------------------------------------- */}
+      {personas.length > 0 && (
+        <div className="flex items-center gap-1.5 overflow-x-auto" role="group" aria-label="Filter by persona">
+          <Users size={13} className="text-neutral-400 shrink-0" />
+          {[{ id: null, name: 'All personas' }, ...personas].map((persona) => {
+            const isActive = activePersonaFilter === persona.id;
+            return (
+              <button
+                key={persona.id ?? 'all'}
+                type="button"
+                onClick={() => setPersonaFilter(persona.id)}
+                aria-pressed={isActive}
+                className={`shrink-0 px-2.5 py-1 rounded-full text-xs font-medium ${
+                  isActive ? 'bg-brand-600 text-white' : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
+                }`}
+              >
+                {persona.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* ---------------------------------------------------------------- */}
+      {/* Posting health filter — only once something looks stale */}
+      {/* ---------------------------------------------------------------- */}
+      {(healthCounts.stale > 0 || healthCounts.likely_ghost > 0 || healthFilter) && (
+        <div className="flex items-center gap-1.5 overflow-x-auto" role="group" aria-label="Filter by posting health">
+          <Ghost size={13} className="text-neutral-400 shrink-0" />
+          {[null, ...HEALTH_FILTERS].map((status) => {
+            const isActive = healthFilter === status;
+            return (
+              <button
+                key={status ?? 'all'}
+                type="button"
+                onClick={() => setHealthFilter(status)}
+                aria-pressed={isActive}
+                className={`shrink-0 px-2.5 py-1 rounded-full text-xs font-medium ${
+                  isActive ? 'bg-brand-600 text-white' : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
+                }`}
+              >
+                {status ? `${JOB_HEALTH_LABELS[status]} (${healthCounts[status]})` : 'All postings'}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* ---------------------------------------------------------------- */}
       {/* Pipeline columns — desktop: horizontal scroll, mobile: stacked */}
       {/* ---------------------------------------------------------------- */}
@@ -389,6 +547,9 @@ export function PipelinePage() {
                           <JobCard
                             key={job.id}
                             job={job}
+                            thresholds={thresholds}
+                            personaName={job.bestPersonaId ? personaNames.get(job.bestPersonaId) : undefined}
+                            health={healthById.get(job.id)?.status}
                             onClick={() => navigate(`/job/${job.id}`)}
                           />
                         ))}
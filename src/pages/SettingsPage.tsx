@@ -23,7 +23,27 @@ import {
 import { getCityTypeaheadOptions, loadRecentCities, saveRecentCity } from '../lib/cityOptions';
 import { DigitalResumeBuilder } from '../components/resume/DigitalResumeBuilder';
 import { hasUsableImportDraft } from '../lib/importDraftBuilder';
-import { buildProofPayloadFromRole } from '../lib/proofLibrary';
+import { buildProofPayloadFromRole, getAutoUsableProofs } from '../lib/proofLibrary';
+import { resolveScoringLexicon, sanitizeScoringLexicon } from '../lib/scoringLexicons';
+import { ScoringLexiconEditor } from '../components/scoring/ScoringLexiconEditor';
+import { RescorePreviewPanel, ScoringWeightsEditor } from '../components/scoring/ScoringWeightsEditor';
+import { WhatIfSimulator } from '../components/scoring/WhatIfSimulator';
+import { resolveScoringWeights, sanitizeScoringWeights } from '../lib/scoring';
+import { resolveScoreThresholds, sanitizeScoreThresholds } from '../lib/scoreBands';
+import { previewRescore, type RescorePreview } from '../lib/rescore';
+import { calibrateWeights, type CalibrationReport } from '../lib/scoreCalibration';
+import { CalibrationReportPanel } from '../components/scoring/CalibrationReportPanel';
+import { PersonaEditor } from '../components/scoring/PersonaEditor';
+import { sanitizePersonas } from '../lib/personas';
+import { CustomRulesEditor } from '../components/scoring/CustomRulesEditor';
+import { sanitizeCustomRules } from '../lib/customRules';
+import { FxRatesEditor } from '../components/scoring/FxRatesEditor';
+import { resolveCompCurrency, sanitizeFxRates, SUPPORTED_CURRENCIES } from '../lib/compNormalization';
+import { COUNTRY_OPTIONS, sanitizeRemotePreferences, TIME_ZONE_OPTIONS } from '../lib/remoteEligibility';
+import { CredentialsEditor } from '../components/profile/CredentialsEditor';
+import { OntologyTermsEditor } from '../components/scoring/OntologyTermsEditor';
+import { sanitizeOntologyTerms } from '../lib/skillOntology';
+import { mergeImportedCredentials, sanitizeCredentials } from '../lib/credentials';
 import type { Claim, ImportDraftRole, ImportSession, LocationPreference, Profile } from '../types';
 
 function parseIntegerInput(value: string): number {
@@ -51,8 +71,9 @@ export function SettingsPage() {
   const setImportSession = useStore((s) => s.setImportSession);
   const hydrateImportSession = useStore((s) => s.hydrateImportSession);
   const refreshData = useStore((s) => s.refreshData);
+  const syncGapItems = useStore((s) => s.syncGapItems);
 
-  const [activeSection, setActiveSection] = useState<'profile' | 'resume' | 'data'>('profile');
+  const [activeSection, setActiveSection] = useState<'profile' | 'scoring' | 'whatif' | 'resume' | 'data'>('profile');
 
   useEffect(() => {
     hydrateImportSession();
@@ -63,7 +84,7 @@ export function SettingsPage() {
       <h1 className="text-h1 text-neutral-900">Settings</h1>
 
       <div className="flex gap-2">
-        {(['profile', 'resume', 'data'] as const).map((section) => (
+        {(['profile', 'scoring', 'whatif', 'resume', 'data'] as const).map((section) => (
           <button
             key={section}
             onClick={() => setActiveSection(section)}
@@ -73,12 +94,14 @@ export function SettingsPage() {
                 : 'bg-neutral-100 text-neutral-600 hover:bg-neutral-200'
             }`}
           >
-            {section === 'resume' ? 'Digital Resume' : section}
+            {section === 'resume' ? 'Digital Resume' : section === 'whatif' ? 'What-if' : section}
           </button>
         ))}
       </div>
 
       {activeSection === 'profile' && profile && <ProfileSection profile={profile} updateProfile={updateProfile} />}
+      {activeSection === 'scoring' && profile && <ScoringSection profile={profile} updateProfile={updateProfile} />}
+      {activeSection === 'whatif' && profile && <WhatIfSimulator profile={profile} />}
       {activeSection === 'resume' && (
         <DigitalResumeSection
           profile={profile}
@@ -86,6 +109,7 @@ export function SettingsPage() {
           importSession={importSession}
           setImportSession={setImportSession}
           refreshData={refreshData}
+          syncGapItems={syncGapItems}
         />
       )}
       {activeSection === 'data' && <DataSection refreshData={refreshData} />}
@@ -166,6 +190,8 @@ function ProfileSection({
     firstName: profile.firstName ?? profile.name.split(' ')[0] ?? '',
     lastName: profile.lastName ?? profile.name.split(' ').slice(1).join(' ') ?? '',
     compTarget: profile.compTarget ? profile.compTarget.toLocaleString() : '',
+    compCurrency: resolveCompCurrency(profile),
+    fxRates: profile.fxRates ?? [],
     targetRoles: profile.targetRoles,
     requiredBenefitIds: sanitizeBenefitIds(
       profile.requiredBenefitIds?.length ? profile.requiredBenefitIds : legacyBenefitsToIds(profile.requiredBenefits),
@@ -175,6 +201,10 @@ function ProfileSection({
     ),
     locationPreferences: profile.locationPreferences?.length ? profile.locationPreferences : [],
     willingToRelocate: Boolean(profile.willingToRelocate || profile.locationPreferences?.some((entry) => entry.willingToRelocate)),
+    remoteCountry: profile.remotePreferences?.homeCountry ?? '',
+    remoteTimeZone: profile.remotePreferences?.timeZone ?? '',
+    minOverlapHours: profile.remotePreferences?.minOverlapHours ? String(profile.remotePreferences.minOverlapHours) : '',
+    credentials: profile.credentials ?? [],
     hardFilters: initialHardFilters,
     seedStagePolicy: profile.scoringPolicy?.seedStagePolicy ?? 'warn',
   });
@@ -182,6 +212,11 @@ function ProfileSection({
     targetRole: '',
   });
   const [recentCities, setRecentCities] = useState<string[]>(() => loadRecentCities());
+  const [timeZoneOptions] = useState<string[]>(() => {
+    const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const current = profile.remotePreferences?.timeZone;
+    return [...new Set([browserZone, current, ...TIME_ZONE_OPTIONS].filter((zone): zone is string => Boolean(zone)))];
+  });
   const [showAdvancedBenefits, setShowAdvancedBenefits] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
   const [saved, setSaved] = useState(false);
@@ -272,6 +307,8 @@ function ProfileSection({
       lastName: form.lastName.trim(),
       compFloor: normalizedHardFilters.minBaseSalary,
       compTarget: parseIntegerInput(form.compTarget),
+      compCurrency: form.compCurrency,
+      fxRates: sanitizeFxRates(form.fxRates, form.compCurrency),
       locationPreference: summarizeLocationPreferences(normalizedLocations),
       targetRoles: form.targetRoles.map((entry) => entry.trim()).filter(Boolean),
       requiredBenefits: benefitIdsToLabels(normalizedRequiredBenefitIds),
@@ -281,6 +318,12 @@ function ProfileSection({
       disqualifiers: [],
       locationPreferences: normalizedLocations,
       willingToRelocate: form.willingToRelocate,
+      remotePreferences: sanitizeRemotePreferences({
+        homeCountry: form.remoteCountry || undefined,
+        timeZone: form.remoteTimeZone || undefined,
+        minOverlapHours: form.minOverlapHours ? Number(form.minOverlapHours) : undefined,
+      }),
+      credentials: sanitizeCredentials(form.credentials),
       hardFilters: normalizedHardFilters,
       scoringPolicy: {
         seedStagePolicy: form.seedStagePolicy,
@@ -479,6 +522,54 @@ function ProfileSection({
         </div>
       </div>
 
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-neutral-600 block">Remote eligibility</label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <div>
+            <label htmlFor="remote-country" className="text-[11px] font-medium text-neutral-600 mb-1 block">Country you work from</label>
+            <select
+              id="remote-country"
+              value={form.remoteCountry}
+              onChange={(event) => setForm((prev) => ({ ...prev, remoteCountry: event.target.value }))}
+              className="h-10 w-full rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm"
+            >
+              <option value="">Not set</option>
+              {COUNTRY_OPTIONS.map((country) => <option key={country.code} value={country.code}>{country.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="remote-time-zone" className="text-[11px] font-medium text-neutral-600 mb-1 block">Time zone</label>
+            <select
+              id="remote-time-zone"
+              value={form.remoteTimeZone}
+              onChange={(event) => setForm((prev) => ({ ...prev, remoteTimeZone: event.target.value }))}
+              className="h-10 w-full rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm"
+            >
+              <option value="">Not set</option>
+              {timeZoneOptions.map((zone) => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="min-overlap-hours" className="text-[11px] font-medium text-neutral-600 mb-1 block">Minimum overlap (hours)</label>
+            <input
+              id="min-overlap-hours"
+              type="number"
+              min={0}
+              max={8}
+              step={0.5}
+              value={form.minOverlapHours}
+              onChange={(event) => setForm((prev) => ({ ...prev, minOverlapHours: event.target.value }))}
+              placeholder="Any"
+              className="h-10 w-full rounded-lg border border-neutral-200 bg-white px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+        <p className="text-[11px] text-neutral-500">
+          Remote jobs limited to other countries or regions are filtered out. Jobs whose team hours overlap your 9-5 by
+          less than your minimum are filtered too; smaller gaps show as warnings.
+        </p>
+      </div>
+
       <div className="rounded-lg border border-neutral-200 bg-neutral-50 p-3 space-y-3">
         <div className="text-sm font-semibold text-neutral-800">Hard Filters</div>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -499,7 +590,7 @@ function ProfileSection({
             />
           </div>
           <div>
-            <label className="text-xs font-medium text-neutral-600 mb-1 block">Comp Target ($)</label>
+            <label className="text-xs font-medium text-neutral-600 mb-1 block">Comp Target ({form.compCurrency})</label>
             <input
               type="text"
               inputMode="numeric"
@@ -594,6 +685,28 @@ function ProfileSection({
         >
           I will need visa sponsorship
         </button>
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between gap-2">
+            <label htmlFor="comp-currency" className="text-xs font-medium text-neutral-600">Salary currency</label>
+            <select
+              id="comp-currency"
+              value={form.compCurrency}
+              onChange={(event) => setForm((prev) => ({ ...prev, compCurrency: event.target.value }))}
+              className="rounded-lg border border-neutral-300 bg-white px-2 py-1 text-xs"
+            >
+              {SUPPORTED_CURRENCIES.map((code) => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+          <p className="text-[11px] text-neutral-500">
+            Job pay in other currencies is converted with your own exchange rates below. Hourly, monthly, and OTE pay is
+            turned into an annual base before it is compared with your minimum.
+          </p>
+          <FxRatesEditor
+            baseCurrency={form.compCurrency}
+            rates={form.fxRates}
+            onChange={(fxRates) => setForm((prev) => ({ ...prev, fxRates }))}
+          />
+        </div>
         <div className="space-y-1">
           <label className="text-xs font-medium text-neutral-600 block">Early-stage company policy</label>
           <div className="flex flex-wrap gap-2">
@@ -625,6 +738,11 @@ function ProfileSection({
         </div>
       </div>
 
+      <CredentialsEditor
+        credentials={form.credentials}
+        onChange={(credentials) => setForm((prev) => ({ ...prev, credentials }))}
+      />
+
       <div className="space-y-3">
         <BenefitCatalogPicker
           label="Required Benefits"
@@ -674,6 +792,248 @@ function ProfileSection({
   );
 }
 
+// ============================================================
+// Scoring Section
+// ============================================================
+
+function ScoringSection({
+  profile,
+  updateProfile,
+}: {
+  profile: Profile;
+  updateProfile: (updates: Record<string, unknown>) => Promise<void>;
+}) {
+  const jobs = useStore((s) => s.jobs);
+  const claims = useStore((s) => s.claims);
+  const rescoreAllJobs = useStore((s) => s.rescoreAllJobs);
+  const [lexicon, setLexicon] = useState(() => resolveScoringLexicon(profile));
+  const [personas, setPersonas] = useState(() => profile.personas ?? []);
+  const [customRules, setCustomRules] = useState(() => profile.customRules ?? []);
+  const [ontologyTerms, setOntologyTerms] = useState(() => profile.ontologyTerms ?? []);
+  const [weights, setWeights] = useState(() => resolveScoringWeights(profile));
+  const [thresholds, setThresholds] = useState(() => resolveScoreThresholds(profile));
+  const [preview, setPreview] = useState<RescorePreview | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [rescoredCount, setRescoredCount] = useState<number | null>(null);
+  const [calibration, setCalibration] = useState<CalibrationReport | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  const handleSave = async () => {
+    const normalizedLexicon = sanitizeScoringLexicon(lexicon);
+    await updateProfile({ scoringLexicon: normalizedLexicon });
+    setLexicon(normalizedLexicon);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const buildDraftSettings = () => ({
+    scoringLexicon: sanitizeScoringLexicon(lexicon),
+    personas: sanitizePersonas(personas),
+    customRules: sanitizeCustomRules(customRules),
+    ontologyTerms: sanitizeOntologyTerms(ontologyTerms),
+    scoringWeights: sanitizeScoringWeights(weights),
+    scoreThresholds: sanitizeScoreThresholds(thresholds),
+  });
+
+  const handlePreview = () => {
+    setRescoredCount(null);
+    const draftProfile: Profile = { ...profile, ...buildDraftSettings() };
+    setPreview(previewRescore(jobs ?? [], draftProfile, getAutoUsableProofs(claims ?? []), profile));
+  };
+
+  const handleCalibrate = async () => {
+    setIsCalibrating(true);
+    try {
+      // Stored breakdowns were scored with the saved weights, not the draft.
+      const outcomes = await db.outcomes.toArray();
+      setCalibration(calibrateWeights(jobs ?? [], outcomes, resolveScoringWeights(profile)));
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  const handleApply = async () => {
+    const draft = buildDraftSettings();
+    setIsApplying(true);
+    try {
+      await updateProfile(draft);
+      setLexicon(draft.scoringLexicon);
+      setPersonas(draft.personas);
+      setCustomRules(draft.customRules);
+      setOntologyTerms(draft.ontologyTerms);
+      setWeights(draft.scoringWeights);
+      setThresholds(draft.scoreThresholds);
+      setRescoredCount(await rescoreAllJobs());
+      setPreview(null);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg border border-neutral-200 p-5 shadow-sm space-y-4">
+        <div>
+          <h3 className="text-h3 text-neutral-900">Scoring signals</h3>
+          <p className="text-xs text-neutral-500">
+            The words and phrases the fit score looks for. Start from your role family, then tune the lists.
+          </p>
+        </div>
+        <ScoringLexiconEditor
+          lexicon={lexicon}
+          onChange={(next) => {
+            setLexicon(next);
+            setPreview(null);
+          }}
+        />
+        <button
+          onClick={handleSave}
+          className="w-full bg-brand-600 text-white py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-1.5 hover:bg-brand-700"
+        >
+          <Save size={14} /> {saved ? 'Saved!' : 'Save scoring signals'}
+        </button>
+        <p className="text-[11px] text-neutral-500">Re-score a job from its workspace, or re-score everything below.</p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-neutral-200 p-5 shadow-sm space-y-4">
+        <div>
+          <h3 className="text-h3 text-neutral-900">Search personas</h3>
+          <p className="text-xs text-neutral-500">
+            Run several searches at once. Each job is scored against every persona and filed under its best match.
+          </p>
+        </div>
+        <PersonaEditor
+          profile={profile}
+          personas={personas}
+          onChange={(next) => {
+            setPersonas(next);
+            setPreview(null);
+          }}
+        />
+        <p className="text-[11px] text-neutral-500">Preview and save persona changes with the re-score buttons below.</p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-neutral-200 p-5 shadow-sm space-y-4">
+        <div>
+          <h3 className="text-h3 text-neutral-900">Custom rules</h3>
+          <p className="text-xs text-neutral-500">
+            Your own filters on the job text, title, company, comp, or location. Each rule can disqualify a job, raise a
+            warning, or add or subtract points.
+          </p>
+        </div>
+        <CustomRulesEditor
+          rules={customRules}
+          onChange={(next) => {
+            setCustomRules(next);
+            setPreview(null);
+          }}
+        />
+        <p className="text-[11px] text-neutral-500">
+          Separate alternatives with commas. Rules missing a label or value are dropped on save.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-neutral-200 p-5 shadow-sm space-y-4">
+        <div>
+          <h3 className="text-h3 text-neutral-900">Skills and tools vocabulary</h3>
+          <p className="text-xs text-neutral-500">
+            Teach matching your own names. Other names count as the same thing; a broader or related term counts as a
+            partial match.
+          </p>
+        </div>
+        <OntologyTermsEditor
+          terms={ontologyTerms}
+          onChange={(next) => {
+            setOntologyTerms(next);
+            setPreview(null);
+          }}
+        />
+        <p className="text-[11px] text-neutral-500">
+          Separate names with commas. Entries matching a built-in name extend it.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-neutral-200 p-5 shadow-sm space-y-4">
+        <div>
+          <h3 className="text-h3 text-neutral-900">Weights and thresholds</h3>
+          <p className="text-xs text-neutral-500">
+            How many points each category is worth and where Pursue and Maybe begin.
+          </p>
+        </div>
+        <ScoringWeightsEditor
+          weights={weights}
+          thresholds={thresholds}
+          onWeightsChange={(next) => {
+            setWeights(next);
+            setPreview(null);
+          }}
+          onThresholdsChange={(next) => {
+            setThresholds(next);
+            setPreview(null);
+          }}
+        />
+        <div className="flex flex-col sm:flex-row gap-2">
+          <button
+            type="button"
+            onClick={handlePreview}
+            className="flex-1 rounded-lg border border-neutral-200 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50"
+          >
+            Preview re-score
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!preview || isApplying}
+            className="flex-1 bg-brand-600 text-white py-2 rounded-lg text-sm font-medium hover:bg-brand-700 disabled:opacity-50"
+          >
+            {isApplying ? 'Re-scoring...' : 'Save and re-score all jobs'}
+          </button>
+        </div>
+        {preview && <RescorePreviewPanel preview={preview} />}
+        {rescoredCount !== null && (
+          <p className="text-xs text-green-700">Saved. Re-scored {rescoredCount} job{rescoredCount === 1 ? '' : 's'}.</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-neutral-200 p-5 shadow-sm space-y-4">
+        <div>
+          <h3 className="text-h3 text-neutral-900">Learn from outcomes</h3>
+          <p className="text-xs text-neutral-500">
+            Checks which categories actually predicted a response on your finished jobs and suggests weights.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleCalibrate}
+          disabled={isCalibrating}
+          className="w-full rounded-lg border border-neutral-200 py-2 text-sm font-medium text-neutral-700 hover:bg-neutral-50 disabled:opacity-50"
+        >
+          {isCalibrating ? 'Analyzing...' : 'Analyze outcomes'}
+        </button>
+        {calibration && (
+          <CalibrationReportPanel
+            report={calibration}
+            currentWeights={resolveScoringWeights(profile)}
+            onAccept={(suggested) => {
+              setWeights(suggested);
+              setCalibration(null);
+              setRescoredCount(null);
+              setPreview(previewRescore(
+                jobs ?? [],
+                { ...profile, ...buildDraftSettings(), scoringWeights: suggested },
+                getAutoUsableProofs(claims ?? []),
+                profile,
+              ));
+            }}
+            onReject={() => setCalibration(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
 function roleToEvidenceRecord(role: ImportDraftRole, companyName: string, companyId?: string): Claim | null {
   const payload = buildProofPayloadFromRole(role, companyName, { companyId });
   if (!payload) return null;
@@ -691,12 +1051,14 @@ function DigitalResumeSection({
   importSession,
   setImportSession,
   refreshData,
+  syncGapItems,
 }: {
   profile: Profile | null;
   updateProfile: (updates: Record<string, unknown>) => Promise<void>;
   importSession: ImportSession | null;
   setImportSession: (session: ImportSession | null) => void;
   refreshData: () => Promise<void>;
+  syncGapItems: (options?: { rescore?: boolean }) => Promise<void>;
 }) {
   const [showAllStatuses, setShowAllStatuses] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -735,7 +1097,11 @@ function DigitalResumeSection({
         await db.claims.bulkAdd(records);
       }
       await refreshData();
-      await updateProfile({ digitalResume: draftToSave });
+      await updateProfile({
+        digitalResume: draftToSave,
+        credentials: mergeImportedCredentials(profile?.credentials, draftToSave.credentials),
+      });
+      await syncGapItems({ rescore: true });
 
       if (importSession) {
         setImportSession({
@@ -849,6 +1215,7 @@ function DataSection({ refreshData }: { refreshData: () => Promise<void> }) {
       claims: await db.claims.toArray(),
       profiles: await db.profiles.toArray(),
       generationLogs: await db.generationLogs.toArray(),
+      gapItems: await db.gapItems.toArray(),
       exportedAt: new Date().toISOString(),
     };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
@@ -874,6 +1241,8 @@ function DataSection({ refreshData }: { refreshData: () => Promise<void> }) {
       db.outcomes.clear(),
       db.experiments.clear(),
       db.applicationAnswers.clear(),
+      db.gapItems.clear(),
+      db.pendingShares.clear(),
     ]);
     if (typeof window !== 'undefined') {
       clearJobFilterLocalState(window.localStorage);
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useStore } from '../store/useStore';
+import { openShareInCapture, readShareParams, shareToCapturePrefill } from '../lib/shareTarget';
+
+/**
+ * Landing route for the manifest's share target. The share is queued in
+ * IndexedDB before anything else, so one made offline or abandoned
+ * mid-capture is still waiting on the pipeline next time.
+ */
+export function ShareTargetPage() {
+  const [params] = useSearchParams();
+  const navigate = useNavigate();
+  const queueShare = useStore((s) => s.queueShare);
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const shared = readShareParams(params);
+    if (!shared) {
+      navigate('/pipeline', { replace: true });
+      return;
+    }
+
+    void (async () => {
+      try {
+        const share = await queueShare(shared);
+        navigate('/pipeline', { replace: true });
+        openShareInCapture(share);
+      } catch (err) {
+        console.error('Failed to queue shared job:', err);
+        navigate('/pipeline', { replace: true });
+        window.dispatchEvent(new CustomEvent('open-capture-modal', { detail: shareToCapturePrefill(shared) }));
+      }
+    })();
+  }, [params, navigate, queueShare]);
+
+  return (
+    <div className="flex items-center justify-center py-24">
+      <p className="text-sm text-neutral-500">Saving shared job...</p>
+    </div>
+  );
+}
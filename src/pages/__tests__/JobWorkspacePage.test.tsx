@@ -1,6 +1,6 @@
 // @vitest-environment jsdom
 
-import { fireEvent, render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { MemoryRouter, Route, Routes } from 'react-router-dom';
 import { beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
 import { JobWorkspacePage } from '../JobWorkspacePage';
@@ -159,4 +159,125 @@ describe('JobWorkspacePage mobile overflow guardrails', () => {
 
     expect(screen.getAllByText('Pass on this job').length).toBeGreaterThan(0);
   });
+
+  it('renders the score trace and focuses highlights on the selected rule', () => {
+    const jobDescription = 'Lead a team. Medical and dental coverage.';
+    const state = {
+      jobs: [makeJob({
+        jobDescription,
+        fitScore: 16,
+        scoreTrace: [
+          { ruleId: 'role.team', category: 'roleScopeAuthority' as const, label: 'People management / team leadership', points: 6, spans: [{ start: 0, end: 11 }] },
+          { ruleId: 'comp.benefits', category: 'compensationBenefits' as const, label: '2 benefit signals in JD', points: 10, spans: [{ start: 13, end: 20 }, { start: 25, end: 31 }] },
+        ],
+      })],
+      activeTab: 'score' as const,
+      setActiveTab: vi.fn(),
+      setSelectedJob: vi.fn(),
+      scoreAndUpdateJob: vi.fn(),
+      moveJobToStage: vi.fn(),
+      updateJob: vi.fn(),
+    };
+
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    render(
+      <MemoryRouter initialEntries={['/job/job-1']}>
+        <Routes>
+          <Route path="/job/:jobId" element={<JobWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    const jdPanel = screen.getByTestId('score-trace-jd');
+    expect(Array.from(jdPanel.querySelectorAll('mark')).map((mark) => mark.textContent)).toEqual(['Lead a team', 'Medical', 'dental']);
+
+    fireEvent.click(screen.getByRole('button', { name: /2 benefit signals in JD/ }));
+    expect(Array.from(jdPanel.querySelectorAll('mark')).map((mark) => mark.textContent)).toEqual(['Medical', 'dental']);
+  });
+
+  it('shows the posting split into sections on the requirements tab', () => {
+    const state = {
+      jobs: [makeJob({
+        jobDescription: 'About Acme\nWe build billing software.\n\nRequirements:\n- 5+ years in growth\n\nBenefits\n- Equity and medical',
+      })],
+      activeTab: 'requirements' as const,
+      setActiveTab: vi.fn(),
+      setSelectedJob: vi.fn(),
+      scoreAndUpdateJob: vi.fn(),
+      moveJobToStage: vi.fn(),
+      updateJob: vi.fn(),
+    };
+
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    render(
+      <MemoryRouter initialEntries={['/job/job-1']}>
+        <Routes>
+          <Route path="/job/:jobId" element={<JobWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    const sections = screen.getByTestId('jd-sections');
+    expect(Array.from(sections.querySelectorAll('summary')).map((summary) => summary.textContent)).toEqual([
+      'About the companyAbout Acme',
+      'Requirements',
+      'Benefits',
+    ]);
+    expect(sections.textContent).toContain('Equity and medical');
+  });
+
+  it('saves a manual requirement match with supporting proof', async () => {
+    const requirement = {
+      type: 'experience' as const,
+      description: 'Lifecycle marketing',
+      yearsNeeded: 5,
+      priority: 'Must' as const,
+      match: 'Missing' as const,
+    };
+    const setRequirementOverride = vi.fn().mockResolvedValue(undefined);
+    const state = {
+      jobs: [makeJob({ requirementsExtracted: [requirement] })],
+      claims: [{
+        id: 'proof-1',
+        company: 'Acme',
+        role: 'Director of CRM',
+        startDate: 'Jan 2019',
+        responsibilities: [],
+        tools: [],
+        outcomes: [],
+        createdAt: '2026-02-10T00:00:00.000Z',
+      }],
+      activeTab: 'requirements' as const,
+      setActiveTab: vi.fn(),
+      setSelectedJob: vi.fn(),
+      scoreAndUpdateJob: vi.fn(),
+      moveJobToStage: vi.fn(),
+      updateJob: vi.fn(),
+      setRequirementOverride,
+    };
+
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    render(
+      <MemoryRouter initialEntries={['/job/job-1']}>
+        <Routes>
+          <Route path="/job/:jobId" element={<JobWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit match for Lifecycle marketing' }));
+    fireEvent.change(screen.getByLabelText('Match'), { target: { value: 'Met' } });
+    fireEvent.change(screen.getByLabelText('Supporting proof'), { target: { value: 'proof-1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(screen.queryByTestId('requirement-override-editor')).toBeNull());
+    expect(setRequirementOverride).toHaveBeenCalledWith('job-1', requirement, {
+      match: 'Met',
+      priority: 'Must',
+      claim: state.claims[0],
+    });
+  });
 });
@@ -1,11 +1,11 @@
 // @vitest-environment jsdom
 
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
 import { PipelinePage } from '../PipelinePage';
 import { useStore } from '../../store/useStore';
-import type { Job } from '../../types';
+import type { Job, Profile } from '../../types';
 
 vi.mock('../../store/useStore', () => ({
   useStore: vi.fn(),
@@ -94,4 +94,146 @@ describe('PipelinePage stage transitions', () => {
 
     expect(screen.getByText('Pass on this job')).toBeTruthy();
   });
+
+  it('filters pipeline cards by best-matching persona', () => {
+    const state = {
+      jobs: [
+        makeJob({ id: 'job-remote', title: 'VP Growth', bestPersonaId: 'p-remote' }),
+        makeJob({ id: 'job-hybrid', title: 'Director Lifecycle', bestPersonaId: 'p-hybrid' }),
+      ],
+      profile: {
+        personas: [
+          { id: 'p-remote', name: 'Remote VP', targetRoles: ['VP Growth'] },
+          { id: 'p-hybrid', name: 'Hybrid NYC', targetRoles: ['Director Lifecycle'] },
+        ],
+      } as unknown as Profile,
+      moveJobToStage: vi.fn(),
+    };
+
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    render(
+      <MemoryRouter>
+        <PipelinePage />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText('VP Growth')).toBeTruthy();
+    expect(screen.getByText('Director Lifecycle')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Hybrid NYC' }));
+
+    expect(screen.queryByText('VP Growth')).toBeNull();
+    expect(screen.getByText('Director Lifecycle')).toBeTruthy();
+  });
+
+  it('flags likely ghost postings and filters by posting health', () => {
+    const state = {
+      jobs: [
+        makeJob({
+          id: 'job-ghost',
+          title: 'Talent Pool Growth Lead',
+          stage: 'Captured',
+          jobDescription: 'We are always accepting applications for future opportunities on our growth team.',
+        }),
+        makeJob({ id: 'job-live', title: 'Director Lifecycle' }),
+      ],
+      activities: [],
+      moveJobToStage: vi.fn(),
+    };
+
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    render(
+      <MemoryRouter>
+        <PipelinePage />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText('Likely ghost')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Likely ghost (1)' }));
+
+    expect(screen.getByText('Talent Pool Growth Lead')).toBeTruthy();
+    expect(screen.queryByText('Director Lifecycle')).toBeNull();
+  });
+
+  it('imports new rows from a pasted spreadsheet and skips duplicates', async () => {
+    const importJobs = vi.fn(async (jobs: Partial<Job>[]) => jobs.map((job, index) => makeJob({ ...job, id: `new-${index}` })));
+    const state = {
+      jobs: [makeJob()],
+      activities: [],
+      moveJobToStage: vi.fn(),
+      importJobs,
+    };
+
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    render(
+      <MemoryRouter>
+        <PipelinePage />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+    fireEvent.change(screen.getByLabelText(/Paste rows with a header line/), {
+      target: {
+        value: 'Company\tPosition\tStatus\nAcme Corp\tSenior Growth Manager\tApplied\nBeta\tHead of Lifecycle\tPhone screen',
+      },
+    });
+
+    expect(screen.getByTestId('bulk-import-summary').textContent).toContain('1 ready');
+    expect(screen.getByText(/Same as a saved job/)).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1 job' }));
+
+    await waitFor(() => expect(screen.getByText(/Imported 1 job\./)).toBeTruthy());
+    expect(importJobs).toHaveBeenCalledWith([
+      { company: 'Beta', title: 'Head of Lifecycle', stage: 'Response/Screen' },
+    ]);
+  });
+
+  it('adds the kept postings from a job alert email as Discovered', async () => {
+    const importJobs = vi.fn(async (jobs: Partial<Job>[]) => jobs.map((job, index) => makeJob({ ...job, id: `new-${index}` })));
+    const state = {
+      jobs: [makeJob({ url: 'https://www.linkedin.com/jobs/view/111/' })],
+      activities: [],
+      moveJobToStage: vi.fn(),
+      importJobs,
+    };
+
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    render(
+      <MemoryRouter>
+        <PipelinePage />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Alert email' }));
+    fireEvent.change(screen.getByLabelText(/Paste a LinkedIn, Indeed or Glassdoor alert/), {
+      target: {
+        value: [
+          'Senior Growth Manager', 'Acme Corp', 'View job: https://www.linkedin.com/comm/jobs/view/111/?trk=a', '',
+          'Head of Lifecycle', 'Beta · Remote', 'View job: https://www.linkedin.com/comm/jobs/view/222/?trk=b', '',
+          'Growth Analyst', 'Gamma', 'View job: https://www.linkedin.com/comm/jobs/view/333/?trk=c',
+        ].join('\n'),
+      },
+    });
+
+    expect(screen.getByTestId('alert-digest-summary').textContent).toContain('3 jobs from LinkedIn');
+    expect(screen.getByText(/Already in pipeline/)).toBeTruthy();
+    fireEvent.click(screen.getByLabelText('Keep Growth Analyst'));
+    fireEvent.click(screen.getByRole('button', { name: 'Add 1 to pipeline' }));
+
+    await waitFor(() => expect(screen.getByText(/Added 1 job to the pipeline/)).toBeTruthy());
+    expect(importJobs).toHaveBeenCalledWith([{
+      title: 'Head of Lifecycle',
+      company: 'Beta',
+      location: 'Remote',
+      locationType: 'Remote',
+      url: 'https://www.linkedin.com/jobs/view/222/',
+      source: 'LinkedIn',
+      stage: 'Discovered',
+    }]);
+  });
 });
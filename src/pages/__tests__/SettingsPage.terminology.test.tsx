@@ -78,4 +78,44 @@ describe('SettingsPage terminology guard', () => {
     fireEvent.click(screen.getByRole('button', { name: /Advanced preferences/i }));
     expect(screen.getByText(/Preferred Benefits/i)).toBeTruthy();
   });
+
+  it('simulates a profile change from the What-if tab without saving it', () => {
+    const jobs = [{
+      id: 'job-1',
+      title: 'Director of Growth',
+      company: 'Acme',
+      locationType: 'Hybrid',
+      employmentType: 'Full-time',
+      jobDescription: 'Lead growth for a Series C company. In office 3 days per week.',
+      stage: 'Scored',
+      stageTimestamps: {},
+      disqualifiers: [],
+      reasonsToPursue: [],
+      reasonsToPass: [],
+      redFlags: [],
+      requirementsExtracted: [],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    }];
+    const simulatorState = {
+      ...state,
+      profile: { ...state.profile, hardFilters: { ...state.profile.hardFilters, maxOnsiteDaysPerWeek: 2 } },
+      jobs,
+      claims: [],
+    };
+    mockUseStore.mockImplementation((selector: (store: typeof simulatorState) => unknown) => selector(simulatorState));
+
+    render(<SettingsPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: /What-if/i }));
+    const run = screen.getByRole('button', { name: /Run simulation/i }) as HTMLButtonElement;
+    expect(run.disabled).toBe(true);
+
+    fireEvent.change(screen.getByLabelText(/Max onsite days/i), { target: { value: '3' } });
+    fireEvent.click(run);
+
+    expect(screen.getByTestId('what-if-result').textContent).toContain('1 no longer disqualified');
+    expect(screen.getByText(/Onsite requirement \(3 days\/week\) exceeds your max \(2\)/)).toBeTruthy();
+    expect(simulatorState.updateProfile).not.toHaveBeenCalled();
+  });
 });
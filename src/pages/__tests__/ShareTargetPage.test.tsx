@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
+import { ShareTargetPage } from '../ShareTargetPage';
+import { useStore } from '../../store/useStore';
+import type { PendingShare } from '../../types';
+
+vi.mock('../../store/useStore', () => ({
+  useStore: vi.fn(),
+}));
+
+const mockUseStore = useStore as unknown as Mock;
+
+describe('ShareTargetPage', () => {
+  const opened: unknown[] = [];
+  const onOpen = (event: Event) => opened.push((event as CustomEvent).detail);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    opened.length = 0;
+    window.addEventListener('open-capture-modal', onOpen);
+  });
+
+  afterEach(() => {
+    window.removeEventListener('open-capture-modal', onOpen);
+  });
+
+  it('queues the share, returns to the pipeline and opens capture prefilled', async () => {
+    const queueShare = vi.fn(async (share: Pick<PendingShare, 'title' | 'text' | 'url'>): Promise<PendingShare> => ({
+      id: 'share-1',
+      ...share,
+      createdAt: '2026-03-01T00:00:00.000Z',
+    }));
+    const state = { queueShare };
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    const text = 'Check out this job at Acme: Director of Growth https://www.linkedin.com/jobs/view/3912345678/';
+    render(
+      <MemoryRouter initialEntries={[`/share-target?text=${encodeURIComponent(text)}`]}>
+        <Routes>
+          <Route path="/share-target" element={<ShareTargetPage />} />
+          <Route path="/pipeline" element={<p>Pipeline</p>} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => expect(screen.getByText('Pipeline')).toBeTruthy());
+    expect(queueShare).toHaveBeenCalledTimes(1);
+    expect(queueShare).toHaveBeenCalledWith({ text });
+    expect(opened).toEqual([{
+      title: 'Director of Growth',
+      company: 'Acme',
+      url: 'https://www.linkedin.com/jobs/view/3912345678/',
+      source: 'LinkedIn',
+      shareId: 'share-1',
+    }]);
+  });
+
+  it('goes straight to the pipeline when nothing was shared', async () => {
+    const queueShare = vi.fn();
+    const state = { queueShare };
+    mockUseStore.mockImplementation((selector: (store: typeof state) => unknown) => selector(state));
+
+    render(
+      <MemoryRouter initialEntries={['/share-target']}>
+        <Routes>
+          <Route path="/share-target" element={<ShareTargetPage />} />
+          <Route path="/pipeline" element={<p>Pipeline</p>} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => expect(screen.getByText('Pipeline')).toBeTruthy());
+    expect(queueShare).not.toHaveBeenCalled();
+    expect(opened).toEqual([]);
+  });
+});
@@ -6,9 +6,23 @@ import { create } from 'zustand';
 import { db, generateId, seedDefaultProfile } from '../db';
 import { scoreJob } from '../lib/scoring';
 import { parseCompFromText } from '../lib/scoring';
+import { buildScoreUpdates, isRescorable } from '../lib/rescore';
+import { mergeJobFields } from '../lib/jobDuplicates';
 import { isClosedWonDemotionBlocked } from '../lib/stageTransitions';
 import { clearImportSession, loadImportSession, saveImportSession } from '../lib/importSessionStorage';
 import { defaultAutoUseForStatus, getAutoUsableProofs, normalizeProofStatus } from '../lib/proofLibrary';
+import {
+  removeRequirementOverride,
+  upsertRequirementOverride,
+  type RequirementOverrideChanges,
+} from '../lib/requirementOverrides';
+import {
+  createGapItem,
+  findMetGapItems,
+  isActiveGapItem,
+  jobsWithActiveGaps,
+  type GapGroup,
+} from '../lib/gapPlan';
 import type {
   Job,
   Company,
@@ -22,6 +36,10 @@ import type {
   GenerationLog,
   ApplicationAnswer,
   ImportSession,
+  Requirement,
+  GapItem,
+  PendingShare,
+  GapItemKind,
 } from '../types';
 
 interface AppState {
@@ -36,6 +54,8 @@ interface AppState {
   claims: Claim[];
   generationLogs: GenerationLog[];
   applicationAnswers: ApplicationAnswer[];
+  gapItems: GapItem[];
+  pendingShares: PendingShare[];
 
   // UI state
   selectedJobId: string | null;
@@ -46,10 +66,14 @@ interface AppState {
   // Actions
   initialize: () => Promise<void>;
   addJob: (job: Partial<Job>) => Promise<Job>;
+  importJobs: (jobs: Partial<Job>[]) => Promise<Job[]>;
   updateJob: (id: string, updates: Partial<Job>) => Promise<void>;
   deleteJob: (id: string) => Promise<void>;
+  mergeJobs: (survivorId: string, duplicateIds: string[]) => Promise<void>;
   moveJobToStage: (id: string, stage: PipelineStage) => Promise<void>;
   scoreAndUpdateJob: (id: string) => Promise<void>;
+  setRequirementOverride: (jobId: string, requirement: Requirement, changes: RequirementOverrideChanges | null) => Promise<void>;
+  rescoreAllJobs: () => Promise<number>;
   addCompany: (company: Partial<Company>) => Promise<Company>;
   updateCompany: (id: string, updates: Partial<Company>) => Promise<void>;
   addContact: (contact: Partial<Contact>) => Promise<Contact>;
@@ -66,6 +90,12 @@ interface AppState {
   addApplicationAnswer: (answer: Partial<ApplicationAnswer>) => Promise<ApplicationAnswer>;
   updateApplicationAnswer: (id: string, updates: Partial<ApplicationAnswer>) => Promise<void>;
   deleteApplicationAnswer: (id: string) => Promise<void>;
+  addGapItem: (group: Pick<GapGroup, 'key' | 'type' | 'description'>, kind: GapItemKind) => Promise<GapItem>;
+  updateGapItem: (id: string, updates: Partial<GapItem>) => Promise<void>;
+  deleteGapItem: (id: string) => Promise<void>;
+  syncGapItems: (options?: { rescore?: boolean }) => Promise<void>;
+  queueShare: (share: Pick<PendingShare, 'title' | 'text' | 'url'>) => Promise<PendingShare>;
+  removePendingShare: (id: string) => Promise<void>;
   setSelectedJob: (id: string | null) => void;
   setActiveTab: (tab: 'score' | 'requirements' | 'research' | 'assets' | 'crm' | 'qa') => void;
   setImportSession: (session: ImportSession | null) => void;
@@ -73,6 +103,63 @@ interface AppState {
   refreshData: () => Promise<void>;
 }
 
+/**
+ * A new job record from captured or imported fields. Imports may carry a
+ * stage and the date the job was first tracked; captures start as Captured
+ * (with a JD) or Discovered.
+ */
+function buildJobRecord(jobData: Partial<Job>, now: string): Job {
+  const comp = parseCompFromText(jobData.jobDescription || '');
+  const stage: PipelineStage = jobData.stage ?? (jobData.jobDescription ? 'Captured' : 'Discovered');
+  const createdAt = jobData.createdAt ?? now;
+
+  return {
+    id: generateId(),
+    title: jobData.title || '',
+    company: jobData.company || '',
+    companyId: jobData.companyId,
+    url: jobData.url,
+    location: jobData.location,
+    locationType: jobData.locationType || 'Unknown',
+    employmentType: jobData.employmentType || 'Full-time',
+    compRange: jobData.compRange || comp.range,
+    compMin: jobData.compMin || comp.min,
+    compMax: jobData.compMax || comp.max,
+    jobDescription: jobData.jobDescription || '',
+    stage,
+    stageTimestamps: { [stage]: createdAt },
+    fitScore: undefined,
+    fitLabel: undefined,
+    disqualifiers: [],
+    riskWarnings: [],
+    reasonsToPursue: [],
+    reasonsToPass: [],
+    gapSuggestions: [],
+    mustHaveSummary: undefined,
+    redFlags: [],
+    requirementsExtracted: [],
+    notes: jobData.notes,
+    source: jobData.source,
+    postedAt: jobData.postedAt,
+    closesAt: jobData.closesAt,
+    scoringInputs: jobData.scoringInputs,
+    captureSnapshot: jobData.captureSnapshot,
+    createdAt,
+    updatedAt: now,
+  };
+}
+
+function buildCompanyRecord(name: string, now: string): Company {
+  return {
+    id: generateId(),
+    name,
+    stage: 'Unknown',
+    riskFlags: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
 export const useStore = create<AppState>((set, get) => ({
   // Initial state
   jobs: [],
@@ -85,6 +172,8 @@ export const useStore = create<AppState>((set, get) => ({
   claims: [],
   generationLogs: [],
   applicationAnswers: [],
+  gapItems: [],
+  pendingShares: [],
   selectedJobId: null,
   activeTab: 'score',
   isLoading: true,
@@ -96,7 +185,7 @@ export const useStore = create<AppState>((set, get) => ({
 
   initialize: async () => {
     await seedDefaultProfile();
-    const [jobs, companies, contacts, contactJobLinks, activities, assets, claims, generationLogs, applicationAnswers] = await Promise.all([
+    const [jobs, companies, contacts, contactJobLinks, activities, assets, claims, generationLogs, applicationAnswers, gapItems, pendingShares] = await Promise.all([
       db.jobs.orderBy('updatedAt').reverse().toArray(),
       db.companies.toArray(),
       db.contacts.toArray(),
@@ -106,6 +195,8 @@ export const useStore = create<AppState>((set, get) => ({
       db.claims.toArray(),
       db.generationLogs.orderBy('createdAt').reverse().toArray(),
       db.applicationAnswers.toArray(),
+      db.gapItems.orderBy('createdAt').toArray(),
+      db.pendingShares.orderBy('createdAt').toArray(),
     ]);
     const profile = await db.profiles.get('default');
 
@@ -120,12 +211,14 @@ export const useStore = create<AppState>((set, get) => ({
       claims,
       generationLogs,
       applicationAnswers,
+      gapItems,
+      pendingShares,
       isLoading: false,
     });
   },
 
   refreshData: async () => {
-    const [jobs, companies, contacts, contactJobLinks, activities, assets, claims, generationLogs, applicationAnswers] = await Promise.all([
+    const [jobs, companies, contacts, contactJobLinks, activities, assets, claims, generationLogs, applicationAnswers, gapItems, pendingShares] = await Promise.all([
       db.jobs.orderBy('updatedAt').reverse().toArray(),
       db.companies.toArray(),
       db.contacts.toArray(),
@@ -135,9 +228,11 @@ export const useStore = create<AppState>((set, get) => ({
       db.claims.toArray(),
       db.generationLogs.orderBy('createdAt').reverse().toArray(),
       db.applicationAnswers.toArray(),
+      db.gapItems.orderBy('createdAt').toArray(),
+      db.pendingShares.orderBy('createdAt').toArray(),
     ]);
     const profile = await db.profiles.get('default');
-    set({ jobs, companies, contacts, contactJobLinks, activities, assets, profile: profile || null, claims, generationLogs, applicationAnswers });
+    set({ jobs, companies, contacts, contactJobLinks, activities, assets, profile: profile || null, claims, generationLogs, applicationAnswers, gapItems, pendingShares });
   },
 
   // --------------------------------------------------------
@@ -146,40 +241,7 @@ export const useStore = create<AppState>((set, get) => ({
 
   addJob: async (jobData) => {
     const now = new Date().toISOString();
-    const comp = parseCompFromText(jobData.jobDescription || '');
-
-    const job: Job = {
-      id: generateId(),
-      title: jobData.title || '',
-      company: jobData.company || '',
-      companyId: jobData.companyId,
-      url: jobData.url,
-      location: jobData.location,
-      locationType: jobData.locationType || 'Unknown',
-      employmentType: jobData.employmentType || 'Full-time',
-      compRange: jobData.compRange || comp.range,
-      compMin: jobData.compMin || comp.min,
-      compMax: jobData.compMax || comp.max,
-      jobDescription: jobData.jobDescription || '',
-      stage: jobData.jobDescription ? 'Captured' : 'Discovered',
-      stageTimestamps: {
-        [jobData.jobDescription ? 'Captured' : 'Discovered']: now,
-      },
-      fitScore: undefined,
-      fitLabel: undefined,
-      disqualifiers: [],
-      riskWarnings: [],
-      reasonsToPursue: [],
-      reasonsToPass: [],
-      gapSuggestions: [],
-      mustHaveSummary: undefined,
-      redFlags: [],
-      requirementsExtracted: [],
-      notes: jobData.notes,
-      source: jobData.source,
-      createdAt: now,
-      updatedAt: now,
-    };
+    const job = buildJobRecord(jobData, now);
 
     await db.jobs.add(job);
 
@@ -189,14 +251,7 @@ export const useStore = create<AppState>((set, get) => ({
         (c) => c.name.toLowerCase() === job.company.toLowerCase()
       );
       if (!existingCompany) {
-        const company: Company = {
-          id: generateId(),
-          name: job.company,
-          stage: 'Unknown',
-          riskFlags: [],
-          createdAt: now,
-          updatedAt: now,
-        };
+        const company = buildCompanyRecord(job.company, now);
         await db.companies.add(company);
         job.companyId = company.id;
         await db.jobs.update(job.id, { companyId: company.id });
@@ -216,6 +271,47 @@ export const useStore = create<AppState>((set, get) => ({
     return job;
   },
 
+  importJobs: async (jobsData) => {
+    const now = new Date().toISOString();
+    const companiesByName = new Map(get().companies.map((c) => [c.name.toLowerCase(), c]));
+    const newCompanies: Company[] = [];
+
+    const jobs = jobsData.map((jobData) => {
+      const job = buildJobRecord(jobData, now);
+      if (job.company) {
+        const key = job.company.toLowerCase();
+        let company = companiesByName.get(key);
+        if (!company) {
+          company = buildCompanyRecord(job.company, now);
+          companiesByName.set(key, company);
+          newCompanies.push(company);
+        }
+        job.companyId = company.id;
+      }
+      return job;
+    });
+
+    await db.companies.bulkAdd(newCompanies);
+    await db.jobs.bulkAdd(jobs);
+
+    // Score everything in one pass instead of once per row
+    const profile = get().profile;
+    if (!profile) {
+      await get().refreshData();
+      return jobs;
+    }
+
+    const claims = getAutoUsableProofs(get().claims);
+    for (const job of jobs.filter(isRescorable)) {
+      const updates = buildScoreUpdates(job, scoreJob(job, profile, claims), { profile, claims, now });
+      await db.jobs.update(job.id, updates);
+      Object.assign(job, updates);
+    }
+
+    await get().syncGapItems();
+    return jobs;
+  },
+
   updateJob: async (id, updates) => {
     await db.jobs.update(id, { ...updates, updatedAt: new Date().toISOString() });
     await get().refreshData();
@@ -235,6 +331,48 @@ export const useStore = create<AppState>((set, get) => ({
     await get().refreshData();
   },
 
+  mergeJobs: async (survivorId, duplicateIds) => {
+    const survivor = await db.jobs.get(survivorId);
+    const duplicates = (await db.jobs.bulkGet(duplicateIds))
+      .filter((job): job is Job => Boolean(job) && job?.id !== survivorId);
+    if (!survivor || duplicates.length === 0) return;
+
+    const ids = duplicates.map((job) => job.id);
+    await db.jobs.update(survivorId, mergeJobFields(survivor, duplicates, new Date().toISOString()));
+
+    // Move everything attached to the duplicates onto the survivor.
+    await db.activities.where('jobId').anyOf(ids).modify({ jobId: survivorId });
+    await db.assets.where('jobId').anyOf(ids).modify({ jobId: survivorId });
+    await db.outcomes.where('jobId').anyOf(ids).modify({ jobId: survivorId });
+    await db.applicationAnswers.where('jobId').anyOf(ids).modify({ jobId: survivorId });
+    await db.generationLogs.where('jobId').anyOf(ids).modify({ jobId: survivorId });
+
+    // One link per contact: drop links the survivor already has.
+    const linkedContactIds = new Set(
+      (await db.contactJobLinks.where('jobId').equals(survivorId).toArray()).map((link) => link.contactId),
+    );
+    for (const link of await db.contactJobLinks.where('jobId').anyOf(ids).toArray()) {
+      if (linkedContactIds.has(link.contactId)) {
+        await db.contactJobLinks.delete(link.id);
+      } else {
+        linkedContactIds.add(link.contactId);
+        await db.contactJobLinks.update(link.id, { jobId: survivorId });
+      }
+    }
+
+    await db.jobs.bulkDelete(ids);
+    if (ids.includes(get().selectedJobId ?? '')) {
+      set({ selectedJobId: survivorId });
+    }
+
+    // The merged JD may be fuller than the survivor's own.
+    if (get().profile) {
+      await get().scoreAndUpdateJob(survivorId);
+    } else {
+      await get().refreshData();
+    }
+  },
+
   moveJobToStage: async (id, stage) => {
     const job = await db.jobs.get(id);
     if (!job) return;
@@ -267,31 +405,45 @@ export const useStore = create<AppState>((set, get) => ({
 
     const claims = getAutoUsableProofs(get().claims);
     const result = scoreJob(job, profile, claims);
+    const updates = buildScoreUpdates(job, result, { profile, claims, now: new Date().toISOString() });
+
+    await db.jobs.update(id, updates);
+    await get().syncGapItems();
+  },
+
+  setRequirementOverride: async (jobId, requirement, changes) => {
+    const job = await db.jobs.get(jobId);
+    if (!job) return;
+
     const now = new Date().toISOString();
+    const requirementOverrides = changes
+      ? upsertRequirementOverride(job.requirementOverrides, requirement, changes, now)
+      : removeRequirementOverride(job.requirementOverrides, requirement);
+    await db.jobs.update(jobId, { requirementOverrides, updatedAt: now });
+
+    // Re-score so the requirement list, must-have summary, and gap
+    // suggestions all reflect the override.
+    if (get().profile) {
+      await get().scoreAndUpdateJob(jobId);
+    } else {
+      await get().refreshData();
+    }
+  },
 
-    const updates: Partial<Job> = {
-      fitScore: result.fitScore,
-      fitLabel: result.fitLabel,
-      disqualifiers: result.disqualifiers,
-      riskWarnings: result.riskWarnings,
-      reasonsToPursue: result.reasonsToPursue,
-      reasonsToPass: result.reasonsToPass,
-      gapSuggestions: result.gapSuggestions,
-      mustHaveSummary: result.mustHaveSummary,
-      redFlags: result.redFlags,
-      requirementsExtracted: result.requirementsExtracted,
-      scoreBreakdown: result.breakdown,
-      updatedAt: now,
-    };
+  rescoreAllJobs: async () => {
+    const profile = get().profile;
+    if (!profile) return 0;
+
+    const jobs = (await db.jobs.toArray()).filter(isRescorable);
+    const claims = getAutoUsableProofs(get().claims);
+    const now = new Date().toISOString();
 
-    // Auto-advance to Scored if currently Captured
-    if (job.stage === 'Captured') {
-      updates.stage = 'Scored';
-      updates.stageTimestamps = { ...job.stageTimestamps, Scored: now };
+    for (const job of jobs) {
+      await db.jobs.update(job.id, buildScoreUpdates(job, scoreJob(job, profile, claims), { profile, claims, now }));
     }
 
-    await db.jobs.update(id, updates);
-    await get().refreshData();
+    await get().syncGapItems();
+    return jobs.length;
   },
 
   // --------------------------------------------------------
@@ -493,7 +645,12 @@ export const useStore = create<AppState>((set, get) => ({
       createdAt: now,
     };
     await db.claims.add(claim);
-    await get().refreshData();
+    // A new proof can turn a tracked gap into a Met requirement.
+    if (get().gapItems.some(isActiveGapItem)) {
+      await get().syncGapItems({ rescore: true });
+    } else {
+      await get().refreshData();
+    }
     return claim;
   },
 
@@ -558,6 +715,71 @@ export const useStore = create<AppState>((set, get) => ({
     await get().refreshData();
   },
 
+  // --------------------------------------------------------
+  // Gap Plan
+  // --------------------------------------------------------
+
+  addGapItem: async (group, kind) => {
+    const item = createGapItem(group, kind, generateId(), new Date().toISOString());
+    await db.gapItems.add(item);
+    await get().refreshData();
+    return item;
+  },
+
+  updateGapItem: async (id, updates) => {
+    await db.gapItems.update(id, { ...updates, updatedAt: new Date().toISOString() });
+    await get().refreshData();
+  },
+
+  deleteGapItem: async (id) => {
+    await db.gapItems.delete(id);
+    await get().refreshData();
+  },
+
+  syncGapItems: async (options = {}) => {
+    const items = await db.gapItems.toArray();
+    const profile = get().profile;
+    const now = new Date().toISOString();
+
+    // Re-score only the jobs an open item is waiting on, reading proofs
+    // from the db so a just-added one is included.
+    if (options.rescore && profile) {
+      const claims = getAutoUsableProofs(await db.claims.toArray());
+      const jobs = jobsWithActiveGaps(items, await db.jobs.toArray()).filter(isRescorable);
+      for (const job of jobs) {
+        await db.jobs.update(job.id, buildScoreUpdates(job, scoreJob(job, profile, claims), { profile, claims, now }));
+      }
+    }
+
+    for (const { id, updates } of findMetGapItems(items, await db.jobs.toArray(), now)) {
+      await db.gapItems.update(id, updates);
+    }
+
+    await get().refreshData();
+  },
+
+  // --------------------------------------------------------
+  // Shared jobs
+  // --------------------------------------------------------
+
+  queueShare: async (shareData) => {
+    const share: PendingShare = {
+      id: generateId(),
+      title: shareData.title,
+      text: shareData.text,
+      url: shareData.url,
+      createdAt: new Date().toISOString(),
+    };
+    await db.pendingShares.add(share);
+    await get().refreshData();
+    return share;
+  },
+
+  removePendingShare: async (id) => {
+    await db.pendingShares.delete(id);
+    await get().refreshData();
+  },
+
   // --------------------------------------------------------
   // UI State
   // --------------------------------------------------------
@@ -100,7 +100,9 @@ export interface Job {
   compRange?: string;
   compMin?: number;
   compMax?: number;
+  compNormalized?: NormalizedComp;
   jobDescription: string;
+  jdSections?: JdSection[];
   stage: PipelineStage;
   stageTimestamps: Partial<Record<PipelineStage, string>>;
   fitScore?: number;
@@ -113,15 +115,49 @@ export interface Job {
   mustHaveSummary?: MustHaveSummary;
   redFlags: string[];
   requirementsExtracted: Requirement[];
+  requirementOverrides?: RequirementOverride[];
   scoreBreakdown?: ScoreBreakdownStored;
+  scoreTrace?: ScoreTraceEntry[];
+  scoreHistory?: ScoreHistoryEntry[];
+  personaScores?: PersonaScore[];
+  bestPersonaId?: string;
   scoringInputs?: JobScoringInputs;
   researchBrief?: ResearchBrief;
   notes?: string;
   source?: string;
+  /** Every capture of this posting, kept when duplicates are merged into it. */
+  sources?: JobSource[];
+  /** Posting date the page declared (JobPosting `datePosted`) or the JD stated. */
+  postedAt?: string;
+  /** Application deadline stated in the JD. */
+  closesAt?: string;
+  /** The page source or JSON-LD the job was filled from, as pasted. */
+  captureSnapshot?: CaptureSnapshot;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface JobSource {
+  source?: string;
+  url?: string;
+  capturedAt: string;
+}
+
+export interface CaptureSnapshot {
+  format: 'html' | 'json-ld';
+  content: string;
+  capturedAt: string;
+}
+
+/** A job shared to the installed app from another app, kept until it is captured. */
+export interface PendingShare {
+  id: string;
+  title?: string;
+  text?: string;
+  url?: string;
+  createdAt: string;
+}
+
 export interface JobScoringInputs {
   mustHaveRequirements: string[];
   experienceRequirements: string[];
@@ -142,6 +178,44 @@ export interface Requirement {
   match: RequirementMatch;
   evidence?: string;
   jdExcerpt?: string;
+  /** What scoring found before a manual override was applied. */
+  scored?: Pick<Requirement, 'match' | 'priority' | 'evidence'>;
+}
+
+/**
+ * A manual match/priority decision for one requirement. Keyed on the
+ * requirement description so it survives re-scoring.
+ */
+export interface RequirementOverride {
+  key: string;
+  type: Requirement['type'];
+  description: string;
+  match?: RequirementMatch;
+  priority?: RequirementPriority;
+  claimId?: string;
+  /** Evidence text captured from the attached proof when the override was saved. */
+  evidence?: string;
+  updatedAt: string;
+}
+
+export type CompPayPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/** Job comp as annual base pay in the profile's currency. */
+export interface NormalizedComp {
+  /** 'fields' = compMin/compMax taken as annual profile-currency amounts. */
+  source: 'fields' | 'text';
+  sourceText?: string;
+  currency: string;
+  period: CompPayPeriod;
+  isOte: boolean;
+  baseSharePercent?: number;
+  hasEquity: boolean;
+  /** Undefined when the FX table has no rate for `currency`. */
+  annualMin?: number;
+  annualMax?: number;
+  profileCurrency: string;
+  fxRate?: number;
+  notes: string[];
 }
 
 export interface ScoreBreakdownStored {
@@ -152,6 +226,60 @@ export interface ScoreBreakdownStored {
   riskPenalty: number;
 }
 
+export interface ScoreHistoryEntry {
+  scoredAt: string;
+  /** 0 marks a score recorded before history tracking began. */
+  engineVersion: number;
+  profileHash: string;
+  evidenceHash: string;
+  jobHash: string;
+  fitScore: number;
+  fitLabel: FitLabel;
+  breakdown?: ScoreBreakdownStored;
+  reasonsToPursue: string[];
+  reasonsToPass: string[];
+  disqualifiers: string[];
+}
+
+export type ScoreTraceCategory =
+  | 'disqualifier'
+  | 'roleScopeAuthority'
+  | 'compensationBenefits'
+  | 'companyStageAbility'
+  | 'domainFit'
+  | 'riskPenalty'
+  | 'adjustment';
+
+/** Character range into `Job.jobDescription` (end exclusive). */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export type JdSectionKind =
+  | 'about'
+  | 'responsibilities'
+  | 'requirements'
+  | 'preferred'
+  | 'benefits'
+  | 'compensation'
+  | 'legal'
+  | 'other';
+
+/** A headed block of `Job.jobDescription`; `start`/`end` follow `TextSpan`. */
+export interface JdSection extends TextSpan {
+  kind: JdSectionKind;
+  heading?: string;
+}
+
+export interface ScoreTraceEntry {
+  ruleId: string;
+  category: ScoreTraceCategory;
+  label: string;
+  points: number;
+  spans: TextSpan[];
+}
+
 export interface Company {
   id: string;
   name: string;
@@ -278,6 +406,43 @@ export interface LocationPreference {
   willingToRelocate: boolean;
 }
 
+export type OntologyTermKind = 'tool' | 'skill';
+
+/** One skill or tool in the shared vocabulary used by resume import and requirement matching. */
+export interface OntologyTerm {
+  canonical: string;
+  kind: OntologyTermKind;
+  aliases?: string[];
+  /** Broader term, e.g. "CRM" for Salesforce. */
+  parent?: string;
+  related?: string[];
+  /** Umbrella term ("CRM"). Matched in job descriptions, never read from a resume as a tool. */
+  category?: boolean;
+  /** Short or everyday-word names ("Make", "Excel") that only count when capitalized. */
+  caseSensitive?: boolean;
+}
+
+/** A degree or certification, imported from the resume or entered by hand. */
+export interface CredentialRecord {
+  id: string;
+  kind: 'degree' | 'certification';
+  /** "MBA", "B.S.", "PMP". */
+  name: string;
+  field?: string;
+  institution?: string;
+  year?: number;
+  source: 'resume' | 'manual';
+}
+
+export interface RemotePreferences {
+  /** ISO 3166-1 alpha-2 code of the country you work from. */
+  homeCountry?: string;
+  /** IANA time zone, e.g. "America/Chicago". */
+  timeZone?: string;
+  /** Fewest hours of a 9-5 workday that must overlap a remote team's hours. */
+  minOverlapHours?: number;
+}
+
 export interface HardFilters {
   requiresVisaSponsorship: boolean;
   minBaseSalary: number;
@@ -290,6 +455,93 @@ export interface ScoringPolicy {
   seedStagePolicy: SeedStagePolicy;
 }
 
+export interface ScoringWeights {
+  roleScopeAuthority: number;
+  compensationBenefits: number;
+  companyStageAbility: number;
+  domainFit: number;
+  riskPenaltyMax: number;
+}
+
+export interface ScoreThresholds {
+  pursueMin: number;
+  maybeMin: number;
+}
+
+export type RoleFamilyId = 'growth_marketing' | 'engineering' | 'product' | 'data' | 'sales' | 'design';
+
+export interface RiskSignalRule {
+  pattern: string;
+  penalty: number;
+  flag: string;
+}
+
+export interface ScoringLexicon {
+  roleFamily: RoleFamilyId;
+  seniorTitles: string[];
+  strategySignals: string[];
+  teamSignals: string[];
+  domainSignals: string[];
+  excludedRoleKeywords: string[];
+  excludedDutyPhrases: string[];
+  excludedRoleLabel: string;
+  riskSignals: RiskSignalRule[];
+}
+
+/**
+ * A named search run alongside others on one profile. Set fields replace the
+ * profile's own values when scoring; unset fields fall through.
+ */
+export interface TargetPersona {
+  id: string;
+  name: string;
+  targetRoles: string[];
+  compFloor?: number;
+  compTarget?: number;
+  locationPreferences?: LocationPreference[];
+  willingToRelocate?: boolean;
+  hardFilters?: Partial<HardFilters>;
+}
+
+export type CustomRuleField = 'jobDescription' | 'title' | 'company' | 'compensation' | 'location';
+export type CustomRuleOperator = 'contains' | 'not_contains' | 'below' | 'at_least';
+export type CustomRuleAction = 'disqualify' | 'warn' | 'points';
+
+export interface CustomRuleCondition {
+  field: CustomRuleField;
+  /** Text fields use contains/not_contains; compensation uses below/at_least. */
+  operator: CustomRuleOperator;
+  value: string;
+}
+
+/**
+ * A user-defined scoring rule. Fires when all (or any) conditions hold and
+ * then disqualifies, warns, or adds `points` (negative to subtract).
+ */
+export interface CustomScoringRule {
+  id: string;
+  label: string;
+  enabled: boolean;
+  match: 'all' | 'any';
+  conditions: CustomRuleCondition[];
+  action: CustomRuleAction;
+  points?: number;
+}
+
+/** One unit of `currency` is worth `rate` units of the profile currency. */
+export interface FxRate {
+  currency: string;
+  rate: number;
+  updatedAt?: string;
+}
+
+export interface PersonaScore {
+  personaId: string;
+  personaName: string;
+  fitScore: number;
+  fitLabel: FitLabel;
+}
+
 export interface MustHaveSummary {
   total: number;
   met: number;
@@ -318,16 +570,28 @@ export interface Profile {
   tools?: string[];
   compFloor: number;
   compTarget: number;
+  /** ISO 4217 code that compFloor/compTarget are in. Defaults to USD. */
+  compCurrency?: string;
+  fxRates?: FxRate[];
   requiredBenefits: string[];
   preferredBenefits: string[];
   locationPreference: string;
   disqualifiers: string[];
   locationPreferences: LocationPreference[];
   willingToRelocate: boolean;
+  remotePreferences?: RemotePreferences;
   requiredBenefitIds: string[];
   preferredBenefitIds: string[];
   hardFilters: HardFilters;
   scoringPolicy?: ScoringPolicy;
+  scoringLexicon?: ScoringLexicon;
+  scoringWeights?: ScoringWeights;
+  scoreThresholds?: ScoreThresholds;
+  personas?: TargetPersona[];
+  customRules?: CustomScoringRule[];
+  credentials?: CredentialRecord[];
+  /** User additions to the built-in skill/tool vocabulary. */
+  ontologyTerms?: OntologyTerm[];
   digitalResume?: ImportDraft;
   updatedAt: string;
 }
@@ -384,6 +648,8 @@ export interface ImportDraftCompany {
 
 export interface ImportDraft {
   companies: ImportDraftCompany[];
+  /** Degrees and certifications read from the EDUCATION section. */
+  credentials?: CredentialRecord[];
 }
 
 export interface ParseDiagnostics {
@@ -595,6 +861,32 @@ export interface AnswerSource {
   excerpt: string;
 }
 
+// ============================================================
+// Gap Plan
+// ============================================================
+
+export type GapItemKind = 'learning' | 'proof' | 'talking_point';
+/** 'closed' is set automatically once the requirement is Met everywhere it was missing. */
+export type GapItemStatus = 'open' | 'in_progress' | 'done' | 'closed';
+
+/** A tracked plan for one missing or partial requirement, shared across jobs. */
+export interface GapItem {
+  id: string;
+  /** Fuzzy requirement key (see `requirementKey`). */
+  key: string;
+  type: Requirement['type'];
+  description: string;
+  kind: GapItemKind;
+  status: GapItemStatus;
+  /** YYYY-MM-DD */
+  dueDate?: string;
+  notes?: string;
+  closedReason?: string;
+  closedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ============================================================
 // Dashboard Types
 // ============================================================